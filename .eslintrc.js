@@ -46,6 +46,12 @@ module.exports = {
         '@typescript-eslint/no-var-requires': 'off'
       }
     },
+    {
+      files: ['scripts/**/*.js'],
+      env: {
+        node: true
+      }
+    },
     {
       files: ['supabase/functions/**/*.ts'],
       rules: {
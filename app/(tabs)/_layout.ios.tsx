@@ -7,19 +7,21 @@ import { colors } from '@/styles/commonStyles';
 import { CameraView, useCameraPermissions, CameraType } from 'expo-camera';
 import { usePathname, useRouter, Stack } from 'expo-router';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
-import { useVideoRecording } from '@/contexts/VideoRecordingContext';
+import { useVideoRecording, RecordingBook } from '@/contexts/VideoRecordingContext';
 import { useChild } from '@/contexts/ChildContext';
 import { useCameraTrigger } from '@/contexts/CameraTriggerContext';
 import { useWordNavigation } from '@/contexts/WordNavigationContext';
 import { useAddNavigation } from '@/contexts/AddNavigationContext';
+import { useMomentUploads } from '@/contexts/MomentUploadsContext';
+import { MEDIA_TYPE_LABELS } from '@/utils/momentUploads';
 import SelectWordBottomSheet from '@/components/SelectWordBottomSheet';
 import VideoPreviewModal from '@/components/VideoPreviewModal';
+import AudioRecorderModal, { RecordedAudio } from '@/components/AudioRecorderModal';
 import ToastNotification from '@/components/ToastNotification';
 import AddOptionsModal from '@/components/AddOptionsModal';
 import { BottomSheetModal } from '@gorhom/bottom-sheet';
 import { supabase } from '@/app/integrations/supabase/client';
 import { File } from 'expo-file-system';
-import { generateVideoThumbnail, uploadThumbnailToSupabase, uploadVideoToSupabase } from '@/utils/videoThumbnail';
 import { Video, AVPlaybackStatus } from 'expo-av';
 import * as ImagePicker from 'expo-image-picker';
 
@@ -95,6 +97,9 @@ function CustomTabBar() {
   const recordingTimerRef = useRef<NodeJS.Timeout | null>(null);
   const [previousRoute, setPreviousRoute] = useState<string>('/(tabs)/profile');
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showAudioRecorder, setShowAudioRecorder] = useState(false);
+  // An audio moment waiting for its word to be picked
+  const [recordedAudio, setRecordedAudio] = useState<RecordedAudio | null>(null);
   
   const { 
     recordedVideoUri, 
@@ -102,12 +107,15 @@ function CustomTabBar() {
     setRecordedVideo, 
     isRecordingFromWordDetail, 
     targetWordId, 
+    targetBook,
     clearRecordedVideo 
   } = useVideoRecording();
   const { selectedChild } = useChild();
   const { shouldOpenCamera, resetCameraTrigger } = useCameraTrigger();
   const { setTargetWordIdToOpen } = useWordNavigation();
   const { triggerBookSearch } = useAddNavigation();
+  const { uploads, queueMoment, savedMoment } = useMomentUploads();
+  const hasFailedUploads = uploads.some((upload) => upload.status === 'failed');
   const [words, setWords] = useState<any[]>([]);
   const selectWordSheetRef = useRef<BottomSheetModal>(null);
 
@@ -308,6 +316,30 @@ function CustomTabBar() {
     }
   };
 
+  const handleRecordAudio = () => {
+    console.log('[iOS TabLayout] Record audio selected from modal');
+    setShowAddModal(false);
+    setShowAudioRecorder(true);
+  };
+
+  const handleConfirmAudio = async (audio: RecordedAudio) => {
+    console.log('[iOS TabLayout] ✅ Audio confirmed with trim:', audio.trimStart, '-', audio.trimEnd);
+    setShowAudioRecorder(false);
+    setRecordedAudio(audio);
+    await fetchWords();
+    selectWordSheetRef.current?.present();
+  };
+
+  const handleCancelAudio = () => {
+    console.log('Audio cancelled');
+    setShowAudioRecorder(false);
+  };
+
+  const handleCloseSelectWord = () => {
+    selectWordSheetRef.current?.dismiss();
+    setRecordedAudio(null);
+  };
+
   const handleCameraReady = () => {
     console.log('[iOS TabLayout] Camera is ready!');
     setIsCameraReady(true);
@@ -519,9 +551,10 @@ function CustomTabBar() {
       clearRecordedVideo();
       
       // Save video with background thumbnail generation
-      saveVideoToWord(targetWordId, trimmedUri, startTime, endTime, true);
+      saveVideoMoment({ wordId: targetWordId, book: null }, trimmedUri, startTime, endTime, true);
     } else {
-      console.log('[iOS TabLayout] Method 1: Showing word selection bottom sheet');
+      console.log('[iOS TabLayout] Method 1: Showing word selection bottom sheet', targetBook ? `for book ${targetBook.userBookId}` : '');
+      setRecordedAudio(null);
       await fetchWords();
       selectWordSheetRef.current?.present();
     }
@@ -533,8 +566,8 @@ function CustomTabBar() {
     clearRecordedVideo();
   };
 
-  const saveVideoToWord = async (
-    wordId: string, 
+  const saveVideoMoment = async (
+    target: { wordId: string | null; book: RecordingBook | null },
     videoUri: string, 
     startTime: number, 
     endTime: number,
@@ -546,137 +579,105 @@ function CustomTabBar() {
     }
 
     try {
-      console.log('[iOS TabLayout] === Starting video save process ===');
+      console.log('[iOS TabLayout] === Queuing video upload ===');
       console.log('[iOS TabLayout] Video URI:', videoUri);
       console.log('[iOS TabLayout] Trim range:', startTime, '-', endTime);
-      console.log('[iOS TabLayout] User Word ID:', wordId);
+      console.log('[iOS TabLayout] User Word ID:', target.wordId);
+      console.log('[iOS TabLayout] User Book ID:', target.book?.userBookId ?? null);
       console.log('[iOS TabLayout] Child ID:', selectedChild.id);
       console.log('[iOS TabLayout] Video creation date:', videoCreationDate);
       
-      setToastMessage('Video saving…');
-      setToastType('saving');
+      // A book-only moment uses the book's title
+      let targetName = target.book?.title || 'book';
+      if (target.wordId) {
+        const { data: userWordData } = await supabase
+          .from('user_words')
+          .select('custom_word')
+          .eq('id', target.wordId)
+          .single();
+        targetName = userWordData?.custom_word || 'word';
+      }
+      
+      // The queue keeps the video, makes its thumbnail and saves the moment once both
+      // are uploaded, so closing the app or losing the connection doesn't lose it
+      await queueMoment({
+        childId: selectedChild.id,
+        wordId: target.wordId,
+        userBookId: target.book?.userBookId ?? null,
+        targetName,
+        mediaType: 'video',
+        mediaUri: videoUri,
+        thumbnailUri: null,
+        trimStart: startTime,
+        trimEnd: endTime,
+        originalCreatedAt: videoCreationDate ? videoCreationDate.toISOString() : null,
+      });
+      
+      // Clear the creation date after queuing
+      setVideoCreationDate(null);
+      
+      setToastMessage('Video saving in the background…');
+      setToastType('info');
       setShowToastViewButton(false);
       setSavedWordId(null);
       setToastVisible(true);
       
+    } catch (error) {
+      console.error('[iOS TabLayout] ❌ Error in saveVideoMoment:', error);
+      setToastVisible(false);
+      Alert.alert('Error', 'Failed to save video. Please try again.');
+    }
+  };
+
+  const saveAudioToWord = async (wordId: string, audio: RecordedAudio) => {
+    if (!selectedChild) {
+      Alert.alert('Error', 'Missing required data');
+      return;
+    }
+
+    try {
+      console.log('[iOS TabLayout] === Queuing audio upload ===');
+      console.log('[iOS TabLayout] Audio URI:', audio.uri);
+      console.log('[iOS TabLayout] Trim range:', audio.trimStart, '-', audio.trimEnd);
+
       const { data: userWordData } = await supabase
         .from('user_words')
         .select('custom_word')
         .eq('id', wordId)
         .single();
-      
+
       const wordName = userWordData?.custom_word || 'word';
-      
-      // Step 1: Upload video first
-      console.log('[iOS TabLayout] Step 1: Uploading video to Supabase...');
-      const uploadedVideoUrl = await uploadVideoToSupabase(videoUri, selectedChild.id, supabase);
-      
-      if (!uploadedVideoUrl) {
-        throw new Error('Failed to upload video');
-      }
-      
-      console.log('[iOS TabLayout] ✅ Video uploaded successfully:', uploadedVideoUrl);
-      
-      // Step 2: Save to database with trim information and creation date (without thumbnail for now)
-      console.log('[iOS TabLayout] Step 2: Saving to database with trim info and creation date...');
-      const trimmedDuration = endTime - startTime;
-      
-      const momentData: any = {
-        word_id: wordId,
-        child_id: selectedChild.id,
-        video_url: uploadedVideoUrl,
-        thumbnail_url: null, // Will be updated in background
-        duration: trimmedDuration,
-        trim_start: startTime,
-        trim_end: endTime,
-      };
-      
-      // Add original creation date if available
-      if (videoCreationDate) {
-        momentData.original_created_at = videoCreationDate.toISOString();
-        console.log('[iOS TabLayout] Including original creation date:', momentData.original_created_at);
-      }
-      
-      const { data: insertedMoment, error: insertError } = await supabase
-        .from('moments')
-        .insert(momentData)
-        .select('id')
-        .single();
 
-      if (insertError) {
-        console.error('[iOS TabLayout] ❌ Database insert error:', insertError);
-        throw insertError;
-      }
+      await queueMoment({
+        childId: selectedChild.id,
+        wordId,
+        targetName: wordName,
+        mediaType: 'audio',
+        mediaUri: audio.uri,
+        thumbnailUri: null,
+        waveform: audio.waveform,
+        trimStart: audio.trimStart,
+        trimEnd: audio.trimEnd,
+      });
 
-      console.log('[iOS TabLayout] ✅ Saved to database successfully');
-      
-      const momentId = insertedMoment?.id;
-      
-      // Step 3: Generate and upload thumbnail in background
-      if (momentId) {
-        console.log('[iOS TabLayout] Step 3: Generating thumbnail in background for moment:', momentId);
-        
-        // Generate thumbnail in background (don't block the save)
-        generateVideoThumbnail(videoUri, startTime)
-          .then(async (thumbnailUri) => {
-            if (thumbnailUri) {
-              console.log('[iOS TabLayout] ✅ Thumbnail generated:', thumbnailUri);
-              
-              // Upload thumbnail to Supabase
-              const thumbnailUrl = await uploadThumbnailToSupabase(thumbnailUri, selectedChild.id, supabase);
-              
-              if (thumbnailUrl) {
-                console.log('[iOS TabLayout] ✅ Thumbnail uploaded:', thumbnailUrl);
-                
-                // Update the moment with the thumbnail URL
-                const { error: updateError } = await supabase
-                  .from('moments')
-                  .update({ thumbnail_url: thumbnailUrl })
-                  .eq('id', momentId);
-                
-                if (updateError) {
-                  console.error('[iOS TabLayout] ❌ Failed to update thumbnail:', updateError);
-                } else {
-                  console.log('[iOS TabLayout] ✅ Thumbnail updated in database');
-                }
-              }
-            } else {
-              console.warn('[iOS TabLayout] ⚠️ Thumbnail generation returned null');
-            }
-          })
-          .catch((error) => {
-            console.error('[iOS TabLayout] ❌ Background thumbnail generation failed:', error);
-          });
-      }
-      
-      console.log('[iOS TabLayout] === Video save process complete ===');
-      
-      // Clear the creation date after saving
-      setVideoCreationDate(null);
-      
-      setToastVisible(false);
-      
-      setTimeout(() => {
-        setToastMessage(`Video saved to "${wordName}"`);
-        setToastType('success');
-        setShowToastViewButton(true);
-        setSavedWordId(wordId);
-        setToastVisible(true);
-      }, 300);
-      
+      setToastMessage('Audio saving in the background…');
+      setToastType('info');
+      setShowToastViewButton(false);
+      setSavedWordId(null);
+      setToastVisible(true);
     } catch (error) {
-      console.error('[iOS TabLayout] ❌ Error in saveVideoToWord:', error);
+      console.error('[iOS TabLayout] ❌ Error in saveAudioToWord:', error);
       setToastVisible(false);
-      Alert.alert('Error', 'Failed to save video. Please try again.');
+      Alert.alert('Error', 'Failed to save audio. Please try again.');
     }
   };
 
-  const handleSelectWord = async (wordId: string) => {
-    console.log('[iOS TabLayout] Word selected from bottom sheet:', wordId);
-    
+  const saveRecordedVideo = async (wordId: string | null) => {
     const videoUriToSave = recordedVideoUri;
     const startTime = trimStart;
     const endTime = trimEnd;
+    // Cleared with the recorded video below
+    const bookToLink = targetBook;
     
     selectWordSheetRef.current?.dismiss();
     
@@ -688,10 +689,47 @@ function CustomTabBar() {
     clearRecordedVideo();
     
     if (videoUriToSave && selectedChild) {
-      await saveVideoToWord(wordId, videoUriToSave, startTime, endTime, false);
+      await saveVideoMoment({ wordId, book: bookToLink }, videoUriToSave, startTime, endTime, false);
+    }
+  };
+
+  const handleSelectWord = async (wordId: string) => {
+    console.log('[iOS TabLayout] Word selected from bottom sheet:', wordId);
+    
+    if (recordedAudio) {
+      const audioToSave = recordedAudio;
+      setRecordedAudio(null);
+      selectWordSheetRef.current?.dismiss();
+      await saveAudioToWord(wordId, audioToSave);
+      return;
     }
+    
+    await saveRecordedVideo(wordId);
+  };
+
+  // A video recorded from a book's detail sheet doesn't need a word
+  const handleSaveToBookOnly = async () => {
+    console.log('[iOS TabLayout] Saving video to book only:', targetBook?.userBookId);
+    await saveRecordedVideo(null);
   };
 
+  // Let the parent know once a queued moment has finished uploading
+  useEffect(() => {
+    if (!savedMoment) return;
+
+    console.log('[iOS TabLayout] ✅ Queued moment saved:', savedMoment.uploadId);
+    setToastVisible(false);
+    const timeout = setTimeout(() => {
+      setToastMessage(`${MEDIA_TYPE_LABELS[savedMoment.mediaType]} saved to "${savedMoment.targetName}"`);
+      setToastType('success');
+      // "View" opens the word; a book's moments are in its detail sheet
+      setShowToastViewButton(!!savedMoment.wordId);
+      setSavedWordId(savedMoment.wordId);
+      setToastVisible(true);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [savedMoment]);
+
   const handleViewNow = () => {
     console.log('View now pressed for word:', savedWordId);
     
@@ -818,6 +856,23 @@ function CustomTabBar() {
         </View>
       )}
 
+      {showAudioRecorder && (
+        <View
+          style={[
+            StyleSheet.absoluteFill,
+            {
+              zIndex: 2000,
+            }
+          ]}
+          pointerEvents="auto"
+        >
+          <AudioRecorderModal
+            onConfirm={handleConfirmAudio}
+            onCancel={handleCancelAudio}
+          />
+        </View>
+      )}
+
       <View style={styles.tabBarContainer} pointerEvents="box-none">
         <View style={styles.tabBar} pointerEvents="box-none">
           {tabs.map((tab, index) => {
@@ -853,6 +908,11 @@ function CustomTabBar() {
                       resizeMode="contain"
                     />
                   ) : null}
+                  {tab.name === 'profile' && uploads.length > 0 && (
+                    <View style={[styles.uploadBadge, hasFailedUploads && styles.uploadBadgeFailed]}>
+                      <Text style={styles.uploadBadgeText}>{uploads.length}</Text>
+                    </View>
+                  )}
                 </View>
                 <Text 
                   style={[
@@ -874,13 +934,16 @@ function CustomTabBar() {
         onScanBook={handleScanBook}
         onAddWord={handleAddWord}
         onCaptureMoment={handleCaptureMoment}
+        onRecordAudio={handleRecordAudio}
       />
 
       <SelectWordBottomSheet
         ref={selectWordSheetRef}
         words={words}
         onSelectWord={handleSelectWord}
-        onClose={() => selectWordSheetRef.current?.dismiss()}
+        onClose={handleCloseSelectWord}
+        bookTitle={recordedAudio ? null : targetBook?.title}
+        onSaveToBookOnly={handleSaveToBookOnly}
       />
 
       <ToastNotification
@@ -982,6 +1045,28 @@ const styles = StyleSheet.create({
     width: 24,
     height: 24,
   },
+  uploadBadge: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 4,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.buttonBlue,
+    borderWidth: 2,
+    borderColor: colors.backgroundAlt,
+  },
+  uploadBadgeFailed: {
+    backgroundColor: colors.secondary,
+  },
+  uploadBadgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
   tabLabel: {
     fontSize: 10,
     fontWeight: '500',
@@ -6,19 +6,22 @@ import { IconSymbol } from '@/components/IconSymbol';
 import { colors } from '@/styles/commonStyles';
 import { CameraView, useCameraPermissions } from 'expo-camera';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
-import { useVideoRecording } from '@/contexts/VideoRecordingContext';
+import { useVideoRecording, RecordingBook } from '@/contexts/VideoRecordingContext';
 import { useChild } from '@/contexts/ChildContext';
 import { useCameraTrigger } from '@/contexts/CameraTriggerContext';
 import { useWordNavigation } from '@/contexts/WordNavigationContext';
 import { useAddNavigation } from '@/contexts/AddNavigationContext';
+import { useMomentUploads } from '@/contexts/MomentUploadsContext';
+import { MEDIA_TYPE_LABELS } from '@/utils/momentUploads';
 import SelectWordBottomSheet from '@/components/SelectWordBottomSheet';
 import VideoPreviewModal from '@/components/VideoPreviewModal';
+import AudioRecorderModal, { RecordedAudio } from '@/components/AudioRecorderModal';
 import ToastNotification from '@/components/ToastNotification';
 import AddOptionsModal from '@/components/AddOptionsModal';
 import BarcodeScannerModal from '@/components/BarcodeScannerModal';
+import { formatBulkAddResult, BulkAddResult } from '@/utils/bulkBookScan';
 import { BottomSheetModal } from '@gorhom/bottom-sheet';
 import { supabase } from '@/app/integrations/supabase/client';
-import { generateVideoThumbnail, uploadThumbnailToSupabase, uploadVideoToSupabase } from '@/utils/videoThumbnail';
 import { Video, AVPlaybackStatus } from 'expo-av';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -99,6 +102,9 @@ function CustomTabBar() {
   const recordingTimerRef = useRef<NodeJS.Timeout | null>(null);
   const [previousRoute, setPreviousRoute] = useState<string>('/(tabs)/profile');
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showAudioRecorder, setShowAudioRecorder] = useState(false);
+  // An audio moment waiting for its word to be picked
+  const [recordedAudio, setRecordedAudio] = useState<RecordedAudio | null>(null);
   const [showScanner, setShowScanner] = useState(false);
 
   const scaleAnims = useRef(
@@ -111,12 +117,15 @@ function CustomTabBar() {
     setRecordedVideo, 
     isRecordingFromWordDetail, 
     targetWordId, 
+    targetBook,
     clearRecordedVideo 
   } = useVideoRecording();
   const { selectedChild } = useChild();
   const { shouldOpenCamera, resetCameraTrigger } = useCameraTrigger();
   const { setTargetWordIdToOpen } = useWordNavigation();
   const { triggerBookSearch } = useAddNavigation();
+  const { uploads, queueMoment, savedMoment } = useMomentUploads();
+  const hasFailedUploads = uploads.some((upload) => upload.status === 'failed');
   const [words, setWords] = useState<any[]>([]);
   const selectWordSheetRef = useRef<BottomSheetModal>(null);
 
@@ -293,6 +302,19 @@ function CustomTabBar() {
     } as any);
   };
 
+  // Bulk scans add the books themselves, so the Books tab only needs to reload
+  const handleBulkBooksAdded = (result: BulkAddResult) => {
+    console.log('Bulk scan from tab bar scanner finished:', result);
+    setToastMessage(formatBulkAddResult(result));
+    setToastType(result.failed > 0 ? 'warning' : 'success');
+    setShowToastViewButton(false);
+    setToastVisible(true);
+    router.push({
+      pathname: '/(tabs)/books',
+      params: { bookAdded: 'true' },
+    } as any);
+  };
+
   const handleAddWord = () => {
     console.log('Add word selected - navigating with autoOpen param');
     setShowAddModal(false);
@@ -318,6 +340,30 @@ function CustomTabBar() {
     }
   };
 
+  const handleRecordAudio = () => {
+    console.log('[TabLayout] Record audio selected from modal');
+    setShowAddModal(false);
+    setShowAudioRecorder(true);
+  };
+
+  const handleConfirmAudio = async (audio: RecordedAudio) => {
+    console.log('[TabLayout] ✅ Audio confirmed with trim:', audio.trimStart, '-', audio.trimEnd);
+    setShowAudioRecorder(false);
+    setRecordedAudio(audio);
+    await fetchWords();
+    selectWordSheetRef.current?.present();
+  };
+
+  const handleCancelAudio = () => {
+    console.log('Audio cancelled');
+    setShowAudioRecorder(false);
+  };
+
+  const handleCloseSelectWord = () => {
+    selectWordSheetRef.current?.dismiss();
+    setRecordedAudio(null);
+  };
+
   const handleCameraReady = () => {
     console.log('[TabLayout] Camera is ready!');
     setIsCameraReady(true);
@@ -433,10 +479,11 @@ function CustomTabBar() {
       
       clearRecordedVideo();
       
-      // 🔥 CRITICAL FIX: Pass thumbnail URI to saveVideoToWord
-      saveVideoToWord(targetWordId, trimmedUri, startTime, endTime, thumbnailUriFromModal, true);
+      // 🔥 CRITICAL FIX: Pass thumbnail URI to saveVideoMoment
+      saveVideoMoment({ wordId: targetWordId, book: null }, trimmedUri, startTime, endTime, thumbnailUriFromModal, true);
     } else {
-      console.log('[TabLayout] Method 1: Showing word selection bottom sheet');
+      console.log('[TabLayout] Method 1: Showing word selection bottom sheet', targetBook ? `for book ${targetBook.userBookId}` : '');
+      setRecordedAudio(null);
       await fetchWords();
       selectWordSheetRef.current?.present();
     }
@@ -447,8 +494,8 @@ function CustomTabBar() {
     clearRecordedVideo();
   };
 
-  const saveVideoToWord = async (
-    wordId: string, 
+  const saveVideoMoment = async (
+    target: { wordId: string | null; book: RecordingBook | null },
     videoUri: string, 
     startTime: number, 
     endTime: number,
@@ -461,102 +508,102 @@ function CustomTabBar() {
     }
 
     try {
-      console.log('[TabLayout] === Starting video save process ===');
+      console.log('[TabLayout] === Queuing video upload ===');
       console.log('[TabLayout] Video URI:', videoUri);
       console.log('[TabLayout] Trim range:', startTime, '-', endTime);
       console.log('[TabLayout] Thumbnail URI:', thumbnailUriParam);
-      console.log('[TabLayout] User Word ID:', wordId);
+      console.log('[TabLayout] User Word ID:', target.wordId);
+      console.log('[TabLayout] User Book ID:', target.book?.userBookId ?? null);
       console.log('[TabLayout] Child ID:', selectedChild.id);
       
-      setToastMessage('Video saving…');
-      setToastType('saving');
+      // Get word name for toast message, a book-only moment uses the book's title
+      let targetName = target.book?.title || 'book';
+      if (target.wordId) {
+        const { data: userWordData } = await supabase
+          .from('user_words')
+          .select('custom_word')
+          .eq('id', target.wordId)
+          .single();
+        targetName = userWordData?.custom_word || 'word';
+      }
+      
+      // The queue keeps the files and saves the moment once both are uploaded,
+      // so closing the app or losing the connection doesn't lose it
+      await queueMoment({
+        childId: selectedChild.id,
+        wordId: target.wordId,
+        userBookId: target.book?.userBookId ?? null,
+        targetName,
+        mediaType: 'video',
+        mediaUri: videoUri,
+        thumbnailUri: thumbnailUriParam,
+        trimStart: startTime,
+        trimEnd: endTime,
+      });
+      
+      setToastMessage('Video saving in the background…');
+      setToastType('info');
       setShowToastViewButton(false);
       setSavedWordId(null);
       setToastVisible(true);
       
-      // Get word name for toast message
+    } catch (error) {
+      console.error('[TabLayout] ❌ Error in saveVideoMoment:', error);
+      setToastVisible(false);
+      Alert.alert('Error', 'Failed to save video. Please try again.');
+    }
+  };
+
+  const saveAudioToWord = async (wordId: string, audio: RecordedAudio) => {
+    if (!selectedChild) {
+      Alert.alert('Error', 'Missing required data');
+      return;
+    }
+
+    try {
+      console.log('[TabLayout] === Queuing audio upload ===');
+      console.log('[TabLayout] Audio URI:', audio.uri);
+      console.log('[TabLayout] Trim range:', audio.trimStart, '-', audio.trimEnd);
+
       const { data: userWordData } = await supabase
         .from('user_words')
         .select('custom_word')
         .eq('id', wordId)
         .single();
-      
+
       const wordName = userWordData?.custom_word || 'word';
-      
-      // 🔥 CRITICAL FIX: Upload thumbnail if available
-      let uploadedThumbnailUrl: string | null = null;
-      
-      if (thumbnailUriParam) {
-        console.log('[TabLayout] Step 1: Uploading thumbnail to Supabase...');
-        uploadedThumbnailUrl = await uploadThumbnailToSupabase(thumbnailUriParam, selectedChild.id, supabase);
-        
-        if (uploadedThumbnailUrl) {
-          console.log('[TabLayout] ✅ Thumbnail uploaded successfully:', uploadedThumbnailUrl);
-        } else {
-          console.error('[TabLayout] ❌ Failed to upload thumbnail');
-        }
-      } else {
-        console.warn('[TabLayout] ⚠️ No thumbnail provided');
-      }
-      
-      // Step 2: Upload video
-      console.log('[TabLayout] Step 2: Uploading video to Supabase...');
-      const uploadedVideoUrl = await uploadVideoToSupabase(videoUri, selectedChild.id, supabase);
-      
-      if (!uploadedVideoUrl) {
-        throw new Error('Failed to upload video');
-      }
-      
-      console.log('[TabLayout] ✅ Video uploaded successfully:', uploadedVideoUrl);
-      
-      // Step 3: Save to database with trim information AND thumbnail URL
-      console.log('[TabLayout] Step 3: Saving to database with trim info and thumbnail URL...');
-      const trimmedDuration = endTime - startTime;
-      
-      const { error: insertError } = await supabase
-        .from('moments')
-        .insert({
-          word_id: wordId,
-          child_id: selectedChild.id,
-          video_url: uploadedVideoUrl,
-          thumbnail_url: uploadedThumbnailUrl, // 🔥 CRITICAL: Save the uploaded thumbnail URL
-          duration: trimmedDuration,
-          trim_start: startTime,
-          trim_end: endTime,
-        });
-
-      if (insertError) {
-        console.error('[TabLayout] ❌ Database insert error:', insertError);
-        throw insertError;
-      }
 
-      console.log('[TabLayout] ✅ Saved to database successfully');
-      console.log('[TabLayout] === Video save process complete ===');
-      
-      setToastVisible(false);
-      
-      setTimeout(() => {
-        setToastMessage(`Video saved to "${wordName}"`);
-        setToastType('success');
-        setShowToastViewButton(true);
-        setSavedWordId(wordId);
-        setToastVisible(true);
-      }, 300);
-      
+      await queueMoment({
+        childId: selectedChild.id,
+        wordId,
+        targetName: wordName,
+        mediaType: 'audio',
+        mediaUri: audio.uri,
+        thumbnailUri: null,
+        waveform: audio.waveform,
+        trimStart: audio.trimStart,
+        trimEnd: audio.trimEnd,
+      });
+
+      setToastMessage('Audio saving in the background…');
+      setToastType('info');
+      setShowToastViewButton(false);
+      setSavedWordId(null);
+      setToastVisible(true);
     } catch (error) {
-      console.error('[TabLayout] ❌ Error in saveVideoToWord:', error);
+      console.error('[TabLayout] ❌ Error in saveAudioToWord:', error);
       setToastVisible(false);
-      Alert.alert('Error', 'Failed to save video. Please try again.');
+      Alert.alert('Error', 'Failed to save audio. Please try again.');
     }
   };
 
-  const handleSelectWord = async (wordId: string) => {
-    console.log('[TabLayout] Word selected from bottom sheet:', wordId);
-    
+  const saveRecordedVideo = async (wordId: string | null) => {
     const videoUriToSave = recordedVideoUri;
     const startTime = trimStart;
     const endTime = trimEnd;
     const thumbnailUriToSave = thumbnailUri; // 🔥 CRITICAL: Use stored thumbnail URI
+    // Cleared with the recorded video below
+    const bookToLink = targetBook;
     
     selectWordSheetRef.current?.dismiss();
     
@@ -569,10 +616,47 @@ function CustomTabBar() {
     
     if (videoUriToSave && selectedChild) {
       // 🔥 CRITICAL FIX: Pass the thumbnail URI
-      await saveVideoToWord(wordId, videoUriToSave, startTime, endTime, thumbnailUriToSave, false);
+      await saveVideoMoment({ wordId, book: bookToLink }, videoUriToSave, startTime, endTime, thumbnailUriToSave, false);
     }
   };
 
+  const handleSelectWord = async (wordId: string) => {
+    console.log('[TabLayout] Word selected from bottom sheet:', wordId);
+    
+    if (recordedAudio) {
+      const audioToSave = recordedAudio;
+      setRecordedAudio(null);
+      selectWordSheetRef.current?.dismiss();
+      await saveAudioToWord(wordId, audioToSave);
+      return;
+    }
+    
+    await saveRecordedVideo(wordId);
+  };
+
+  // A video recorded from a book's detail sheet doesn't need a word
+  const handleSaveToBookOnly = async () => {
+    console.log('[TabLayout] Saving video to book only:', targetBook?.userBookId);
+    await saveRecordedVideo(null);
+  };
+
+  // Let the parent know once a queued moment has finished uploading
+  useEffect(() => {
+    if (!savedMoment) return;
+
+    console.log('[TabLayout] ✅ Queued moment saved:', savedMoment.uploadId);
+    setToastVisible(false);
+    const timeout = setTimeout(() => {
+      setToastMessage(`${MEDIA_TYPE_LABELS[savedMoment.mediaType]} saved to "${savedMoment.targetName}"`);
+      setToastType('success');
+      // "View" opens the word; a book's moments are in its detail sheet
+      setShowToastViewButton(!!savedMoment.wordId);
+      setSavedWordId(savedMoment.wordId);
+      setToastVisible(true);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [savedMoment]);
+
   const handleViewNow = () => {
     console.log('View now pressed for word:', savedWordId);
     
@@ -672,6 +756,23 @@ function CustomTabBar() {
         </View>
       )}
 
+      {showAudioRecorder && (
+        <View
+          style={[
+            StyleSheet.absoluteFill,
+            {
+              zIndex: 10000,
+            }
+          ]}
+          pointerEvents="auto"
+        >
+          <AudioRecorderModal
+            onConfirm={handleConfirmAudio}
+            onCancel={handleCancelAudio}
+          />
+        </View>
+      )}
+
       <View style={styles.tabBarContainer} pointerEvents="box-none">
         <View style={styles.tabBar}>
           {tabs.map((tab, index) => {
@@ -725,6 +826,11 @@ function CustomTabBar() {
                       color={isActive ? colors.tabIconActive : colors.tabIconInactive}
                     />
                   )}
+                  {tab.name === 'profile' && uploads.length > 0 && (
+                    <View style={[styles.uploadBadge, hasFailedUploads && styles.uploadBadgeFailed]}>
+                      <Text style={styles.uploadBadgeText}>{uploads.length}</Text>
+                    </View>
+                  )}
                 </View>
                 <Text 
                   style={[
@@ -746,19 +852,23 @@ function CustomTabBar() {
         onScanBook={handleScanBook}
         onAddWord={handleAddWord}
         onCaptureMoment={handleCaptureMoment}
+        onRecordAudio={handleRecordAudio}
       />
 
       <BarcodeScannerModal
         visible={showScanner}
         onClose={() => setShowScanner(false)}
         onBarcodeScanned={handleBarcodeScanned}
+        onBulkBooksAdded={handleBulkBooksAdded}
       />
 
       <SelectWordBottomSheet
         ref={selectWordSheetRef}
         words={words}
         onSelectWord={handleSelectWord}
-        onClose={() => selectWordSheetRef.current?.dismiss()}
+        onClose={handleCloseSelectWord}
+        bookTitle={recordedAudio ? null : targetBook?.title}
+        onSaveToBookOnly={handleSaveToBookOnly}
       />
 
       <ToastNotification
@@ -845,6 +955,28 @@ const styles = StyleSheet.create({
     width: 24,
     height: 24,
   },
+  uploadBadge: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 4,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.buttonBlue,
+    borderWidth: 2,
+    borderColor: colors.backgroundAlt,
+  },
+  uploadBadgeFailed: {
+    backgroundColor: colors.secondary,
+  },
+  uploadBadgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
   tabLabel: {
     fontSize: 10,
     fontWeight: '500',
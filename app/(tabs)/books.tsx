@@ -18,9 +18,29 @@ import { IconSymbol } from '@/components/IconSymbol';
 import { useChild } from '@/contexts/ChildContext';
 import { useStats } from '@/contexts/StatsContext';
 import { useProfileStats } from '@/contexts/ProfileStatsContext';
+import { useMilestones } from '@/contexts/MilestonesContext';
+import { useReadingLog } from '@/contexts/ReadingLogContext';
+import { usePendingBookLookups } from '@/contexts/PendingBookLookupsContext';
 import { supabase } from '@/app/integrations/supabase/client';
 import { searchBookByISBN, BookSearchResult, getQuotaStatus } from '@/utils/googleBooksApi';
 import BookDetailBottomSheet from '@/components/BookDetailBottomSheet';
+import MostReadBooksCard from '@/components/MostReadBooksCard';
+import DueSoonBooksCard from '@/components/DueSoonBooksCard';
+import PendingLookupsBanner from '@/components/PendingLookupsBanner';
+import { formatQueuedMessage, getLookupBlocker } from '@/utils/pendingBookLookups';
+import ReturnedBooksSection from '@/components/ReturnedBooksSection';
+import ReadingStreakBadge from '@/components/ReadingStreakBadge';
+import BookshelfSearchBar from '@/components/BookshelfSearchBar';
+import BookshelfFilterBottomSheet from '@/components/BookshelfFilterBottomSheet';
+import BookTagShelves from '@/components/BookTagShelves';
+import BookSelectionBar from '@/components/BookSelectionBar';
+import BookTagManagerBottomSheet from '@/components/BookTagManagerBottomSheet';
+import BulkTagBottomSheet from '@/components/BulkTagBottomSheet';
+import { addTagToUserBooks } from '@/utils/bookTags';
+import { isReturned, LibraryLoan } from '@/utils/libraryLoans';
+import { syncLoanReminders } from '@/utils/loanReminders';
+import { formatBulkAddResult, BulkAddResult } from '@/utils/bulkBookScan';
+import { useBookshelfQuery } from '@/hooks/useBookshelfQuery';
 import AddCustomBookBottomSheet from '@/components/AddCustomBookBottomSheet';
 import BarcodeScannerModal from '@/components/BarcodeScannerModal';
 import ISBNNotFoundModal from '@/components/ISBNNotFoundModal';
@@ -32,7 +52,7 @@ import ValidatedImage from '@/components/ValidatedImage';
 import PropTypes from 'prop-types';
 import { Image } from 'expo-image';
 
-interface SavedBook {
+interface SavedBook extends LibraryLoan {
   id: string;
   book_id: string;
   rating: string | null;
@@ -40,6 +60,9 @@ interface SavedBook {
   would_recommend: boolean;
   is_custom_for_user: boolean;
   cover_url_private: string | null;
+  created_at: string;
+  series_name: string | null;
+  series_number: number | null;
   book: {
     id: string;
     google_books_id: string;
@@ -51,6 +74,8 @@ interface SavedBook {
     published_date: string;
     page_count: number;
     source: string;
+    series_name: string | null;
+    series_number: number | null;
   };
 }
 
@@ -77,13 +102,17 @@ const Bookmark = () => (
 const BookCard = React.memo<{
   book: SavedBook;
   imageUrl: string | null;
+  selectionMode: boolean;
+  isSelected: boolean;
   onPress: (book: SavedBook) => void;
+  onLongPress: (book: SavedBook) => void;
   onImageError: (bookId: string) => void;
-}>(({ book, imageUrl, onPress, onImageError }) => {
+}>(({ book, imageUrl, selectionMode, isSelected, onPress, onLongPress, onImageError }) => {
   return (
     <TouchableOpacity
-      style={styles.bookCard}
+      style={[styles.bookCard, selectionMode && !isSelected && styles.bookCardUnselected]}
       onPress={() => onPress(book)}
+      onLongPress={() => onLongPress(book)}
       activeOpacity={0.7}
     >
       <View style={styles.bookCoverContainer}>
@@ -114,6 +143,18 @@ const BookCard = React.memo<{
           <Text style={styles.customBadgeText}>Custom</Text>
         </View>
       )}
+      {selectionMode && (
+        <View style={[styles.selectionCheck, isSelected && styles.selectionCheckActive]}>
+          {isSelected && (
+            <IconSymbol
+              ios_icon_name="checkmark"
+              android_material_icon_name="check"
+              size={16}
+              color={colors.backgroundAlt}
+            />
+          )}
+        </View>
+      )}
     </TouchableOpacity>
   );
 });
@@ -131,14 +172,20 @@ BookCard.propTypes = {
     }).isRequired,
   }).isRequired,
   imageUrl: PropTypes.string,
+  selectionMode: PropTypes.bool.isRequired,
+  isSelected: PropTypes.bool.isRequired,
   onPress: PropTypes.func.isRequired,
+  onLongPress: PropTypes.func.isRequired,
   onImageError: PropTypes.func.isRequired,
 };
 
 export default function BooksScreen() {
   const { selectedChild } = useChild();
   const { refreshStats } = useStats();
+  const { refreshReadingLog } = useReadingLog();
+  const { pendingLookups, isRetrying, queueLookup, retryPendingLookups, booksAddedTrigger } = usePendingBookLookups();
   const { fetchProfileStats } = useProfileStats();
+  const { checkMilestones } = useMilestones();
   const params = useLocalSearchParams();
   const router = useRouter();
   const [savedBooks, setSavedBooks] = useState<SavedBook[]>([]);
@@ -158,15 +205,46 @@ export default function BooksScreen() {
   const [isSearching, setIsSearching] = useState(false);
   const [loadingMessageIndex, setLoadingMessageIndex] = useState(0);
   const [refreshing, setRefreshing] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedBookIds, setSelectedBookIds] = useState<Set<string>>(new Set());
   
   const bookDetailRef = useRef<BottomSheetModal>(null);
   const addCustomBookRef = useRef<BottomSheetModal>(null);
+  const shelfFilterRef = useRef<BottomSheetModal>(null);
+  const tagManagerRef = useRef<BottomSheetModal>(null);
+  const bulkTagRef = useRef<BottomSheetModal>(null);
   const hasProcessedAutoOpen = useRef(false);
   const addBookTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastClickedBookIdRef = useRef<string | null>(null);
   const clickTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const loadingMessageIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Returned library books leave the shelf but keep their reading history
+  const activeBooks = useMemo(() => savedBooks.filter((book) => !isReturned(book)), [savedBooks]);
+  const returnedBooks = useMemo(() => savedBooks.filter((book) => isReturned(book)), [savedBooks]);
+
+  const {
+    search,
+    setSearch,
+    filters,
+    updateFilters,
+    resetFilters,
+    availableTags,
+    shelfTags,
+    tagCounts,
+    visibleBooks,
+    activeFilterCount,
+  } = useBookshelfQuery(activeBooks);
+
+  // A single picked tag is shown as the current shelf
+  const selectedShelf = filters.tags.length === 1 ? filters.tags[0] : null;
+
+  // Selection belongs to the shelf it was made on
+  useEffect(() => {
+    setIsSelecting(false);
+    setSelectedBookIds(new Set());
+  }, [selectedChild]);
+
   const showToast = useCallback((message: string, type: 'info' | 'success' | 'warning' | 'error' = 'info') => {
     setToastMessage(message);
     setToastType(type);
@@ -304,6 +382,14 @@ export default function BooksScreen() {
           would_recommend,
           is_custom_for_user,
           cover_url_private,
+          created_at,
+          ownership,
+          library_name,
+          checked_out_on,
+          due_on,
+          returned_on,
+          series_name,
+          series_number,
           book:books_library (
             id,
             google_books_id,
@@ -314,7 +400,9 @@ export default function BooksScreen() {
             description,
             published_date,
             page_count,
-            source
+            source,
+            series_name,
+            series_number
           )
         `)
         .eq('child_id', selectedChild.id)
@@ -327,6 +415,11 @@ export default function BooksScreen() {
 
       setSavedBooks(data || []);
 
+      // Loans may have changed on another device, so bring reminders in line
+      syncLoanReminders(data || [], selectedChild.name).catch((reminderError) => {
+        console.error('Error syncing loan reminders:', reminderError);
+      });
+
       // Generate signed URLs for custom books with private covers
       const urlMap = new Map<string, string>();
       const urlPromises = (data || [])
@@ -369,15 +462,28 @@ export default function BooksScreen() {
     }, [params.bookAdded, router, fetchSavedBooks])
   );
 
+  // Saved scans were added in the background once lookups worked again
+  const lastBooksAddedTrigger = useRef(booksAddedTrigger);
+  useEffect(() => {
+    if (booksAddedTrigger === lastBooksAddedTrigger.current) return;
+    lastBooksAddedTrigger.current = booksAddedTrigger;
+
+    console.log('📚 Saved books were added - refreshing books list');
+    fetchSavedBooks();
+    refreshStats();
+    fetchProfileStats();
+    checkMilestones();
+  }, [booksAddedTrigger, fetchSavedBooks, refreshStats, fetchProfileStats, checkMilestones]);
+
   // Pull to refresh handler
   const onRefresh = useCallback(async () => {
     console.log('🔵 Pull to refresh triggered');
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setRefreshing(true);
-    await fetchSavedBooks();
+    await Promise.all([fetchSavedBooks(), refreshReadingLog()]);
     setRefreshing(false);
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-  }, [fetchSavedBooks]);
+  }, [fetchSavedBooks, refreshReadingLog]);
 
   const handleSelectBook = async (book: BookSearchResult) => {
     if (isAddingBook) {
@@ -424,6 +530,9 @@ export default function BooksScreen() {
             description: book.description,
             published_date: book.publishedDate,
             page_count: book.pageCount,
+            isbn: book.isbn ?? null,
+            series_name: book.series?.name ?? null,
+            series_number: book.series?.number ?? null,
             source: 'google_books',
           })
           .select('id')
@@ -495,6 +604,7 @@ export default function BooksScreen() {
         refreshStats(),
         fetchProfileStats(),
       ]);
+      checkMilestones();
 
       showToast('Book added to your library!', 'success');
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -510,6 +620,22 @@ export default function BooksScreen() {
     }
   };
 
+  // A scan whose lookup failed (offline, or the catalogues not answering) is saved and added later
+  const saveLookupForLater = async (isbn: string) => {
+    const blocker = await getLookupBlocker();
+
+    try {
+      const queued = await queueLookup(isbn);
+      console.log('ISBN saved for later:', isbn, blocker);
+      showToast(queued ? formatQueuedMessage(blocker) : 'This book is already saved for later.', 'info');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    } catch (error) {
+      console.error('Error saving ISBN for later:', error);
+      showToast('An error occurred while searching for the book. Please try again.', 'error');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
   const handleBarcodeScanned = async (isbn: string) => {
     console.log('🔵 ISBN scanned:', isbn);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -530,7 +656,15 @@ export default function BooksScreen() {
 
     try {
       console.log('Searching for book by ISBN...');
-      const book = await searchBookByISBN(isbn);
+      let book: BookSearchResult | null;
+      try {
+        book = await searchBookByISBN(isbn);
+      } catch (lookupError) {
+        console.error('ISBN lookup failed:', lookupError);
+        await saveLookupForLater(isbn);
+        setIsAddingBook(false);
+        return;
+      }
 
       if (!book) {
         console.log('Book not found - showing options modal');
@@ -569,7 +703,16 @@ export default function BooksScreen() {
 
     try {
       console.log('Searching for book by manual ISBN...');
-      const book = await searchBookByISBN(isbn);
+      let book: BookSearchResult | null;
+      try {
+        book = await searchBookByISBN(isbn);
+      } catch (lookupError) {
+        console.error('ISBN lookup failed:', lookupError);
+        await saveLookupForLater(isbn);
+        setShowISBNNotFoundModal(false);
+        setIsAddingBook(false);
+        return;
+      }
 
       if (!book) {
         console.log('Book still not found - staying in modal');
@@ -612,6 +755,20 @@ export default function BooksScreen() {
   };
 
   const handleBookPress = useCallback((book: SavedBook) => {
+    if (isSelecting) {
+      Haptics.selectionAsync();
+      setSelectedBookIds(prev => {
+        const next = new Set(prev);
+        if (next.has(book.id)) {
+          next.delete(book.id);
+        } else {
+          next.add(book.id);
+        }
+        return next;
+      });
+      return;
+    }
+
     console.log('🔵 Book pressed:', book.book.title, 'Modal open:', isModalOpen, 'Last clicked:', lastClickedBookIdRef.current);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     
@@ -641,7 +798,46 @@ export default function BooksScreen() {
     setTimeout(() => {
       bookDetailRef.current?.present();
     }, 50);
-  }, [isModalOpen]);
+  }, [isModalOpen, isSelecting]);
+
+  const handleBookLongPress = useCallback((book: SavedBook) => {
+    if (isSelecting) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+    setIsSelecting(true);
+    setSelectedBookIds(new Set([book.id]));
+  }, [isSelecting]);
+
+  const handleCancelSelecting = useCallback(() => {
+    setIsSelecting(false);
+    setSelectedBookIds(new Set());
+  }, []);
+
+  const handleSelectShelf = useCallback((tagName: string | null) => {
+    updateFilters({ ...filters, tags: tagName ? [tagName] : [] });
+  }, [filters, updateFilters]);
+
+  const handleBulkTag = useCallback(async (tagName: string) => {
+    const books = savedBooks.filter((book) => selectedBookIds.has(book.id));
+    console.log('🏷️ Tagging', books.length, 'books with', tagName);
+
+    try {
+      await addTagToUserBooks(books, tagName);
+      bulkTagRef.current?.dismiss();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showToast(`Tagged ${books.length} ${books.length === 1 ? 'book' : 'books'} "${tagName}"`, 'success');
+      handleCancelSelecting();
+      await fetchSavedBooks();
+    } catch (error) {
+      console.error('Error tagging books:', error);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Error', 'Failed to tag books');
+    }
+  }, [savedBooks, selectedBookIds, showToast, handleCancelSelecting, fetchSavedBooks]);
+
+  // Removing a book also removes its reading sessions, so reload the log too
+  const handleBookDetailRefresh = useCallback(async () => {
+    await Promise.all([fetchSavedBooks(), refreshReadingLog()]);
+  }, [fetchSavedBooks, refreshReadingLog]);
 
   const handleCloseBookDetail = () => {
     console.log('Closing book detail modal');
@@ -685,7 +881,14 @@ export default function BooksScreen() {
       refreshStats(),
       fetchProfileStats(),
     ]);
-  }, [fetchSavedBooks, refreshStats, fetchProfileStats]);
+    checkMilestones();
+  }, [fetchSavedBooks, refreshStats, fetchProfileStats, checkMilestones]);
+
+  const handleBulkBooksAdded = useCallback(async (result: BulkAddResult) => {
+    console.log('📚 Bulk scan finished:', result);
+    showToast(formatBulkAddResult(result), result.failed > 0 ? 'warning' : 'success');
+    await handleCustomBookAdded();
+  }, [showToast, handleCustomBookAdded]);
 
   return (
     <View style={styles.container}>
@@ -713,10 +916,13 @@ export default function BooksScreen() {
                 </Text>
               </View>
               
-              <View style={styles.badge}>
-                <Text style={styles.badgeText}>
-                  {savedBooks.length} {savedBooks.length === 1 ? 'book' : 'books'}
-                </Text>
+              <View style={styles.headerRight}>
+                <View style={styles.badge}>
+                  <Text style={styles.badgeText}>
+                    {activeBooks.length} {activeBooks.length === 1 ? 'book' : 'books'}
+                  </Text>
+                </View>
+                <ReadingStreakBadge />
               </View>
             </View>
           </View>
@@ -756,11 +962,49 @@ export default function BooksScreen() {
             </TouchableOpacity>
           </View>
 
+          <PendingLookupsBanner
+            count={pendingLookups.length}
+            isRetrying={isRetrying}
+            onRetry={retryPendingLookups}
+          />
+
+          {activeBooks.length > 0 && (
+            <>
+              <DueSoonBooksCard books={activeBooks} onPressBook={handleBookPress} />
+              <MostReadBooksCard />
+              {isSelecting ? (
+                <BookSelectionBar
+                  selectedCount={selectedBookIds.size}
+                  onTag={() => bulkTagRef.current?.present()}
+                  onCancel={handleCancelSelecting}
+                />
+              ) : (
+                <>
+                  <BookshelfSearchBar
+                    search={search}
+                    onSearchChange={setSearch}
+                    activeFilterCount={activeFilterCount}
+                    onOpenFilters={() => shelfFilterRef.current?.present()}
+                  />
+                  <BookTagShelves
+                    tags={shelfTags}
+                    tagCounts={tagCounts}
+                    totalCount={activeBooks.length}
+                    selectedTag={selectedShelf}
+                    onSelectTag={handleSelectShelf}
+                    onManage={() => tagManagerRef.current?.present()}
+                    onStartSelecting={() => setIsSelecting(true)}
+                  />
+                </>
+              )}
+            </>
+          )}
+
           {isLoadingBooks ? (
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="large" color={colors.primary} />
             </View>
-          ) : savedBooks.length === 0 ? (
+          ) : activeBooks.length === 0 ? (
             <View style={styles.emptyState}>
               <IconSymbol
                 ios_icon_name="book.fill"
@@ -773,27 +1017,74 @@ export default function BooksScreen() {
                 Tap the button above to scan and add books to your library
               </Text>
             </View>
+          ) : visibleBooks.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>No matching books</Text>
+              <Text style={styles.emptySubtext}>
+                Try a different search or clear the filters
+              </Text>
+              <TouchableOpacity
+                style={styles.clearFiltersButton}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  setSearch('');
+                  resetFilters();
+                }}
+              >
+                <Text style={styles.clearFiltersText}>Clear search & filters</Text>
+              </TouchableOpacity>
+            </View>
           ) : (
             <View style={styles.booksGrid}>
-              {savedBooks.map((savedBook, index) => (
+              {visibleBooks.map((savedBook, index) => (
                 <BookCard
                   key={`${savedBook.id}-${index}`}
                   book={savedBook}
                   imageUrl={getImageUrl(savedBook)}
+                  selectionMode={isSelecting}
+                  isSelected={selectedBookIds.has(savedBook.id)}
                   onPress={handleBookPress}
+                  onLongPress={handleBookLongPress}
                   onImageError={handleImageValidationFailed}
                 />
               ))}
             </View>
           )}
+
+          {!isLoadingBooks && !isSelecting && (
+            <ReturnedBooksSection books={returnedBooks} onPressBook={handleBookPress} />
+          )}
         </ScrollView>
       </SafeAreaView>
 
       <BookDetailBottomSheet
         ref={bookDetailRef}
         userBook={selectedBook}
+        shelfBooks={savedBooks}
         onClose={handleCloseBookDetail}
-        onRefresh={fetchSavedBooks}
+        onRefresh={handleBookDetailRefresh}
+      />
+
+      <BookshelfFilterBottomSheet
+        ref={shelfFilterRef}
+        filters={filters}
+        availableTags={shelfTags}
+        onChange={updateFilters}
+        onReset={resetFilters}
+      />
+
+      <BookTagManagerBottomSheet
+        ref={tagManagerRef}
+        tagCounts={tagCounts}
+        usedNames={availableTags}
+        onBooksChanged={fetchSavedBooks}
+      />
+
+      <BulkTagBottomSheet
+        ref={bulkTagRef}
+        selectedCount={selectedBookIds.size}
+        usedNames={availableTags}
+        onPick={handleBulkTag}
       />
 
       <AddCustomBookBottomSheet
@@ -831,6 +1122,7 @@ export default function BooksScreen() {
           setShowScanner(false);
         }}
         onBarcodeScanned={handleBarcodeScanned}
+        onBulkBooksAdded={handleBulkBooksAdded}
       />
 
       <ToastNotification
@@ -870,6 +1162,10 @@ const styles = StyleSheet.create({
   headerLeft: {
     flex: 1,
   },
+  headerRight: {
+    alignItems: 'flex-end',
+    gap: 8,
+  },
   badge: {
     backgroundColor: colors.accent,
     borderRadius: 20,
@@ -936,6 +1232,18 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: 40,
   },
+  clearFiltersButton: {
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    marginTop: 16,
+  },
+  clearFiltersText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.backgroundAlt,
+  },
   booksGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -948,6 +1256,26 @@ const styles = StyleSheet.create({
     overflow: 'visible',
     position: 'relative',
   },
+  bookCardUnselected: {
+    opacity: 0.6,
+  },
+  selectionCheck: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: colors.backgroundAlt,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 20,
+  },
+  selectionCheckActive: {
+    backgroundColor: colors.buttonBlue,
+  },
   bookCoverContainer: {
     width: '100%',
     aspectRatio: 4 / 5,
@@ -7,6 +7,7 @@ import { BottomSheetModal } from '@gorhom/bottom-sheet';
 import { colors } from '@/styles/commonStyles';
 import { IconSymbol } from '@/components/IconSymbol';
 import { useChild } from '@/contexts/ChildContext';
+import { useStats } from '@/contexts/StatsContext';
 import { useCameraTrigger } from '@/contexts/CameraTriggerContext';
 import { useSubscription } from '@/contexts/SubscriptionContext';
 import { useProfileStats } from '@/contexts/ProfileStatsContext';
@@ -17,11 +18,17 @@ import SettingsBottomSheet from '@/components/SettingsBottomSheet';
 import FullScreenVideoPlayer from '@/components/FullScreenVideoPlayer';
 import ProfileAvatar from '@/components/ProfileAvatar';
 import SubscriptionStatusCard from '@/components/SubscriptionStatusCard';
+import GrowthChartsSection from '@/components/GrowthChartsSection';
+import VocabularyBenchmarkCard from '@/components/VocabularyBenchmarkCard';
+import WordSuggestionsCard from '@/components/WordSuggestionsCard';
+import MomentUploadsCard from '@/components/MomentUploadsCard';
+import ReadingStreakBadge from '@/components/ReadingStreakBadge';
 import UpgradePromptModal from '@/components/UpgradePromptModal';
 import { supabase } from '@/app/integrations/supabase/client';
 import { pickProfileImage, uploadProfileAvatar, deleteProfileAvatar } from '@/utils/profileAvatarUpload';
 import { HapticFeedback } from '@/utils/haptics';
 import { processMomentsWithSignedUrls, getSignedVideoUrl } from '@/utils/videoStorage';
+import { getWordsFirstSaidSinceFilter } from '@/utils/wordDates';
 
 interface ProfileStats {
   totalWords: number;
@@ -59,6 +66,7 @@ export default function ProfileScreen() {
   const { triggerCamera } = useCameraTrigger();
   const { canAddChild, refreshUsage } = useSubscription();
   const { stats: profileStats, fetchProfileStats } = useProfileStats();
+  const { stats: weeklyStats } = useStats();
   const { userRole, roleLoading } = useAuth();
   const childSelectorRef = useRef<BottomSheetModal>(null);
   const addChildRef = useRef<BottomSheetModal>(null);
@@ -133,7 +141,7 @@ export default function ProfileScreen() {
           .from('user_words')
           .select('*', { count: 'exact', head: true })
           .eq('child_id', selectedChild.id)
-          .gte('created_at', startOfWeekISO),
+          .or(getWordsFirstSaidSinceFilter(startOfWeekISO)),
         supabase
           .from('user_books')
           .select('*', { count: 'exact', head: true })
@@ -148,6 +156,7 @@ export default function ProfileScreen() {
           .from('moments')
           .select('id, video_url, thumbnail_url, created_at, trim_start, trim_end')
           .eq('child_id', selectedChild.id)
+          .eq('media_type', 'video')
           .order('created_at', { ascending: false })
           .limit(5),
       ]);
@@ -785,8 +794,10 @@ export default function ProfileScreen() {
                 <Text style={styles.statLabel}>new {stats.wordsThisWeek === 1 ? 'word' : 'words'}</Text>
               </View>
               <View style={[styles.statCard, { backgroundColor: colors.cardPink }]}>
-                <Text style={styles.statNumberBlue}>{stats.booksThisWeek}</Text>
-                <Text style={styles.statLabelBlue}>new {stats.booksThisWeek === 1 ? 'book' : 'books'}</Text>
+                <Text style={styles.statNumberBlue}>{weeklyStats.readsThisWeek}</Text>
+                <Text style={styles.statLabelBlue}>
+                  {weeklyStats.readsThisWeek === 1 ? 'read' : 'reads'} · {stats.booksThisWeek} new {stats.booksThisWeek === 1 ? 'book' : 'books'}
+                </Text>
               </View>
               <View style={[styles.statCard, { backgroundColor: colors.secondary }]}>
                 <Text style={styles.statNumber}>{stats.momentsThisWeek}</Text>
@@ -825,6 +836,16 @@ export default function ProfileScreen() {
             </View>
           </View>
 
+          <ReadingStreakBadge variant="card" />
+
+          <WordSuggestionsCard />
+
+          <VocabularyBenchmarkCard />
+
+          <GrowthChartsSection />
+
+          <MomentUploadsCard />
+
           <View style={styles.momentsSection}>
             <Text style={styles.sectionTitle}>Moments</Text>
             {moments.length > 0 ? (
@@ -8,12 +8,16 @@ import { colors } from '@/styles/commonStyles';
 import { IconSymbol } from '@/components/IconSymbol';
 import { useAuth } from '@/contexts/AuthContext';
 import { useChild } from '@/contexts/ChildContext';
+import { useDataExport } from '@/hooks/useDataExport';
+import { useDataImport } from '@/hooks/useDataImport';
 import { HapticFeedback } from '@/utils/haptics';
 
 export default function SettingsScreen() {
   const router = useRouter();
   const { user, signOut } = useAuth();
   const { selectedChild, updateChild } = useChild();
+  const { startExport, isExporting } = useDataExport();
+  const { startImport, isImporting } = useDataImport();
 
   const [childName, setChildName] = useState('');
   const [birthDate, setBirthDate] = useState(new Date());
@@ -49,13 +53,12 @@ export default function SettingsScreen() {
     }
   };
 
-  const handleExportData = async () => {
-    HapticFeedback.medium();
-    Alert.alert(
-      'Export Data',
-      'This feature will export all your data including books, words, and moments. Coming soon!',
-      [{ text: 'OK' }]
-    );
+  const handleExportData = () => {
+    startExport();
+  };
+
+  const handleImportData = () => {
+    startImport();
   };
 
   const handlePrivacyPolicy = () => {
@@ -225,7 +228,7 @@ export default function SettingsScreen() {
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Data & Privacy</Text>
 
-            <TouchableOpacity style={styles.menuItem} onPress={handleExportData}>
+            <TouchableOpacity style={styles.menuItem} onPress={handleExportData} disabled={isExporting}>
               <View style={styles.menuItemLeft}>
                 <IconSymbol
                   ios_icon_name="square.and.arrow.up"
@@ -233,7 +236,25 @@ export default function SettingsScreen() {
                   size={20}
                   color={colors.primary}
                 />
-                <Text style={styles.menuItemText}>Export Data</Text>
+                <Text style={styles.menuItemText}>{isExporting ? 'Exporting...' : 'Export Data'}</Text>
+              </View>
+              <IconSymbol
+                ios_icon_name="chevron.right"
+                android_material_icon_name="chevron-right"
+                size={20}
+                color={colors.textSecondary}
+              />
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.menuItem} onPress={handleImportData} disabled={isImporting}>
+              <View style={styles.menuItemLeft}>
+                <IconSymbol
+                  ios_icon_name="square.and.arrow.down"
+                  android_material_icon_name="file-upload"
+                  size={20}
+                  color={colors.primary}
+                />
+                <Text style={styles.menuItemText}>{isImporting ? 'Importing...' : 'Import Data'}</Text>
               </View>
               <IconSymbol
                 ios_icon_name="chevron.right"
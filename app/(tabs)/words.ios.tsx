@@ -8,12 +8,18 @@ import { useChild } from '@/contexts/ChildContext';
 import { useWordNavigation } from '@/contexts/WordNavigationContext';
 import { useStats } from '@/contexts/StatsContext';
 import { useProfileStats } from '@/contexts/ProfileStatsContext';
+import { useMilestones } from '@/contexts/MilestonesContext';
 import { supabase } from '@/app/integrations/supabase/client';
 import AddWordBottomSheet from '@/components/AddWordBottomSheet';
+import WordChecklistBottomSheet from '@/components/WordChecklistBottomSheet';
 import WordDetailBottomSheet from '@/components/WordDetailBottomSheet';
 import { BottomSheetModal } from '@gorhom/bottom-sheet';
 import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
 import * as Haptics from 'expo-haptics';
+import { WORD_CATEGORIES, WordCategory } from '@/data/wordCategories';
+import { resolveWordCategory } from '@/utils/wordCategories';
+import { PronunciationStage } from '@/data/pronunciationStages';
+import { isPronunciationStage } from '@/utils/pronunciationHistory';
 
 interface Word {
   id: string;
@@ -24,6 +30,11 @@ interface Word {
   is_spoken: boolean;
   is_recognised: boolean;
   is_recorded: boolean;
+  category: WordCategory;
+  pronunciation_stage: PronunciationStage | null;
+  pronunciation: string | null;
+  first_spoken_at: string | null;
+  first_recognised_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -37,16 +48,19 @@ export default function WordsScreen() {
   const { targetWordIdToOpen, clearTargetWordIdToOpen } = useWordNavigation();
   const { refreshStats } = useStats();
   const { fetchProfileStats } = useProfileStats();
+  const { checkMilestones } = useMilestones();
   const params = useLocalSearchParams();
   const router = useRouter();
   const [words, setWords] = useState<Word[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedWord, setSelectedWord] = useState<Word | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [selectedCategory, setSelectedCategory] = useState<WordCategory | 'all'>('all');
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const isFetchingRef = useRef(false);
 
   const addWordSheetRef = useRef<BottomSheetModal>(null);
+  const checklistSheetRef = useRef<BottomSheetModal>(null);
   const wordDetailSheetRef = useRef<BottomSheetModal>(null);
   const hasProcessedAutoOpen = useRef(false);
 
@@ -137,6 +151,11 @@ export default function WordsScreen() {
         is_spoken: uw.is_spoken,
         is_recognised: uw.is_recognised,
         is_recorded: uw.is_recorded,
+        category: resolveWordCategory(uw.category, uw.custom_word || ''),
+        pronunciation_stage: isPronunciationStage(uw.pronunciation_stage) ? uw.pronunciation_stage : null,
+        pronunciation: uw.pronunciation || null,
+        first_spoken_at: uw.first_spoken_at || null,
+        first_recognised_at: uw.first_recognised_at || null,
         created_at: uw.created_at,
         updated_at: uw.updated_at,
       }));
@@ -201,7 +220,7 @@ export default function WordsScreen() {
     return grouped;
   };
 
-  const handleAddWord = async (word: string, emoji: string, color: string) => {
+  const handleAddWord = async (word: string, emoji: string, color: string, category: WordCategory) => {
     if (!selectedChild) {
       Alert.alert('Error', 'Please select a child first');
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
@@ -242,6 +261,7 @@ export default function WordsScreen() {
           color,
           custom_word: word,
           custom_emoji: emoji,
+          category,
         });
 
       if (insertError) {
@@ -263,6 +283,8 @@ export default function WordsScreen() {
         refreshStats(),
         fetchProfileStats(),
       ]);
+
+      checkMilestones();
     } catch (error) {
       console.error('[iOS] Error in handleAddWord:', error);
       Alert.alert('Error', 'Failed to add word');
@@ -293,18 +315,52 @@ export default function WordsScreen() {
     addWordSheetRef.current?.present();
   };
 
+  const handleCategoryPress = (category: WordCategory | 'all') => {
+    console.log('[iOS] Category filter selected:', category);
+    Haptics.selectionAsync();
+    setSelectedCategory(category);
+  };
+
   const handleCloseWordDetail = useCallback(() => {
     console.log('[iOS] Closing word detail');
     setSelectedWord(null);
   }, []);
 
+  const handleOpenChecklist = () => {
+    console.log('🔵 [iOS] Checklist button pressed');
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    checklistSheetRef.current?.present();
+  };
+
+  const handleChecklistWordsAdded = async () => {
+    // EXPO GO FIX: Add delay before refreshing to ensure database consistency
+    await new Promise(resolve => setTimeout(resolve, 300));
+    await fetchWords();
+
+    console.log('📊 [iOS] Silently refreshing profile stats after checklist words were added');
+    await Promise.all([
+      refreshStats(),
+      fetchProfileStats(),
+    ]);
+
+    checkMilestones();
+  };
+
   // Reset the flag when the bottom sheet is dismissed
   const handleAddWordSheetDismiss = useCallback(() => {
     console.log('[iOS] Add word bottom sheet dismissed - resetting hasProcessedAutoOpen flag');
     hasProcessedAutoOpen.current = false;
   }, []);
 
-  const groupedWords = groupWordsByLetter(words);
+  // Only show chips for categories the child actually has words in
+  const availableCategories = WORD_CATEGORIES.filter((c) => words.some((w) => w.category === c.id));
+  // Fall back to all words if the selected category no longer has any (e.g. after a delete)
+  const activeCategory = availableCategories.some((c) => c.id === selectedCategory) ? selectedCategory : 'all';
+  const filteredWords = activeCategory === 'all'
+    ? words
+    : words.filter((w) => w.category === activeCategory);
+
+  const groupedWords = groupWordsByLetter(filteredWords);
   const sortedLetters = Object.keys(groupedWords).sort();
 
   return (
@@ -348,8 +404,46 @@ export default function WordsScreen() {
                 color={colors.backgroundAlt}
               />
             </TouchableOpacity>
+            <TouchableOpacity style={styles.checklistButton} onPress={handleOpenChecklist}>
+              <IconSymbol
+                ios_icon_name="checklist"
+                android_material_icon_name="checklist"
+                size={20}
+                color={colors.primary}
+              />
+              <Text style={styles.checklistButtonText}>Tick off from first words checklist</Text>
+            </TouchableOpacity>
           </View>
 
+          {!loading && availableCategories.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.categoryScroll}
+              contentContainerStyle={styles.categoryChips}
+            >
+              <TouchableOpacity
+                style={[styles.categoryChip, activeCategory === 'all' && styles.categoryChipActive]}
+                onPress={() => handleCategoryPress('all')}
+              >
+                <Text style={[styles.categoryChipText, activeCategory === 'all' && styles.categoryChipTextActive]}>
+                  All ({words.length})
+                </Text>
+              </TouchableOpacity>
+              {availableCategories.map((category) => (
+                <TouchableOpacity
+                  key={category.id}
+                  style={[styles.categoryChip, activeCategory === category.id && styles.categoryChipActive]}
+                  onPress={() => handleCategoryPress(category.id)}
+                >
+                  <Text style={[styles.categoryChipText, activeCategory === category.id && styles.categoryChipTextActive]}>
+                    {category.emoji} {category.label} ({words.filter((w) => w.category === category.id).length})
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
           {loading ? (
             <View style={styles.emptyState}>
               <Text style={styles.emptyText}>Loading words...</Text>
@@ -442,6 +536,11 @@ export default function WordsScreen() {
         onAddWord={handleAddWord}
         onDismiss={handleAddWordSheetDismiss}
       />
+      <WordChecklistBottomSheet
+        ref={checklistSheetRef}
+        existingWords={words.map((w) => w.word)}
+        onWordsAdded={handleChecklistWordsAdded}
+      />
       <WordDetailBottomSheet
         ref={wordDetailSheetRef}
         word={selectedWord}
@@ -511,6 +610,47 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: colors.backgroundAlt,
   },
+  checklistButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: colors.primary,
+    gap: 8,
+  },
+  checklistButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  categoryScroll: {
+    marginBottom: 8,
+    marginHorizontal: -20,
+  },
+  categoryChips: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  categoryChip: {
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  categoryChipActive: {
+    backgroundColor: colors.primary,
+  },
+  categoryChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  categoryChipTextActive: {
+    color: colors.backgroundAlt,
+  },
   letterSection: {
     marginVertical: 16,
   },
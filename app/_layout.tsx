@@ -9,6 +9,12 @@ import { AddNavigationProvider } from '@/contexts/AddNavigationContext';
 import { SubscriptionProvider } from '@/contexts/SubscriptionContext';
 import { StatsProvider } from '@/contexts/StatsContext';
 import { ProfileStatsProvider } from '@/contexts/ProfileStatsContext';
+import { MilestonesProvider } from '@/contexts/MilestonesContext';
+import { ReadingLogProvider } from '@/contexts/ReadingLogContext';
+import { ReadingGoalProvider } from '@/contexts/ReadingGoalContext';
+import { BookTagsProvider } from '@/contexts/BookTagsContext';
+import { PendingBookLookupsProvider } from '@/contexts/PendingBookLookupsContext';
+import { MomentUploadsProvider } from '@/contexts/MomentUploadsContext';
 import { BottomSheetModalProvider } from '@gorhom/bottom-sheet';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
@@ -22,43 +28,55 @@ export default function RootLayout() {
             <ChildProvider>
               <StatsProvider>
                 <ProfileStatsProvider>
-                  <VideoRecordingProvider>
-                    <CameraTriggerProvider>
-                      <WordNavigationProvider>
-                        <AddNavigationProvider>
-                          <BottomSheetModalProvider>
-                            <Stack screenOptions={{ headerShown: false }}>
-                              <Stack.Screen name="index" options={{ headerShown: false }} />
-                              <Stack.Screen name="(auth)" options={{ headerShown: false }} />
-                              <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-                              <Stack.Screen
-                                name="modal"
-                                options={{
-                                  presentation: 'modal',
-                                  headerShown: false,
-                                }}
-                              />
-                              <Stack.Screen
-                                name="formsheet"
-                                options={{
-                                  presentation: 'formSheet',
-                                  headerShown: false,
-                                }}
-                              />
-                              <Stack.Screen
-                                name="transparent-modal"
-                                options={{
-                                  presentation: 'transparentModal',
-                                  headerShown: false,
-                                  animation: 'fade',
-                                }}
-                              />
-                            </Stack>
-                          </BottomSheetModalProvider>
-                        </AddNavigationProvider>
-                      </WordNavigationProvider>
-                    </CameraTriggerProvider>
-                  </VideoRecordingProvider>
+                  <MilestonesProvider>
+                    <ReadingLogProvider>
+                      <ReadingGoalProvider>
+                        <BookTagsProvider>
+                          <PendingBookLookupsProvider>
+                            <MomentUploadsProvider>
+                              <VideoRecordingProvider>
+                                <CameraTriggerProvider>
+                                  <WordNavigationProvider>
+                                    <AddNavigationProvider>
+                                      <BottomSheetModalProvider>
+                                        <Stack screenOptions={{ headerShown: false }}>
+                                          <Stack.Screen name="index" options={{ headerShown: false }} />
+                                          <Stack.Screen name="(auth)" options={{ headerShown: false }} />
+                                          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                                          <Stack.Screen
+                                            name="modal"
+                                            options={{
+                                              presentation: 'modal',
+                                              headerShown: false,
+                                            }}
+                                          />
+                                          <Stack.Screen
+                                            name="formsheet"
+                                            options={{
+                                              presentation: 'formSheet',
+                                              headerShown: false,
+                                            }}
+                                          />
+                                          <Stack.Screen
+                                            name="transparent-modal"
+                                            options={{
+                                              presentation: 'transparentModal',
+                                              headerShown: false,
+                                              animation: 'fade',
+                                            }}
+                                          />
+                                        </Stack>
+                                      </BottomSheetModalProvider>
+                                    </AddNavigationProvider>
+                                  </WordNavigationProvider>
+                                </CameraTriggerProvider>
+                              </VideoRecordingProvider>
+                            </MomentUploadsProvider>
+                          </PendingBookLookupsProvider>
+                        </BookTagsProvider>
+                      </ReadingGoalProvider>
+                    </ReadingLogProvider>
+                  </MilestonesProvider>
                 </ProfileStatsProvider>
               </StatsProvider>
             </ChildProvider>
@@ -5,6 +5,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { colors } from '@/styles/commonStyles';
 import { IconSymbol } from '@/components/IconSymbol';
+import BookCacheStatsCard from '@/components/BookCacheStatsCard';
 import { HapticFeedback } from '@/utils/haptics';
 import { supabase } from '@/app/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
@@ -150,6 +151,11 @@ export default function AdminPanelScreen() {
             </TouchableOpacity>
           </View>
 
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Book Lookup Cache</Text>
+            <BookCacheStatsCard />
+          </View>
+
           <View style={styles.infoCard}>
             <IconSymbol 
               ios_icon_name="info.circle.fill" 
@@ -8,17 +8,30 @@ import { IconSymbol } from '@/components/IconSymbol';
 import { useChild } from '@/contexts/ChildContext';
 import { supabase } from '@/app/integrations/supabase/client';
 import FullScreenVideoPlayer from '@/components/FullScreenVideoPlayer';
+import FullScreenPhotoViewer from '@/components/FullScreenPhotoViewer';
+import MomentBookBadge from '@/components/MomentBookBadge';
+import AudioMomentPlayer from '@/components/AudioMomentPlayer';
 import { processMomentsWithSignedUrls } from '@/utils/videoStorage';
+import { processAudioMomentsWithSignedUrls } from '@/utils/audioStorage';
+import { processPhotoMomentsWithSignedUrls } from '@/utils/photoStorage';
 
 interface Moment {
   id: string;
-  video_url: string;
+  media_type?: 'video' | 'audio' | 'photo';
+  video_url: string | null;
+  audio_url?: string | null;
+  photo_url?: string | null;
+  waveform?: number[] | null;
   thumbnail_url: string | null;
   created_at: string;
   trim_start?: number;
   trim_end?: number;
   signedVideoUrl?: string | null;
   signedThumbnailUrl?: string | null;
+  signedAudioUrl?: string | null;
+  signedPhotoUrl?: string | null;
+  // Set when the moment is linked to a book
+  user_book?: { book: { title: string } | null } | null;
 }
 
 export default function AllMomentsScreen() {
@@ -29,6 +42,7 @@ export default function AllMomentsScreen() {
   const [error, setError] = useState<string | null>(null);
   const [selectedMoment, setSelectedMoment] = useState<Moment | null>(null);
   const [showVideoPlayer, setShowVideoPlayer] = useState(false);
+  const [viewingPhoto, setViewingPhoto] = useState<Moment | null>(null);
 
   const fetchAllMoments = useCallback(async () => {
     if (!selectedChild) {
@@ -44,7 +58,7 @@ export default function AllMomentsScreen() {
 
       const { data, error: fetchError } = await supabase
         .from('moments')
-        .select('id, video_url, thumbnail_url, created_at, trim_start, trim_end')
+        .select('id, media_type, video_url, audio_url, photo_url, waveform, thumbnail_url, created_at, trim_start, trim_end, user_book:user_books (book:books_library (title))')
         .eq('child_id', selectedChild.id)
         .order('created_at', { ascending: false});
 
@@ -58,7 +72,14 @@ export default function AllMomentsScreen() {
       // Generate signed URLs for all moments
       if (data && data.length > 0) {
         console.log('AllMomentsScreen (iOS): Generating signed URLs for moments...');
-        const momentsWithSignedUrls = await processMomentsWithSignedUrls(data);
+        const [videoMoments, audioMoments, photoMoments] = await Promise.all([
+          processMomentsWithSignedUrls(data.filter((moment) => !moment.media_type || moment.media_type === 'video')),
+          processAudioMomentsWithSignedUrls(data.filter((moment) => moment.media_type === 'audio')),
+          processPhotoMomentsWithSignedUrls(data.filter((moment) => moment.media_type === 'photo')),
+        ]);
+        const momentsWithSignedUrls: Moment[] = [...videoMoments, ...audioMoments, ...photoMoments].sort(
+          (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+        );
         setMoments(momentsWithSignedUrls);
         console.log('AllMomentsScreen (iOS): ✓ Signed URLs generated');
       } else {
@@ -124,6 +145,12 @@ export default function AllMomentsScreen() {
 
   const handleMomentPress = (moment: Moment) => {
     console.log('AllMomentsScreen (iOS): Moment pressed:', moment.id);
+
+    if (moment.media_type === 'photo') {
+      setViewingPhoto(moment);
+      return;
+    }
+
     console.log('AllMomentsScreen (iOS): Trim metadata:', { trim_start: moment.trim_start, trim_end: moment.trim_end });
     
     // Store the full moment object with trim metadata
@@ -139,8 +166,38 @@ export default function AllMomentsScreen() {
 
   const renderMomentItem = ({ item, index }: { item: Moment; index: number }) => {
     const isLeftColumn = index % 2 === 0;
+    const bookTitle = item.user_book?.book?.title;
+
+    // Audio moments play in place instead of opening the video player
+    if (item.media_type === 'audio') {
+      return (
+        <View style={[styles.momentCard, styles.audioMomentCard, isLeftColumn ? styles.momentCardLeft : styles.momentCardRight]}>
+          <IconSymbol 
+            ios_icon_name="waveform" 
+            android_material_icon_name="graphic-eq" 
+            size={48} 
+            color={colors.primary} 
+          />
+          <Text style={styles.audioMomentDate}>
+            {new Date(item.created_at).toLocaleDateString()}
+          </Text>
+          <AudioMomentPlayer
+            audioUri={item.signedAudioUrl ?? null}
+            waveform={item.waveform}
+            trimStart={item.trim_start}
+            trimEnd={item.trim_end}
+            barCount={16}
+            style={styles.audioMomentPlayer}
+          />
+          {!!bookTitle && <MomentBookBadge title={bookTitle} />}
+        </View>
+      );
+    }
+
+    // Photos open full screen, videos in the player
+    const isPhoto = item.media_type === 'photo';
     // Use signed thumbnail URL if available, fallback to original URL
-    const thumbnailUrl = item.signedThumbnailUrl || item.thumbnail_url;
+    const thumbnailUrl = isPhoto ? item.signedPhotoUrl : item.signedThumbnailUrl || item.thumbnail_url;
     
     return (
       <TouchableOpacity
@@ -156,23 +213,26 @@ export default function AllMomentsScreen() {
         ) : (
           <View style={styles.momentPlaceholder}>
             <IconSymbol 
-              ios_icon_name="video.fill" 
-              android_material_icon_name="videocam" 
+              ios_icon_name={isPhoto ? 'photo.fill' : 'video.fill'} 
+              android_material_icon_name={isPhoto ? 'photo' : 'videocam'} 
               size={48} 
               color={colors.backgroundAlt} 
             />
           </View>
         )}
-        <View style={styles.playIconOverlay}>
-          <View style={styles.playIconCircle}>
-            <IconSymbol 
-              ios_icon_name="play.fill" 
-              android_material_icon_name="play-arrow" 
-              size={24} 
-              color={colors.backgroundAlt} 
-            />
+        {!isPhoto && (
+          <View style={styles.playIconOverlay}>
+            <View style={styles.playIconCircle}>
+              <IconSymbol 
+                ios_icon_name="play.fill" 
+                android_material_icon_name="play-arrow" 
+                size={24} 
+                color={colors.backgroundAlt} 
+              />
+            </View>
           </View>
-        </View>
+        )}
+        {!!bookTitle && <MomentBookBadge title={bookTitle} />}
       </TouchableOpacity>
     );
   };
@@ -280,12 +340,18 @@ export default function AllMomentsScreen() {
       {selectedMoment && (
         <FullScreenVideoPlayer
           visible={showVideoPlayer}
-          videoUri={selectedMoment.signedVideoUrl || selectedMoment.video_url}
+          videoUri={selectedMoment.signedVideoUrl || selectedMoment.video_url || ''}
           onClose={handleCloseVideoPlayer}
           trimStart={selectedMoment.trim_start}
           trimEnd={selectedMoment.trim_end}
         />
       )}
+
+      <FullScreenPhotoViewer
+        visible={!!viewingPhoto}
+        photoUri={viewingPhoto?.signedPhotoUrl ?? null}
+        onClose={() => setViewingPhoto(null)}
+      />
     </View>
   );
 }
@@ -378,6 +444,20 @@ const styles = StyleSheet.create({
     backgroundColor: colors.cardPurple,
     position: 'relative',
   },
+  audioMomentCard: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    gap: 12,
+  },
+  audioMomentDate: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  audioMomentPlayer: {
+    width: '100%',
+  },
   momentCardLeft: {
     marginRight: 4,
   },
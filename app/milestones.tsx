@@ -1,5 +1,5 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
@@ -7,19 +7,22 @@ import { colors } from '@/styles/commonStyles';
 import { IconSymbol } from '@/components/IconSymbol';
 import { ScallopedBadge } from '@/components/ScallopedBadge';
 import BadgeDetailBottomSheet from '@/components/BadgeDetailBottomSheet';
-import { AchievementUnlockModal } from '@/components/AchievementUnlockModal';
-import { milestonesData } from '@/data/milestonesData';
+import { useMilestones } from '@/contexts/MilestonesContext';
 import type { Milestone } from '@/components/BadgeDetailBottomSheet';
 import { BottomSheetModal } from '@gorhom/bottom-sheet';
 import * as Haptics from 'expo-haptics';
 
 export default function MilestonesScreen() {
   const router = useRouter();
+  const { milestones, refreshMilestones } = useMilestones();
   const [selectedMilestone, setSelectedMilestone] = useState<Milestone | null>(null);
-  const [achievementMilestone, setAchievementMilestone] = useState<Milestone | null>(null);
-  const [showAchievementModal, setShowAchievementModal] = useState(false);
   const bottomSheetRef = useRef<BottomSheetModal>(null);
 
+  // Re-evaluate progress whenever the screen is opened
+  useEffect(() => {
+    refreshMilestones();
+  }, [refreshMilestones]);
+
   const handleBack = () => {
     console.log('MilestonesScreen: Back button pressed');
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -43,25 +46,10 @@ export default function MilestonesScreen() {
     setSelectedMilestone(null);
   };
 
-  const handleCloseAchievementModal = () => {
-    console.log('MilestonesScreen: Closing achievement modal');
-    setShowAchievementModal(false);
-    setAchievementMilestone(null);
-  };
-
-  // Example function to trigger achievement unlock (for testing)
-  // You can call this when a milestone is actually achieved
-  const triggerAchievement = (milestone: Milestone) => {
-    console.log('MilestonesScreen: Triggering achievement:', milestone.name);
-    const achievedMilestone = { ...milestone, achieved: true, dateAchieved: new Date().toLocaleDateString() };
-    setAchievementMilestone(achievedMilestone);
-    setShowAchievementModal(true);
-  };
-
   const renderBadgeGrid = () => {
     const rows: Milestone[][] = [];
-    for (let i = 0; i < milestonesData.length; i += 3) {
-      rows.push(milestonesData.slice(i, i + 3));
+    for (let i = 0; i < milestones.length; i += 3) {
+      rows.push(milestones.slice(i, i + 3));
     }
 
     return (
@@ -123,13 +111,6 @@ export default function MilestonesScreen() {
         milestone={selectedMilestone}
         onClose={handleCloseBottomSheet}
       />
-
-      {/* Achievement Unlock Modal */}
-      <AchievementUnlockModal
-        visible={showAchievementModal}
-        milestone={achievementMilestone}
-        onClose={handleCloseAchievementModal}
-      />
     </View>
   );
 }
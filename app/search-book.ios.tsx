@@ -17,6 +17,7 @@ import { Image } from 'expo-image';
 import { colors, commonStyles } from '@/styles/commonStyles';
 import { IconSymbol } from '@/components/IconSymbol';
 import { useChild } from '@/contexts/ChildContext';
+import { useMilestones } from '@/contexts/MilestonesContext';
 import { supabase } from '@/app/integrations/supabase/client';
 import { searchGoogleBooks, getBookDetails, BookSearchResult } from '@/utils/googleBooksApi';
 import ToastNotification from '@/components/ToastNotification';
@@ -27,6 +28,7 @@ import AddCustomBookBottomSheet from '@/components/AddCustomBookBottomSheet';
 
 export default function SearchBookScreen() {
   const { selectedChild } = useChild();
+  const { checkMilestones } = useMilestones();
   const router = useRouter();
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<BookSearchResult[]>([]);
@@ -177,6 +179,9 @@ export default function SearchBookScreen() {
             description: selectedBook.description,
             published_date: selectedBook.publishedDate,
             page_count: selectedBook.pageCount,
+            isbn: selectedBook.isbn ?? null,
+            series_name: selectedBook.series?.name ?? null,
+            series_number: selectedBook.series?.number ?? null,
             source: 'google_books',
           })
           .select('id')
@@ -246,6 +251,8 @@ export default function SearchBookScreen() {
       console.log('[iOS] Book added to user library successfully');
       console.log('[iOS] === ADDING BOOK PROCESS COMPLETED ===');
 
+      checkMilestones();
+
       // Show success message
       showToast('Book added to your library!', 'success');
       
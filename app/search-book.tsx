@@ -19,6 +19,7 @@ import { IconSymbol } from '@/components/IconSymbol';
 import { useChild } from '@/contexts/ChildContext';
 import { useStats } from '@/contexts/StatsContext';
 import { useProfileStats } from '@/contexts/ProfileStatsContext';
+import { useMilestones } from '@/contexts/MilestonesContext';
 import { supabase } from '@/app/integrations/supabase/client';
 import { searchGoogleBooks, getBookDetails, BookSearchResult } from '@/utils/googleBooksApi';
 import ToastNotification from '@/components/ToastNotification';
@@ -31,6 +32,7 @@ export default function SearchBookScreen() {
   const { selectedChild } = useChild();
   const { refreshStats } = useStats();
   const { fetchProfileStats } = useProfileStats();
+  const { checkMilestones } = useMilestones();
   const router = useRouter();
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<BookSearchResult[]>([]);
@@ -181,6 +183,9 @@ export default function SearchBookScreen() {
             description: selectedBook.description,
             published_date: selectedBook.publishedDate,
             page_count: selectedBook.pageCount,
+            isbn: selectedBook.isbn ?? null,
+            series_name: selectedBook.series?.name ?? null,
+            series_number: selectedBook.series?.number ?? null,
             source: 'google_books',
           })
           .select('id')
@@ -260,6 +265,7 @@ export default function SearchBookScreen() {
         refreshStats(),
         fetchProfileStats(),
       ]);
+      checkMilestones();
 
       // Show success message
       showToast('Book added to your library!', 'success');
@@ -17,7 +17,15 @@ module.exports = function (api) {
       : [];
 
   return {
-    presets: ["babel-preset-expo"],
+    presets: [
+      [
+        "babel-preset-expo",
+        {
+          // @ffmpeg/ffmpeg (the web video trimmer) creates its worker from import.meta.url
+          unstable_transformImportMeta: true,
+        },
+      ],
+    ],
     plugins: [
       [
         "module-resolver",
@@ -159,14 +159,16 @@ const AddCustomBookBottomSheet = forwardRef<BottomSheetModal, AddCustomBookBotto
 
         // Step 2: Create a minimal entry in books_library
         console.log('Creating book entry in books_library...');
-        const googleBooksId = isbn.trim() 
-          ? `custom_isbn_${isbn.replace(/[-\s]/g, '')}`
+        const cleanIsbn = isbn.trim() ? isbn.replace(/[-\s]/g, '') : null;
+        const googleBooksId = cleanIsbn
+          ? `custom_isbn_${cleanIsbn}`
           : `custom_${Date.now()}_${Math.random().toString(36).substring(7)}`;
 
         const { data: newBook, error: bookError } = await supabase
           .from('books_library')
           .insert({
             google_books_id: googleBooksId,
+            isbn: cleanIsbn,
             title: title.trim(),
             authors: 'Custom',
             description: description.trim() || null,
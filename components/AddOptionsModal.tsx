@@ -25,6 +25,7 @@ interface AddOptionsModalProps {
   onScanBook: () => void;
   onAddWord: () => void;
   onCaptureMoment: () => void;
+  onRecordAudio: () => void;
 }
 
 export default function AddOptionsModal({
@@ -33,11 +34,13 @@ export default function AddOptionsModal({
   onScanBook,
   onAddWord,
   onCaptureMoment,
+  onRecordAudio,
 }: AddOptionsModalProps) {
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim1 = useRef(new Animated.Value(20)).current;
   const slideAnim2 = useRef(new Animated.Value(20)).current;
   const slideAnim3 = useRef(new Animated.Value(20)).current;
+  const slideAnim4 = useRef(new Animated.Value(20)).current;
   const [isProcessing, setIsProcessing] = useState(false);
 
   useEffect(() => {
@@ -47,6 +50,7 @@ export default function AddOptionsModal({
       slideAnim1.setValue(20);
       slideAnim2.setValue(20);
       slideAnim3.setValue(20);
+      slideAnim4.setValue(20);
       setIsProcessing(false);
 
       Animated.parallel([
@@ -76,6 +80,13 @@ export default function AddOptionsModal({
           delay: 150,
           useNativeDriver: true,
         }),
+        Animated.spring(slideAnim4, {
+          toValue: 0,
+          tension: 80,
+          friction: 8,
+          delay: 200,
+          useNativeDriver: true,
+        }),
       ]).start();
     } else {
       Animated.parallel([
@@ -99,9 +110,14 @@ export default function AddOptionsModal({
           duration: 150,
           useNativeDriver: true,
         }),
+        Animated.timing(slideAnim4, {
+          toValue: 20,
+          duration: 150,
+          useNativeDriver: true,
+        }),
       ]).start();
     }
-  }, [visible, fadeAnim, slideAnim1, slideAnim2, slideAnim3]);
+  }, [visible, fadeAnim, slideAnim1, slideAnim2, slideAnim3, slideAnim4]);
 
   if (!visible) {
     return null;
@@ -160,6 +176,26 @@ export default function AddOptionsModal({
     }
   };
 
+  const handleRecordAudio = () => {
+    if (isProcessing) return;
+
+    console.log('[AddOptionsModal] Record audio pressed');
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    if (Platform.OS === 'web') {
+      Alert.alert(
+        'Microphone Not Available',
+        'Audio recording is not supported on web. Please use the app on your mobile device to record audio moments.',
+        [{ text: 'OK' }]
+      );
+      onClose();
+      return;
+    }
+
+    setIsProcessing(true);
+    onRecordAudio();
+  };
+
   return (
     <TouchableWithoutFeedback onPress={onClose}>
       <Animated.View
@@ -252,6 +288,36 @@ export default function AddOptionsModal({
                 </View>
               </TouchableOpacity>
             </Animated.View>
+
+            {/* Third Row: Audio-only Moment */}
+            <Animated.View
+              style={[
+                styles.largeButtonWrapper,
+                {
+                  opacity: fadeAnim,
+                  transform: [{ translateY: slideAnim4 }],
+                },
+              ]}
+            >
+              <TouchableOpacity
+                style={styles.audioButton}
+                onPress={handleRecordAudio}
+                activeOpacity={0.8}
+                disabled={isProcessing}
+              >
+                <View style={[styles.solidButton, styles.audioButtonContent, { backgroundColor: colors.cardPurple }]}>
+                  <IconSymbol
+                    ios_icon_name="mic.fill"
+                    android_material_icon_name="mic"
+                    size={22}
+                    color="#3330AF"
+                  />
+                  <Text style={[styles.buttonText, { color: '#3330AF' }]}>
+                    Record a Sound{Platform.OS === 'web' ? ' (Mobile Only)' : ''}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            </Animated.View>
           </View>
         </TouchableWithoutFeedback>
       </Animated.View>
@@ -317,6 +383,17 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingHorizontal: 24,
   },
+  audioButton: {
+    height: 64,
+    borderRadius: 20,
+    overflow: 'hidden',
+    boxShadow: '0px 4px 16px rgba(0, 0, 0, 0.3)',
+    elevation: 8,
+  },
+  audioButtonContent: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   largeButtonText: {
     fontSize: 20,
     fontWeight: '700',
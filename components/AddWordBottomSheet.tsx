@@ -3,99 +3,14 @@ import React, { forwardRef, useMemo, useState, useCallback, useImperativeHandle
 import { View, Text, StyleSheet, TouchableOpacity, TextInput, Platform } from 'react-native';
 import { BottomSheetBackdrop, BottomSheetScrollView, BottomSheetModal } from '@gorhom/bottom-sheet';
 import { colors } from '@/styles/commonStyles';
+import { getEmojiForWord, getCategoryForWord, getColorForWord } from '@/utils/wordCategories';
+import type { WordCategory } from '@/data/wordCategories';
 
 interface AddWordBottomSheetProps {
-  onAddWord: (word: string, emoji: string, color: string) => void;
+  onAddWord: (word: string, emoji: string, color: string, category: WordCategory) => void;
   onDismiss?: () => void;
 }
 
-const COLOR_OPTIONS = [
-  colors.cardPink,
-  colors.cardPurple,
-  colors.cardYellow,
-  colors.cardOrange,
-];
-
-const getEmojiForWord = (word: string): string => {
-  const lowerWord = word.toLowerCase().trim();
-  
-  const emojiMap: { [key: string]: string } = {
-    'apple': '🍎', 'banana': '🍌', 'orange': '🍊', 'grape': '🍇', 'watermelon': '🍉',
-    'strawberry': '🍓', 'cherry': '🍒', 'peach': '🍑', 'pineapple': '🍍', 'kiwi': '🥝',
-    'bread': '🍞', 'cheese': '🧀', 'meat': '🍖', 'pizza': '🍕', 'burger': '🍔',
-    'fries': '🍟', 'hotdog': '🌭', 'taco': '🌮', 'burrito': '🌯', 'sandwich': '🥪',
-    'milk': '🥛', 'water': '💧', 'juice': '🧃', 'coffee': '☕', 'tea': '🍵',
-    'cake': '🍰', 'cookie': '🍪', 'candy': '🍬', 'chocolate': '🍫', 'ice cream': '🍦',
-    'egg': '🥚', 'carrot': '🥕', 'corn': '🌽', 'potato': '🥔', 'tomato': '🍅',
-    'dog': '🐶', 'cat': '🐱', 'mouse': '🐭', 'hamster': '🐹', 'rabbit': '🐰',
-    'fox': '🦊', 'bear': '🐻', 'panda': '🐼', 'koala': '🐨', 'tiger': '🐯',
-    'lion': '🦁', 'cow': '🐮', 'pig': '🐷', 'frog': '🐸', 'monkey': '🐵',
-    'chicken': '🐔', 'bird': '🐦', 'penguin': '🐧', 'duck': '🦆', 'owl': '🦉',
-    'fish': '🐟', 'whale': '🐋', 'dolphin': '🐬', 'shark': '🦈', 'octopus': '🐙',
-    'butterfly': '🦋', 'bee': '🐝', 'ladybug': '🐞', 'snail': '🐌', 'turtle': '🐢',
-    'elephant': '🐘', 'giraffe': '🦒', 'zebra': '🦓', 'horse': '🐴', 'unicorn': '🦄',
-    'car': '🚗', 'bus': '🚌', 'train': '🚂', 'plane': '✈️', 'boat': '⛵',
-    'bike': '🚲', 'motorcycle': '🏍️', 'truck': '🚚', 'taxi': '🚕', 'ambulance': '🚑',
-    'fire truck': '🚒', 'police': '🚓', 'helicopter': '🚁', 'rocket': '🚀', 'ship': '🚢',
-    'tree': '🌳', 'flower': '🌸', 'rose': '🌹', 'sunflower': '🌻', 'tulip': '🌷',
-    'sun': '☀️', 'moon': '🌙', 'star': '⭐', 'cloud': '☁️', 'rain': '🌧️',
-    'snow': '❄️', 'fire': '🔥', 'water': '💧', 'wind': '💨', 'rainbow': '🌈',
-    'mountain': '⛰️', 'beach': '🏖️', 'ocean': '🌊', 'leaf': '🍃', 'plant': '🌱',
-    'ball': '⚽', 'book': '📚', 'pen': '✏️', 'pencil': '✏️', 'crayon': '🖍️',
-    'phone': '📱', 'computer': '💻', 'tv': '📺', 'camera': '📷', 'watch': '⌚',
-    'clock': '🕐', 'key': '🔑', 'door': '🚪', 'window': '🪟', 'chair': '🪑',
-    'table': '🪑', 'bed': '🛏️', 'lamp': '💡', 'gift': '🎁', 'balloon': '🎈',
-    'toy': '🧸', 'puzzle': '🧩', 'game': '🎮', 'music': '🎵', 'guitar': '🎸',
-    'drum': '🥁', 'trumpet': '🎺', 'violin': '🎻', 'piano': '🎹', 'microphone': '🎤',
-    'home': '🏠', 'house': '🏠', 'school': '🏫', 'hospital': '🏥', 'store': '🏪',
-    'park': '🏞️', 'playground': '🛝', 'beach': '🏖️', 'castle': '🏰', 'church': '⛪',
-    'hand': '✋', 'foot': '🦶', 'eye': '👁️', 'ear': '👂', 'nose': '👃',
-    'mouth': '👄', 'teeth': '🦷', 'hair': '💇', 'heart': '❤️', 'brain': '🧠',
-    'shirt': '👕', 'pants': '👖', 'dress': '👗', 'shoe': '👞', 'hat': '🎩',
-    'sock': '🧦', 'glove': '🧤', 'coat': '🧥', 'scarf': '🧣', 'glasses': '👓',
-    'happy': '😊', 'sad': '😢', 'love': '❤️', 'laugh': '😂', 'cry': '😭',
-    'sleep': '😴', 'eat': '🍽️', 'drink': '🥤', 'play': '🎮', 'run': '🏃',
-    'walk': '🚶', 'jump': '🦘', 'dance': '💃', 'sing': '🎤', 'read': '📖',
-    'red': '🔴', 'blue': '🔵', 'green': '🟢', 'yellow': '🟡', 'orange': '🟠',
-    'purple': '🟣', 'pink': '🩷', 'brown': '🟤', 'black': '⚫', 'white': '⚪',
-    'one': '1️⃣', 'two': '2️⃣', 'three': '3️⃣', 'four': '4️⃣', 'five': '5️⃣',
-    'six': '6️⃣', 'seven': '7️⃣', 'eight': '8️⃣', 'nine': '9️⃣', 'ten': '🔟',
-    'mom': '👩', 'dad': '👨', 'baby': '👶', 'boy': '👦', 'girl': '👧',
-    'grandma': '👵', 'grandpa': '👴', 'family': '👨‍👩‍👧‍👦', 'brother': '👦', 'sister': '👧',
-    'sunny': '☀️', 'cloudy': '☁️', 'rainy': '🌧️', 'snowy': '❄️', 'windy': '💨',
-    'storm': '⛈️', 'thunder': '⚡', 'hot': '🔥', 'cold': '🧊', 'warm': '🌡️',
-    'morning': '🌅', 'day': '☀️', 'night': '🌙', 'evening': '🌆', 'today': '📅',
-    'tomorrow': '📆', 'yesterday': '📅', 'time': '⏰', 'hour': '🕐', 'minute': '⏱️',
-  };
-  
-  if (emojiMap[lowerWord]) {
-    return emojiMap[lowerWord];
-  }
-  
-  for (const [key, emoji] of Object.entries(emojiMap)) {
-    if (lowerWord.includes(key) || key.includes(lowerWord)) {
-      return emoji;
-    }
-  }
-  
-  const firstChar = lowerWord.charAt(0);
-  const defaultEmojis: { [key: string]: string } = {
-    'a': '🍎', 'b': '🎈', 'c': '🐱', 'd': '🐶', 'e': '🥚',
-    'f': '🌸', 'g': '🎁', 'h': '🏠', 'i': '🍦', 'j': '🧃',
-    'k': '🔑', 'l': '💡', 'm': '🎵', 'n': '🌙', 'o': '🍊',
-    'p': '🎨', 'q': '👑', 'r': '🌈', 's': '⭐', 't': '🌳',
-    'u': '☂️', 'v': '🎻', 'w': '🌊', 'x': '❌', 'y': '🟡',
-    'z': '🦓',
-  };
-  
-  return defaultEmojis[firstChar] || '⭐';
-};
-
-const getColorForLetter = (letter: string): string => {
-  const letterIndex = letter.toUpperCase().charCodeAt(0) - 65;
-  return COLOR_OPTIONS[letterIndex % COLOR_OPTIONS.length];
-};
-
 const AddWordBottomSheet = forwardRef<BottomSheetModal, AddWordBottomSheetProps>(
   ({ onAddWord, onDismiss }, ref) => {
     const snapPoints = useMemo(() => ['75%'], []);
@@ -172,12 +87,12 @@ const AddWordBottomSheet = forwardRef<BottomSheetModal, AddWordBottomSheetProps>
     const handleAdd = () => {
       if (word.trim()) {
         const trimmedWord = word.trim();
-        const firstLetter = trimmedWord.charAt(0).toUpperCase();
         const emoji = getEmojiForWord(trimmedWord);
-        const color = getColorForLetter(firstLetter);
+        const color = getColorForWord(trimmedWord);
+        const category = getCategoryForWord(trimmedWord);
         
-        console.log('Adding word:', trimmedWord, emoji, color);
-        onAddWord(trimmedWord, emoji, color);
+        console.log('Adding word:', trimmedWord, emoji, color, category);
+        onAddWord(trimmedWord, emoji, color, category);
         setWord('');
         internalRef.current?.dismiss();
       }
@@ -7,17 +7,25 @@ import { IconSymbol } from '@/components/IconSymbol';
 import { useChild } from '@/contexts/ChildContext';
 import { supabase } from '@/app/integrations/supabase/client';
 import FullScreenVideoPlayer from '@/components/FullScreenVideoPlayer';
+import FullScreenPhotoViewer from '@/components/FullScreenPhotoViewer';
+import MomentBookBadge from '@/components/MomentBookBadge';
 import { processMomentsWithSignedUrls } from '@/utils/videoStorage';
+import { processPhotoMomentsWithSignedUrls } from '@/utils/photoStorage';
 
 interface Moment {
   id: string;
-  video_url: string;
+  media_type?: 'video' | 'photo';
+  video_url: string | null;
+  photo_url?: string | null;
   thumbnail_url: string | null;
   created_at: string;
   trim_start?: number;
   trim_end?: number;
   signedVideoUrl?: string | null;
   signedThumbnailUrl?: string | null;
+  signedPhotoUrl?: string | null;
+  // Set when the moment is linked to a book
+  user_book?: { book: { title: string } | null } | null;
 }
 
 const AllMomentsBottomSheet = forwardRef<BottomSheetModal>((props, ref) => {
@@ -27,6 +35,7 @@ const AllMomentsBottomSheet = forwardRef<BottomSheetModal>((props, ref) => {
   const [error, setError] = useState<string | null>(null);
   const [selectedMoment, setSelectedMoment] = useState<Moment | null>(null);
   const [showVideoPlayer, setShowVideoPlayer] = useState(false);
+  const [viewingPhoto, setViewingPhoto] = useState<Moment | null>(null);
 
   const fetchAllMoments = useCallback(async () => {
     if (!selectedChild) {
@@ -42,8 +51,9 @@ const AllMomentsBottomSheet = forwardRef<BottomSheetModal>((props, ref) => {
 
       const { data, error: fetchError } = await supabase
         .from('moments')
-        .select('id, video_url, thumbnail_url, created_at, trim_start, trim_end')
+        .select('id, media_type, video_url, photo_url, thumbnail_url, created_at, trim_start, trim_end, user_book:user_books (book:books_library (title))')
         .eq('child_id', selectedChild.id)
+        .in('media_type', ['video', 'photo'])
         .order('created_at', { ascending: false });
 
       if (fetchError) {
@@ -56,7 +66,13 @@ const AllMomentsBottomSheet = forwardRef<BottomSheetModal>((props, ref) => {
       // Generate signed URLs for all moments
       if (data && data.length > 0) {
         console.log('AllMomentsBottomSheet: Generating signed URLs for moments...');
-        const momentsWithSignedUrls = await processMomentsWithSignedUrls(data);
+        const [videos, photos] = await Promise.all([
+          processMomentsWithSignedUrls(data.filter((moment) => moment.media_type !== 'photo')),
+          processPhotoMomentsWithSignedUrls(data.filter((moment) => moment.media_type === 'photo')),
+        ]);
+        const momentsWithSignedUrls: Moment[] = [...videos, ...photos].sort(
+          (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+        );
         setMoments(momentsWithSignedUrls);
         console.log('AllMomentsBottomSheet: ✓ Signed URLs generated');
       } else {
@@ -118,6 +134,12 @@ const AllMomentsBottomSheet = forwardRef<BottomSheetModal>((props, ref) => {
 
   const handleMomentPress = (moment: Moment) => {
     console.log('AllMomentsBottomSheet: Moment pressed:', moment.id);
+
+    if (moment.media_type === 'photo') {
+      setViewingPhoto(moment);
+      return;
+    }
+
     console.log('AllMomentsBottomSheet: Trim metadata:', {
       trim_start: moment.trim_start,
       trim_end: moment.trim_end,
@@ -149,8 +171,10 @@ const AllMomentsBottomSheet = forwardRef<BottomSheetModal>((props, ref) => {
 
   const renderMomentItem = ({ item, index }: { item: Moment; index: number }) => {
     const isLeftColumn = index % 2 === 0;
+    const bookTitle = item.user_book?.book?.title;
+    const isPhoto = item.media_type === 'photo';
     // Use signed thumbnail URL if available, fallback to original URL
-    const thumbnailUrl = item.signedThumbnailUrl || item.thumbnail_url;
+    const thumbnailUrl = isPhoto ? item.signedPhotoUrl : item.signedThumbnailUrl || item.thumbnail_url;
     
     return (
       <TouchableOpacity
@@ -166,23 +190,26 @@ const AllMomentsBottomSheet = forwardRef<BottomSheetModal>((props, ref) => {
         ) : (
           <View style={styles.momentPlaceholder}>
             <IconSymbol 
-              ios_icon_name="video.fill" 
-              android_material_icon_name="videocam" 
+              ios_icon_name={isPhoto ? 'photo.fill' : 'video.fill'} 
+              android_material_icon_name={isPhoto ? 'photo' : 'videocam'} 
               size={48} 
               color={colors.backgroundAlt} 
             />
           </View>
         )}
-        <View style={styles.playIconOverlay}>
-          <View style={styles.playIconCircle}>
-            <IconSymbol 
-              ios_icon_name="play.fill" 
-              android_material_icon_name="play-arrow" 
-              size={24} 
-              color={colors.backgroundAlt} 
-            />
+        {!isPhoto && (
+          <View style={styles.playIconOverlay}>
+            <View style={styles.playIconCircle}>
+              <IconSymbol 
+                ios_icon_name="play.fill" 
+                android_material_icon_name="play-arrow" 
+                size={24} 
+                color={colors.backgroundAlt} 
+              />
+            </View>
           </View>
-        </View>
+        )}
+        {!!bookTitle && <MomentBookBadge title={bookTitle} />}
       </TouchableOpacity>
     );
   };
@@ -277,13 +304,19 @@ const AllMomentsBottomSheet = forwardRef<BottomSheetModal>((props, ref) => {
       {selectedMoment && (
         <FullScreenVideoPlayer
           visible={showVideoPlayer}
-          videoUri={selectedMoment.signedVideoUrl || selectedMoment.video_url}
+          videoUri={selectedMoment.signedVideoUrl || selectedMoment.video_url || ''}
           thumbnailUri={selectedMoment.signedThumbnailUrl}
           onClose={handleCloseVideoPlayer}
           trimStart={selectedMoment.trim_start}
           trimEnd={selectedMoment.trim_end}
         />
       )}
+
+      <FullScreenPhotoViewer
+        visible={!!viewingPhoto}
+        photoUri={viewingPhoto?.signedPhotoUrl ?? null}
+        onClose={() => setViewingPhoto(null)}
+      />
     </>
   );
 });
@@ -0,0 +1,158 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, ActivityIndicator, Alert, StyleProp, ViewStyle } from 'react-native';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import AudioWaveform from '@/components/AudioWaveform';
+import { getWaveformBars } from '@/utils/audioWaveform';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface AudioMomentPlayerProps {
+  // Signed URL of the clip; null while it couldn't be signed
+  audioUri: string | null;
+  waveform?: number[] | null;
+  trimStart?: number;
+  trimEnd?: number;
+  barCount?: number;
+  height?: number;
+  color?: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Inline player for an audio moment: a play button and the trimmed clip's waveform
+ * Like the video player, only the part between trimStart and trimEnd is played
+ */
+export default function AudioMomentPlayer({
+  audioUri,
+  waveform,
+  trimStart = 0,
+  trimEnd,
+  barCount = 24,
+  height = 32,
+  color = colors.primary,
+  style,
+}: AudioMomentPlayerProps) {
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const bars = getWaveformBars(waveform, barCount, trimStart, trimEnd);
+
+  useEffect(() => {
+    return () => {
+      soundRef.current?.unloadAsync();
+      soundRef.current = null;
+    };
+  }, [audioUri]);
+
+  const stopAtStart = async () => {
+    await soundRef.current?.pauseAsync();
+    await soundRef.current?.setPositionAsync(trimStart * 1000);
+    setIsPlaying(false);
+    setProgress(0);
+  };
+
+  const handlePlaybackStatusUpdate = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) {
+      if (status.error) {
+        console.error('[AudioMomentPlayer] Playback error:', status.error);
+        setIsPlaying(false);
+      }
+      return;
+    }
+
+    const end = trimEnd ?? (status.durationMillis || 0) / 1000;
+    const position = status.positionMillis / 1000;
+
+    if (status.didJustFinish || (status.isPlaying && end > 0 && position >= end)) {
+      stopAtStart();
+      return;
+    }
+
+    if (status.isPlaying && end > trimStart) {
+      setProgress(Math.min(1, Math.max(0, (position - trimStart) / (end - trimStart))));
+    }
+  };
+
+  const togglePlayback = async () => {
+    if (!audioUri || isLoading) return;
+    HapticFeedback.light();
+
+    try {
+      if (isPlaying) {
+        await soundRef.current?.pauseAsync();
+        setIsPlaying(false);
+        return;
+      }
+
+      if (!soundRef.current) {
+        setIsLoading(true);
+        await Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true });
+        const { sound } = await Audio.Sound.createAsync(
+          { uri: audioUri },
+          { progressUpdateIntervalMillis: 50, positionMillis: trimStart * 1000 },
+          handlePlaybackStatusUpdate
+        );
+        soundRef.current = sound;
+      } else if (progress === 0) {
+        await soundRef.current.setPositionAsync(trimStart * 1000);
+      }
+
+      await soundRef.current.playAsync();
+      setIsPlaying(true);
+    } catch (error) {
+      console.error('[AudioMomentPlayer] Error playing audio:', error);
+      Alert.alert('Playback Error', 'Unable to play this recording. Please try again.');
+      setIsPlaying(false);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <TouchableOpacity
+        style={[styles.playButton, { backgroundColor: color }, !audioUri && styles.playButtonDisabled]}
+        onPress={togglePlayback}
+        disabled={!audioUri}
+        activeOpacity={0.8}
+      >
+        {isLoading ? (
+          <ActivityIndicator size="small" color={colors.backgroundAlt} />
+        ) : (
+          <IconSymbol
+            ios_icon_name={isPlaying ? 'pause.fill' : 'play.fill'}
+            android_material_icon_name={isPlaying ? 'pause' : 'play-arrow'}
+            size={18}
+            color={colors.backgroundAlt}
+          />
+        )}
+      </TouchableOpacity>
+      <AudioWaveform bars={bars} height={height} color={color} progress={progress} style={styles.waveform} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  playButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playButtonDisabled: {
+    opacity: 0.5,
+  },
+  waveform: {
+    flex: 1,
+  },
+});
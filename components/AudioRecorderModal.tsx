@@ -0,0 +1,507 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Linking } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { colors } from '@/styles/commonStyles';
+import AudioWaveform from '@/components/AudioWaveform';
+import DualHandleSlider from '@/components/DualHandleSlider';
+import { MAX_TRIM_DURATION } from '@/components/VideoPreviewModal';
+import { getWaveformBars, meteringToLevel, WAVEFORM_INTERVAL_MS } from '@/utils/audioWaveform';
+import { HapticFeedback } from '@/utils/haptics';
+
+export interface RecordedAudio {
+  uri: string;
+  trimStart: number;
+  trimEnd: number;
+  waveform: number[];
+}
+
+interface AudioRecorderModalProps {
+  onConfirm: (audio: RecordedAudio) => void;
+  onCancel: () => void;
+}
+
+// Recording stops by itself after this long
+const MAX_RECORDING_DURATION = 60;
+const LIVE_BAR_COUNT = 40;
+const TRIM_BAR_COUNT = 48;
+
+/**
+ * Record an audio-only moment, then trim it to the part worth keeping
+ * The whole recording is kept and the trim range is saved with it, as for videos
+ */
+export default function AudioRecorderModal({ onConfirm, onCancel }: AudioRecorderModalProps) {
+  const recordingRef = useRef<Audio.Recording | null>(null);
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const levelsRef = useRef<number[]>([]);
+  const isStoppingRef = useRef(false);
+  // Read by the playback callback, which keeps the values from when the sound was loaded
+  const trimRef = useRef({ start: 0, end: 0 });
+
+  const [isRecording, setIsRecording] = useState(false);
+  const [levels, setLevels] = useState<number[]>([]);
+  const [elapsed, setElapsed] = useState(0);
+  const [recordedUri, setRecordedUri] = useState<string | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [trimStart, setTrimStart] = useState(0);
+  const [trimEnd, setTrimEnd] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+
+  useEffect(() => {
+    trimRef.current = { start: trimStart, end: trimEnd };
+  }, [trimStart, trimEnd]);
+
+  useEffect(() => {
+    return () => {
+      recordingRef.current?.stopAndUnloadAsync().catch(() => {});
+      soundRef.current?.unloadAsync();
+      Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true }).catch(() => {});
+    };
+  }, []);
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    const ms = Math.floor((seconds % 1) * 10);
+    return `${mins}:${secs.toString().padStart(2, '0')}.${ms}`;
+  };
+
+  const stopRecording = async () => {
+    const recording = recordingRef.current;
+    if (!recording || isStoppingRef.current) return;
+    isStoppingRef.current = true;
+
+    try {
+      const status = await recording.getStatusAsync();
+      await recording.stopAndUnloadAsync();
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true });
+
+      const uri = recording.getURI();
+      const recordedDuration = (status.durationMillis || levelsRef.current.length * WAVEFORM_INTERVAL_MS) / 1000;
+      console.log('[AudioRecorderModal] Recording stopped:', uri, recordedDuration, 'seconds');
+
+      if (!uri || recordedDuration < 0.1) {
+        Alert.alert('Recording Too Short', 'Nothing was recorded. Please try again.');
+        resetRecording();
+        return;
+      }
+
+      setRecordedUri(uri);
+      setDuration(recordedDuration);
+      setTrimStart(0);
+      setTrimEnd(Math.min(recordedDuration, MAX_TRIM_DURATION));
+      setLevels([...levelsRef.current]);
+    } catch (error) {
+      console.error('[AudioRecorderModal] Error stopping recording:', error);
+      Alert.alert('Error', 'Failed to save the recording. Please try again.');
+      resetRecording();
+    } finally {
+      recordingRef.current = null;
+      isStoppingRef.current = false;
+      setIsRecording(false);
+    }
+  };
+
+  const handleRecordingStatus = (status: Audio.RecordingStatus) => {
+    if (!status.isRecording) return;
+
+    levelsRef.current.push(meteringToLevel(status.metering));
+    setLevels(levelsRef.current.slice(-LIVE_BAR_COUNT));
+    setElapsed(status.durationMillis / 1000);
+
+    if (status.durationMillis >= MAX_RECORDING_DURATION * 1000) {
+      stopRecording();
+    }
+  };
+
+  const startRecording = async () => {
+    try {
+      const permission = await Audio.requestPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert(
+          'Microphone Access Needed',
+          'Allow microphone access in Settings to record your child\'s words.',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Open Settings', onPress: () => Linking.openSettings() },
+          ]
+        );
+        return;
+      }
+
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: true, playsInSilentModeIOS: true });
+
+      levelsRef.current = [];
+      setLevels([]);
+      setElapsed(0);
+
+      const { recording } = await Audio.Recording.createAsync(
+        { ...Audio.RecordingOptionsPresets.HIGH_QUALITY, isMeteringEnabled: true },
+        handleRecordingStatus,
+        WAVEFORM_INTERVAL_MS
+      );
+      recordingRef.current = recording;
+      setIsRecording(true);
+      HapticFeedback.medium();
+      console.log('[AudioRecorderModal] Recording started');
+    } catch (error) {
+      console.error('[AudioRecorderModal] Error starting recording:', error);
+      Alert.alert('Error', 'Failed to start recording. Please try again.');
+    }
+  };
+
+  const resetRecording = () => {
+    soundRef.current?.unloadAsync();
+    soundRef.current = null;
+    levelsRef.current = [];
+    setLevels([]);
+    setElapsed(0);
+    setRecordedUri(null);
+    setDuration(0);
+    setIsPlaying(false);
+    setPosition(0);
+  };
+
+  const handleRecordPress = () => {
+    if (isRecording) {
+      HapticFeedback.medium();
+      stopRecording();
+    } else {
+      startRecording();
+    }
+  };
+
+  const handlePlaybackStatusUpdate = async (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+
+    const positionSeconds = status.positionMillis / 1000;
+    setPosition(positionSeconds);
+
+    // Hard-stop playback at the trim end, as in the video preview
+    if (status.isPlaying && (positionSeconds >= trimRef.current.end || status.didJustFinish)) {
+      await soundRef.current?.pauseAsync();
+      await soundRef.current?.setPositionAsync(trimRef.current.start * 1000);
+      setIsPlaying(false);
+    }
+  };
+
+  const togglePlayback = async () => {
+    if (!recordedUri) return;
+
+    try {
+      if (isPlaying) {
+        await soundRef.current?.pauseAsync();
+        setIsPlaying(false);
+        return;
+      }
+
+      if (!soundRef.current) {
+        const { sound } = await Audio.Sound.createAsync(
+          { uri: recordedUri },
+          { progressUpdateIntervalMillis: 50 },
+          handlePlaybackStatusUpdate
+        );
+        soundRef.current = sound;
+      }
+
+      if (position < trimStart || position >= trimEnd) {
+        await soundRef.current.setPositionAsync(trimStart * 1000);
+      }
+      await soundRef.current.playAsync();
+      setIsPlaying(true);
+    } catch (error) {
+      console.error('[AudioRecorderModal] Error toggling playback:', error);
+      Alert.alert('Playback Error', 'Unable to play the recording. Please try again or re-record.');
+    }
+  };
+
+  const handleStartChange = async (value: number) => {
+    const newStart = Math.min(value, trimEnd - 0.1);
+    const finalStart = Math.max(0, Math.max(newStart, trimEnd - MAX_TRIM_DURATION));
+    setTrimStart(finalStart);
+
+    try {
+      await soundRef.current?.setPositionAsync(finalStart * 1000);
+    } catch (error) {
+      console.error('[AudioRecorderModal] Error seeking on trim start change:', error);
+    }
+  };
+
+  const handleEndChange = (value: number) => {
+    const newEnd = Math.max(value, trimStart + 0.1);
+    setTrimEnd(Math.min(duration, Math.min(newEnd, trimStart + MAX_TRIM_DURATION)));
+  };
+
+  const handleConfirm = async () => {
+    if (!recordedUri) return;
+
+    const trimmedDuration = trimEnd - trimStart;
+    if (trimmedDuration < 0.1 || trimmedDuration > MAX_TRIM_DURATION) {
+      Alert.alert('Invalid Trim', `Audio must be between 0.1 and ${MAX_TRIM_DURATION} seconds long`);
+      return;
+    }
+
+    HapticFeedback.medium();
+    await soundRef.current?.pauseAsync();
+    console.log('[AudioRecorderModal] ✅ Audio confirmed with trim:', trimStart, '-', trimEnd);
+    onConfirm({ uri: recordedUri, trimStart, trimEnd, waveform: levelsRef.current });
+  };
+
+  const trimDuration = trimEnd - trimStart;
+  const isValidTrim = trimDuration >= 0.1 && trimDuration <= MAX_TRIM_DURATION;
+
+  if (recordedUri) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.content}>
+          <View style={styles.waveformCard}>
+            <AudioWaveform
+              bars={getWaveformBars(levels, TRIM_BAR_COUNT)}
+              height={120}
+              progress={isPlaying && duration > 0 ? position / duration : undefined}
+              range={duration > 0 ? { start: trimStart / duration, end: trimEnd / duration } : undefined}
+            />
+            <TouchableOpacity style={styles.playButton} onPress={togglePlayback}>
+              <MaterialIcons name={isPlaying ? 'pause' : 'play-arrow'} size={40} color={colors.backgroundAlt} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.infoContainer}>
+            <Text style={styles.title}>Trim Your Audio</Text>
+            <Text style={[styles.subtitle, !isValidTrim && styles.subtitleError]}>
+              Selected: {formatTime(trimDuration)} / Max: {MAX_TRIM_DURATION}s
+            </Text>
+
+            <View style={styles.trimSliderContainer}>
+              <View style={styles.trimSliderLabels}>
+                <Text style={styles.trimSliderLabel}>Start: {formatTime(trimStart)}</Text>
+                <Text style={styles.trimSliderLabel}>End: {formatTime(trimEnd)}</Text>
+              </View>
+
+              <DualHandleSlider
+                min={0}
+                max={duration}
+                startValue={trimStart}
+                endValue={trimEnd}
+                onStartChange={handleStartChange}
+                onEndChange={handleEndChange}
+              />
+
+              <View style={styles.timelineLabels}>
+                <Text style={styles.timelineLabel}>0:00</Text>
+                <Text style={styles.timelineLabel}>{formatTime(duration)}</Text>
+              </View>
+            </View>
+
+            <TouchableOpacity onPress={resetRecording}>
+              <Text style={styles.recordAgainText}>Record again</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <MaterialIcons name="close" size={24} color={colors.backgroundAlt} />
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.confirmButton, !isValidTrim && styles.confirmButtonDisabled]}
+              onPress={handleConfirm}
+              disabled={!isValidTrim}
+            >
+              <MaterialIcons name="check" size={24} color={colors.backgroundAlt} />
+              <Text style={styles.confirmButtonText}>Confirm</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.content}>
+        <View style={styles.infoContainer}>
+          <Text style={styles.title}>Record a Sound</Text>
+          <Text style={styles.subtitle}>
+            {isRecording ? 'Listening…' : 'Tap the button and let your child say their word'}
+          </Text>
+        </View>
+
+        <View style={styles.waveformCard}>
+          <AudioWaveform
+            bars={[...new Array(Math.max(0, LIVE_BAR_COUNT - levels.length)).fill(0), ...levels]}
+            height={120}
+            color={isRecording ? colors.secondary : colors.textSecondary}
+          />
+        </View>
+
+        <Text style={styles.timer}>
+          {formatTime(elapsed)} / {formatTime(MAX_RECORDING_DURATION)}
+        </Text>
+
+        <TouchableOpacity style={styles.recordButton} onPress={handleRecordPress} activeOpacity={0.8}>
+          <View style={isRecording ? styles.recordButtonStop : styles.recordButtonInner} />
+        </TouchableOpacity>
+
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+            <MaterialIcons name="close" size={24} color={colors.backgroundAlt} />
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  waveformCard: {
+    width: '100%',
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    alignItems: 'center',
+    gap: 16,
+    boxShadow: '0px 4px 8px rgba(0, 0, 0, 0.1)',
+    elevation: 3,
+  },
+  playButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  infoContainer: {
+    alignItems: 'center',
+    marginBottom: 20,
+    width: '100%',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.primary,
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginBottom: 4,
+    textAlign: 'center',
+  },
+  subtitleError: {
+    color: colors.secondary,
+    fontWeight: '600',
+  },
+  trimSliderContainer: {
+    width: '100%',
+    marginVertical: 24,
+  },
+  trimSliderLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+    paddingHorizontal: 4,
+  },
+  trimSliderLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  timelineLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 4,
+    marginTop: 4,
+  },
+  timelineLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  recordAgainText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.buttonBlue,
+    textDecorationLine: 'underline',
+  },
+  timer: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 24,
+  },
+  recordButton: {
+    width: 88,
+    height: 88,
+    borderRadius: 44,
+    borderWidth: 5,
+    borderColor: colors.secondary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 40,
+  },
+  recordButtonInner: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: colors.secondary,
+  },
+  recordButtonStop: {
+    width: 32,
+    height: 32,
+    borderRadius: 6,
+    backgroundColor: colors.secondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  cancelButton: {
+    backgroundColor: colors.textSecondary,
+    paddingHorizontal: 32,
+    paddingVertical: 16,
+    borderRadius: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cancelButtonText: {
+    color: colors.backgroundAlt,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  confirmButton: {
+    backgroundColor: colors.buttonBlue,
+    paddingHorizontal: 32,
+    paddingVertical: 16,
+    borderRadius: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  confirmButtonDisabled: {
+    backgroundColor: colors.textSecondary,
+    opacity: 0.5,
+  },
+  confirmButtonText: {
+    color: colors.backgroundAlt,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,69 @@
+
+import React from 'react';
+import { View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+
+interface AudioWaveformProps {
+  // Bar heights between 0 and 1, see getWaveformBars
+  bars: number[];
+  height: number;
+  color?: string;
+  playedColor?: string;
+  // How far playback has got, between 0 and 1
+  progress?: number;
+  // The kept part of the clip, between 0 and 1; bars outside it are faded
+  range?: { start: number; end: number };
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Waveform bars for an audio moment
+ */
+export default function AudioWaveform({
+  bars,
+  height,
+  color = colors.primary,
+  playedColor = colors.secondary,
+  progress,
+  range,
+  style,
+}: AudioWaveformProps) {
+  return (
+    <View style={[styles.container, { height }, style]}>
+      {bars.map((level, index) => {
+        const position = (index + 0.5) / bars.length;
+        const isPlayed = progress !== undefined && progress > 0 && position <= progress;
+        const isOutsideRange = !!range && (position < range.start || position > range.end);
+
+        return (
+          <View
+            key={index}
+            style={[
+              styles.bar,
+              {
+                height: Math.max(2, level * height),
+                backgroundColor: isPlayed ? playedColor : color,
+              },
+              isOutsideRange && styles.barFaded,
+            ]}
+          />
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  bar: {
+    flex: 1,
+    borderRadius: 2,
+  },
+  barFaded: {
+    opacity: 0.25,
+  },
+});
@@ -14,6 +14,7 @@ export interface Milestone {
   color: string;
   achieved: boolean;
   progress?: string;
+  target?: number;
   dateAchieved?: string;
   lockedImage?: ImageSourcePropType;
   unlockedImage?: ImageSourcePropType;
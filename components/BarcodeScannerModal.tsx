@@ -15,17 +15,23 @@ import { IconSymbol } from '@/components/IconSymbol';
 import { useRouter } from 'expo-router';
 import * as Haptics from 'expo-haptics';
 import ISBNNotFoundModal from '@/components/ISBNNotFoundModal';
+import BulkScanReview from '@/components/BulkScanReview';
+import { useBulkIsbnQueue } from '@/hooks/useBulkIsbnQueue';
+import { isValidIsbn, BulkAddResult } from '@/utils/bulkBookScan';
 
 interface BarcodeScannerModalProps {
   visible: boolean;
   onClose: () => void;
   onBarcodeScanned: (isbn: string) => void;
+  // Enables "A stack" mode, which queues scans and adds the reviewed books itself
+  onBulkBooksAdded?: (result: BulkAddResult) => void;
 }
 
 export default function BarcodeScannerModal({
   visible,
   onClose,
   onBarcodeScanned,
+  onBulkBooksAdded,
 }: BarcodeScannerModalProps) {
   const router = useRouter();
   const [permission, requestPermission] = useCameraPermissions();
@@ -36,6 +42,12 @@ export default function BarcodeScannerModal({
   const processingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastScannedISBNRef = useRef<string>('');
   const lastScannedTimeRef = useRef<number>(0);
+  const [isBulkMode, setIsBulkMode] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [scanFeedback, setScanFeedback] = useState<string | null>(null);
+  const feedbackTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const bulkQueue = useBulkIsbnQueue();
+  const resetBulkQueue = bulkQueue.reset;
 
   useEffect(() => {
     if (visible) {
@@ -44,6 +56,10 @@ export default function BarcodeScannerModal({
       setIsProcessing(false);
       lastScannedISBNRef.current = '';
       lastScannedTimeRef.current = 0;
+      setIsBulkMode(false);
+      setIsReviewing(false);
+      setScanFeedback(null);
+      resetBulkQueue();
       
       // Clear any existing timeout
       if (processingTimeoutRef.current) {
@@ -51,7 +67,7 @@ export default function BarcodeScannerModal({
         processingTimeoutRef.current = null;
       }
     }
-  }, [visible]);
+  }, [visible, resetBulkQueue]);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -59,9 +75,66 @@ export default function BarcodeScannerModal({
       if (processingTimeoutRef.current) {
         clearTimeout(processingTimeoutRef.current);
       }
+      if (feedbackTimeoutRef.current) {
+        clearTimeout(feedbackTimeoutRef.current);
+      }
     };
   }, []);
 
+  const showScanFeedback = (message: string) => {
+    setScanFeedback(message);
+    if (feedbackTimeoutRef.current) {
+      clearTimeout(feedbackTimeoutRef.current);
+    }
+    feedbackTimeoutRef.current = setTimeout(() => setScanFeedback(null), 1500);
+  };
+
+  // In "A stack" mode the camera stays open and each ISBN joins the queue
+  const handleBulkScan = (isbn: string, now: number) => {
+    lastScannedISBNRef.current = isbn;
+    lastScannedTimeRef.current = now;
+
+    if (!isValidIsbn(isbn)) {
+      console.log('⛔ Bulk scan - not an ISBN:', isbn);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      showScanFeedback('Not an ISBN barcode');
+      return;
+    }
+
+    if (bulkQueue.enqueue(isbn) === 'duplicate') {
+      console.log('⛔ Bulk scan - already queued:', isbn);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      showScanFeedback('Already scanned');
+      return;
+    }
+
+    console.log('✅ Bulk scan - queued:', isbn);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    showScanFeedback('Added to the stack');
+  };
+
+  const handleClose = () => {
+    if (bulkQueue.items.length === 0) {
+      onClose();
+      return;
+    }
+
+    Alert.alert(
+      'Discard Scanned Books?',
+      `${bulkQueue.items.length} scanned ${bulkQueue.items.length === 1 ? 'book hasn\'t' : 'books haven\'t'} been added yet.`,
+      [
+        { text: 'Keep Scanning', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: onClose },
+      ]
+    );
+  };
+
+  const handleBulkBooksAdded = (result: BulkAddResult) => {
+    resetBulkQueue();
+    onBulkBooksAdded?.(result);
+    onClose();
+  };
+
   const handleBarCodeScanned = ({ type, data }: BarcodeScanningResult) => {
     const now = Date.now();
     
@@ -85,6 +158,11 @@ export default function BarcodeScannerModal({
       return;
     }
 
+    if (isBulkMode) {
+      handleBulkScan(isbn, now);
+      return;
+    }
+
     // Validate ISBN format
     if (isbn.length === 13 && (isbn.startsWith('978') || isbn.startsWith('979'))) {
       // Valid EAN-13 ISBN
@@ -276,12 +354,33 @@ export default function BarcodeScannerModal({
     );
   }
 
+  if (isReviewing) {
+    return (
+      <Modal
+        visible={visible}
+        animationType="slide"
+        presentationStyle="fullScreen"
+        onRequestClose={() => setIsReviewing(false)}
+      >
+        <BulkScanReview
+          items={bulkQueue.items}
+          progress={bulkQueue.progress}
+          onToggleIncluded={bulkQueue.toggleIncluded}
+          onRemove={bulkQueue.removeItem}
+          onChangeIsbn={bulkQueue.changeIsbn}
+          onScanMore={() => setIsReviewing(false)}
+          onBooksAdded={handleBulkBooksAdded}
+        />
+      </Modal>
+    );
+  }
+
   return (
     <Modal
       visible={visible}
       animationType="slide"
       presentationStyle="fullScreen"
-      onRequestClose={onClose}
+      onRequestClose={handleClose}
     >
       <View style={styles.container}>
         <CameraView
@@ -295,7 +394,7 @@ export default function BarcodeScannerModal({
 
         <View style={styles.overlay}>
           <View style={styles.header}>
-            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
               <IconSymbol
                 ios_icon_name="xmark"
                 android_material_icon_name="close"
@@ -307,8 +406,30 @@ export default function BarcodeScannerModal({
 
           <View style={styles.topInstructions}>
             <Text style={styles.topInstructionText}>
-              Scan the ISBN barcode on the back of the book
+              {isBulkMode
+                ? 'Scan each book in the stack, one after another'
+                : 'Scan the ISBN barcode on the back of the book'}
             </Text>
+
+            {onBulkBooksAdded && (
+              <View style={styles.modeToggle}>
+                {[false, true].map((bulk) => (
+                  <TouchableOpacity
+                    key={bulk ? 'stack' : 'single'}
+                    style={[styles.modeOption, isBulkMode === bulk && styles.modeOptionActive]}
+                    onPress={() => {
+                      Haptics.selectionAsync();
+                      setIsBulkMode(bulk);
+                    }}
+                    disabled={!bulk && bulkQueue.items.length > 0}
+                  >
+                    <Text style={[styles.modeOptionText, isBulkMode === bulk && styles.modeOptionTextActive]}>
+                      {bulk ? 'A stack' : 'One book'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
           </View>
 
           <View style={styles.scanArea}>
@@ -321,13 +442,43 @@ export default function BarcodeScannerModal({
           </View>
 
           <View style={styles.bottomActions}>
-            <TouchableOpacity
-              style={styles.searchButton}
-              onPress={handleCantFindBook}
-              activeOpacity={0.8}
-            >
-              <Text style={styles.searchButtonText}>Can&apos;t scan a book?</Text>
-            </TouchableOpacity>
+            {isBulkMode ? (
+              <>
+                {scanFeedback && (
+                  <View style={styles.scanFeedback}>
+                    <Text style={styles.scanFeedbackText}>{scanFeedback}</Text>
+                  </View>
+                )}
+                {bulkQueue.progress.isResolving && (
+                  <Text style={styles.progressText}>
+                    Looking up {bulkQueue.progress.resolved + 1} of {bulkQueue.progress.total}…
+                  </Text>
+                )}
+                <TouchableOpacity
+                  style={[styles.searchButton, bulkQueue.items.length === 0 && styles.searchButtonDisabled]}
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                    setIsReviewing(true);
+                  }}
+                  activeOpacity={0.8}
+                  disabled={bulkQueue.items.length === 0}
+                >
+                  <Text style={styles.searchButtonText}>
+                    {bulkQueue.items.length === 0
+                      ? 'Scan a book to start'
+                      : `Review ${bulkQueue.items.length} ${bulkQueue.items.length === 1 ? 'book' : 'books'}`}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <TouchableOpacity
+                style={styles.searchButton}
+                onPress={handleCantFindBook}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.searchButtonText}>Can&apos;t scan a book?</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </View>
@@ -453,6 +604,53 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: colors.backgroundAlt,
   },
+  searchButtonDisabled: {
+    opacity: 0.6,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    borderRadius: 20,
+    padding: 4,
+    marginTop: 16,
+  },
+  modeOption: {
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  modeOptionActive: {
+    backgroundColor: colors.backgroundAlt,
+  },
+  modeOptionText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.backgroundAlt,
+  },
+  modeOptionTextActive: {
+    color: colors.primary,
+  },
+  scanFeedback: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginBottom: 12,
+  },
+  scanFeedbackText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.backgroundAlt,
+  },
+  progressText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.backgroundAlt,
+    marginBottom: 12,
+    textShadowColor: 'rgba(0, 0, 0, 0.75)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 3,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,100 @@
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import type { BenchmarkComparison } from '@/utils/vocabularyBenchmark';
+
+interface BenchmarkRangeBarProps {
+  label: string;
+  comparison: BenchmarkComparison;
+  color: string;
+}
+
+/**
+ * Horizontal track with the typical range shaded and a marker for the child's count
+ */
+export default function BenchmarkRangeBar({ label, comparison, color }: BenchmarkRangeBarProps) {
+  const { count, range, position } = comparison;
+  const scaleMax = Math.max(range.high * 1.25, count * 1.1, 1);
+  const toPercent = (value: number) => `${Math.min(100, (value / scaleMax) * 100)}%` as const;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.labelRow}>
+        <Text style={styles.label}>{label}</Text>
+        <Text style={[styles.count, { color }]}>{position === 'capped' ? `${count}+` : count}</Text>
+      </View>
+
+      <View style={styles.track}>
+        <View
+          style={[
+            styles.typicalBand,
+            { left: toPercent(range.low), width: `${((range.high - range.low) / scaleMax) * 100}%` },
+          ]}
+        />
+        <View style={[styles.typicalTick, { left: toPercent(range.typical) }]} />
+        <View style={[styles.marker, { left: toPercent(count), backgroundColor: color }]} />
+      </View>
+
+      <Text style={styles.rangeText}>
+        Typical range {range.low}–{range.high} words
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  count: {
+    fontSize: 18,
+    fontWeight: '800',
+  },
+  track: {
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: colors.tabInactive,
+    justifyContent: 'center',
+  },
+  typicalBand: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    borderRadius: 6,
+    backgroundColor: colors.cardPurple,
+  },
+  typicalTick: {
+    position: 'absolute',
+    width: 2,
+    height: 12,
+    marginLeft: -1,
+    backgroundColor: colors.primary,
+    opacity: 0.4,
+  },
+  marker: {
+    position: 'absolute',
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    marginLeft: -9,
+    borderWidth: 3,
+    borderColor: colors.backgroundAlt,
+  },
+  rangeText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 6,
+  },
+});
@@ -0,0 +1,183 @@
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { HapticFeedback } from '@/utils/haptics';
+import { clearBookMetadataCache, getBookMetadataCacheStats, BookCacheStats } from '@/utils/bookMetadataCache';
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * This device's book lookup cache: how full it is and how often it answers scans
+ */
+export default function BookCacheStatsCard() {
+  const [stats, setStats] = useState<BookCacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const loadStats = useCallback(async () => {
+    try {
+      setStats(await getBookMetadataCacheStats());
+    } catch (error) {
+      console.error('BookCacheStatsCard: Error loading cache stats:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const handleClear = () => {
+    HapticFeedback.medium();
+    Alert.alert(
+      'Clear Lookup Cache',
+      'Every book will be looked up again the next time it is scanned on this device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            setIsClearing(true);
+            try {
+              await clearBookMetadataCache();
+              await loadStats();
+              HapticFeedback.success();
+            } catch (error) {
+              console.error('BookCacheStatsCard: Error clearing cache:', error);
+              HapticFeedback.error();
+              Alert.alert('Error', 'Failed to clear the lookup cache');
+            } finally {
+              setIsClearing(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (!stats) {
+    return (
+      <View style={styles.card}>
+        <ActivityIndicator size="small" color={colors.buttonBlue} />
+      </View>
+    );
+  }
+
+  const rows = [
+    { label: 'Cached books', value: `${stats.foundEntries}` },
+    { label: 'Cached "not found"', value: `${stats.notFoundEntries}` },
+    { label: 'Hit rate', value: `${Math.round(stats.hitRate * 100)}%` },
+    { label: 'Hits', value: `${stats.hits + stats.notFoundHits}` },
+    { label: 'Misses', value: `${stats.misses}` },
+    { label: 'Evicted', value: `${stats.evictions}` },
+    { label: 'Size', value: formatSize(stats.sizeBytes) },
+  ];
+
+  return (
+    <View style={styles.card}>
+      {rows.map((row) => (
+        <View key={row.label} style={styles.row}>
+          <Text style={styles.label}>{row.label}</Text>
+          <Text style={styles.value}>{row.value}</Text>
+        </View>
+      ))}
+
+      <Text style={styles.sinceText}>
+        Counting since {new Date(stats.since).toLocaleDateString()}
+      </Text>
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => {
+            HapticFeedback.light();
+            loadStats();
+          }}
+        >
+          <IconSymbol
+            ios_icon_name="arrow.clockwise"
+            android_material_icon_name="refresh"
+            size={16}
+            color={colors.primary}
+          />
+          <Text style={styles.secondaryButtonText}>Refresh</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.clearButton} onPress={handleClear} disabled={isClearing}>
+          {isClearing ? (
+            <ActivityIndicator size="small" color={colors.backgroundAlt} />
+          ) : (
+            <Text style={styles.clearButtonText}>Clear cache</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 16,
+    padding: 16,
+    boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.1)',
+    elevation: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  label: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  sinceText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: colors.primary,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 6,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  clearButton: {
+    backgroundColor: colors.secondary,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  clearButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+});
@@ -8,11 +8,29 @@ import { supabase } from '@/app/integrations/supabase/client';
 import { Image } from 'expo-image';
 import { useStats } from '@/contexts/StatsContext';
 import { useProfileStats } from '@/contexts/ProfileStatsContext';
+import { useMilestones } from '@/contexts/MilestonesContext';
+import { useVideoRecording } from '@/contexts/VideoRecordingContext';
+import { useCameraTrigger } from '@/contexts/CameraTriggerContext';
+import { useMomentUploads } from '@/contexts/MomentUploadsContext';
 import * as Haptics from 'expo-haptics';
 import { isLikelyBlankImage, getFirstValidImageUrl } from '@/utils/imageValidation';
 import ValidatedImage from '@/components/ValidatedImage';
+import ReadingLogSection from '@/components/ReadingLogSection';
+import BookMomentsSection from '@/components/BookMomentsSection';
+import LibraryLoanSection from '@/components/LibraryLoanSection';
+import BookSeriesSection from '@/components/BookSeriesSection';
+import BookTagChip from '@/components/BookTagChip';
+import BookTagPicker from '@/components/BookTagPicker';
+import { useBookTags } from '@/contexts/BookTagsContext';
+import { addTagNames } from '@/utils/bookTags';
+import { LibraryLoan } from '@/utils/libraryLoans';
+import { SeriesShelfBook } from '@/utils/bookSeries';
 import * as ImagePicker from 'expo-image-picker';
 import { decode } from 'base64-arraybuffer';
+import { deletePhotoFile } from '@/utils/photoStorage';
+import { deleteAudioFile } from '@/utils/audioStorage';
+import { deleteVideoFiles } from '@/utils/videoStorage';
+import { cancelLoanReminders } from '@/utils/loanReminders';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -26,6 +44,8 @@ interface Book {
   description: string;
   published_date: string;
   page_count: number;
+  series_name?: string | null;
+  series_number?: number | null;
   requested?: number;
   active_request_count?: number;
   not_vibing_count?: number;
@@ -34,17 +54,21 @@ interface Book {
   recommend_count?: number;
 }
 
-interface UserBook {
+interface UserBook extends Partial<LibraryLoan> {
   id: string;
   book_id: string;
   rating: string | null;
   tags: string[];
   would_recommend: boolean;
+  series_name?: string | null;
+  series_number?: number | null;
   book: Book;
 }
 
 interface BookDetailBottomSheetProps {
   userBook: UserBook | null;
+  // The child's saved books, for the series section
+  shelfBooks?: SeriesShelfBook[];
   onClose: () => void;
   onRefresh: () => void;
   isAdminView?: boolean;
@@ -64,12 +88,19 @@ const Bookmark = () => (
 );
 
 const BookDetailBottomSheet = forwardRef<BottomSheetModal, BookDetailBottomSheetProps>(
-  ({ userBook, onClose, onRefresh, isAdminView = false }, ref) => {
+  ({ userBook, shelfBooks = [], onClose, onRefresh, isAdminView = false }, ref) => {
     const { refreshStats } = useStats();
     const { fetchProfileStats } = useProfileStats();
+    const { checkMilestones } = useMilestones();
+    const { getTag } = useBookTags();
+    const { setTargetBook } = useVideoRecording();
+    const { triggerCamera } = useCameraTrigger();
+    const { discardUploadsForTarget } = useMomentUploads();
     const snapPoints = useMemo(() => [screenHeight * 0.85], []);
     const [rating, setRating] = useState<RatingType>(null);
     const [wouldRecommend, setWouldRecommend] = useState(false);
+    const [tags, setTags] = useState<string[]>([]);
+    const [showTagPicker, setShowTagPicker] = useState(false);
     const [showMenu, setShowMenu] = useState(false);
     const [imageError, setImageError] = useState(false);
     const [isLowRes, setIsLowRes] = useState(false);
@@ -124,6 +155,8 @@ const BookDetailBottomSheet = forwardRef<BottomSheetModal, BookDetailBottomSheet
         setCachedUserBook(userBook);
         setRating((userBook.rating as RatingType) || null);
         setWouldRecommend(userBook.would_recommend || false);
+        setTags(userBook.tags || []);
+        setShowTagPicker(false);
         setShowMenu(false);
         setImageError(false);
         setIsLowRes(false);
@@ -178,7 +211,7 @@ const BookDetailBottomSheet = forwardRef<BottomSheetModal, BookDetailBottomSheet
       checkRequests();
     }, [cachedUserBook, checkUserRequest, isAdminView]);
 
-    const updateBookData = useCallback(async (field: 'rating' | 'would_recommend', value: any) => {
+    const updateBookData = useCallback(async (field: 'rating' | 'would_recommend' | 'tags', value: any) => {
       if (!cachedUserBook || isAdminView) return;
 
       try {
@@ -206,7 +239,8 @@ const BookDetailBottomSheet = forwardRef<BottomSheetModal, BookDetailBottomSheet
       const finalRating = rating === newRating ? null : newRating;
       setRating(finalRating);
       await updateBookData('rating', finalRating);
-    }, [rating, updateBookData, isAdminView]);
+      checkMilestones();
+    }, [rating, updateBookData, isAdminView, checkMilestones]);
 
     const toggleRecommend = useCallback(async () => {
       if (isAdminView) return;
@@ -217,10 +251,51 @@ const BookDetailBottomSheet = forwardRef<BottomSheetModal, BookDetailBottomSheet
       await updateBookData('would_recommend', newValue);
     }, [wouldRecommend, updateBookData, isAdminView]);
 
+    const handleAddTag = useCallback(async (tagName: string) => {
+      if (isAdminView) return;
+
+      const newTags = addTagNames(tags, [tagName]);
+      setTags(newTags);
+      setShowTagPicker(false);
+      await updateBookData('tags', newTags);
+    }, [tags, updateBookData, isAdminView]);
+
+    const handleRemoveTag = useCallback(async (tagName: string) => {
+      if (isAdminView) return;
+
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      const newTags = tags.filter((tag) => tag !== tagName);
+      setTags(newTags);
+      await updateBookData('tags', newTags);
+    }, [tags, updateBookData, isAdminView]);
+
     const deleteBook = useCallback(async () => {
       if (!cachedUserBook || isAdminView) return;
 
       try {
+        // Moments also linked to a word stay on the word
+        const { error: unlinkError } = await supabase
+          .from('moments')
+          .update({ user_book_id: null })
+          .eq('user_book_id', cachedUserBook.id)
+          .not('word_id', 'is', null);
+        if (unlinkError) throw unlinkError;
+
+        // The rest go with the book, so remove their files first
+        const { data: bookMoments } = await supabase
+          .from('moments')
+          .select('media_type, video_url, audio_url, photo_url, thumbnail_url')
+          .eq('user_book_id', cachedUserBook.id);
+        for (const moment of bookMoments || []) {
+          if (moment.media_type === 'photo') {
+            await deletePhotoFile(moment.photo_url);
+          } else if (moment.media_type === 'audio') {
+            await deleteAudioFile(moment.audio_url);
+          } else {
+            await deleteVideoFiles(moment.video_url, moment.thumbnail_url);
+          }
+        }
+
         const { error } = await supabase
           .from('user_books')
           .delete()
@@ -231,6 +306,11 @@ const BookDetailBottomSheet = forwardRef<BottomSheetModal, BookDetailBottomSheet
           throw error;
         }
 
+        // Moments still uploading for the book would otherwise fail against it
+        await discardUploadsForTarget({ userBookId: cachedUserBook.id });
+        // Reminders are only rebuilt for books still on the shelf
+        await cancelLoanReminders(cachedUserBook.id);
+
         if (ref && typeof ref !== 'function' && ref.current) {
           ref.current.dismiss();
         }
@@ -249,7 +329,7 @@ const BookDetailBottomSheet = forwardRef<BottomSheetModal, BookDetailBottomSheet
         console.error('Error in deleteBook:', error);
         Alert.alert('Error', 'Failed to remove book');
       }
-    }, [cachedUserBook, ref, onRefresh, isAdminView]);
+    }, [cachedUserBook, ref, onRefresh, isAdminView, discardUploadsForTarget]);
 
     const handleDeleteBook = useCallback(() => {
       if (isAdminView) return;
@@ -259,7 +339,7 @@ const BookDetailBottomSheet = forwardRef<BottomSheetModal, BookDetailBottomSheet
       
       Alert.alert(
         'Remove Book',
-        `Remove "${cachedUserBook?.book.title}" from library? This action cannot be undone.`,
+        `Remove "${cachedUserBook?.book.title}" from library? Moments only on this book are deleted too. This action cannot be undone.`,
         [
           {
             text: 'Cancel',
@@ -276,6 +356,22 @@ const BookDetailBottomSheet = forwardRef<BottomSheetModal, BookDetailBottomSheet
       );
     }, [cachedUserBook, deleteBook, isAdminView]);
 
+    // Records a video for this book; the tab bar owns the camera and saves it
+    const handleCaptureMoment = useCallback(() => {
+      if (!cachedUserBook || isAdminView) return;
+
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      console.log('Opening camera for book:', cachedUserBook.id);
+
+      setTargetBook({ userBookId: cachedUserBook.id, title: cachedUserBook.book.title });
+
+      if (ref && typeof ref !== 'function' && ref.current) {
+        ref.current.dismiss();
+      }
+
+      triggerCamera();
+    }, [cachedUserBook, isAdminView, setTargetBook, ref, triggerCamera]);
+
     const handleMenuPress = () => {
       if (isAdminView) return;
       
@@ -881,6 +977,88 @@ const BookDetailBottomSheet = forwardRef<BottomSheetModal, BookDetailBottomSheet
                 </View>
               )}
 
+              {/* User: Library loan */}
+              {!isAdminView && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Library Loan</Text>
+                  <LibraryLoanSection
+                    key={cachedUserBook.id}
+                    userBook={cachedUserBook}
+                    onChanged={onRefresh}
+                  />
+                </View>
+              )}
+
+              {/* User: Tags */}
+              {!isAdminView && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Tags</Text>
+                  <View style={styles.tagChips}>
+                    {tags.map((tagName) => (
+                      <BookTagChip
+                        key={tagName}
+                        tag={getTag(tagName)}
+                        onRemove={() => handleRemoveTag(tagName)}
+                      />
+                    ))}
+                    <TouchableOpacity
+                      style={styles.addTagButton}
+                      onPress={() => {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                        setShowTagPicker(!showTagPicker);
+                      }}
+                    >
+                      <IconSymbol
+                        ios_icon_name={showTagPicker ? 'xmark' : 'plus'}
+                        android_material_icon_name={showTagPicker ? 'close' : 'add'}
+                        size={14}
+                        color={colors.primary}
+                      />
+                      <Text style={styles.addTagText}>{showTagPicker ? 'Done' : 'Add tag'}</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {showTagPicker && (
+                    <View style={styles.tagPicker}>
+                      <BookTagPicker excludeNames={tags} onPick={handleAddTag} />
+                    </View>
+                  )}
+                </View>
+              )}
+
+              {/* User: Series */}
+              {!isAdminView && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Series</Text>
+                  <BookSeriesSection
+                    key={cachedUserBook.id}
+                    userBook={cachedUserBook}
+                    shelfBooks={shelfBooks}
+                    onChanged={onRefresh}
+                  />
+                </View>
+              )}
+
+              {/* User: Reading log */}
+              {!isAdminView && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Reading Log</Text>
+                  <ReadingLogSection userBookId={cachedUserBook.id} />
+                </View>
+              )}
+
+              {/* User: Moments */}
+              {!isAdminView && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Moments</Text>
+                  <BookMomentsSection
+                    key={cachedUserBook.id}
+                    userBookId={cachedUserBook.id}
+                    bookTitle={book.title}
+                    onCaptureMoment={handleCaptureMoment}
+                  />
+                </View>
+              )}
+
               {/* Description */}
               {book.description && (
                 <View style={styles.section}>
@@ -1067,6 +1245,30 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     marginBottom: 24,
   },
+  tagChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  addTagButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 20,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: colors.primary,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 4,
+  },
+  addTagText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  tagPicker: {
+    marginTop: 12,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '700',
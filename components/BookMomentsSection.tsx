@@ -0,0 +1,319 @@
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { Image } from 'expo-image';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import FullScreenPhotoViewer from '@/components/FullScreenPhotoViewer';
+import FullScreenVideoPlayer from '@/components/FullScreenVideoPlayer';
+import UpgradePromptModal from '@/components/UpgradePromptModal';
+import { supabase } from '@/app/integrations/supabase/client';
+import { useMomentUploads } from '@/contexts/MomentUploadsContext';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import { useAddPhotoMoment } from '@/hooks/useAddPhotoMoment';
+import { deletePhotoFile, processPhotoMomentsWithSignedUrls } from '@/utils/photoStorage';
+import { deleteVideoFiles, processMomentsWithSignedUrls } from '@/utils/videoStorage';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface BookMoment {
+  id: string;
+  media_type: 'video' | 'photo';
+  word_id: string | null;
+  video_url: string | null;
+  photo_url: string | null;
+  thumbnail_url: string | null;
+  trim_start?: number;
+  trim_end?: number;
+  created_at: string;
+  signedVideoUrl?: string | null;
+  signedThumbnailUrl?: string | null;
+  signedPhotoUrl?: string | null;
+}
+
+interface BookMomentsSectionProps {
+  userBookId: string;
+  bookTitle: string;
+  onCaptureMoment: () => void;
+}
+
+/**
+ * Videos and photos of the child with one book, with buttons to add another
+ */
+export default function BookMomentsSection({ userBookId, bookTitle, onCaptureMoment }: BookMomentsSectionProps) {
+  const { savedMoment } = useMomentUploads();
+  const { refreshUsage } = useSubscription();
+  const { addPhoto, showUpgradeModal, closeUpgradeModal } = useAddPhotoMoment();
+  const [moments, setMoments] = useState<BookMoment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [viewingPhoto, setViewingPhoto] = useState<BookMoment | null>(null);
+  const [playingVideo, setPlayingVideo] = useState<BookMoment | null>(null);
+
+  const fetchMoments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('moments')
+        .select('id, media_type, word_id, video_url, photo_url, thumbnail_url, trim_start, trim_end, created_at')
+        .eq('user_book_id', userBookId)
+        .in('media_type', ['video', 'photo'])
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const rows = (data || []) as BookMoment[];
+      const [videos, photos] = await Promise.all([
+        processMomentsWithSignedUrls(
+          rows.filter((moment): moment is BookMoment & { video_url: string } => moment.media_type === 'video' && !!moment.video_url)
+        ),
+        processPhotoMomentsWithSignedUrls(rows.filter((moment) => moment.media_type === 'photo')),
+      ]);
+      setMoments(
+        [...videos, ...photos].sort(
+          (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+        )
+      );
+    } catch (error) {
+      console.error('BookMomentsSection: Error fetching moments:', error);
+      setMoments([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userBookId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchMoments();
+  }, [fetchMoments]);
+
+  // A moment added here shows up once its upload finishes
+  useEffect(() => {
+    if (savedMoment?.userBookId === userBookId) {
+      fetchMoments();
+    }
+  }, [savedMoment, userBookId, fetchMoments]);
+
+  const handleOpen = (moment: BookMoment) => {
+    HapticFeedback.light();
+    if (moment.media_type === 'photo') {
+      setViewingPhoto(moment);
+    } else {
+      setPlayingVideo(moment);
+    }
+  };
+
+  const handleDelete = (moment: BookMoment) => {
+    HapticFeedback.medium();
+    const label = moment.media_type === 'photo' ? 'photo' : 'video';
+    Alert.alert(
+      moment.media_type === 'photo' ? 'Delete Photo' : 'Delete Video',
+      moment.word_id
+        ? `This ${label} is also on a word and will be removed from it too. This action cannot be undone.`
+        : `Are you sure you want to delete this ${label} moment? This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              if (moment.media_type === 'photo') {
+                await deletePhotoFile(moment.photo_url);
+              } else {
+                await deleteVideoFiles(moment.video_url, moment.thumbnail_url);
+              }
+              const { error } = await supabase.from('moments').delete().eq('id', moment.id);
+              if (error) throw error;
+
+              setMoments((prev) => prev.filter((m) => m.id !== moment.id));
+              refreshUsage();
+              HapticFeedback.success();
+            } catch (error) {
+              console.error('BookMomentsSection: Error deleting moment:', error);
+              Alert.alert('Error', `Failed to delete ${label}`);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View>
+      <Text style={styles.summaryText}>
+        {moments.length === 0
+          ? 'No moments yet'
+          : `${moments.length} ${moments.length === 1 ? 'moment' : 'moments'}`}
+      </Text>
+      <View style={styles.actionsRow}>
+        <TouchableOpacity style={styles.addButton} onPress={onCaptureMoment}>
+          <IconSymbol
+            ios_icon_name="video.fill"
+            android_material_icon_name="videocam"
+            size={16}
+            color={colors.backgroundAlt}
+          />
+          <Text style={styles.addButtonText}>Capture moment</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => addPhoto({ userBookId, name: bookTitle })}
+        >
+          <IconSymbol
+            ios_icon_name="camera.fill"
+            android_material_icon_name="photo-camera"
+            size={16}
+            color={colors.backgroundAlt}
+          />
+          <Text style={styles.addButtonText}>Add photo</Text>
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator style={styles.loading} color={colors.buttonBlue} />
+      ) : moments.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.photoRow}>
+          {moments.map((moment) => {
+            const imageUri = moment.media_type === 'photo' ? moment.signedPhotoUrl : moment.signedThumbnailUrl;
+            return (
+              <TouchableOpacity
+                key={moment.id}
+                style={styles.photoTile}
+                onPress={() => handleOpen(moment)}
+                activeOpacity={0.8}
+              >
+                {imageUri ? (
+                  <Image source={{ uri: imageUri }} style={styles.photo} contentFit="cover" transition={200} />
+                ) : (
+                  <IconSymbol
+                    ios_icon_name={moment.media_type === 'photo' ? 'photo.fill' : 'video.fill'}
+                    android_material_icon_name={moment.media_type === 'photo' ? 'photo' : 'videocam'}
+                    size={28}
+                    color={colors.backgroundAlt}
+                  />
+                )}
+                {moment.media_type === 'video' && (
+                  <View style={styles.playIcon}>
+                    <IconSymbol
+                      ios_icon_name="play.fill"
+                      android_material_icon_name="play-arrow"
+                      size={18}
+                      color={colors.backgroundAlt}
+                    />
+                  </View>
+                )}
+                <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(moment)} hitSlop={8}>
+                  <IconSymbol
+                    ios_icon_name="trash"
+                    android_material_icon_name="delete"
+                    size={12}
+                    color={colors.backgroundAlt}
+                  />
+                </TouchableOpacity>
+                <Text style={styles.photoDate}>{new Date(moment.created_at).toLocaleDateString()}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      <FullScreenPhotoViewer
+        visible={!!viewingPhoto}
+        photoUri={viewingPhoto?.signedPhotoUrl ?? null}
+        onClose={() => setViewingPhoto(null)}
+      />
+
+      {playingVideo && (
+        <FullScreenVideoPlayer
+          visible
+          videoUri={playingVideo.signedVideoUrl || playingVideo.video_url || ''}
+          thumbnailUri={playingVideo.signedThumbnailUrl}
+          onClose={() => setPlayingVideo(null)}
+          trimStart={playingVideo.trim_start}
+          trimEnd={playingVideo.trim_end}
+        />
+      )}
+
+      <UpgradePromptModal
+        visible={showUpgradeModal}
+        onClose={closeUpgradeModal}
+        quotaType="photo"
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  summaryText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+  loading: {
+    marginTop: 12,
+  },
+  photoRow: {
+    gap: 10,
+    paddingTop: 12,
+  },
+  photoTile: {
+    width: 110,
+    height: 140,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  photo: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  playIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  deleteButton: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  photoDate: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    paddingVertical: 4,
+    fontSize: 10,
+    fontWeight: '600',
+    textAlign: 'center',
+    color: colors.backgroundAlt,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+});
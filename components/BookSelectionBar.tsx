@@ -0,0 +1,95 @@
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface BookSelectionBarProps {
+  selectedCount: number;
+  onTag: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Shown instead of the search bar while picking books to tag together
+ */
+export default function BookSelectionBar({ selectedCount, onTag, onCancel }: BookSelectionBarProps) {
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        onPress={() => {
+          HapticFeedback.light();
+          onCancel();
+        }}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      >
+        <Text style={styles.cancelText}>Cancel</Text>
+      </TouchableOpacity>
+
+      <Text style={styles.countText}>
+        {selectedCount === 0 ? 'Tap books to select' : `${selectedCount} selected`}
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.tagButton, selectedCount === 0 && styles.tagButtonDisabled]}
+        onPress={() => {
+          HapticFeedback.medium();
+          onTag();
+        }}
+        disabled={selectedCount === 0}
+      >
+        <IconSymbol
+          ios_icon_name="tag.fill"
+          android_material_icon_name="label"
+          size={16}
+          color={colors.backgroundAlt}
+        />
+        <Text style={styles.tagButtonText}>Tag</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginBottom: 16,
+    gap: 12,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  countText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+    textAlign: 'center',
+  },
+  tagButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  tagButtonDisabled: {
+    opacity: 0.5,
+  },
+  tagButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+});
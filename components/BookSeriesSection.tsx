@@ -0,0 +1,488 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useAuth } from '@/contexts/AuthContext';
+import { useChild } from '@/contexts/ChildContext';
+import { useReadingLog } from '@/contexts/ReadingLogContext';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import { addScannedBooksToShelf } from '@/utils/bulkBookScan';
+import { BookSearchResult, getBookDetails, searchGoogleBooks } from '@/utils/googleBooksApi';
+import {
+  detectSeriesFromTitle,
+  fetchSeriesTotal,
+  getBookSeries,
+  getSeriesBooks,
+  getSeriesLength,
+  isSameSeriesName,
+  normalizeSeriesName,
+  saveSeriesTotal,
+  saveUserBookSeries,
+  BookSeries,
+  MAX_SERIES_NAME_LENGTH,
+  SeriesShelfBook,
+} from '@/utils/bookSeries';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface BookSeriesSectionProps {
+  userBook: SeriesShelfBook;
+  // The child's saved books, to find the rest of the series
+  shelfBooks: SeriesShelfBook[];
+  // Called after the series changed or a book was added so the shelf can reload
+  onChanged: () => void;
+}
+
+const toTitleKey = (title: string) => title.trim().toLowerCase();
+
+/**
+ * The book's series, how much of it has been read and what to read next
+ * The series is kept locally after saving because the sheet's book doesn't reload;
+ * key the section by book so opening another book starts fresh
+ */
+export default function BookSeriesSection({ userBook, shelfBooks, onChanged }: BookSeriesSectionProps) {
+  const { user } = useAuth();
+  const { selectedChild } = useChild();
+  const { sessions } = useReadingLog();
+  const { canAddBook, refreshUsage, showPaywall } = useSubscription();
+  const [series, setSeries] = useState<BookSeries | null>(() => getBookSeries(userBook));
+  const [storedTotal, setStoredTotal] = useState<number | null>(null);
+  const [suggestion, setSuggestion] = useState<BookSearchResult | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [nameInput, setNameInput] = useState('');
+  const [numberInput, setNumberInput] = useState('');
+  const [totalInput, setTotalInput] = useState('');
+
+  // The shelf copy of this book still has the old series until the shelf reloads
+  const seriesBooks = useMemo(() => {
+    if (!series) return [];
+    const others = shelfBooks.filter((shelfBook) => shelfBook.id !== userBook.id);
+    const current = { ...userBook, series_name: series.name, series_number: series.number };
+    return getSeriesBooks([...others, current], series.name);
+  }, [series, shelfBooks, userBook]);
+
+  const readBookIds = useMemo(() => new Set(sessions.map((session) => session.user_book_id)), [sessions]);
+  const readCount = seriesBooks.filter((seriesBook) => readBookIds.has(seriesBook.id)).length;
+  const seriesLength = getSeriesLength(seriesBooks, storedTotal);
+  const nextOnShelf = seriesBooks.find((seriesBook) => !readBookIds.has(seriesBook.id)) || null;
+
+  useEffect(() => {
+    if (!series || !selectedChild) return;
+
+    fetchSeriesTotal(selectedChild.id, series.name)
+      .then(setStoredTotal)
+      .catch((error) => console.error('BookSeriesSection: Error loading series total:', error));
+  }, [series, selectedChild]);
+
+  // Only search for a book to add once everything in the series on the shelf has been read
+  useEffect(() => {
+    if (!series || nextOnShelf) {
+      setSuggestion(null);
+      return;
+    }
+
+    let isCurrent = true;
+    const onShelf = new Set(seriesBooks.map((seriesBook) => toTitleKey(seriesBook.book.title)));
+    const highestNumber = Math.max(0, ...seriesBooks.map((seriesBook) => getBookSeries(seriesBook)?.number || 0));
+    const author = userBook.book.authors?.split(',')[0].trim() || '';
+
+    setIsSearching(true);
+    searchGoogleBooks(`${series.name} ${author}`.trim(), 10)
+      .then((results) => {
+        if (!isCurrent) return;
+
+        const candidates = results
+          .filter((result) => !onShelf.has(toTitleKey(result.title)))
+          .map((result) => ({ result, resultSeries: detectSeriesFromTitle(result.title) }))
+          .filter(({ result, resultSeries }) =>
+            resultSeries
+              ? isSameSeriesName(resultSeries.name, series.name)
+              : result.title.toLowerCase().includes(series.name.toLowerCase())
+          );
+        // The next number after the shelf's highest, else the first match
+        const next = candidates
+          .filter(({ resultSeries }) => resultSeries?.number && resultSeries.number > highestNumber)
+          .sort((a, b) => (a.resultSeries?.number || 0) - (b.resultSeries?.number || 0))[0] || candidates[0];
+        setSuggestion(next?.result || null);
+      })
+      .catch((error) => console.error('BookSeriesSection: Error finding next book:', error))
+      .finally(() => {
+        if (isCurrent) setIsSearching(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [series, nextOnShelf, seriesBooks, userBook.book.authors]);
+
+  const handleOpenForm = () => {
+    HapticFeedback.light();
+    setNameInput(series?.name || '');
+    setNumberInput(series?.number ? String(series.number) : '');
+    setTotalInput(storedTotal ? String(storedTotal) : '');
+    setIsFormOpen(true);
+  };
+
+  const runSeriesChange = async (next: BookSeries | null, total: number | null) => {
+    if (isSaving) return;
+    setIsSaving(true);
+
+    try {
+      await saveUserBookSeries(userBook.id, next);
+      if (next && selectedChild) {
+        await saveSeriesTotal(selectedChild.id, next.name, total);
+        setStoredTotal(total);
+      }
+      setSeries(next);
+      setIsFormOpen(false);
+      HapticFeedback.success();
+      onChanged();
+    } catch (error) {
+      console.error('BookSeriesSection: Error saving series:', error);
+      HapticFeedback.error();
+      Alert.alert('Error', 'Failed to save series');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const name = normalizeSeriesName(nameInput);
+    if (!name) {
+      HapticFeedback.warning();
+      Alert.alert('Series Name', 'Enter the name of the series.');
+      return;
+    }
+
+    HapticFeedback.medium();
+    const number = parseInt(numberInput, 10);
+    const total = parseInt(totalInput, 10);
+    runSeriesChange({ name, number: number > 0 ? number : null }, total > 0 ? total : null);
+  };
+
+  const handleNotSeries = () => {
+    HapticFeedback.medium();
+    runSeriesChange(null, null);
+  };
+
+  const handleAddSuggestion = async () => {
+    if (!suggestion || !selectedChild || !user || isAdding) return;
+    HapticFeedback.medium();
+
+    if (!canAddBook) {
+      HapticFeedback.warning();
+      Alert.alert('Book Limit', 'Your free plan is full. Upgrade to add more books.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Upgrade', onPress: () => showPaywall() },
+      ]);
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      const details = (await getBookDetails(suggestion.googleBooksId)) || suggestion;
+      const result = await addScannedBooksToShelf([details], selectedChild.id, user.id);
+      if (result.failed > 0) {
+        throw new Error('Book could not be added');
+      }
+
+      HapticFeedback.success();
+      Alert.alert('Added to Shelf', `"${details.title}" is on ${selectedChild.name}'s shelf.`);
+      setSuggestion(null);
+      await refreshUsage();
+      onChanged();
+    } catch (error) {
+      console.error('BookSeriesSection: Error adding next book:', error);
+      HapticFeedback.error();
+      Alert.alert('Error', 'Failed to add book to the shelf');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <View>
+      {series ? (
+        <View>
+          <Text style={styles.seriesName}>
+            {series.name}
+            {series.number ? ` · Book ${series.number}` : ''}
+          </Text>
+          <View style={styles.progressRow}>
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${Math.round((readCount / seriesLength) * 100)}%` }]} />
+            </View>
+            <Text style={styles.progressText}>
+              {readCount} of {seriesLength} read
+            </Text>
+          </View>
+
+          {nextOnShelf ? (
+            <Text style={styles.nextText}>
+              {nextOnShelf.id === userBook.id ? 'Next to read: this one!' : `Next to read: ${nextOnShelf.book.title}`}
+            </Text>
+          ) : isSearching ? (
+            <View style={styles.searchingRow}>
+              <ActivityIndicator size="small" color={colors.primary} />
+              <Text style={styles.nextText}>Looking for the next book…</Text>
+            </View>
+          ) : suggestion ? (
+            <View style={styles.suggestion}>
+              <View style={styles.suggestionInfo}>
+                <Text style={styles.suggestionLabel}>Up next in the series</Text>
+                <Text style={styles.suggestionTitle} numberOfLines={2}>{suggestion.title}</Text>
+              </View>
+              <TouchableOpacity style={styles.primaryButton} onPress={handleAddSuggestion} disabled={isAdding}>
+                {isAdding ? (
+                  <ActivityIndicator size="small" color={colors.backgroundAlt} />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Add to shelf</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <Text style={styles.nextText}>All caught up on this series</Text>
+          )}
+        </View>
+      ) : (
+        <Text style={styles.summaryText}>Not part of a series</Text>
+      )}
+
+      {!isFormOpen && (
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleOpenForm}>
+            <IconSymbol
+              ios_icon_name={series ? 'pencil' : 'books.vertical'}
+              android_material_icon_name={series ? 'edit' : 'library-books'}
+              size={16}
+              color={colors.primary}
+            />
+            <Text style={styles.secondaryButtonText}>{series ? 'Edit series' : 'Part of a series'}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {isFormOpen && (
+        <View style={styles.form}>
+          <Text style={styles.label}>Series</Text>
+          <TextInput
+            style={styles.input}
+            value={nameInput}
+            onChangeText={setNameInput}
+            placeholder="e.g. Elephant & Piggie"
+            placeholderTextColor={colors.textSecondary}
+            maxLength={MAX_SERIES_NAME_LENGTH}
+          />
+
+          <View style={styles.numberRow}>
+            <View style={styles.numberField}>
+              <Text style={styles.label}>Book number</Text>
+              <TextInput
+                style={styles.input}
+                value={numberInput}
+                onChangeText={setNumberInput}
+                placeholder="e.g. 3"
+                placeholderTextColor={colors.textSecondary}
+                keyboardType="number-pad"
+                maxLength={3}
+              />
+            </View>
+            <View style={styles.numberField}>
+              <Text style={styles.label}>Books in series</Text>
+              <TextInput
+                style={styles.input}
+                value={totalInput}
+                onChangeText={setTotalInput}
+                placeholder="e.g. 12"
+                placeholderTextColor={colors.textSecondary}
+                keyboardType="number-pad"
+                maxLength={3}
+              />
+            </View>
+          </View>
+
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <ActivityIndicator size="small" color={colors.backgroundAlt} />
+            ) : (
+              <Text style={styles.saveButtonText}>Save Series</Text>
+            )}
+          </TouchableOpacity>
+
+          <View style={styles.formFooter}>
+            <TouchableOpacity
+              onPress={() => {
+                HapticFeedback.light();
+                setIsFormOpen(false);
+              }}
+            >
+              <Text style={styles.linkText}>Cancel</Text>
+            </TouchableOpacity>
+            {series && (
+              <TouchableOpacity onPress={handleNotSeries}>
+                <Text style={styles.linkText}>Not part of a series</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  summaryText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  seriesName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 8,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.background,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: colors.buttonBlue,
+  },
+  progressText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  nextText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 10,
+  },
+  searchingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 12,
+    marginTop: 12,
+  },
+  suggestionInfo: {
+    flex: 1,
+  },
+  suggestionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  suggestionTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.text,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  primaryButton: {
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: colors.primary,
+    borderStyle: 'dashed',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    gap: 6,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  form: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginBottom: 6,
+  },
+  input: {
+    fontSize: 16,
+    color: colors.primary,
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  numberRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  numberField: {
+    flex: 1,
+  },
+  saveButton: {
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 16,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+  formFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 14,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+});
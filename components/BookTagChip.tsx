@@ -0,0 +1,70 @@
+
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { getBookTagColor, BookTag } from '@/utils/bookTags';
+
+interface BookTagChipProps {
+  tag: BookTag;
+  count?: number;
+  // Outlined when false, so a row of chips can show which are picked
+  selected?: boolean;
+  onPress?: () => void;
+  onRemove?: () => void;
+}
+
+export default function BookTagChip({ tag, count, selected = true, onPress, onRemove }: BookTagChipProps) {
+  const tagColor = getBookTagColor(tag.color);
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.chip,
+        { borderColor: tagColor.background },
+        selected && { backgroundColor: tagColor.background },
+      ]}
+      onPress={onPress}
+      disabled={!onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, selected && { color: tagColor.text }]}>
+        {tag.name}
+        {count !== undefined ? ` · ${count}` : ''}
+      </Text>
+      {onRemove && (
+        <TouchableOpacity
+          onPress={onRemove}
+          style={styles.removeButton}
+          hitSlop={{ top: 10, bottom: 10, left: 6, right: 10 }}
+        >
+          <IconSymbol
+            ios_icon_name="xmark"
+            android_material_icon_name="close"
+            size={12}
+            color={selected ? tagColor.text : tagColor.background}
+          />
+        </TouchableOpacity>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 20,
+    borderWidth: 2,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  removeButton: {
+    marginLeft: 6,
+  },
+});
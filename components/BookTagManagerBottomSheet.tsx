@@ -0,0 +1,476 @@
+
+import React, { forwardRef, useMemo, useCallback, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { BottomSheetBackdrop, BottomSheetScrollView, BottomSheetModal } from '@gorhom/bottom-sheet';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import BookTagChip from '@/components/BookTagChip';
+import { useBookTags } from '@/contexts/BookTagsContext';
+import { BOOK_TAG_COLORS, DEFAULT_BOOK_TAG_COLOR, MAX_BOOK_TAG_LENGTH, SUGGESTED_BOOK_SHELVES } from '@/data/bookTags';
+import { getTagCount } from '@/utils/bookshelfQuery';
+import { getBookTagColor, isSameTagName, mergeUsedTags, normalizeTagName, BookTag } from '@/utils/bookTags';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface BookTagManagerBottomSheetProps {
+  // Books per tag on the child's shelf, from `countShelfTags`
+  tagCounts: Map<string, number>;
+  // Tag names used on the shelf, including ones with no registered tag
+  usedNames: string[];
+  // Called after books were retagged by a rename, merge or delete
+  onBooksChanged: () => void;
+}
+
+interface ColorSwatchesProps {
+  selected: string;
+  onSelect: (colorId: string) => void;
+}
+
+const ColorSwatches = ({ selected, onSelect }: ColorSwatchesProps) => (
+  <View style={styles.swatches}>
+    {BOOK_TAG_COLORS.map((tagColor) => (
+      <TouchableOpacity
+        key={tagColor.id}
+        style={[
+          styles.swatch,
+          { backgroundColor: tagColor.background },
+          selected === tagColor.id && styles.swatchSelected,
+        ]}
+        onPress={() => {
+          HapticFeedback.selection();
+          onSelect(tagColor.id);
+        }}
+      />
+    ))}
+  </View>
+);
+
+const BookTagManagerBottomSheet = forwardRef<BottomSheetModal, BookTagManagerBottomSheetProps>(
+  ({ tagCounts, usedNames, onBooksChanged }, ref) => {
+    const snapPoints = useMemo(() => ['90%'], []);
+    const { tags, createTag, updateTagColor, renameTag, mergeTags, deleteTag } = useBookTags();
+    const [newTagName, setNewTagName] = useState('');
+    const [newTagColor, setNewTagColor] = useState(DEFAULT_BOOK_TAG_COLOR.id);
+    const [editingTagName, setEditingTagName] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+
+    const allTags = useMemo(
+      () => mergeUsedTags(tags, usedNames),
+      [tags, usedNames]
+    );
+    const suggestions = SUGGESTED_BOOK_SHELVES.filter(
+      (shelf) => !allTags.some((tag) => isSameTagName(tag.name, shelf.name))
+    );
+
+    const renderBackdrop = useCallback(
+      (props: any) => (
+        <BottomSheetBackdrop
+          {...props}
+          disappearsOnIndex={-1}
+          appearsOnIndex={0}
+          opacity={0.5}
+          pressBehavior="close"
+        />
+      ),
+      []
+    );
+
+    // Runs one tag change at a time and reports failures
+    const runTagAction = async (action: () => Promise<void>, errorMessage: string, retagsBooks = false) => {
+      if (isBusy) return;
+      setIsBusy(true);
+      try {
+        await action();
+        HapticFeedback.success();
+        if (retagsBooks) {
+          onBooksChanged();
+        }
+      } catch (error) {
+        console.error('BookTagManagerBottomSheet:', errorMessage, error);
+        HapticFeedback.error();
+        Alert.alert('Error', errorMessage);
+      } finally {
+        setIsBusy(false);
+      }
+    };
+
+    const handleCreate = (name: string, color: string) => {
+      const tagName = normalizeTagName(name);
+      if (!tagName) return;
+      if (allTags.some((tag) => isSameTagName(tag.name, tagName))) {
+        Alert.alert('Tag Exists', `There is already a tag called "${tagName}".`);
+        return;
+      }
+
+      runTagAction(async () => {
+        await createTag(tagName, color);
+        setNewTagName('');
+      }, 'Failed to create tag');
+    };
+
+    const handleToggleEdit = (tag: BookTag) => {
+      HapticFeedback.light();
+      if (editingTagName === tag.name) {
+        setEditingTagName(null);
+      } else {
+        setEditingTagName(tag.name);
+        setRenameValue(tag.name);
+      }
+    };
+
+    const handleMerge = (source: BookTag, target: BookTag) => {
+      HapticFeedback.medium();
+      Alert.alert(
+        'Merge Tags',
+        `Books tagged "${source.name}" will be tagged "${target.name}" instead, and "${source.name}" will be removed.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Merge',
+            onPress: () => runTagAction(async () => {
+              await mergeTags(source, target);
+              setEditingTagName(null);
+            }, 'Failed to merge tags', true),
+          },
+        ]
+      );
+    };
+
+    const handleRename = (tag: BookTag) => {
+      const tagName = normalizeTagName(renameValue);
+      if (!tagName || tagName === tag.name) return;
+
+      // Renaming onto another tag's name is a merge
+      const existing = allTags.find((t) => t.name !== tag.name && isSameTagName(t.name, tagName));
+      if (existing) {
+        handleMerge(tag, existing);
+        return;
+      }
+
+      runTagAction(async () => {
+        await renameTag(tag, tagName);
+        setEditingTagName(tagName);
+      }, 'Failed to rename tag', true);
+    };
+
+    const handleDelete = (tag: BookTag) => {
+      HapticFeedback.medium();
+      const count = getTagCount(tagCounts, tag.name);
+      Alert.alert(
+        'Delete Tag',
+        count > 0
+          ? `"${tag.name}" will be removed from ${count} ${count === 1 ? 'book' : 'books'}. The books stay on the shelf.`
+          : `Delete "${tag.name}"?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Delete',
+            style: 'destructive',
+            onPress: () => runTagAction(async () => {
+              await deleteTag(tag);
+              setEditingTagName(null);
+            }, 'Failed to delete tag', true),
+          },
+        ]
+      );
+    };
+
+    return (
+      <BottomSheetModal
+        ref={ref}
+        index={0}
+        snapPoints={snapPoints}
+        enablePanDownToClose={true}
+        enableDismissOnClose={true}
+        enableDynamicSizing={false}
+        backdropComponent={renderBackdrop}
+        backgroundStyle={styles.bottomSheetBackground}
+        handleIndicatorStyle={styles.handleIndicator}
+        onDismiss={() => setEditingTagName(null)}
+      >
+        <BottomSheetScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.contentContainer}
+        >
+          <Text style={styles.title}>Tags & Shelves</Text>
+          <Text style={styles.subtitle}>Each tag becomes a shelf on the Books tab</Text>
+
+          {suggestions.length > 0 && (
+            <>
+              <Text style={styles.label}>Suggested shelves</Text>
+              <View style={styles.chips}>
+                {suggestions.map((shelf) => (
+                  <TouchableOpacity
+                    key={shelf.name}
+                    style={[styles.suggestionChip, { borderColor: getBookTagColor(shelf.color).background }]}
+                    onPress={() => handleCreate(shelf.name, shelf.color)}
+                  >
+                    <IconSymbol
+                      ios_icon_name="plus"
+                      android_material_icon_name="add"
+                      size={14}
+                      color={colors.primary}
+                    />
+                    <Text style={styles.suggestionText}>{shelf.name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          <Text style={styles.label}>New tag</Text>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={styles.input}
+              value={newTagName}
+              onChangeText={setNewTagName}
+              placeholder="Tag name"
+              placeholderTextColor={colors.textSecondary}
+              maxLength={MAX_BOOK_TAG_LENGTH}
+            />
+            <TouchableOpacity
+              style={[styles.smallButton, !newTagName.trim() && styles.buttonDisabled]}
+              onPress={() => handleCreate(newTagName, newTagColor)}
+              disabled={!newTagName.trim() || isBusy}
+            >
+              <Text style={styles.smallButtonText}>Create</Text>
+            </TouchableOpacity>
+          </View>
+          <ColorSwatches selected={newTagColor} onSelect={setNewTagColor} />
+
+          <Text style={styles.label}>Your tags</Text>
+          {allTags.length === 0 ? (
+            <Text style={styles.emptyText}>No tags yet</Text>
+          ) : (
+            allTags.map((tag) => {
+              const isEditing = editingTagName === tag.name;
+              const otherTags = allTags.filter((t) => t.name !== tag.name);
+              return (
+                <View key={tag.name} style={styles.tagRow}>
+                  <TouchableOpacity style={styles.tagRowHeader} onPress={() => handleToggleEdit(tag)}>
+                    <BookTagChip tag={tag} />
+                    <Text style={styles.tagCount}>
+                      {getTagCount(tagCounts, tag.name)} {getTagCount(tagCounts, tag.name) === 1 ? 'book' : 'books'}
+                    </Text>
+                    <IconSymbol
+                      ios_icon_name={isEditing ? 'chevron.up' : 'chevron.down'}
+                      android_material_icon_name={isEditing ? 'expand-less' : 'expand-more'}
+                      size={20}
+                      color={colors.textSecondary}
+                    />
+                  </TouchableOpacity>
+
+                  {isEditing && (
+                    <View style={styles.editor}>
+                      <View style={styles.inputRow}>
+                        <TextInput
+                          style={styles.input}
+                          value={renameValue}
+                          onChangeText={setRenameValue}
+                          maxLength={MAX_BOOK_TAG_LENGTH}
+                        />
+                        <TouchableOpacity
+                          style={[
+                            styles.smallButton,
+                            normalizeTagName(renameValue) === tag.name && styles.buttonDisabled,
+                          ]}
+                          onPress={() => handleRename(tag)}
+                          disabled={normalizeTagName(renameValue) === tag.name || isBusy}
+                        >
+                          <Text style={styles.smallButtonText}>Rename</Text>
+                        </TouchableOpacity>
+                      </View>
+
+                      <ColorSwatches
+                        selected={tag.color}
+                        onSelect={(colorId) => runTagAction(
+                          () => updateTagColor(tag, colorId),
+                          'Failed to change tag colour'
+                        )}
+                      />
+
+                      {otherTags.length > 0 && (
+                        <>
+                          <Text style={styles.editorLabel}>Merge into</Text>
+                          <View style={styles.chips}>
+                            {otherTags.map((target) => (
+                              <BookTagChip
+                                key={target.name}
+                                tag={target}
+                                selected={false}
+                                onPress={() => handleMerge(tag, target)}
+                              />
+                            ))}
+                          </View>
+                        </>
+                      )}
+
+                      <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(tag)}>
+                        <IconSymbol
+                          ios_icon_name="trash"
+                          android_material_icon_name="delete"
+                          size={16}
+                          color={colors.secondary}
+                        />
+                        <Text style={styles.deleteButtonText}>Delete tag</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              );
+            })
+          )}
+        </BottomSheetScrollView>
+      </BottomSheetModal>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  bottomSheetBackground: {
+    backgroundColor: colors.backgroundAlt,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+  },
+  handleIndicator: {
+    backgroundColor: colors.primary,
+    width: 40,
+    height: 4,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingBottom: 40,
+    paddingHorizontal: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: colors.primary,
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  suggestionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 20,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 4,
+  },
+  suggestionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.primary,
+    backgroundColor: colors.background,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  smallButton: {
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+  smallButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  swatches: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 12,
+  },
+  swatch: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: colors.primary,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  tagRow: {
+    borderBottomWidth: 1,
+    borderBottomColor: colors.background,
+    paddingVertical: 10,
+  },
+  tagRowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  tagCount: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  editor: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 12,
+    marginTop: 10,
+  },
+  editorLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 16,
+  },
+  deleteButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.secondary,
+  },
+});
+
+export default BookTagManagerBottomSheet;
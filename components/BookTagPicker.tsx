@@ -0,0 +1,133 @@
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import BookTagChip from '@/components/BookTagChip';
+import { useBookTags } from '@/contexts/BookTagsContext';
+import { MAX_BOOK_TAG_LENGTH } from '@/data/bookTags';
+import { isSameTagName, mergeUsedTags, normalizeTagName } from '@/utils/bookTags';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface BookTagPickerProps {
+  // Tag names already on the book(s), hidden from the list
+  excludeNames: string[];
+  // Tag names used on the shelf that may not be registered yet
+  usedNames?: string[];
+  onPick: (tagName: string) => void;
+}
+
+/**
+ * Existing tags to pick from, plus a field to create a new one
+ */
+export default function BookTagPicker({ excludeNames, usedNames = [], onPick }: BookTagPickerProps) {
+  const { tags, createTag } = useBookTags();
+  const [newTagName, setNewTagName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const options = mergeUsedTags(tags, usedNames).filter(
+    (tag) => !excludeNames.some((name) => isSameTagName(name, tag.name))
+  );
+
+  const handleCreate = async () => {
+    const name = normalizeTagName(newTagName);
+    if (!name || isCreating) return;
+
+    HapticFeedback.medium();
+    setIsCreating(true);
+    try {
+      const tag = await createTag(name);
+      setNewTagName('');
+      onPick(tag.name);
+    } catch (error) {
+      console.error('BookTagPicker: Error creating tag:', error);
+      HapticFeedback.error();
+      Alert.alert('Error', 'Failed to create tag');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <View>
+      {options.length > 0 && (
+        <View style={styles.chips}>
+          {options.map((tag) => (
+            <BookTagChip
+              key={tag.name}
+              tag={tag}
+              selected={false}
+              onPress={() => {
+                HapticFeedback.selection();
+                onPick(tag.name);
+              }}
+            />
+          ))}
+        </View>
+      )}
+
+      <View style={styles.newTagRow}>
+        <TextInput
+          style={styles.input}
+          value={newTagName}
+          onChangeText={setNewTagName}
+          placeholder="New tag, e.g. Bedtime"
+          placeholderTextColor={colors.textSecondary}
+          maxLength={MAX_BOOK_TAG_LENGTH}
+          onSubmitEditing={handleCreate}
+          returnKeyType="done"
+        />
+        <TouchableOpacity
+          style={[styles.addButton, !newTagName.trim() && styles.addButtonDisabled]}
+          onPress={handleCreate}
+          disabled={!newTagName.trim() || isCreating}
+        >
+          {isCreating ? (
+            <ActivityIndicator size="small" color={colors.backgroundAlt} />
+          ) : (
+            <IconSymbol
+              ios_icon_name="plus"
+              android_material_icon_name="add"
+              size={20}
+              color={colors.backgroundAlt}
+            />
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  newTagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.primary,
+    backgroundColor: colors.background,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  addButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: colors.buttonBlue,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,148 @@
+
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import BookTagChip from '@/components/BookTagChip';
+import { getTagCount } from '@/utils/bookshelfQuery';
+import { BookTag, isSameTagName } from '@/utils/bookTags';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface BookTagShelvesProps {
+  tags: BookTag[];
+  tagCounts: Map<string, number>;
+  totalCount: number;
+  // The one tag the shelf is showing, or null for all books
+  selectedTag: string | null;
+  onSelectTag: (tagName: string | null) => void;
+  onManage: () => void;
+  onStartSelecting: () => void;
+}
+
+/**
+ * A row of tag shelves ("Bedtime", "Library loans"…) above the bookshelf
+ */
+export default function BookTagShelves({
+  tags,
+  tagCounts,
+  totalCount,
+  selectedTag,
+  onSelectTag,
+  onManage,
+  onStartSelecting,
+}: BookTagShelvesProps) {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.container}
+      contentContainerStyle={styles.content}
+    >
+      <TouchableOpacity
+        style={[styles.shelfChip, !selectedTag && styles.shelfChipActive]}
+        onPress={() => {
+          HapticFeedback.selection();
+          onSelectTag(null);
+        }}
+      >
+        <Text style={[styles.shelfChipText, !selectedTag && styles.shelfChipTextActive]}>
+          All · {totalCount}
+        </Text>
+      </TouchableOpacity>
+
+      {tags.map((tag) => {
+        const selected = !!selectedTag && isSameTagName(selectedTag, tag.name);
+        return (
+          <BookTagChip
+            key={tag.name}
+            tag={tag}
+            count={getTagCount(tagCounts, tag.name)}
+            selected={selected}
+            onPress={() => {
+              HapticFeedback.selection();
+              onSelectTag(selected ? null : tag.name);
+            }}
+          />
+        );
+      })}
+
+      <TouchableOpacity
+        style={styles.actionChip}
+        onPress={() => {
+          HapticFeedback.light();
+          onManage();
+        }}
+      >
+        <IconSymbol
+          ios_icon_name="tag"
+          android_material_icon_name="label"
+          size={14}
+          color={colors.primary}
+        />
+        <Text style={styles.actionChipText}>{tags.length > 0 ? 'Manage' : 'Add shelves'}</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.actionChip}
+        onPress={() => {
+          HapticFeedback.light();
+          onStartSelecting();
+        }}
+      >
+        <IconSymbol
+          ios_icon_name="checkmark.circle"
+          android_material_icon_name="check-circle-outline"
+          size={14}
+          color={colors.primary}
+        />
+        <Text style={styles.actionChipText}>Select</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: -20,
+    marginBottom: 16,
+  },
+  content: {
+    paddingHorizontal: 20,
+    gap: 8,
+    alignItems: 'center',
+  },
+  shelfChip: {
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: colors.primary,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  shelfChipActive: {
+    backgroundColor: colors.primary,
+  },
+  shelfChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  shelfChipTextActive: {
+    color: colors.backgroundAlt,
+  },
+  actionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 20,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: colors.primary,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 4,
+  },
+  actionChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+});
@@ -0,0 +1,248 @@
+
+import React, { forwardRef, useMemo, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { BottomSheetBackdrop, BottomSheetScrollView, BottomSheetModal } from '@gorhom/bottom-sheet';
+import { colors } from '@/styles/commonStyles';
+import BookTagChip from '@/components/BookTagChip';
+import { SHELF_RATING_OPTIONS, SHELF_SORT_OPTIONS, SHELF_SOURCE_OPTIONS, ShelfRating } from '@/data/bookshelfOptions';
+import { ShelfFilters } from '@/utils/bookshelfQuery';
+import { BookTag, isSameTagName } from '@/utils/bookTags';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface BookshelfFilterBottomSheetProps {
+  filters: ShelfFilters;
+  // The child's tag shelves
+  availableTags: BookTag[];
+  onChange: (filters: ShelfFilters) => void;
+  onReset: () => void;
+}
+
+const toggleItem = <T,>(items: T[], item: T): T[] => {
+  return items.includes(item) ? items.filter((i) => i !== item) : [...items, item];
+};
+
+// Tags match whatever their case, so "bedtime" saved earlier is the "Bedtime" chip
+const toggleTag = (tags: string[], name: string): string[] => {
+  return tags.some((tag) => isSameTagName(tag, name))
+    ? tags.filter((tag) => !isSameTagName(tag, name))
+    : [...tags, name];
+};
+
+/**
+ * Sort and filter options for the bookshelf; changes apply straight away
+ */
+const BookshelfFilterBottomSheet = forwardRef<BottomSheetModal, BookshelfFilterBottomSheetProps>(
+  ({ filters, availableTags, onChange, onReset }, ref) => {
+    const snapPoints = useMemo(() => ['75%'], []);
+
+    const renderBackdrop = useCallback(
+      (props: any) => (
+        <BottomSheetBackdrop
+          {...props}
+          disappearsOnIndex={-1}
+          appearsOnIndex={0}
+          opacity={0.5}
+          pressBehavior="close"
+        />
+      ),
+      []
+    );
+
+    const update = (changes: Partial<ShelfFilters>) => {
+      HapticFeedback.selection();
+      onChange({ ...filters, ...changes });
+    };
+
+    return (
+      <BottomSheetModal
+        ref={ref}
+        index={0}
+        snapPoints={snapPoints}
+        enablePanDownToClose={true}
+        enableDismissOnClose={true}
+        enableDynamicSizing={false}
+        backdropComponent={renderBackdrop}
+        backgroundStyle={styles.bottomSheetBackground}
+        handleIndicatorStyle={styles.handleIndicator}
+      >
+        <BottomSheetScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.contentContainer}
+        >
+          <View style={styles.headerRow}>
+            <Text style={styles.title}>Sort & Filter</Text>
+            <TouchableOpacity
+              onPress={() => {
+                HapticFeedback.light();
+                onReset();
+              }}
+            >
+              <Text style={styles.resetText}>Clear filters</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>Sort by</Text>
+          <View style={styles.chips}>
+            {SHELF_SORT_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.chip, filters.sort === option.id && styles.chipActive]}
+                onPress={() => update({ sort: option.id })}
+              >
+                <Text style={[styles.chipText, filters.sort === option.id && styles.chipTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Rating</Text>
+          <View style={styles.chips}>
+            {SHELF_RATING_OPTIONS.map((option) => {
+              const isActive = filters.ratings.includes(option.id);
+              return (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[styles.chip, isActive && styles.chipActive]}
+                  onPress={() => update({ ratings: toggleItem<ShelfRating>(filters.ratings, option.id) })}
+                >
+                  <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                    {option.emoji} {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity
+              style={[styles.chip, filters.recommendedOnly && styles.chipActive]}
+              onPress={() => update({ recommendedOnly: !filters.recommendedOnly })}
+            >
+              <Text style={[styles.chipText, filters.recommendedOnly && styles.chipTextActive]}>
+                ❤️ Would recommend
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>Books</Text>
+          <View style={styles.chips}>
+            {SHELF_SOURCE_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.chip, filters.source === option.id && styles.chipActive]}
+                onPress={() => update({ source: option.id })}
+              >
+                <Text style={[styles.chipText, filters.source === option.id && styles.chipTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {availableTags.length > 0 && (
+            <>
+              <Text style={styles.label}>Tags</Text>
+              <View style={styles.chips}>
+                {availableTags.map((tag) => (
+                  <BookTagChip
+                    key={tag.name}
+                    tag={tag}
+                    selected={filters.tags.some((selected) => isSameTagName(selected, tag.name))}
+                    onPress={() => update({ tags: toggleTag(filters.tags, tag.name) })}
+                  />
+                ))}
+              </View>
+            </>
+          )}
+
+          <TouchableOpacity
+            style={styles.doneButton}
+            onPress={() => {
+              HapticFeedback.medium();
+              (ref as React.RefObject<BottomSheetModal>)?.current?.dismiss();
+            }}
+          >
+            <Text style={styles.doneButtonText}>Done</Text>
+          </TouchableOpacity>
+        </BottomSheetScrollView>
+      </BottomSheetModal>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  bottomSheetBackground: {
+    backgroundColor: colors.backgroundAlt,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+  },
+  handleIndicator: {
+    backgroundColor: colors.primary,
+    width: 40,
+    height: 4,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingBottom: 40,
+    paddingHorizontal: 20,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  resetText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.secondary,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: colors.background,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipActive: {
+    backgroundColor: colors.buttonBlue,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  chipTextActive: {
+    color: colors.backgroundAlt,
+  },
+  doneButton: {
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 16,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 28,
+  },
+  doneButtonText: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+});
+
+export default BookshelfFilterBottomSheet;
@@ -0,0 +1,135 @@
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface BookshelfSearchBarProps {
+  search: string;
+  onSearchChange: (search: string) => void;
+  activeFilterCount: number;
+  onOpenFilters: () => void;
+}
+
+/**
+ * Search by title or author, with a button for the sort & filter sheet
+ */
+export default function BookshelfSearchBar({
+  search,
+  onSearchChange,
+  activeFilterCount,
+  onOpenFilters,
+}: BookshelfSearchBarProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBarWrapper}>
+        <IconSymbol
+          ios_icon_name="magnifyingglass"
+          android_material_icon_name="search"
+          size={20}
+          color={colors.primary}
+        />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search title or author"
+          placeholderTextColor={colors.textSecondary}
+          value={search}
+          onChangeText={onSearchChange}
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {search.length > 0 && (
+          <TouchableOpacity
+            onPress={() => onSearchChange('')}
+            style={styles.clearButton}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <IconSymbol
+              ios_icon_name="xmark.circle.fill"
+              android_material_icon_name="cancel"
+              size={20}
+              color={colors.textSecondary}
+            />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.filterButton, activeFilterCount > 0 && styles.filterButtonActive]}
+        onPress={() => {
+          HapticFeedback.light();
+          onOpenFilters();
+        }}
+      >
+        <IconSymbol
+          ios_icon_name="line.3.horizontal.decrease"
+          android_material_icon_name="filter-list"
+          size={22}
+          color={activeFilterCount > 0 ? colors.backgroundAlt : colors.primary}
+        />
+        {activeFilterCount > 0 && (
+          <View style={styles.filterCount}>
+            <Text style={styles.filterCountText}>{activeFilterCount}</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 16,
+  },
+  searchBarWrapper: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: 12,
+    fontSize: 16,
+    color: colors.primary,
+  },
+  clearButton: {
+    marginLeft: 8,
+    padding: 4,
+  },
+  filterButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 16,
+    backgroundColor: colors.backgroundAlt,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  filterButtonActive: {
+    backgroundColor: colors.buttonBlue,
+  },
+  filterCount: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: colors.secondary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 4,
+  },
+  filterCountText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+});
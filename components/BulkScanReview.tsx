@@ -0,0 +1,481 @@
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import UpgradePromptModal from '@/components/UpgradePromptModal';
+import { useChild } from '@/contexts/ChildContext';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import { supabase } from '@/app/integrations/supabase/client';
+import {
+  addScannedBooksToShelf,
+  isLookupPending,
+  isValidIsbn,
+  normalizeIsbn,
+  BulkAddResult,
+  BulkScanItem,
+} from '@/utils/bulkBookScan';
+import { BookSearchResult } from '@/utils/googleBooksApi';
+import { EnqueueResult } from '@/hooks/useBulkIsbnQueue';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface BulkScanReviewProps {
+  items: BulkScanItem[];
+  progress: { total: number; resolved: number; isResolving: boolean };
+  onToggleIncluded: (key: string) => void;
+  onRemove: (key: string) => void;
+  onChangeIsbn: (key: string, isbn: string) => EnqueueResult;
+  onScanMore: () => void;
+  onBooksAdded: (result: BulkAddResult) => void;
+}
+
+const STATUS_LABELS: Record<BulkScanItem['status'], string> = {
+  queued: 'Waiting…',
+  searching: 'Looking up…',
+  found: '',
+  not_found: 'Not found. Check the ISBN or drop it',
+  saved: "Couldn't look it up. Saved for later, it'll be added once lookups work",
+  error: 'Lookup failed. Check the ISBN or drop it',
+};
+
+/**
+ * Review list shown after a bulk scan: confirm, fix or drop each book, then add
+ * them all at once with a single quota check
+ */
+export default function BulkScanReview({
+  items,
+  progress,
+  onToggleIncluded,
+  onRemove,
+  onChangeIsbn,
+  onScanMore,
+  onBooksAdded,
+}: BulkScanReviewProps) {
+  const { selectedChild } = useChild();
+  const { remainingBooks, refreshUsage, showPaywall } = useSubscription();
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [editIsbn, setEditIsbn] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [showUpgradeModal, setShowUpgradeModal] = useState(false);
+
+  const includedBooks = items.filter((item) => item.included && item.book);
+
+  const handleStartEdit = (item: BulkScanItem) => {
+    HapticFeedback.light();
+    setEditingKey(item.key);
+    setEditIsbn(item.isbn);
+  };
+
+  const handleSubmitEdit = (item: BulkScanItem) => {
+    const isbn = normalizeIsbn(editIsbn);
+    if (!isValidIsbn(isbn)) {
+      HapticFeedback.warning();
+      Alert.alert('Invalid ISBN', 'ISBNs are 10 or 13 digits, usually printed above the barcode.');
+      return;
+    }
+
+    if (onChangeIsbn(item.key, isbn) === 'duplicate') {
+      HapticFeedback.warning();
+      Alert.alert('Already Scanned', 'That ISBN is already in this list.');
+      return;
+    }
+
+    HapticFeedback.success();
+    setEditingKey(null);
+  };
+
+  const saveBooks = async (books: BulkScanItem[]) => {
+    if (!selectedChild) return;
+    setIsAdding(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      const result = await addScannedBooksToShelf(
+        books.map((item) => item.book).filter((book): book is BookSearchResult => !!book),
+        selectedChild.id,
+        user.id
+      );
+      await refreshUsage();
+
+      if (result.failed > 0) {
+        HapticFeedback.warning();
+      } else {
+        HapticFeedback.success();
+      }
+      onBooksAdded(result);
+    } catch (error) {
+      console.error('BulkScanReview: Error adding books:', error);
+      HapticFeedback.error();
+      Alert.alert('Error', 'Failed to add books. Please try again.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  // One quota check for the whole batch, like the first words checklist
+  const handleAddPress = () => {
+    if (includedBooks.length === 0 || isAdding) return;
+    HapticFeedback.medium();
+
+    if (!selectedChild) {
+      Alert.alert('No Child Selected', 'Please select a child before adding books.');
+      return;
+    }
+
+    if (remainingBooks <= 0) {
+      console.log('BulkScanReview: Book quota reached');
+      HapticFeedback.warning();
+      setShowUpgradeModal(true);
+      return;
+    }
+
+    if (includedBooks.length > remainingBooks) {
+      console.log('BulkScanReview: Batch exceeds remaining quota:', remainingBooks);
+      HapticFeedback.warning();
+      Alert.alert(
+        'Book Limit',
+        `Your free plan has room for ${remainingBooks} more ${remainingBooks === 1 ? 'book' : 'books'}, but ${includedBooks.length} are ticked.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Upgrade', onPress: () => showPaywall() },
+          { text: `Add ${remainingBooks}`, onPress: () => saveBooks(includedBooks.slice(0, remainingBooks)) },
+        ]
+      );
+      return;
+    }
+
+    saveBooks(includedBooks);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => {
+            HapticFeedback.light();
+            onScanMore();
+          }}
+          style={styles.headerButton}
+        >
+          <IconSymbol
+            ios_icon_name="barcode.viewfinder"
+            android_material_icon_name="qr-code-scanner"
+            size={20}
+            color={colors.primary}
+          />
+          <Text style={styles.headerButtonText}>Scan more</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.title}>Review Books</Text>
+      <Text style={styles.subtitle}>
+        {progress.isResolving
+          ? `Looking up ${progress.resolved + 1} of ${progress.total}…`
+          : `${includedBooks.length} of ${progress.total} ready to add to ${selectedChild ? `${selectedChild.name}'s` : 'the'} shelf`}
+      </Text>
+
+      <ScrollView
+        style={styles.list}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        {items.length === 0 && (
+          <Text style={styles.emptyText}>Nothing scanned yet</Text>
+        )}
+
+        {items.map((item) => {
+          const isEditing = editingKey === item.key;
+          const coverUrl = item.book?.thumbnailUrl || item.book?.coverUrl;
+          return (
+            <View key={item.key} style={[styles.row, item.status === 'found' && !item.included && styles.rowExcluded]}>
+              <TouchableOpacity
+                style={[styles.checkbox, item.included && styles.checkboxActive]}
+                onPress={() => {
+                  HapticFeedback.selection();
+                  onToggleIncluded(item.key);
+                }}
+                disabled={item.status !== 'found'}
+              >
+                {isLookupPending(item) ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : item.included ? (
+                  <IconSymbol
+                    ios_icon_name="checkmark"
+                    android_material_icon_name="check"
+                    size={16}
+                    color={colors.backgroundAlt}
+                  />
+                ) : null}
+              </TouchableOpacity>
+
+              {coverUrl ? (
+                <Image source={{ uri: coverUrl }} style={styles.cover} contentFit="cover" />
+              ) : (
+                <View style={[styles.cover, styles.coverPlaceholder]}>
+                  <IconSymbol
+                    ios_icon_name="book.closed"
+                    android_material_icon_name="menu-book"
+                    size={20}
+                    color={colors.textSecondary}
+                  />
+                </View>
+              )}
+
+              <View style={styles.rowInfo}>
+                {item.book ? (
+                  <>
+                    <Text style={styles.bookTitle} numberOfLines={2}>{item.book.title}</Text>
+                    {!!item.book.authors && (
+                      <Text style={styles.bookAuthors} numberOfLines={1}>{item.book.authors}</Text>
+                    )}
+                  </>
+                ) : (
+                  <Text style={styles.statusText}>{STATUS_LABELS[item.status]}</Text>
+                )}
+
+                {isEditing ? (
+                  <View style={styles.editRow}>
+                    <TextInput
+                      style={styles.isbnInput}
+                      value={editIsbn}
+                      onChangeText={setEditIsbn}
+                      keyboardType={Platform.OS === 'ios' ? 'numbers-and-punctuation' : 'default'}
+                      autoCapitalize="characters"
+                      autoFocus
+                      onSubmitEditing={() => handleSubmitEdit(item)}
+                      returnKeyType="search"
+                    />
+                    <TouchableOpacity style={styles.smallButton} onPress={() => handleSubmitEdit(item)}>
+                      <Text style={styles.smallButtonText}>Look up</Text>
+                    </TouchableOpacity>
+                  </View>
+                ) : (
+                  <TouchableOpacity onPress={() => handleStartEdit(item)} disabled={isLookupPending(item)}>
+                    <Text style={styles.isbnText}>ISBN {item.isbn} · Edit</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              <TouchableOpacity
+                onPress={() => {
+                  HapticFeedback.light();
+                  onRemove(item.key);
+                }}
+                style={styles.removeButton}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <IconSymbol
+                  ios_icon_name="trash"
+                  android_material_icon_name="delete"
+                  size={18}
+                  color={colors.textSecondary}
+                />
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[
+            styles.addButton,
+            (includedBooks.length === 0 || progress.isResolving || isAdding) && styles.addButtonDisabled,
+          ]}
+          onPress={handleAddPress}
+          disabled={includedBooks.length === 0 || progress.isResolving || isAdding}
+        >
+          {isAdding ? (
+            <ActivityIndicator color={colors.backgroundAlt} />
+          ) : (
+            <Text style={styles.addButtonText}>
+              {progress.isResolving
+                ? 'Finishing lookups…'
+                : `Add ${includedBooks.length} ${includedBooks.length === 1 ? 'book' : 'books'}`}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <UpgradePromptModal
+        visible={showUpgradeModal}
+        onClose={() => setShowUpgradeModal(false)}
+        quotaType="book"
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingTop: Platform.OS === 'android' ? 48 : 60,
+    paddingHorizontal: 20,
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  headerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  headerButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: colors.primary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 12,
+    paddingHorizontal: 20,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 10,
+    gap: 12,
+  },
+  rowExcluded: {
+    opacity: 0.5,
+  },
+  checkbox: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxActive: {
+    backgroundColor: colors.buttonBlue,
+    borderColor: colors.buttonBlue,
+  },
+  cover: {
+    width: 44,
+    height: 60,
+    borderRadius: 6,
+  },
+  coverPlaceholder: {
+    backgroundColor: colors.background,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  bookTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  bookAuthors: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  isbnText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  editRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 6,
+  },
+  isbnInput: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.primary,
+    backgroundColor: colors.background,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  smallButton: {
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  smallButtonText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+  removeButton: {
+    padding: 4,
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 24,
+  },
+  addButton: {
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 16,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+});
@@ -0,0 +1,94 @@
+
+import React, { forwardRef, useMemo, useCallback } from 'react';
+import { Text, StyleSheet } from 'react-native';
+import { BottomSheetBackdrop, BottomSheetScrollView, BottomSheetModal } from '@gorhom/bottom-sheet';
+import { colors } from '@/styles/commonStyles';
+import BookTagPicker from '@/components/BookTagPicker';
+
+interface BulkTagBottomSheetProps {
+  selectedCount: number;
+  // Tag names used on the shelf, so unregistered tags can be picked too
+  usedNames: string[];
+  onPick: (tagName: string) => void;
+}
+
+const BulkTagBottomSheet = forwardRef<BottomSheetModal, BulkTagBottomSheetProps>(
+  ({ selectedCount, usedNames, onPick }, ref) => {
+    const snapPoints = useMemo(() => ['60%'], []);
+
+    const renderBackdrop = useCallback(
+      (props: any) => (
+        <BottomSheetBackdrop
+          {...props}
+          disappearsOnIndex={-1}
+          appearsOnIndex={0}
+          opacity={0.5}
+          pressBehavior="close"
+        />
+      ),
+      []
+    );
+
+    return (
+      <BottomSheetModal
+        ref={ref}
+        index={0}
+        snapPoints={snapPoints}
+        enablePanDownToClose={true}
+        enableDismissOnClose={true}
+        enableDynamicSizing={false}
+        backdropComponent={renderBackdrop}
+        backgroundStyle={styles.bottomSheetBackground}
+        handleIndicatorStyle={styles.handleIndicator}
+      >
+        <BottomSheetScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.contentContainer}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={styles.title}>Tag Books</Text>
+          <Text style={styles.subtitle}>
+            Add a tag to {selectedCount} selected {selectedCount === 1 ? 'book' : 'books'}
+          </Text>
+          <BookTagPicker excludeNames={[]} usedNames={usedNames} onPick={onPick} />
+        </BottomSheetScrollView>
+      </BottomSheetModal>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  bottomSheetBackground: {
+    backgroundColor: colors.backgroundAlt,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+  },
+  handleIndicator: {
+    backgroundColor: colors.primary,
+    width: 40,
+    height: 4,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingBottom: 40,
+    paddingHorizontal: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: colors.primary,
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+});
+
+export default BulkTagBottomSheet;
@@ -0,0 +1,197 @@
+
+import React, { useState } from 'react';
+import { View, StyleSheet, Dimensions, Platform, PanResponder } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+
+const { width: screenWidth } = Dimensions.get('window');
+
+interface DualHandleSliderProps {
+  min: number;
+  max: number;
+  startValue: number;
+  endValue: number;
+  onStartChange: (value: number) => void;
+  onEndChange: (value: number) => void;
+}
+
+/**
+ * Trim slider with a handle for the start and one for the end of the kept clip
+ */
+export default function DualHandleSlider({
+  min,
+  max,
+  startValue,
+  endValue,
+  onStartChange,
+  onEndChange,
+}: DualHandleSliderProps) {
+  const sliderWidth = screenWidth - 80;
+  const [activeHandle, setActiveHandle] = useState<'start' | 'end' | null>(null);
+
+  const getPositionFromValue = (value: number) => {
+    if (max === min) return 0;
+    return ((value - min) / (max - min)) * sliderWidth;
+  };
+
+  const getValueFromPosition = (position: number) => {
+    const clampedPosition = Math.max(0, Math.min(sliderWidth, position));
+    return min + (clampedPosition / sliderWidth) * (max - min);
+  };
+
+  const startPosition = getPositionFromValue(startValue);
+  const endPosition = getPositionFromValue(endValue);
+
+  const createPanResponder = (handle: 'start' | 'end') => {
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        setActiveHandle(handle);
+      },
+      onPanResponderMove: (_, gestureState) => {
+        const currentPosition = handle === 'start' ? startPosition : endPosition;
+        const newPosition = currentPosition + gestureState.dx;
+        const newValue = getValueFromPosition(newPosition);
+        
+        if (handle === 'start') {
+          onStartChange(newValue);
+        } else {
+          onEndChange(newValue);
+        }
+      },
+      onPanResponderRelease: () => {
+        setActiveHandle(null);
+      },
+    });
+  };
+
+  const startPanResponder = createPanResponder('start');
+  const endPanResponder = createPanResponder('end');
+
+  return (
+    <View style={styles.dualSliderContainer}>
+      {/* Track */}
+      <View style={styles.sliderTrack}>
+        {/* Inactive sections */}
+        <View style={[styles.sliderInactive, { width: startPosition }]} />
+        <View 
+          style={[
+            styles.sliderInactive, 
+            { 
+              position: 'absolute',
+              left: endPosition,
+              width: sliderWidth - endPosition 
+            }
+          ]} 
+        />
+        
+        {/* Active section */}
+        <View 
+          style={[
+            styles.sliderActive,
+            {
+              left: startPosition,
+              width: endPosition - startPosition,
+            }
+          ]}
+        />
+      </View>
+
+      {/* Start Handle */}
+      <View
+        {...startPanResponder.panHandlers}
+        style={[
+          styles.sliderHandle,
+          styles.sliderHandleStart,
+          {
+            left: startPosition - 16,
+          },
+          activeHandle === 'start' && styles.sliderHandleActive,
+        ]}
+      >
+        <View style={styles.sliderHandleInner} />
+      </View>
+
+      {/* End Handle */}
+      <View
+        {...endPanResponder.panHandlers}
+        style={[
+          styles.sliderHandle,
+          styles.sliderHandleEnd,
+          {
+            left: endPosition - 16,
+          },
+          activeHandle === 'end' && styles.sliderHandleActive,
+        ]}
+      >
+        <View style={styles.sliderHandleInner} />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  dualSliderContainer: {
+    width: '100%',
+    height: 60,
+    justifyContent: 'center',
+    position: 'relative',
+    marginBottom: 8,
+  },
+  sliderTrack: {
+    width: '100%',
+    height: 8,
+    backgroundColor: 'transparent',
+    borderRadius: 4,
+    position: 'relative',
+  },
+  sliderInactive: {
+    position: 'absolute',
+    height: 8,
+    backgroundColor: colors.textSecondary,
+    opacity: 0.3,
+    borderRadius: 4,
+  },
+  sliderActive: {
+    position: 'absolute',
+    height: 8,
+    backgroundColor: colors.primary,
+    borderRadius: 4,
+  },
+  sliderHandle: {
+    position: 'absolute',
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: colors.backgroundAlt,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 3,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.25,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 5,
+      },
+    }),
+  },
+  sliderHandleStart: {
+    borderColor: colors.primary,
+  },
+  sliderHandleEnd: {
+    borderColor: colors.secondary,
+  },
+  sliderHandleActive: {
+    transform: [{ scale: 1.2 }],
+  },
+  sliderHandleInner: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: colors.primary,
+  },
+});
@@ -0,0 +1,115 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { formatDueLabel, getDaysUntilDue, getDueSoonBooks, LibraryLoan } from '@/utils/libraryLoans';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface DueSoonBook extends Partial<LibraryLoan> {
+  id: string;
+  book: { title: string };
+}
+
+interface DueSoonBooksCardProps<T extends DueSoonBook> {
+  books: T[];
+  onPressBook: (book: T) => void;
+}
+
+/**
+ * Books tab card listing library books that are overdue or due in the next few days
+ * Hidden when nothing is due
+ */
+export default function DueSoonBooksCard<T extends DueSoonBook>({ books, onPressBook }: DueSoonBooksCardProps<T>) {
+  const dueSoon = useMemo(() => getDueSoonBooks(books), [books]);
+
+  if (dueSoon.length === 0) return null;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <IconSymbol
+          ios_icon_name="building.columns.fill"
+          android_material_icon_name="local-library"
+          size={20}
+          color={colors.primary}
+        />
+        <Text style={styles.title}>Due soon</Text>
+      </View>
+
+      {dueSoon.map((userBook) => {
+        const isOverdue = getDaysUntilDue(userBook.due_on as string) < 0;
+        return (
+          <TouchableOpacity
+            key={userBook.id}
+            style={styles.bookRow}
+            onPress={() => {
+              HapticFeedback.light();
+              onPressBook(userBook);
+            }}
+          >
+            <View style={styles.bookInfo}>
+              <Text style={styles.bookTitle} numberOfLines={1}>{userBook.book.title}</Text>
+              {userBook.library_name && (
+                <Text style={styles.libraryName} numberOfLines={1}>{userBook.library_name}</Text>
+              )}
+            </View>
+            <Text style={[styles.dueLabel, isOverdue && styles.dueLabelOverdue]}>
+              {formatDueLabel(userBook.due_on as string)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.cardPink,
+    borderRadius: 20,
+    padding: 16,
+    marginBottom: 24,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  bookRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginTop: 8,
+  },
+  bookInfo: {
+    flex: 1,
+  },
+  bookTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  libraryName: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  dueLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.primary,
+    marginLeft: 8,
+  },
+  dueLabelOverdue: {
+    color: colors.secondary,
+  },
+});
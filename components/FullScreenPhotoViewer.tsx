@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, Modal, StatusBar, ActivityIndicator, Text } from 'react-native';
+import { Image } from 'expo-image';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { colors } from '@/styles/commonStyles';
+
+interface FullScreenPhotoViewerProps {
+  visible: boolean;
+  photoUri: string | null;
+  onClose: () => void;
+}
+
+/**
+ * A photo moment on its own, like FullScreenVideoPlayer does for videos
+ */
+export default function FullScreenPhotoViewer({ visible, photoUri, onClose }: FullScreenPhotoViewerProps) {
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setIsLoading(true);
+      setLoadError(false);
+    }
+  }, [visible, photoUri]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      onRequestClose={onClose}
+      statusBarTranslucent
+    >
+      <StatusBar hidden />
+      <View style={styles.container}>
+        <TouchableOpacity
+          style={styles.closeButton}
+          onPress={onClose}
+          activeOpacity={0.8}
+        >
+          <MaterialIcons name="close" size={32} color={colors.backgroundAlt} />
+        </TouchableOpacity>
+
+        {!photoUri || loadError ? (
+          <View style={styles.errorContainer}>
+            <MaterialIcons name="error-outline" size={64} color={colors.secondary} />
+            <Text style={styles.errorText}>Unable to load photo</Text>
+          </View>
+        ) : (
+          <>
+            <Image
+              source={{ uri: photoUri }}
+              style={styles.photo}
+              contentFit="contain"
+              transition={200}
+              onLoadEnd={() => setIsLoading(false)}
+              onError={(event) => {
+                console.error('[FullScreenPhotoViewer] Error loading photo:', event.error);
+                setLoadError(true);
+                setIsLoading(false);
+              }}
+            />
+            {isLoading && (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator size="large" color={colors.backgroundAlt} />
+              </View>
+            )}
+          </>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 60,
+    right: 20,
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 10,
+  },
+  photo: {
+    width: '100%',
+    height: '100%',
+  },
+  loadingContainer: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  errorText: {
+    fontSize: 18,
+    color: colors.backgroundAlt,
+    marginTop: 20,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,180 @@
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Line, Polyline, Rect, Text as SvgText } from 'react-native-svg';
+import { colors } from '@/styles/commonStyles';
+import { formatAgeLabel } from '@/utils/growthTimeline';
+
+export interface GrowthChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+interface GrowthChartProps {
+  // Child's age in months for each point, shared by every series
+  ageMonths: number[];
+  series: GrowthChartSeries[];
+  variant: 'line' | 'bar';
+  height?: number;
+}
+
+const PADDING = { top: 12, right: 12, bottom: 24, left: 32 };
+
+/**
+ * Round the y-axis maximum up to a friendly number so gridlines land on whole values
+ */
+const getNiceMax = (value: number): number => {
+  if (value <= 4) return 4;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const steps = [1, 2, 2.5, 5, 10];
+  const step = steps.find((s) => s * magnitude >= value) || 10;
+  return step * magnitude;
+};
+
+/**
+ * Pick age ticks (whole months) that stay readable however long the timeline is
+ */
+const getAgeTicks = (minAge: number, maxAge: number): number[] => {
+  const span = maxAge - minAge;
+  const step = span <= 6 ? 1 : span <= 12 ? 3 : span <= 36 ? 6 : 12;
+  const ticks: number[] = [];
+  for (let age = Math.ceil(minAge / step) * step; age <= maxAge; age += step) {
+    ticks.push(age);
+  }
+  return ticks;
+};
+
+export default function GrowthChart({ ageMonths, series, variant, height = 180 }: GrowthChartProps) {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const pointCount = ageMonths.length;
+  const maxValue = getNiceMax(Math.max(0, ...series.flatMap((s) => s.values)));
+  const plotWidth = Math.max(0, width - PADDING.left - PADDING.right);
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const minAge = pointCount > 0 ? ageMonths[0] : 0;
+  const maxAge = pointCount > 0 ? ageMonths[pointCount - 1] : 0;
+  // Points are evenly spaced in age, so an age maps to a fractional point index
+  const ageStep = pointCount > 1 ? (maxAge - minAge) / (pointCount - 1) : 1;
+  const barSlot = pointCount > 0 ? plotWidth / pointCount : 0;
+  const barWidth = Math.max(1, (barSlot * 0.7) / series.length);
+
+  // Lines run edge to edge, bars sit centred in their slot
+  const xForIndex = (index: number) => variant === 'line'
+    ? PADDING.left + (pointCount > 1 ? index / (pointCount - 1) : 0.5) * plotWidth
+    : PADDING.left + (index + 0.5) * barSlot;
+  const xForAge = (age: number) => xForIndex((age - minAge) / ageStep);
+  const yForValue = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+  const gridValues = [0, maxValue / 2, maxValue];
+
+  return (
+    <View>
+      <View style={styles.legend}>
+        {series.map((s) => (
+          <View key={s.label} style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: s.color }]} />
+            <Text style={styles.legendText}>{s.label}</Text>
+          </View>
+        ))}
+      </View>
+
+      <View onLayout={handleLayout} style={{ height }}>
+        {width > 0 && pointCount > 0 && (
+          <Svg width={width} height={height}>
+            {gridValues.map((value) => (
+              <React.Fragment key={`grid-${value}`}>
+                <Line
+                  x1={PADDING.left}
+                  x2={width - PADDING.right}
+                  y1={yForValue(value)}
+                  y2={yForValue(value)}
+                  stroke={colors.tabInactive}
+                  strokeWidth={1}
+                />
+                <SvgText
+                  x={PADDING.left - 6}
+                  y={yForValue(value) + 4}
+                  fontSize={10}
+                  fill={colors.textSecondary}
+                  textAnchor="end"
+                >
+                  {Math.round(value)}
+                </SvgText>
+              </React.Fragment>
+            ))}
+
+            {getAgeTicks(minAge, maxAge).map((age) => (
+              <SvgText
+                key={`tick-${age}`}
+                x={xForAge(age)}
+                y={height - 6}
+                fontSize={10}
+                fill={colors.textSecondary}
+                textAnchor="middle"
+              >
+                {formatAgeLabel(age)}
+              </SvgText>
+            ))}
+
+            {variant === 'line'
+              ? series.map((s) => (
+                  <Polyline
+                    key={s.label}
+                    points={s.values.map((value, i) => `${xForIndex(i)},${yForValue(value)}`).join(' ')}
+                    fill="none"
+                    stroke={s.color}
+                    strokeWidth={2.5}
+                    strokeLinejoin="round"
+                    strokeLinecap="round"
+                  />
+                ))
+              : series.map((s, seriesIndex) =>
+                  s.values.map((value, i) =>
+                    value > 0 ? (
+                      <Rect
+                        key={`${s.label}-${i}`}
+                        x={xForIndex(i) - (barWidth * series.length) / 2 + seriesIndex * barWidth}
+                        y={yForValue(value)}
+                        width={barWidth}
+                        height={plotHeight - (yForValue(value) - PADDING.top)}
+                        rx={Math.min(2, barWidth / 2)}
+                        fill={s.color}
+                      />
+                    ) : null
+                  )
+                )}
+          </Svg>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,167 @@
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { useChild } from '@/contexts/ChildContext';
+import { useProfileStats } from '@/contexts/ProfileStatsContext';
+import GrowthChart from '@/components/GrowthChart';
+import { HapticFeedback } from '@/utils/haptics';
+import { buildGrowthTimeline, GrowthInterval } from '@/utils/growthTimeline';
+
+const INTERVAL_OPTIONS: { id: GrowthInterval; label: string }[] = [
+  { id: 'week', label: 'Weekly' },
+  { id: 'month', label: 'Monthly' },
+];
+
+export default function GrowthChartsSection() {
+  const { selectedChild } = useChild();
+  const { growthData } = useProfileStats();
+  const [interval, setSelectedInterval] = useState<GrowthInterval>('month');
+
+  const points = useMemo(() => {
+    if (!growthData) return [];
+    return buildGrowthTimeline(selectedChild?.birth_date, growthData, interval);
+  }, [growthData, selectedChild?.birth_date, interval]);
+
+  const hasData = !!growthData &&
+    (growthData.words.length > 0 || growthData.books.length > 0 || growthData.moments.length > 0);
+
+  const handleIntervalPress = (value: GrowthInterval) => {
+    if (value === interval) return;
+    HapticFeedback.selection();
+    console.log('GrowthChartsSection: Switching interval to', value);
+    setSelectedInterval(value);
+  };
+
+  const ageMonths = points.map((p) => p.ageMonths);
+  const periodLabel = interval === 'week' ? 'week' : 'month';
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={styles.sectionTitle}>Growth</Text>
+        <View style={styles.toggle}>
+          {INTERVAL_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.toggleOption, interval === option.id && styles.toggleOptionActive]}
+              onPress={() => handleIntervalPress(option.id)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.toggleText, interval === option.id && styles.toggleTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {!hasData || points.length === 0 ? (
+        <View style={styles.card}>
+          <Text style={styles.emptyText}>
+            Add words, books and moments to see {selectedChild?.name || 'your child'}&apos;s growth over time.
+          </Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Vocabulary</Text>
+            <Text style={styles.cardSubtitle}>Total words by age</Text>
+            <GrowthChart
+              variant="line"
+              ageMonths={ageMonths}
+              series={[
+                { label: 'Spoken', color: colors.secondary, values: points.map((p) => p.spoken) },
+                { label: 'Recognised', color: colors.primary, values: points.map((p) => p.recognised) },
+              ]}
+            />
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Books</Text>
+            <Text style={styles.cardSubtitle}>Books added each {periodLabel}</Text>
+            <GrowthChart
+              variant="bar"
+              ageMonths={ageMonths}
+              height={140}
+              series={[{ label: 'Books added', color: colors.accent, values: points.map((p) => p.books) }]}
+            />
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Moments</Text>
+            <Text style={styles.cardSubtitle}>Moments recorded each {periodLabel}</Text>
+            <GrowthChart
+              variant="bar"
+              ageMonths={ageMonths}
+              height={140}
+              series={[{ label: 'Moments recorded', color: colors.cardGreen, values: points.map((p) => p.moments) }]}
+            />
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  toggle: {
+    flexDirection: 'row',
+    backgroundColor: colors.tabInactive,
+    borderRadius: 16,
+    padding: 2,
+  },
+  toggleOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  toggleOptionActive: {
+    backgroundColor: colors.backgroundAlt,
+  },
+  toggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  toggleTextActive: {
+    color: colors.primary,
+  },
+  card: {
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    boxShadow: '0px 4px 8px rgba(0, 0, 0, 0.1)',
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
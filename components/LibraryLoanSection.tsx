@@ -0,0 +1,380 @@
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import WordDateField from '@/components/WordDateField';
+import { useChild } from '@/contexts/ChildContext';
+import { DEFAULT_LOAN_DAYS, DUE_SOON_DAYS } from '@/data/libraryLoans';
+import {
+  addDays,
+  clearBookLoan,
+  formatDueLabel,
+  formatLoanDate,
+  getDaysUntilDue,
+  isBorrowed,
+  isReturned,
+  loadLastLibraryName,
+  markBookReturned,
+  parseDayKey,
+  saveBookLoan,
+  LibraryLoan,
+} from '@/utils/libraryLoans';
+import { cancelLoanReminders, scheduleLoanReminders } from '@/utils/loanReminders';
+import { getDayKey } from '@/utils/readingLog';
+import { requestReminderPermission } from '@/utils/readingReminders';
+import { LOAN_REMINDER_CHANNEL } from '@/utils/notificationChannels';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface LibraryLoanSectionProps {
+  userBook: Partial<LibraryLoan> & {
+    id: string;
+    book: { title: string };
+  };
+  // Called after the loan changed so the shelf can reload
+  onChanged: () => void;
+}
+
+const toLoan = (userBook: Partial<LibraryLoan>): LibraryLoan => ({
+  ownership: userBook.ownership ?? 'owned',
+  library_name: userBook.library_name ?? null,
+  checked_out_on: userBook.checked_out_on ?? null,
+  due_on: userBook.due_on ?? null,
+  returned_on: userBook.returned_on ?? null,
+});
+
+/**
+ * Whether a book is borrowed from the library, when it's due and marking it returned
+ * The loan is kept locally after saving because the sheet's book doesn't reload;
+ * key the section by book so opening another book starts fresh
+ */
+export default function LibraryLoanSection({ userBook, onChanged }: LibraryLoanSectionProps) {
+  const { selectedChild } = useChild();
+  const [loan, setLoan] = useState<LibraryLoan>(() => toLoan(userBook));
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [libraryName, setLibraryName] = useState('');
+  const [checkedOutOn, setCheckedOutOn] = useState<Date>(new Date());
+  const [dueOn, setDueOn] = useState<Date>(addDays(new Date(), DEFAULT_LOAN_DAYS));
+
+  const handleOpenForm = async () => {
+    HapticFeedback.light();
+    if (isBorrowed(loan) && loan.checked_out_on && loan.due_on) {
+      setLibraryName(loan.library_name || '');
+      setCheckedOutOn(parseDayKey(loan.checked_out_on));
+      setDueOn(parseDayKey(loan.due_on));
+    } else {
+      const today = new Date();
+      setLibraryName(loan.library_name || (await loadLastLibraryName()));
+      setCheckedOutOn(today);
+      setDueOn(addDays(today, DEFAULT_LOAN_DAYS));
+    }
+    setIsFormOpen(true);
+  };
+
+  // A new checkout date moves the due date with it
+  const handleCheckedOutChange = (date: Date) => {
+    setCheckedOutOn(date);
+    setDueOn(addDays(date, DEFAULT_LOAN_DAYS));
+  };
+
+  const handleSave = async () => {
+    if (isSaving) return;
+    HapticFeedback.medium();
+    setIsSaving(true);
+
+    try {
+      const saved = await saveBookLoan(userBook.id, {
+        library_name: libraryName.trim() || null,
+        checked_out_on: getDayKey(checkedOutOn),
+        due_on: getDayKey(dueOn),
+      });
+      setLoan(saved);
+      setIsFormOpen(false);
+      HapticFeedback.success();
+      onChanged();
+
+      if (await requestReminderPermission(LOAN_REMINDER_CHANNEL)) {
+        await scheduleLoanReminders({ ...saved, id: userBook.id, book: userBook.book }, selectedChild?.name || 'Your child');
+      }
+    } catch (error) {
+      console.error('LibraryLoanSection: Error saving loan:', error);
+      HapticFeedback.error();
+      Alert.alert('Error', 'Failed to save library loan');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runLoanChange = async (change: () => Promise<LibraryLoan>, errorMessage: string) => {
+    try {
+      setLoan(await change());
+      setIsFormOpen(false);
+      await cancelLoanReminders(userBook.id);
+      HapticFeedback.success();
+      onChanged();
+    } catch (error) {
+      console.error('LibraryLoanSection:', errorMessage, error);
+      HapticFeedback.error();
+      Alert.alert('Error', errorMessage);
+    }
+  };
+
+  const handleReturned = () => {
+    HapticFeedback.medium();
+    Alert.alert(
+      'Returned to the Library',
+      `"${userBook.book.title}" will move off the shelf. Its reading log is kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Returned',
+          onPress: () => runLoanChange(() => markBookReturned(userBook.id, loan), 'Failed to mark book as returned'),
+        },
+      ]
+    );
+  };
+
+  const handleNotBorrowed = () => {
+    HapticFeedback.medium();
+    runLoanChange(() => clearBookLoan(userBook.id), 'Failed to update book');
+  };
+
+  const daysUntilDue = isBorrowed(loan) && loan.due_on ? getDaysUntilDue(loan.due_on) : null;
+
+  return (
+    <View>
+      {isBorrowed(loan) && loan.due_on ? (
+        <View style={styles.loanCard}>
+          <View style={styles.loanInfo}>
+            <Text style={styles.loanTitle}>
+              Borrowed{loan.library_name ? ` from ${loan.library_name}` : ''}
+            </Text>
+            <Text style={styles.loanDetails}>
+              {loan.checked_out_on ? `Checked out ${formatLoanDate(loan.checked_out_on)} · ` : ''}
+              Due {formatLoanDate(loan.due_on)}
+            </Text>
+          </View>
+          <View
+            style={[
+              styles.dueBadge,
+              daysUntilDue !== null && daysUntilDue <= DUE_SOON_DAYS && styles.dueBadgeSoon,
+            ]}
+          >
+            <Text style={styles.dueBadgeText}>{formatDueLabel(loan.due_on)}</Text>
+          </View>
+        </View>
+      ) : isReturned(loan) ? (
+        <Text style={styles.summaryText}>
+          Returned{loan.library_name ? ` to ${loan.library_name}` : ''}
+          {loan.returned_on ? ` on ${formatLoanDate(loan.returned_on)}` : ''}
+        </Text>
+      ) : (
+        <Text style={styles.summaryText}>Our own copy</Text>
+      )}
+
+      {!isFormOpen && (
+        <View style={styles.actions}>
+          {isBorrowed(loan) ? (
+            <>
+              <TouchableOpacity style={styles.primaryButton} onPress={handleReturned}>
+                <IconSymbol
+                  ios_icon_name="checkmark"
+                  android_material_icon_name="check"
+                  size={16}
+                  color={colors.backgroundAlt}
+                />
+                <Text style={styles.primaryButtonText}>Mark returned</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleOpenForm}>
+                <Text style={styles.secondaryButtonText}>Edit loan</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleOpenForm}>
+              <IconSymbol
+                ios_icon_name="building.columns"
+                android_material_icon_name="local-library"
+                size={16}
+                color={colors.primary}
+              />
+              <Text style={styles.secondaryButtonText}>
+                {isReturned(loan) ? 'Borrow again' : 'Borrowed from the library'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {isFormOpen && (
+        <View style={styles.form}>
+          <Text style={styles.label}>Library</Text>
+          <TextInput
+            style={styles.input}
+            value={libraryName}
+            onChangeText={setLibraryName}
+            placeholder="e.g. Central Library"
+            placeholderTextColor={colors.textSecondary}
+            maxLength={60}
+          />
+
+          <WordDateField
+            label="Checked out"
+            date={checkedOutOn.toISOString()}
+            onChange={handleCheckedOutChange}
+          />
+
+          <WordDateField
+            label="Due back"
+            date={dueOn.toISOString()}
+            minimumDate={checkedOutOn}
+            allowFuture
+            onChange={setDueOn}
+          />
+
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <ActivityIndicator size="small" color={colors.backgroundAlt} />
+            ) : (
+              <Text style={styles.saveButtonText}>Save Loan</Text>
+            )}
+          </TouchableOpacity>
+
+          <View style={styles.formFooter}>
+            <TouchableOpacity
+              onPress={() => {
+                HapticFeedback.light();
+                setIsFormOpen(false);
+              }}
+            >
+              <Text style={styles.linkText}>Cancel</Text>
+            </TouchableOpacity>
+            {isBorrowed(loan) && (
+              <TouchableOpacity onPress={handleNotBorrowed}>
+                <Text style={styles.linkText}>Not a library book</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  summaryText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  loanCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  loanInfo: {
+    flex: 1,
+  },
+  loanTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  loanDetails: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  dueBadge: {
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  dueBadgeSoon: {
+    backgroundColor: colors.secondary,
+  },
+  dueBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: colors.primary,
+    borderStyle: 'dashed',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    gap: 6,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  form: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginBottom: 6,
+  },
+  input: {
+    fontSize: 16,
+    color: colors.primary,
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  saveButton: {
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 16,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+  formFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 14,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,49 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+
+interface MomentBookBadgeProps {
+  title: string;
+}
+
+/**
+ * The book a moment is linked to, shown over its card in the moments feeds
+ */
+export default function MomentBookBadge({ title }: MomentBookBadgeProps) {
+  return (
+    <View style={styles.badge} pointerEvents="none">
+      <IconSymbol
+        ios_icon_name="book.fill"
+        android_material_icon_name="menu-book"
+        size={12}
+        color={colors.backgroundAlt}
+      />
+      <Text style={styles.title} numberOfLines={1}>
+        {title}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    position: 'absolute',
+    left: 8,
+    top: 8,
+    maxWidth: '85%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  title: {
+    flexShrink: 1,
+    fontSize: 11,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+});
@@ -0,0 +1,177 @@
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useMomentUploads } from '@/contexts/MomentUploadsContext';
+import { getUploadProgress, MomentUpload, MEDIA_TYPE_LABELS } from '@/utils/momentUploads';
+import { HapticFeedback } from '@/utils/haptics';
+
+const formatRetryTime = (nextAttemptAt: number): string => {
+  const minutes = Math.ceil((nextAttemptAt - Date.now()) / (1000 * 60));
+  if (minutes <= 1) return 'Retrying in a moment';
+  return `Retrying in ${minutes} minutes`;
+};
+
+const getStatusText = (upload: MomentUpload): string => {
+  switch (upload.status) {
+    case 'uploading':
+      return `Uploading… ${Math.round(getUploadProgress(upload) * 100)}%`;
+    case 'failed':
+      return "Couldn't upload";
+    default:
+      return upload.attempts > 0 ? formatRetryTime(upload.nextAttemptAt) : 'Waiting to upload';
+  }
+};
+
+/**
+ * Moments waiting in the upload queue, with retry and discard for the ones that failed
+ */
+export default function MomentUploadsCard() {
+  const { uploads, retryUpload, discardUpload } = useMomentUploads();
+
+  if (uploads.length === 0) {
+    return null;
+  }
+
+  const handleRetry = (upload: MomentUpload) => {
+    HapticFeedback.medium();
+    retryUpload(upload.id);
+  };
+
+  const handleDiscard = (upload: MomentUpload) => {
+    HapticFeedback.medium();
+    Alert.alert(
+      `Discard ${MEDIA_TYPE_LABELS[upload.mediaType]}`,
+      `The ${upload.mediaType === 'audio' ? 'audio clip' : upload.mediaType} for "${upload.targetName}" hasn't been saved yet. Discard it?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => discardUpload(upload.id),
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Saving Moments</Text>
+      <View style={styles.card}>
+        {uploads.map((upload, index) => (
+          <View key={upload.id} style={[styles.row, index > 0 && styles.rowDivider]}>
+            <View style={[styles.iconCircle, upload.status === 'failed' && styles.iconCircleFailed]}>
+              {upload.status === 'uploading' ? (
+                <ActivityIndicator size="small" color={colors.backgroundAlt} />
+              ) : (
+                <IconSymbol
+                  ios_icon_name={upload.status === 'failed' ? 'exclamationmark' : 'icloud.and.arrow.up'}
+                  android_material_icon_name={upload.status === 'failed' ? 'priority-high' : 'cloud-upload'}
+                  size={18}
+                  color={colors.backgroundAlt}
+                />
+              )}
+            </View>
+            <View style={styles.info}>
+              <Text style={styles.title} numberOfLines={1}>
+                {MEDIA_TYPE_LABELS[upload.mediaType]} for "{upload.targetName}"
+              </Text>
+              <Text style={[styles.status, upload.status === 'failed' && styles.statusFailed]}>
+                {getStatusText(upload)}
+              </Text>
+            </View>
+            {upload.status !== 'uploading' && (
+              <View style={styles.actions}>
+                <TouchableOpacity style={styles.retryButton} onPress={() => handleRetry(upload)}>
+                  <Text style={styles.retryButtonText}>Retry</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleDiscard(upload)} hitSlop={8}>
+                  <IconSymbol
+                    ios_icon_name="trash"
+                    android_material_icon_name="delete"
+                    size={18}
+                    color={colors.textSecondary}
+                  />
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.primary,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    boxShadow: '0px 4px 8px rgba(0, 0, 0, 0.1)',
+    elevation: 3,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  rowDivider: {
+    borderTopWidth: 1,
+    borderTopColor: colors.background,
+  },
+  iconCircle: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.buttonBlue,
+  },
+  iconCircleFailed: {
+    backgroundColor: colors.secondary,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  status: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  statusFailed: {
+    color: colors.secondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  retryButton: {
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: colors.primary,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  retryButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+});
@@ -0,0 +1,125 @@
+
+import React, { useMemo, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { BottomSheetModal } from '@gorhom/bottom-sheet';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import ReadingCalendarBottomSheet from '@/components/ReadingCalendarBottomSheet';
+import { useChild } from '@/contexts/ChildContext';
+import { useReadingLog } from '@/contexts/ReadingLogContext';
+import { getMostReadBooks, getStartOfMonth } from '@/utils/readingLog';
+import { HapticFeedback } from '@/utils/haptics';
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+/**
+ * Books tab card with this month's most-read books and a link to the reading calendar
+ */
+export default function MostReadBooksCard() {
+  const { selectedChild } = useChild();
+  const { sessions } = useReadingLog();
+  const calendarSheetRef = useRef<BottomSheetModal>(null);
+
+  const mostRead = useMemo(() => getMostReadBooks(sessions, getStartOfMonth()), [sessions]);
+
+  if (!selectedChild) return null;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Most read this month</Text>
+        <TouchableOpacity
+          style={styles.calendarButton}
+          onPress={() => {
+            HapticFeedback.light();
+            calendarSheetRef.current?.present();
+          }}
+        >
+          <IconSymbol
+            ios_icon_name="calendar"
+            android_material_icon_name="calendar-today"
+            size={16}
+            color={colors.primary}
+          />
+          <Text style={styles.calendarButtonText}>Calendar</Text>
+        </TouchableOpacity>
+      </View>
+
+      {mostRead.length === 0 ? (
+        <Text style={styles.emptyText}>
+          Log a read from any book to see {selectedChild.name}&apos;s favourites here
+        </Text>
+      ) : (
+        mostRead.map((book, index) => (
+          <View key={book.user_book_id} style={styles.bookRow}>
+            <Text style={styles.medal}>{MEDALS[index]}</Text>
+            <Text style={styles.bookTitle} numberOfLines={1}>{book.book_title}</Text>
+            <Text style={styles.bookCount}>
+              {book.count} {book.count === 1 ? 'read' : 'reads'}
+            </Text>
+          </View>
+        ))
+      )}
+
+      <ReadingCalendarBottomSheet ref={calendarSheetRef} childName={selectedChild.name} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.cardYellow,
+    borderRadius: 20,
+    padding: 16,
+    marginBottom: 24,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  calendarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 6,
+  },
+  calendarButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  bookRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  medal: {
+    fontSize: 20,
+    marginRight: 10,
+  },
+  bookTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  bookCount: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginLeft: 8,
+  },
+});
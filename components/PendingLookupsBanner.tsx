@@ -0,0 +1,91 @@
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface PendingLookupsBannerProps {
+  count: number;
+  isRetrying: boolean;
+  onRetry: () => void;
+}
+
+/**
+ * Scanned books saved while offline or out of lookups, shown until they're added
+ */
+export default function PendingLookupsBanner({ count, isRetrying, onRetry }: PendingLookupsBannerProps) {
+  if (count === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <IconSymbol
+        ios_icon_name="clock.arrow.circlepath"
+        android_material_icon_name="schedule"
+        size={22}
+        color={colors.primary}
+      />
+      <View style={styles.textContainer}>
+        <Text style={styles.title}>
+          {count} scanned {count === 1 ? 'book' : 'books'} waiting
+        </Text>
+        <Text style={styles.subtitle}>
+          {isRetrying ? 'Looking them up now…' : "We'll add them as soon as we can look them up."}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={styles.retryButton}
+        onPress={() => {
+          HapticFeedback.light();
+          onRetry();
+        }}
+        disabled={isRetrying}
+      >
+        {isRetrying ? (
+          <ActivityIndicator size="small" color={colors.backgroundAlt} />
+        ) : (
+          <Text style={styles.retryButtonText}>Try now</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 16,
+    gap: 12,
+  },
+  textContainer: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  retryButton: {
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  retryButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+});
@@ -0,0 +1,220 @@
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Image } from 'expo-image';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import AudioMomentPlayer from '@/components/AudioMomentPlayer';
+import {
+  buildWordTimeline,
+  getPronunciationStageInfo,
+  PronunciationHistoryEntry,
+  TimelineMoment,
+} from '@/utils/pronunciationHistory';
+
+interface TimelineMomentWithThumbnail extends TimelineMoment {
+  media_type?: 'video' | 'audio' | 'photo';
+  thumbnail_url?: string;
+  signedThumbnailUrl?: string | null;
+  signedPhotoUrl?: string | null;
+  signedAudioUrl?: string | null;
+  waveform?: number[] | null;
+  trim_start?: number;
+  trim_end?: number;
+}
+
+interface PronunciationTimelineProps<M extends TimelineMomentWithThumbnail> {
+  history: PronunciationHistoryEntry[];
+  moments: M[];
+  onMomentPress: (moment: M) => void;
+}
+
+/**
+ * Vertical timeline of a word's pronunciation stage changes, interleaved with its moments
+ */
+export default function PronunciationTimeline<M extends TimelineMomentWithThumbnail>({
+  history,
+  moments,
+  onMomentPress,
+}: PronunciationTimelineProps<M>) {
+  const items = useMemo(() => buildWordTimeline(history, moments), [history, moments]);
+
+  if (items.length === 0) {
+    return (
+      <Text style={styles.emptyText}>
+        Pick a stage above to start tracking how this word changes over time
+      </Text>
+    );
+  }
+
+  return (
+    <View>
+      {items.map((item, index) => {
+        const isLast = index === items.length - 1;
+        const date = new Date(item.date).toLocaleDateString();
+
+        // Audio moments play right in the timeline
+        if (item.type === 'moment' && item.moment.media_type === 'audio') {
+          return (
+            <View key={`moment-${item.moment.id}`} style={styles.row}>
+              <View style={styles.rail}>
+                <View style={[styles.dot, styles.momentDot]} />
+                {!isLast && <View style={styles.line} />}
+              </View>
+              <View style={styles.audioContent}>
+                <Text style={styles.entryTitle}>Sound recorded</Text>
+                <Text style={styles.entryDate}>{date}</Text>
+                <AudioMomentPlayer
+                  audioUri={item.moment.signedAudioUrl ?? null}
+                  waveform={item.moment.waveform}
+                  trimStart={item.moment.trim_start}
+                  trimEnd={item.moment.trim_end}
+                  height={24}
+                  style={styles.audioPlayer}
+                />
+              </View>
+            </View>
+          );
+        }
+
+        if (item.type === 'moment') {
+          const isPhoto = item.moment.media_type === 'photo';
+          const thumbnailUrl = isPhoto
+            ? item.moment.signedPhotoUrl
+            : item.moment.signedThumbnailUrl || item.moment.thumbnail_url;
+          return (
+            <View key={`moment-${item.moment.id}`} style={styles.row}>
+              <View style={styles.rail}>
+                <View style={[styles.dot, styles.momentDot]} />
+                {!isLast && <View style={styles.line} />}
+              </View>
+              <TouchableOpacity
+                style={styles.momentContent}
+                onPress={() => onMomentPress(item.moment)}
+                activeOpacity={0.8}
+              >
+                <View style={styles.momentThumbnail}>
+                  {thumbnailUrl ? (
+                    <Image source={{ uri: thumbnailUrl }} style={styles.thumbnailImage} contentFit="cover" />
+                  ) : (
+                    <IconSymbol
+                      ios_icon_name={isPhoto ? 'photo.fill' : 'play.circle.fill'}
+                      android_material_icon_name={isPhoto ? 'photo' : 'play-circle-filled'}
+                      size={24}
+                      color={colors.backgroundAlt}
+                    />
+                  )}
+                </View>
+                <View style={styles.entryText}>
+                  <Text style={styles.entryTitle}>{isPhoto ? 'Photo taken' : 'Moment recorded'}</Text>
+                  <Text style={styles.entryDate}>{date}</Text>
+                </View>
+              </TouchableOpacity>
+            </View>
+          );
+        }
+
+        const stageInfo = item.entry.stage ? getPronunciationStageInfo(item.entry.stage) : null;
+        return (
+          <View key={`stage-${item.entry.id}`} style={styles.row}>
+            <View style={styles.rail}>
+              <View style={styles.dot} />
+              {!isLast && <View style={styles.line} />}
+            </View>
+            <View style={styles.stageContent}>
+              <Text style={styles.entryTitle}>
+                {stageInfo ? `${stageInfo.emoji} ${stageInfo.label}` : 'Pronunciation noted'}
+              </Text>
+              {item.entry.pronunciation && (
+                <Text style={styles.pronunciationText}>Says &quot;{item.entry.pronunciation}&quot;</Text>
+              )}
+              <Text style={styles.entryDate}>{date}</Text>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  rail: {
+    width: 24,
+    alignItems: 'center',
+  },
+  dot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 6,
+    backgroundColor: colors.buttonBlue,
+  },
+  momentDot: {
+    backgroundColor: colors.secondary,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    marginVertical: 2,
+    backgroundColor: colors.tabInactive,
+  },
+  stageContent: {
+    flex: 1,
+    paddingLeft: 8,
+    paddingBottom: 16,
+  },
+  momentContent: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: 8,
+    paddingBottom: 16,
+    gap: 12,
+  },
+  audioContent: {
+    flex: 1,
+    paddingLeft: 8,
+    paddingBottom: 16,
+  },
+  audioPlayer: {
+    marginTop: 8,
+  },
+  momentThumbnail: {
+    width: 44,
+    height: 55,
+    borderRadius: 8,
+    overflow: 'hidden',
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+  entryText: {
+    flex: 1,
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  pronunciationText: {
+    fontSize: 14,
+    color: colors.text,
+    marginTop: 2,
+  },
+  entryDate: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+});
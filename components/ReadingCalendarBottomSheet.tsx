@@ -0,0 +1,318 @@
+
+import React, { forwardRef, useMemo, useCallback, useState } from 'react';
+import { View, Text, StyleSheet, Dimensions, TouchableOpacity } from 'react-native';
+import { BottomSheetBackdrop, BottomSheetScrollView, BottomSheetModal } from '@gorhom/bottom-sheet';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useReadingLog } from '@/contexts/ReadingLogContext';
+import {
+  formatReadingSessionDetails,
+  getCalendarWeeks,
+  getDayKey,
+  groupSessionsByDay,
+} from '@/utils/readingLog';
+import { HapticFeedback } from '@/utils/haptics';
+
+const { height: screenHeight } = Dimensions.get('window');
+
+const WEEKDAY_LABELS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+interface ReadingCalendarBottomSheetProps {
+  childName: string;
+}
+
+const ReadingCalendarBottomSheet = forwardRef<BottomSheetModal, ReadingCalendarBottomSheetProps>(
+  ({ childName }, ref) => {
+    const { sessions } = useReadingLog();
+    const snapPoints = useMemo(() => [screenHeight * 0.85], []);
+    const [visibleMonth, setVisibleMonth] = useState(() => {
+      const now = new Date();
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+    });
+    const [selectedDayKey, setSelectedDayKey] = useState(() => getDayKey(new Date()));
+
+    const sessionsByDay = useMemo(() => groupSessionsByDay(sessions), [sessions]);
+    const weeks = useMemo(() => getCalendarWeeks(visibleMonth), [visibleMonth]);
+    const todayKey = getDayKey(new Date());
+
+    const monthTotal = useMemo(() => {
+      return weeks.flat().reduce((total, day) => {
+        return total + (day ? sessionsByDay.get(getDayKey(day))?.length || 0 : 0);
+      }, 0);
+    }, [weeks, sessionsByDay]);
+
+    const selectedSessions = sessionsByDay.get(selectedDayKey) || [];
+
+    const renderBackdrop = useCallback(
+      (props: any) => (
+        <BottomSheetBackdrop
+          {...props}
+          disappearsOnIndex={-1}
+          appearsOnIndex={0}
+          opacity={0.5}
+          pressBehavior="close"
+        />
+      ),
+      []
+    );
+
+    const changeMonth = (delta: number) => {
+      HapticFeedback.selection();
+      setVisibleMonth((prev) => new Date(prev.getFullYear(), prev.getMonth() + delta, 1));
+    };
+
+    return (
+      <BottomSheetModal
+        ref={ref}
+        index={0}
+        snapPoints={snapPoints}
+        enablePanDownToClose={true}
+        enableDismissOnClose={true}
+        enableDynamicSizing={false}
+        backdropComponent={renderBackdrop}
+        backgroundStyle={styles.bottomSheetBackground}
+        handleIndicatorStyle={styles.handleIndicator}
+        animateOnMount={true}
+        enableContentPanningGesture={true}
+      >
+        <BottomSheetScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.contentContainer}
+        >
+          <Text style={styles.title}>Reading Calendar</Text>
+          <Text style={styles.subtitle}>Read-aloud sessions with {childName}</Text>
+
+          <View style={styles.monthRow}>
+            <TouchableOpacity style={styles.monthButton} onPress={() => changeMonth(-1)}>
+              <IconSymbol
+                ios_icon_name="chevron.left"
+                android_material_icon_name="chevron-left"
+                size={20}
+                color={colors.primary}
+              />
+            </TouchableOpacity>
+            <View style={styles.monthInfo}>
+              <Text style={styles.monthLabel}>
+                {visibleMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+              </Text>
+              <Text style={styles.monthTotal}>
+                {monthTotal} {monthTotal === 1 ? 'read' : 'reads'}
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.monthButton} onPress={() => changeMonth(1)}>
+              <IconSymbol
+                ios_icon_name="chevron.right"
+                android_material_icon_name="chevron-right"
+                size={20}
+                color={colors.primary}
+              />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.weekRow}>
+            {WEEKDAY_LABELS.map((label, index) => (
+              <Text key={index} style={styles.weekdayLabel}>{label}</Text>
+            ))}
+          </View>
+
+          {weeks.map((week, weekIndex) => (
+            <View key={weekIndex} style={styles.weekRow}>
+              {week.map((day, dayIndex) => {
+                if (!day) {
+                  return <View key={dayIndex} style={styles.dayCell} />;
+                }
+                const key = getDayKey(day);
+                const count = sessionsByDay.get(key)?.length || 0;
+                const isSelected = key === selectedDayKey;
+                return (
+                  <TouchableOpacity
+                    key={dayIndex}
+                    style={[
+                      styles.dayCell,
+                      count > 0 && styles.dayCellRead,
+                      key === todayKey && styles.dayCellToday,
+                      isSelected && styles.dayCellSelected,
+                    ]}
+                    onPress={() => {
+                      HapticFeedback.selection();
+                      setSelectedDayKey(key);
+                    }}
+                  >
+                    <Text style={[styles.dayNumber, isSelected && styles.dayTextSelected]}>
+                      {day.getDate()}
+                    </Text>
+                    {count > 0 && (
+                      <Text style={[styles.dayCount, isSelected && styles.dayTextSelected]}>
+                        {count}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ))}
+
+          <Text style={styles.sectionTitle}>
+            {new Date(`${selectedDayKey}T00:00:00`).toLocaleDateString('en-US', {
+              weekday: 'long',
+              month: 'long',
+              day: 'numeric',
+            })}
+          </Text>
+          {selectedSessions.length === 0 ? (
+            <Text style={styles.emptyText}>No reads logged this day</Text>
+          ) : (
+            selectedSessions.map((session) => (
+              <View key={session.id} style={styles.sessionCard}>
+                <Text style={styles.sessionTitle}>{session.book_title}</Text>
+                <Text style={styles.sessionDetails}>
+                  {formatReadingSessionDetails(session) || 'No details'}
+                </Text>
+                {session.note && <Text style={styles.sessionNote}>{session.note}</Text>}
+              </View>
+            ))
+          )}
+        </BottomSheetScrollView>
+      </BottomSheetModal>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  bottomSheetBackground: {
+    backgroundColor: colors.backgroundAlt,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+  },
+  handleIndicator: {
+    backgroundColor: colors.primary,
+    width: 40,
+    height: 4,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingBottom: 40,
+    paddingHorizontal: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: colors.primary,
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  monthButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.background,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  monthInfo: {
+    alignItems: 'center',
+  },
+  monthLabel: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  monthTotal: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  weekRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  dayCell: {
+    flex: 1,
+    aspectRatio: 1,
+    marginHorizontal: 2,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayCellRead: {
+    backgroundColor: colors.cardGreen,
+  },
+  dayCellToday: {
+    borderWidth: 2,
+    borderColor: colors.primary,
+  },
+  dayCellSelected: {
+    backgroundColor: colors.buttonBlue,
+  },
+  dayNumber: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  dayCount: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  dayTextSelected: {
+    color: colors.backgroundAlt,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.primary,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  sessionCard: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 10,
+  },
+  sessionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  sessionDetails: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  sessionNote: {
+    fontSize: 13,
+    color: colors.text,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+});
+
+export default ReadingCalendarBottomSheet;
@@ -0,0 +1,377 @@
+
+import React, { forwardRef, useMemo, useCallback, useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Switch, ActivityIndicator } from 'react-native';
+import { BottomSheetBackdrop, BottomSheetScrollView, BottomSheetModal } from '@gorhom/bottom-sheet';
+import { colors } from '@/styles/commonStyles';
+import WordDateField from '@/components/WordDateField';
+import { useChild } from '@/contexts/ChildContext';
+import { useReadingGoal } from '@/contexts/ReadingGoalContext';
+import {
+  DEFAULT_READING_GOAL,
+  GRACE_DAY_OPTIONS,
+  READING_GOAL_TARGETS,
+  ReadingGoal,
+  ReadingGoalMetric,
+  ReadingGoalPeriod,
+} from '@/data/readingGoals';
+import { formatReadingGoal } from '@/utils/readingGoals';
+import { requestReminderPermission } from '@/utils/readingReminders';
+import { HapticFeedback } from '@/utils/haptics';
+
+const METRIC_OPTIONS: { id: ReadingGoalMetric; label: string }[] = [
+  { id: 'books', label: 'Books' },
+  { id: 'minutes', label: 'Minutes' },
+];
+
+const PERIOD_OPTIONS: { id: ReadingGoalPeriod; label: string }[] = [
+  { id: 'daily', label: 'Every day' },
+  { id: 'weekly', label: 'Every week' },
+];
+
+const ReadingGoalBottomSheet = forwardRef<BottomSheetModal>((props, ref) => {
+  const snapPoints = useMemo(() => ['90%'], []);
+  const { selectedChild } = useChild();
+  const { goal, status, updateReadingGoal } = useReadingGoal();
+  const [draft, setDraft] = useState<ReadingGoal>(goal || DEFAULT_READING_GOAL);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved goal each time it changes or the sheet is closed without saving
+  const resetDraft = useCallback(() => {
+    setDraft(goal || DEFAULT_READING_GOAL);
+  }, [goal]);
+
+  useEffect(() => {
+    resetDraft();
+  }, [resetDraft]);
+
+  const targetOptions = READING_GOAL_TARGETS[draft.metric][draft.period];
+
+  const renderBackdrop = useCallback(
+    (props: any) => (
+      <BottomSheetBackdrop
+        {...props}
+        disappearsOnIndex={-1}
+        appearsOnIndex={0}
+        opacity={0.5}
+        pressBehavior="close"
+      />
+    ),
+    []
+  );
+
+  // Keep the target when the new unit and period offer it, otherwise fall back to a middle option
+  const updateGoalType = (changes: Partial<Pick<ReadingGoal, 'metric' | 'period'>>) => {
+    HapticFeedback.selection();
+    setDraft((prev) => {
+      const next = { ...prev, ...changes };
+      const options = READING_GOAL_TARGETS[next.metric][next.period];
+      const target = options.includes(prev.target)
+        ? prev.target
+        : options[Math.floor(options.length / 2)];
+      return { ...next, target };
+    });
+  };
+
+  const handleReminderToggle = async (enabled: boolean) => {
+    HapticFeedback.selection();
+    if (enabled && !(await requestReminderPermission())) {
+      HapticFeedback.warning();
+      Alert.alert(
+        'Notifications Off',
+        'Allow notifications for this app in your device settings to get reading reminders.'
+      );
+      return;
+    }
+    setDraft((prev) => ({ ...prev, reminderEnabled: enabled }));
+  };
+
+  const handleSave = async () => {
+    if (isSaving) return;
+    HapticFeedback.medium();
+    setIsSaving(true);
+
+    try {
+      await updateReadingGoal(draft);
+      HapticFeedback.success();
+      (ref as React.RefObject<BottomSheetModal>)?.current?.dismiss();
+    } catch (error) {
+      console.error('ReadingGoalBottomSheet: Error saving goal:', error);
+      HapticFeedback.error();
+      Alert.alert('Error', 'Failed to save reading goal');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    HapticFeedback.medium();
+    Alert.alert(
+      'Remove Reading Goal',
+      'Your streak and reminders will stop. Reading sessions are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await updateReadingGoal(null);
+              (ref as React.RefObject<BottomSheetModal>)?.current?.dismiss();
+            } catch (error) {
+              console.error('ReadingGoalBottomSheet: Error removing goal:', error);
+              Alert.alert('Error', 'Failed to remove reading goal');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const reminderTime = new Date();
+  reminderTime.setHours(draft.reminderHour, draft.reminderMinute, 0, 0);
+
+  return (
+    <BottomSheetModal
+      ref={ref}
+      index={0}
+      snapPoints={snapPoints}
+      enablePanDownToClose={true}
+      enableDismissOnClose={true}
+      enableDynamicSizing={false}
+      backdropComponent={renderBackdrop}
+      backgroundStyle={styles.bottomSheetBackground}
+      handleIndicatorStyle={styles.handleIndicator}
+      onDismiss={resetDraft}
+    >
+      <BottomSheetScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+      >
+        <Text style={styles.title}>Reading Goal</Text>
+        <Text style={styles.subtitle}>
+          {goal && status
+            ? `${formatReadingGoal(goal)} · ${status.streak} ${goal.period === 'daily' ? 'day' : 'week'} streak`
+            : `Build a reading habit with ${selectedChild?.name || 'your child'}`}
+        </Text>
+
+        <Text style={styles.label}>Count</Text>
+        <View style={styles.chips}>
+          {METRIC_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, draft.metric === option.id && styles.chipActive]}
+              onPress={() => updateGoalType({ metric: option.id })}
+            >
+              <Text style={[styles.chipText, draft.metric === option.id && styles.chipTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>How often</Text>
+        <View style={styles.chips}>
+          {PERIOD_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, draft.period === option.id && styles.chipActive]}
+              onPress={() => updateGoalType({ period: option.id })}
+            >
+              <Text style={[styles.chipText, draft.period === option.id && styles.chipTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Target</Text>
+        <View style={styles.chips}>
+          {targetOptions.map((target) => (
+            <TouchableOpacity
+              key={target}
+              style={[styles.chip, draft.target === target && styles.chipActive]}
+              onPress={() => {
+                HapticFeedback.selection();
+                setDraft((prev) => ({ ...prev, target }));
+              }}
+            >
+              <Text style={[styles.chipText, draft.target === target && styles.chipTextActive]}>
+                {target}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.hint}>{formatReadingGoal(draft)}</Text>
+
+        {draft.period === 'daily' && (
+          <>
+            <Text style={styles.label}>Grace days per week</Text>
+            <View style={styles.chips}>
+              {GRACE_DAY_OPTIONS.map((days) => (
+                <TouchableOpacity
+                  key={days}
+                  style={[styles.chip, draft.graceDays === days && styles.chipActive]}
+                  onPress={() => {
+                    HapticFeedback.selection();
+                    setDraft((prev) => ({ ...prev, graceDays: days }));
+                  }}
+                >
+                  <Text style={[styles.chipText, draft.graceDays === days && styles.chipTextActive]}>
+                    {days === 0 ? 'None' : days}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.hint}>Missed days that won&apos;t break the streak</Text>
+          </>
+        )}
+
+        <View style={styles.reminderRow}>
+          <View style={styles.reminderInfo}>
+            <Text style={styles.reminderTitle}>Reminder</Text>
+            <Text style={styles.hint}>
+              Only sent if {draft.period === 'daily' ? "the day's" : "the week's"} goal isn&apos;t met yet
+            </Text>
+          </View>
+          <Switch
+            value={draft.reminderEnabled}
+            onValueChange={handleReminderToggle}
+            trackColor={{ false: colors.tabInactive, true: colors.buttonBlue }}
+          />
+        </View>
+        {draft.reminderEnabled && (
+          <WordDateField
+            label="Remind me at"
+            date={reminderTime.toISOString()}
+            mode="time"
+            onChange={(date) => {
+              setDraft((prev) => ({ ...prev, reminderHour: date.getHours(), reminderMinute: date.getMinutes() }));
+            }}
+          />
+        )}
+
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={isSaving}>
+          {isSaving ? (
+            <ActivityIndicator color={colors.backgroundAlt} />
+          ) : (
+            <Text style={styles.saveButtonText}>{goal ? 'Save Goal' : 'Start Goal'}</Text>
+          )}
+        </TouchableOpacity>
+
+        {goal && (
+          <TouchableOpacity style={styles.removeButton} onPress={handleRemove}>
+            <Text style={styles.removeButtonText}>Remove Goal</Text>
+          </TouchableOpacity>
+        )}
+      </BottomSheetScrollView>
+    </BottomSheetModal>
+  );
+});
+
+ReadingGoalBottomSheet.displayName = 'ReadingGoalBottomSheet';
+
+const styles = StyleSheet.create({
+  bottomSheetBackground: {
+    backgroundColor: colors.backgroundAlt,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+  },
+  handleIndicator: {
+    backgroundColor: colors.primary,
+    width: 40,
+    height: 4,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingBottom: 40,
+    paddingHorizontal: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: colors.primary,
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: colors.background,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  chipActive: {
+    backgroundColor: colors.buttonBlue,
+  },
+  chipText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  chipTextActive: {
+    color: colors.backgroundAlt,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 6,
+  },
+  reminderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  reminderInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  reminderTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  saveButton: {
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 16,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 28,
+  },
+  saveButtonText: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+  removeButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  removeButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.secondary,
+  },
+});
+
+export default ReadingGoalBottomSheet;
@@ -0,0 +1,345 @@
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import WordDateField from '@/components/WordDateField';
+import { useChild } from '@/contexts/ChildContext';
+import { useReadingLog } from '@/contexts/ReadingLogContext';
+import { READING_DURATION_OPTIONS, READING_ENGAGEMENT_LEVELS, ReadingEngagement } from '@/data/readingLog';
+import { formatReadingSessionDetails, getReaderOptions, ReadingSession } from '@/utils/readingLog';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface ReadingLogSectionProps {
+  userBookId: string;
+}
+
+const RECENT_SESSION_COUNT = 5;
+
+/**
+ * Read-aloud sessions for one book, with an inline form to log a new one
+ */
+export default function ReadingLogSection({ userBookId }: ReadingLogSectionProps) {
+  const { selectedChild } = useChild();
+  const { sessions, logReadingSession, deleteReadingSession } = useReadingLog();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [readAt, setReadAt] = useState<Date>(new Date());
+  const [reader, setReader] = useState('');
+  const [duration, setDuration] = useState<number | null>(null);
+  const [engagement, setEngagement] = useState<ReadingEngagement | null>(null);
+  const [note, setNote] = useState('');
+
+  const bookSessions = useMemo(
+    () => sessions.filter((s) => s.user_book_id === userBookId),
+    [sessions, userBookId]
+  );
+  const readerOptions = useMemo(() => getReaderOptions(sessions), [sessions]);
+
+  const resetForm = () => {
+    setReadAt(new Date());
+    setReader('');
+    setDuration(null);
+    setEngagement(null);
+    setNote('');
+  };
+
+  const handleToggleForm = () => {
+    HapticFeedback.light();
+    if (!isFormOpen) {
+      resetForm();
+    }
+    setIsFormOpen(!isFormOpen);
+  };
+
+  const handleSave = async () => {
+    if (isSaving) return;
+    HapticFeedback.medium();
+    setIsSaving(true);
+
+    try {
+      await logReadingSession({
+        user_book_id: userBookId,
+        read_at: readAt.toISOString(),
+        reader: reader || null,
+        duration_minutes: duration,
+        engagement,
+        note: note || null,
+      });
+      HapticFeedback.success();
+      setIsFormOpen(false);
+    } catch (error) {
+      console.error('ReadingLogSection: Error logging session:', error);
+      HapticFeedback.error();
+      Alert.alert('Error', 'Failed to log reading session');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (session: ReadingSession) => {
+    HapticFeedback.medium();
+    Alert.alert(
+      'Delete Reading',
+      `Remove the reading from ${new Date(session.read_at).toLocaleDateString()}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteReadingSession(session.id);
+            } catch (error) {
+              console.error('ReadingLogSection: Error deleting session:', error);
+              Alert.alert('Error', 'Failed to delete reading session');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View>
+      <View style={styles.headerRow}>
+        <Text style={styles.summaryText}>
+          {bookSessions.length === 0
+            ? 'Not logged yet'
+            : `Read ${bookSessions.length} ${bookSessions.length === 1 ? 'time' : 'times'}`}
+        </Text>
+        <TouchableOpacity style={styles.logButton} onPress={handleToggleForm}>
+          <IconSymbol
+            ios_icon_name={isFormOpen ? 'xmark' : 'plus'}
+            android_material_icon_name={isFormOpen ? 'close' : 'add'}
+            size={16}
+            color={colors.backgroundAlt}
+          />
+          <Text style={styles.logButtonText}>{isFormOpen ? 'Cancel' : 'Log a read'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {isFormOpen && (
+        <View style={styles.form}>
+          <WordDateField
+            label="Read on"
+            date={readAt.toISOString()}
+            minimumDate={selectedChild?.birth_date ? new Date(selectedChild.birth_date) : undefined}
+            onChange={setReadAt}
+          />
+
+          <Text style={styles.label}>Who read it?</Text>
+          <View style={styles.chips}>
+            {readerOptions.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, reader === option && styles.chipActive]}
+                onPress={() => {
+                  HapticFeedback.selection();
+                  setReader(reader === option ? '' : option);
+                }}
+              >
+                <Text style={[styles.chipText, reader === option && styles.chipTextActive]}>{option}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={styles.input}
+            value={readerOptions.includes(reader) ? '' : reader}
+            onChangeText={setReader}
+            placeholder="Someone else..."
+            placeholderTextColor={colors.textSecondary}
+          />
+
+          <Text style={styles.label}>About how long?</Text>
+          <View style={styles.chips}>
+            {READING_DURATION_OPTIONS.map((minutes) => (
+              <TouchableOpacity
+                key={minutes}
+                style={[styles.chip, duration === minutes && styles.chipActive]}
+                onPress={() => {
+                  HapticFeedback.selection();
+                  setDuration(duration === minutes ? null : minutes);
+                }}
+              >
+                <Text style={[styles.chipText, duration === minutes && styles.chipTextActive]}>{minutes} min</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>How engaged was {selectedChild?.name || 'your child'}?</Text>
+          <View style={styles.chips}>
+            {READING_ENGAGEMENT_LEVELS.map((level) => (
+              <TouchableOpacity
+                key={level.id}
+                style={[styles.chip, engagement === level.id && styles.chipActive]}
+                onPress={() => {
+                  HapticFeedback.selection();
+                  setEngagement(engagement === level.id ? null : level.id);
+                }}
+              >
+                <Text style={[styles.chipText, engagement === level.id && styles.chipTextActive]}>
+                  {level.emoji} {level.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Note</Text>
+          <TextInput
+            style={[styles.input, styles.noteInput]}
+            value={note}
+            onChangeText={setNote}
+            placeholder="Optional, e.g. turned the pages herself"
+            placeholderTextColor={colors.textSecondary}
+            multiline
+          />
+
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <ActivityIndicator color={colors.backgroundAlt} />
+            ) : (
+              <Text style={styles.saveButtonText}>Save Reading</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {bookSessions.slice(0, RECENT_SESSION_COUNT).map((session) => (
+        <View key={session.id} style={styles.sessionRow}>
+          <View style={styles.sessionInfo}>
+            <Text style={styles.sessionDate}>{new Date(session.read_at).toLocaleDateString()}</Text>
+            {formatReadingSessionDetails(session) !== '' && (
+              <Text style={styles.sessionDetails}>{formatReadingSessionDetails(session)}</Text>
+            )}
+            {session.note && <Text style={styles.sessionNote}>{session.note}</Text>}
+          </View>
+          <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(session)}>
+            <IconSymbol
+              ios_icon_name="trash"
+              android_material_icon_name="delete"
+              size={16}
+              color={colors.secondary}
+            />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  summaryText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  logButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  logButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+  form: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipActive: {
+    backgroundColor: colors.buttonBlue,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  chipTextActive: {
+    color: colors.backgroundAlt,
+  },
+  input: {
+    fontSize: 16,
+    color: colors.primary,
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginTop: 8,
+  },
+  noteInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  saveButton: {
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 16,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.background,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionDate: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  sessionDetails: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  sessionNote: {
+    fontSize: 13,
+    color: colors.text,
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 8,
+  },
+});
@@ -0,0 +1,133 @@
+
+import React, { useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { BottomSheetModal } from '@gorhom/bottom-sheet';
+import { colors } from '@/styles/commonStyles';
+import ReadingGoalBottomSheet from '@/components/ReadingGoalBottomSheet';
+import { useChild } from '@/contexts/ChildContext';
+import { useReadingGoal } from '@/contexts/ReadingGoalContext';
+import { formatReadingGoal } from '@/utils/readingGoals';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface ReadingStreakBadgeProps {
+  // 'pill' fits a screen header, 'card' shows goal progress as well
+  variant?: 'pill' | 'card';
+}
+
+/**
+ * Reading streak for the selected child; tapping it opens the reading goal settings
+ */
+export default function ReadingStreakBadge({ variant = 'pill' }: ReadingStreakBadgeProps) {
+  const { selectedChild } = useChild();
+  const { goal, status, isLoading } = useReadingGoal();
+  const goalSheetRef = useRef<BottomSheetModal>(null);
+
+  if (!selectedChild || isLoading) return null;
+
+  const handlePress = () => {
+    HapticFeedback.light();
+    goalSheetRef.current?.present();
+  };
+
+  const streakUnit = goal?.period === 'weekly' ? 'week' : 'day';
+  const streakLabel = status ? `${status.streak} ${streakUnit}${status.streak === 1 ? '' : 's'}` : '';
+  const progressRatio = status ? Math.min(1, status.progress / status.target) : 0;
+
+  return (
+    <>
+      {variant === 'pill' ? (
+        <TouchableOpacity style={styles.pill} onPress={handlePress}>
+          <Text style={styles.pillText}>
+            {goal && status ? `🔥 ${streakLabel}` : '🎯 Set goal'}
+          </Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity style={styles.card} onPress={handlePress} activeOpacity={0.8}>
+          {goal && status ? (
+            <>
+              <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle}>🔥 {streakLabel} reading streak</Text>
+                {status.currentMet && <Text style={styles.metBadge}>Goal met!</Text>}
+              </View>
+              <Text style={styles.cardSubtitle}>
+                {status.progress} of {formatReadingGoal(goal)}
+                {goal.period === 'daily' && goal.graceDays > 0
+                  ? ` · ${status.graceDaysLeft} grace ${status.graceDaysLeft === 1 ? 'day' : 'days'} left this week`
+                  : ''}
+              </Text>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${progressRatio * 100}%` }]} />
+              </View>
+            </>
+          ) : (
+            <>
+              <Text style={styles.cardTitle}>🎯 Set a reading goal</Text>
+              <Text style={styles.cardSubtitle}>
+                Track a daily or weekly reading streak with {selectedChild.name}
+              </Text>
+            </>
+          )}
+        </TouchableOpacity>
+      )}
+
+      <ReadingGoalBottomSheet ref={goalSheetRef} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  pill: {
+    backgroundColor: colors.cardOrange,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  pillText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  card: {
+    backgroundColor: colors.cardOrange,
+    borderRadius: 20,
+    padding: 16,
+    marginBottom: 24,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  metBadge: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 12,
+    overflow: 'hidden',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  cardSubtitle: {
+    fontSize: 14,
+    color: colors.text,
+    marginTop: 6,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.backgroundAlt,
+    marginTop: 12,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: colors.buttonBlue,
+  },
+});
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { formatLoanDate, LibraryLoan } from '@/utils/libraryLoans';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface ReturnedBook extends Partial<LibraryLoan> {
+  id: string;
+  book: { title: string };
+}
+
+interface ReturnedBooksSectionProps<T extends ReturnedBook> {
+  books: T[];
+  onPressBook: (book: T) => void;
+}
+
+/**
+ * Collapsed list of library books that went back, below the active shelf
+ * Opening one shows its reading log and lets it be borrowed again
+ */
+export default function ReturnedBooksSection<T extends ReturnedBook>({ books, onPressBook }: ReturnedBooksSectionProps<T>) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (books.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.headerRow}
+        onPress={() => {
+          HapticFeedback.light();
+          setIsExpanded(!isExpanded);
+        }}
+      >
+        <Text style={styles.title}>Returned to the library · {books.length}</Text>
+        <IconSymbol
+          ios_icon_name={isExpanded ? 'chevron.up' : 'chevron.down'}
+          android_material_icon_name={isExpanded ? 'expand-less' : 'expand-more'}
+          size={20}
+          color={colors.textSecondary}
+        />
+      </TouchableOpacity>
+
+      {isExpanded && books.map((userBook) => (
+        <TouchableOpacity
+          key={userBook.id}
+          style={styles.bookRow}
+          onPress={() => {
+            HapticFeedback.light();
+            onPressBook(userBook);
+          }}
+        >
+          <Text style={styles.bookTitle} numberOfLines={1}>{userBook.book.title}</Text>
+          <Text style={styles.bookDetails} numberOfLines={1}>
+            {[userBook.library_name, userBook.returned_on && `Returned ${formatLoanDate(userBook.returned_on)}`]
+              .filter(Boolean)
+              .join(' · ')}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.textSecondary,
+  },
+  bookRow: {
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginTop: 8,
+  },
+  bookTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  bookDetails: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+});
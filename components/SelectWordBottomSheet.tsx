@@ -7,6 +7,7 @@ import { IconSymbol } from '@/components/IconSymbol';
 import AddWordBottomSheet from '@/components/AddWordBottomSheet';
 import { supabase } from '@/app/integrations/supabase/client';
 import { useChild } from '@/contexts/ChildContext';
+import type { WordCategory } from '@/data/wordCategories';
 
 interface Word {
   id: string;
@@ -19,10 +20,13 @@ interface SelectWordBottomSheetProps {
   words: Word[];
   onSelectWord: (wordId: string) => void;
   onClose: () => void;
+  // Set when the video was recorded for a book, linking a word is then optional
+  bookTitle?: string | null;
+  onSaveToBookOnly?: () => void;
 }
 
 const SelectWordBottomSheet = forwardRef<BottomSheetModal, SelectWordBottomSheetProps>(
-  ({ words, onSelectWord, onClose }, ref) => {
+  ({ words, onSelectWord, onClose, bookTitle, onSaveToBookOnly }, ref) => {
     const snapPoints = useMemo(() => ['75%'], []);
     const [searchQuery, setSearchQuery] = useState('');
     const [filteredWords, setFilteredWords] = useState<Word[]>(words);
@@ -69,7 +73,7 @@ const SelectWordBottomSheet = forwardRef<BottomSheetModal, SelectWordBottomSheet
       addWordSheetRef.current?.present();
     };
 
-    const handleAddWord = async (word: string, emoji: string, color: string) => {
+    const handleAddWord = async (word: string, emoji: string, color: string, category: WordCategory) => {
       if (!selectedChild) {
         Alert.alert('Error', 'Please select a child first');
         return;
@@ -104,6 +108,7 @@ const SelectWordBottomSheet = forwardRef<BottomSheetModal, SelectWordBottomSheet
             custom_word: word,
             custom_emoji: emoji,
             color,
+            category,
           })
           .select()
           .single();
@@ -162,7 +167,23 @@ const SelectWordBottomSheet = forwardRef<BottomSheetModal, SelectWordBottomSheet
             keyboardShouldPersistTaps="handled"
           >
             <Text style={styles.title}>Select a Word</Text>
-            <Text style={styles.subtitle}>Choose which word this video is for</Text>
+            <Text style={styles.subtitle}>
+              {bookTitle
+                ? `Link this video to a word too, or save it to "${bookTitle}" only`
+                : 'Choose which word this video is for'}
+            </Text>
+
+            {!!bookTitle && onSaveToBookOnly && (
+              <TouchableOpacity style={styles.bookOnlyButton} onPress={onSaveToBookOnly}>
+                <IconSymbol
+                  ios_icon_name="book.fill"
+                  android_material_icon_name="menu-book"
+                  size={20}
+                  color={colors.backgroundAlt}
+                />
+                <Text style={styles.bookOnlyButtonText}>Save to book only</Text>
+              </TouchableOpacity>
+            )}
 
             <View style={styles.searchContainer}>
               <View style={styles.searchBar}>
@@ -261,6 +282,21 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     textAlign: 'center',
   },
+  bookOnlyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 24,
+    paddingVertical: 14,
+    marginBottom: 20,
+  },
+  bookOnlyButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
   searchContainer: {
     flexDirection: 'row',
     alignItems: 'center',
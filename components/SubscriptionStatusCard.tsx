@@ -17,6 +17,7 @@ export default function SubscriptionStatusCard() {
     remainingWords, 
     remainingBooks, 
     remainingChildren,
+    remainingPhotos,
     showPaywall,
     showCustomerCenter,
   } = useSubscription();
@@ -89,6 +90,15 @@ export default function SubscriptionStatusCard() {
             />
             <Text style={styles.statText}>2 children</Text>
           </View>
+          <View style={styles.statItem}>
+            <IconSymbol
+              ios_icon_name="photo.fill"
+              android_material_icon_name="photo"
+              size={20}
+              color={colors.buttonBlue}
+            />
+            <Text style={styles.statText}>Unlimited photos</Text>
+          </View>
         </View>
 
         <TouchableOpacity style={styles.manageButton} onPress={handleManageSubscription}>
@@ -207,6 +217,33 @@ export default function SubscriptionStatusCard() {
             {currentUsage.children} / {QUOTA_LIMITS.free.children} used
           </Text>
         </View>
+
+        <View style={styles.quotaItem}>
+          <View style={styles.quotaHeader}>
+            <IconSymbol
+              ios_icon_name="photo.fill"
+              android_material_icon_name="photo"
+              size={20}
+              color={colors.buttonBlue}
+            />
+            <Text style={styles.quotaLabel}>Photos</Text>
+          </View>
+          <View style={styles.quotaBar}>
+            <View 
+              style={[
+                styles.quotaProgress, 
+                { 
+                  width: `${Math.min(100, (currentUsage.photos / QUOTA_LIMITS.free.photos) * 100)}%`,
+                  backgroundColor: remainingPhotos > 5 ? colors.cardGreen : colors.secondary,
+                }
+              ]} 
+            />
+          </View>
+          <Text style={styles.quotaText}>
+            {currentUsage.photos} / {QUOTA_LIMITS.free.photos} used
+            {remainingPhotos > 0 && ` (${remainingPhotos} remaining)`}
+          </Text>
+        </View>
       </View>
 
       <TouchableOpacity 
@@ -9,7 +9,7 @@ import { useSubscription, QUOTA_LIMITS } from '@/contexts/SubscriptionContext';
 interface UpgradePromptModalProps {
   visible: boolean;
   onClose: () => void;
-  quotaType: 'word' | 'book' | 'child';
+  quotaType: 'word' | 'book' | 'child' | 'photo';
 }
 
 const QUOTA_MESSAGES = {
@@ -28,6 +28,11 @@ const QUOTA_MESSAGES = {
     message: 'You\'ve reached the free tier limit of 1 child.',
     benefit: 'Upgrade to Pro to add up to 2 children!',
   },
+  photo: {
+    title: 'Photo Limit Reached',
+    message: 'You\'ve reached the free tier limit of 30 photos.',
+    benefit: 'Upgrade to Pro for unlimited photos!',
+  },
 };
 
 export default function UpgradePromptModal({ visible, onClose, quotaType }: UpgradePromptModalProps) {
@@ -108,6 +113,15 @@ export default function UpgradePromptModal({ visible, onClose, quotaType }: Upgr
                 />
                 <Text style={styles.tierFeatureText}>1 child</Text>
               </View>
+              <View style={styles.tierFeature}>
+                <IconSymbol
+                  ios_icon_name="checkmark.circle.fill"
+                  android_material_icon_name="check-circle"
+                  size={20}
+                  color={colors.cardGreen}
+                />
+                <Text style={styles.tierFeatureText}>30 photos</Text>
+              </View>
             </View>
 
             <View style={[styles.tierCard, styles.proCard]}>
@@ -142,6 +156,15 @@ export default function UpgradePromptModal({ visible, onClose, quotaType }: Upgr
                 />
                 <Text style={styles.tierFeatureTextBold}>2 children</Text>
               </View>
+              <View style={styles.tierFeature}>
+                <IconSymbol
+                  ios_icon_name="checkmark.circle.fill"
+                  android_material_icon_name="check-circle"
+                  size={20}
+                  color={colors.buttonBlue}
+                />
+                <Text style={styles.tierFeatureTextBold}>Unlimited photos</Text>
+              </View>
             </View>
           </View>
 
@@ -0,0 +1,203 @@
+import React, { forwardRef, useMemo, useCallback } from 'react';
+import { View, Text, StyleSheet, Dimensions } from 'react-native';
+import { BottomSheetBackdrop, BottomSheetScrollView, BottomSheetModal } from '@gorhom/bottom-sheet';
+import { colors } from '@/styles/commonStyles';
+import BenchmarkRangeBar from '@/components/BenchmarkRangeBar';
+import { VOCABULARY_BENCHMARKS, BENCHMARK_SOURCE_NOTE } from '@/data/vocabularyBenchmarks';
+import { formatAgeLabel } from '@/utils/growthTimeline';
+import type { VocabularyBenchmarkResult } from '@/utils/vocabularyBenchmark';
+
+const { height: screenHeight } = Dimensions.get('window');
+
+interface VocabularyBenchmarkBottomSheetProps {
+  result: VocabularyBenchmarkResult | null;
+  childName: string;
+}
+
+const VocabularyBenchmarkBottomSheet = forwardRef<BottomSheetModal, VocabularyBenchmarkBottomSheetProps>(
+  ({ result, childName }, ref) => {
+    const snapPoints = useMemo(() => [screenHeight * 0.85], []);
+
+    const renderBackdrop = useCallback(
+      (props: any) => (
+        <BottomSheetBackdrop
+          {...props}
+          disappearsOnIndex={-1}
+          appearsOnIndex={0}
+          opacity={0.5}
+          pressBehavior="close"
+        />
+      ),
+      []
+    );
+
+    if (!result) return null;
+
+    return (
+      <BottomSheetModal
+        ref={ref}
+        index={0}
+        snapPoints={snapPoints}
+        enablePanDownToClose={true}
+        enableDismissOnClose={true}
+        enableDynamicSizing={false}
+        backdropComponent={renderBackdrop}
+        backgroundStyle={styles.bottomSheetBackground}
+        handleIndicatorStyle={styles.handleIndicator}
+        animateOnMount={true}
+        enableContentPanningGesture={true}
+      >
+        <BottomSheetScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.contentContainer}
+        >
+          <Text style={styles.title}>{childName}&apos;s words</Text>
+          <Text style={styles.subtitle}>
+            {result.tooYoung
+              ? `${childName} is ${formatAgeLabel(result.ageMonths)}. Ranges below are for 12 months, the youngest age they are published for.`
+              : result.ageMonths > result.benchmarkAgeMonths
+                ? `${childName} is ${formatAgeLabel(result.ageMonths)}. Ranges below are for ${formatAgeLabel(result.benchmarkAgeMonths)}, the oldest age they are published for.`
+                : `Compared with other children around ${formatAgeLabel(result.benchmarkAgeMonths)}`}
+          </Text>
+
+          <View style={styles.card}>
+            <BenchmarkRangeBar label="Says" comparison={result.expressive} color={colors.secondary} />
+            <Text style={styles.message}>{result.expressive.message}</Text>
+          </View>
+
+          <View style={styles.card}>
+            {result.receptive ? (
+              <>
+                <BenchmarkRangeBar label="Understands" comparison={result.receptive} color={colors.primary} />
+                <Text style={styles.message}>{result.receptive.message}</Text>
+              </>
+            ) : (
+              <Text style={styles.message}>
+                Words understood are only measured up to 18 months, so there is no range to compare {childName}&apos;s with now. Keep adding the words {childName} understands - it&apos;s lovely to look back on.
+              </Text>
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Typical ranges by age</Text>
+          <View style={styles.table}>
+            <View style={[styles.tableRow, styles.tableHeader]}>
+              <Text style={[styles.tableCell, styles.tableHeaderText]}>Age</Text>
+              <Text style={[styles.tableCell, styles.tableHeaderText]}>Says</Text>
+              <Text style={[styles.tableCell, styles.tableHeaderText]}>Understands</Text>
+            </View>
+            {VOCABULARY_BENCHMARKS.map((band) => (
+              <View key={band.ageMonths} style={styles.tableRow}>
+                <Text style={styles.tableCell}>{band.ageMonths} months</Text>
+                <Text style={styles.tableCell}>{band.expressive.low}–{band.expressive.high}</Text>
+                <Text style={styles.tableCell}>
+                  {band.receptive ? `${band.receptive.low}–${band.receptive.high}` : '–'}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          <Text style={styles.sectionTitle}>Good to know</Text>
+          <Text style={styles.note}>
+            Only the words you have added in the app are counted, so the numbers are usually lower than what {childName} really knows.
+          </Text>
+          <Text style={styles.note}>
+            Children vary a lot - many late talkers catch up on their own. If you ever have a worry about {childName}&apos;s speech or hearing, your health visitor, GP or paediatrician is always happy to talk it through.
+          </Text>
+          <Text style={styles.sourceNote}>{BENCHMARK_SOURCE_NOTE}</Text>
+        </BottomSheetScrollView>
+      </BottomSheetModal>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  bottomSheetBackground: {
+    backgroundColor: colors.backgroundAlt,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+  },
+  handleIndicator: {
+    backgroundColor: colors.primary,
+    width: 40,
+    height: 4,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingBottom: 40,
+    paddingHorizontal: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: colors.primary,
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  card: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+  },
+  message: {
+    fontSize: 15,
+    color: colors.text,
+    lineHeight: 22,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.primary,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  table: {
+    borderRadius: 12,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: colors.tabInactive,
+    marginBottom: 16,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.tabInactive,
+  },
+  tableHeader: {
+    backgroundColor: colors.background,
+    borderTopWidth: 0,
+  },
+  tableCell: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+  },
+  tableHeaderText: {
+    fontWeight: '700',
+  },
+  note: {
+    fontSize: 15,
+    color: colors.text,
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  sourceNote: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    lineHeight: 18,
+    marginTop: 8,
+  },
+});
+
+export default VocabularyBenchmarkBottomSheet;
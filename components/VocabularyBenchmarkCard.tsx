@@ -0,0 +1,101 @@
+
+import React, { useMemo, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { BottomSheetModal } from '@gorhom/bottom-sheet';
+import { colors } from '@/styles/commonStyles';
+import { useChild } from '@/contexts/ChildContext';
+import { useProfileStats } from '@/contexts/ProfileStatsContext';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import BenchmarkRangeBar from '@/components/BenchmarkRangeBar';
+import VocabularyBenchmarkBottomSheet from '@/components/VocabularyBenchmarkBottomSheet';
+import { HapticFeedback } from '@/utils/haptics';
+import { evaluateVocabularyBenchmark } from '@/utils/vocabularyBenchmark';
+
+export default function VocabularyBenchmarkCard() {
+  const { selectedChild } = useChild();
+  const { growthData } = useProfileStats();
+  const { canAddWord } = useSubscription();
+  const detailSheetRef = useRef<BottomSheetModal>(null);
+
+  const result = useMemo(() => {
+    if (!selectedChild?.birth_date || !growthData) return null;
+    return evaluateVocabularyBenchmark(selectedChild.birth_date, {
+      spoken: growthData.words.filter((w) => w.is_spoken).length,
+      recognised: growthData.words.filter((w) => w.is_recognised).length,
+      atWordLimit: !canAddWord,
+    });
+  }, [selectedChild?.birth_date, growthData, canAddWord]);
+
+  if (!selectedChild || !result) return null;
+
+  const handleFindOutMore = () => {
+    HapticFeedback.medium();
+    console.log('VocabularyBenchmarkCard: Opening benchmark detail');
+    detailSheetRef.current?.present();
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Words for their age</Text>
+      <View style={styles.card}>
+        {result.tooYoung ? (
+          <Text style={styles.message}>
+            Word ranges start from 12 months. Until then, every coo and babble counts - keep adding the words {selectedChild.name} hears and reacts to!
+          </Text>
+        ) : (
+          <>
+            <BenchmarkRangeBar label="Says" comparison={result.expressive} color={colors.secondary} />
+            {result.receptive && (
+              <BenchmarkRangeBar label="Understands" comparison={result.receptive} color={colors.primary} />
+            )}
+          </>
+        )}
+        <TouchableOpacity style={styles.button} onPress={handleFindOutMore}>
+          <Text style={styles.buttonText}>Find out more</Text>
+        </TouchableOpacity>
+      </View>
+
+      <VocabularyBenchmarkBottomSheet
+        ref={detailSheetRef}
+        result={result}
+        childName={selectedChild.name}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.primary,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 16,
+    padding: 16,
+    boxShadow: '0px 4px 8px rgba(0, 0, 0, 0.1)',
+    elevation: 3,
+  },
+  message: {
+    fontSize: 15,
+    color: colors.text,
+    lineHeight: 22,
+    marginBottom: 16,
+  },
+  button: {
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 20,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+});
@@ -0,0 +1,437 @@
+
+import React, { forwardRef, useMemo, useState, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { BottomSheetBackdrop, BottomSheetScrollView, BottomSheetModal } from '@gorhom/bottom-sheet';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import UpgradePromptModal from '@/components/UpgradePromptModal';
+import { supabase } from '@/app/integrations/supabase/client';
+import { useChild } from '@/contexts/ChildContext';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import { FIRST_WORDS_CHECKLIST, ChecklistWord } from '@/data/firstWordsChecklist';
+import { getCategoryInfo, getColorForWord } from '@/utils/wordCategories';
+import { HapticFeedback } from '@/utils/haptics';
+import type { WordCategory } from '@/data/wordCategories';
+
+interface WordChecklistBottomSheetProps {
+  // Words the child already has, hidden from selection
+  existingWords: string[];
+  onWordsAdded: () => void;
+}
+
+interface ChecklistSelection {
+  spoken: boolean;
+  recognised: boolean;
+}
+
+interface SelectedWord extends ChecklistWord, ChecklistSelection {
+  category: WordCategory;
+}
+
+const normalizeWord = (value: string): string => value.toLowerCase().trim();
+
+const WordChecklistBottomSheet = forwardRef<BottomSheetModal, WordChecklistBottomSheetProps>(
+  ({ existingWords, onWordsAdded }, ref) => {
+    const snapPoints = useMemo(() => ['90%'], []);
+    const { selectedChild } = useChild();
+    const { remainingWords, refreshUsage, showPaywall } = useSubscription();
+    const [selections, setSelections] = useState<Record<string, ChecklistSelection>>({});
+    const [expandedSections, setExpandedSections] = useState<Set<number>>(new Set([0]));
+    const [isSaving, setIsSaving] = useState(false);
+    const [showUpgradeModal, setShowUpgradeModal] = useState(false);
+
+    const existingSet = useMemo(() => new Set(existingWords.map(normalizeWord)), [existingWords]);
+
+    // Selected words in checklist order, so a partial add keeps the earliest (most common) words
+    const selectedWords = useMemo(() => {
+      const result: SelectedWord[] = [];
+      FIRST_WORDS_CHECKLIST.forEach((section) => {
+        section.words.forEach((item) => {
+          const selection = selections[item.word];
+          if (selection && (selection.spoken || selection.recognised) && !existingSet.has(normalizeWord(item.word))) {
+            result.push({ ...item, ...selection, category: section.category });
+          }
+        });
+      });
+      return result;
+    }, [selections, existingSet]);
+
+    const renderBackdrop = useCallback(
+      (props: any) => (
+        <BottomSheetBackdrop
+          {...props}
+          disappearsOnIndex={-1}
+          appearsOnIndex={0}
+          opacity={0.5}
+          pressBehavior="close"
+        />
+      ),
+      []
+    );
+
+    const toggleSection = (index: number) => {
+      HapticFeedback.light();
+      setExpandedSections((prev) => {
+        const next = new Set(prev);
+        if (next.has(index)) {
+          next.delete(index);
+        } else {
+          next.add(index);
+        }
+        return next;
+      });
+    };
+
+    // Saying a word implies understanding it, so "Says" ticks both and clearing "Understands" clears both
+    const toggleSelection = (word: string, type: 'spoken' | 'recognised') => {
+      HapticFeedback.selection();
+      setSelections((prev) => {
+        const current = prev[word] || { spoken: false, recognised: false };
+        let next: ChecklistSelection;
+        if (type === 'spoken') {
+          next = current.spoken
+            ? { ...current, spoken: false }
+            : { spoken: true, recognised: true };
+        } else {
+          next = current.recognised
+            ? { spoken: false, recognised: false }
+            : { ...current, recognised: true };
+        }
+        return { ...prev, [word]: next };
+      });
+    };
+
+    const saveWords = async (wordsToAdd: SelectedWord[]) => {
+      if (!selectedChild || wordsToAdd.length === 0) return;
+
+      setIsSaving(true);
+      try {
+        console.log('WordChecklistBottomSheet: Adding', wordsToAdd.length, 'words');
+
+        // Re-check against the database in case words were added elsewhere since the sheet opened
+        const { data: existingUserWords, error: checkError } = await supabase
+          .from('user_words')
+          .select('custom_word')
+          .eq('child_id', selectedChild.id);
+
+        if (checkError) {
+          console.error('WordChecklistBottomSheet: Error checking user words:', checkError);
+          throw checkError;
+        }
+
+        const alreadyAdded = new Set((existingUserWords || []).map((uw: any) => normalizeWord(uw.custom_word || '')));
+        const rows = wordsToAdd
+          .filter((w) => !alreadyAdded.has(normalizeWord(w.word)))
+          .map((w) => ({
+            child_id: selectedChild.id,
+            custom_word: w.word,
+            custom_emoji: w.emoji,
+            color: getColorForWord(w.word),
+            category: w.category,
+            is_spoken: w.spoken,
+            is_recognised: w.recognised,
+          }));
+
+        if (rows.length > 0) {
+          const { error: insertError } = await supabase
+            .from('user_words')
+            .insert(rows);
+
+          if (insertError) {
+            console.error('WordChecklistBottomSheet: Error adding words:', insertError);
+            throw insertError;
+          }
+        }
+
+        console.log('WordChecklistBottomSheet: Added', rows.length, 'words');
+        HapticFeedback.success();
+        setSelections({});
+        (ref as React.RefObject<BottomSheetModal>)?.current?.dismiss();
+
+        await refreshUsage();
+        onWordsAdded();
+
+        Alert.alert('Words Added', `${rows.length} ${rows.length === 1 ? 'word was' : 'words were'} added to ${selectedChild.name}'s list.`);
+      } catch (error) {
+        console.error('WordChecklistBottomSheet: Error in saveWords:', error);
+        HapticFeedback.error();
+        Alert.alert('Error', 'Failed to add words');
+      } finally {
+        setIsSaving(false);
+      }
+    };
+
+    const handleAddPress = () => {
+      if (selectedWords.length === 0 || isSaving) return;
+      HapticFeedback.medium();
+
+      if (remainingWords <= 0) {
+        console.log('WordChecklistBottomSheet: Word quota reached');
+        HapticFeedback.warning();
+        setShowUpgradeModal(true);
+        return;
+      }
+
+      if (selectedWords.length > remainingWords) {
+        console.log('WordChecklistBottomSheet: Selection exceeds remaining quota:', remainingWords);
+        HapticFeedback.warning();
+        Alert.alert(
+          'Word Limit',
+          `Your free plan has room for ${remainingWords} more ${remainingWords === 1 ? 'word' : 'words'}, but ${selectedWords.length} are ticked.`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Upgrade', onPress: () => showPaywall() },
+            { text: `Add ${remainingWords}`, onPress: () => saveWords(selectedWords.slice(0, remainingWords)) },
+          ]
+        );
+        return;
+      }
+
+      saveWords(selectedWords);
+    };
+
+    return (
+      <>
+        <BottomSheetModal
+          ref={ref}
+          index={0}
+          snapPoints={snapPoints}
+          enablePanDownToClose={true}
+          enableDismissOnClose={true}
+          enableDynamicSizing={false}
+          backdropComponent={renderBackdrop}
+          backgroundStyle={styles.bottomSheetBackground}
+          handleIndicatorStyle={styles.handleIndicator}
+          animateOnMount={true}
+          enableContentPanningGesture={true}
+        >
+          <View style={styles.header}>
+            <Text style={styles.title}>First Words Checklist</Text>
+            <Text style={styles.subtitle}>
+              Tick what {selectedChild?.name || 'your child'} says or understands. Ticking Says also ticks Understands.
+            </Text>
+            <TouchableOpacity
+              style={[styles.addButton, (selectedWords.length === 0 || isSaving) && styles.addButtonDisabled]}
+              onPress={handleAddPress}
+              disabled={selectedWords.length === 0 || isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator color={colors.backgroundAlt} />
+              ) : (
+                <Text style={styles.addButtonText}>
+                  {selectedWords.length === 0
+                    ? 'Tick words to add'
+                    : `Add ${selectedWords.length} ${selectedWords.length === 1 ? 'word' : 'words'}`}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <BottomSheetScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.contentContainer}
+          >
+            {FIRST_WORDS_CHECKLIST.map((section, sectionIndex) => {
+              const info = getCategoryInfo(section.category);
+              const isExpanded = expandedSections.has(sectionIndex);
+              const tickedCount = section.words.filter((w) => {
+                const s = selections[w.word];
+                return s && (s.spoken || s.recognised) && !existingSet.has(normalizeWord(w.word));
+              }).length;
+
+              return (
+                <View key={section.title || section.category} style={styles.section}>
+                  <TouchableOpacity style={styles.sectionHeader} onPress={() => toggleSection(sectionIndex)}>
+                    <Text style={styles.sectionTitle}>
+                      {info.emoji} {section.title || info.label}
+                    </Text>
+                    <View style={styles.sectionHeaderRight}>
+                      {tickedCount > 0 && (
+                        <View style={styles.countBadge}>
+                          <Text style={styles.countBadgeText}>{tickedCount}</Text>
+                        </View>
+                      )}
+                      <IconSymbol
+                        ios_icon_name={isExpanded ? 'chevron.up' : 'chevron.down'}
+                        android_material_icon_name={isExpanded ? 'expand-less' : 'expand-more'}
+                        size={20}
+                        color={colors.primary}
+                      />
+                    </View>
+                  </TouchableOpacity>
+
+                  {isExpanded && section.words.map((item) => {
+                    const isExisting = existingSet.has(normalizeWord(item.word));
+                    const selection = selections[item.word];
+
+                    return (
+                      <View key={item.word} style={styles.wordRow}>
+                        <Text style={styles.wordEmoji}>{item.emoji}</Text>
+                        <Text style={[styles.wordText, isExisting && styles.wordTextExisting]}>{item.word}</Text>
+                        {isExisting ? (
+                          <Text style={styles.existingText}>Added</Text>
+                        ) : (
+                          <View style={styles.pills}>
+                            <TouchableOpacity
+                              style={[styles.pill, selection?.spoken && styles.pillActive]}
+                              onPress={() => toggleSelection(item.word, 'spoken')}
+                            >
+                              <Text style={[styles.pillText, selection?.spoken && styles.pillTextActive]}>Says</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                              style={[styles.pill, selection?.recognised && styles.pillActive]}
+                              onPress={() => toggleSelection(item.word, 'recognised')}
+                            >
+                              <Text style={[styles.pillText, selection?.recognised && styles.pillTextActive]}>Understands</Text>
+                            </TouchableOpacity>
+                          </View>
+                        )}
+                      </View>
+                    );
+                  })}
+                </View>
+              );
+            })}
+          </BottomSheetScrollView>
+        </BottomSheetModal>
+
+        <UpgradePromptModal
+          visible={showUpgradeModal}
+          onClose={() => setShowUpgradeModal(false)}
+          quotaType="word"
+        />
+      </>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  bottomSheetBackground: {
+    backgroundColor: colors.backgroundAlt,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+  },
+  handleIndicator: {
+    backgroundColor: colors.primary,
+    width: 40,
+    height: 4,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.tabInactive,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.primary,
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  addButton: {
+    backgroundColor: colors.buttonBlue,
+    borderRadius: 16,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  section: {
+    borderBottomWidth: 1,
+    borderBottomColor: colors.tabInactive,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 14,
+  },
+  sectionHeaderRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  countBadge: {
+    backgroundColor: colors.secondary,
+    borderRadius: 10,
+    minWidth: 20,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    alignItems: 'center',
+  },
+  countBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.backgroundAlt,
+  },
+  wordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  wordEmoji: {
+    fontSize: 22,
+    width: 36,
+  },
+  wordText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  wordTextExisting: {
+    color: colors.textSecondary,
+  },
+  existingText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  pills: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  pill: {
+    borderWidth: 1.5,
+    borderColor: colors.primary,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+  },
+  pillActive: {
+    backgroundColor: colors.primary,
+  },
+  pillText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  pillTextActive: {
+    color: colors.backgroundAlt,
+  },
+});
+
+export default WordChecklistBottomSheet;
@@ -0,0 +1,127 @@
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { HapticFeedback } from '@/utils/haptics';
+
+interface WordDateFieldProps {
+  label: string;
+  date: string | null;
+  minimumDate?: Date;
+  mode?: 'date' | 'time';
+  // Dates are in the past unless set, e.g. a library book's due date
+  allowFuture?: boolean;
+  onChange: (date: Date) => void;
+}
+
+const formatDate = (date: Date, mode: 'date' | 'time') => {
+  if (mode === 'time') {
+    return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  }
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+};
+
+/**
+ * Tappable date row using the same picker as the birth date in Settings
+ * Android saves when the dialog is confirmed; the iOS spinner saves with Done
+ * In time mode only the time of day is picked and future dates aren't blocked
+ */
+export default function WordDateField({
+  label,
+  date,
+  minimumDate,
+  mode = 'date',
+  allowFuture = false,
+  onChange,
+}: WordDateFieldProps) {
+  const [showPicker, setShowPicker] = useState(false);
+  const [pendingDate, setPendingDate] = useState<Date>(date ? new Date(date) : new Date());
+
+  const handleOpen = () => {
+    HapticFeedback.light();
+    setPendingDate(date ? new Date(date) : new Date());
+    setShowPicker(true);
+  };
+
+  const handlePickerChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
+    if (Platform.OS !== 'ios') {
+      setShowPicker(false);
+      if (event.type === 'set' && selectedDate) {
+        HapticFeedback.selection();
+        onChange(selectedDate);
+      }
+      return;
+    }
+
+    if (selectedDate) {
+      HapticFeedback.selection();
+      setPendingDate(selectedDate);
+    }
+  };
+
+  const handleDone = () => {
+    HapticFeedback.medium();
+    setShowPicker(false);
+    onChange(pendingDate);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <TouchableOpacity style={styles.dateButton} onPress={showPicker ? handleDone : handleOpen}>
+        <Text style={styles.dateButtonText}>
+          {showPicker ? 'Done' : date ? formatDate(new Date(date), mode) : 'Not set'}
+        </Text>
+        <IconSymbol
+          ios_icon_name={showPicker ? 'checkmark' : mode === 'time' ? 'clock' : 'calendar'}
+          android_material_icon_name={showPicker ? 'check' : mode === 'time' ? 'schedule' : 'calendar-today'}
+          size={18}
+          color={colors.primary}
+        />
+      </TouchableOpacity>
+
+      {showPicker && (
+        <DateTimePicker
+          value={pendingDate}
+          mode={mode}
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handlePickerChange}
+          minimumDate={minimumDate}
+          maximumDate={mode === 'date' && !allowFuture ? new Date() : undefined}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginBottom: 6,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  dateButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+});
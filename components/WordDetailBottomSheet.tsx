@@ -1,6 +1,6 @@
 
 import React, { forwardRef, useMemo, useState, useEffect, useCallback } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Alert, Dimensions, Platform, TextInput, TouchableWithoutFeedback } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Dimensions, Platform, TextInput, TouchableWithoutFeedback, ScrollView } from 'react-native';
 import { BottomSheetBackdrop, BottomSheetScrollView, BottomSheetModal } from '@gorhom/bottom-sheet';
 import { colors } from '@/styles/commonStyles';
 import { IconSymbol } from '@/components/IconSymbol';
@@ -9,11 +9,26 @@ import { useVideoRecording } from '@/contexts/VideoRecordingContext';
 import { useCameraTrigger } from '@/contexts/CameraTriggerContext';
 import { useStats } from '@/contexts/StatsContext';
 import { useProfileStats } from '@/contexts/ProfileStatsContext';
+import { useMilestones } from '@/contexts/MilestonesContext';
+import { useChild } from '@/contexts/ChildContext';
 import FullScreenVideoPlayer from '@/components/FullScreenVideoPlayer';
+import FullScreenPhotoViewer from '@/components/FullScreenPhotoViewer';
+import UpgradePromptModal from '@/components/UpgradePromptModal';
+import AudioMomentPlayer from '@/components/AudioMomentPlayer';
+import PronunciationTimeline from '@/components/PronunciationTimeline';
+import WordDateField from '@/components/WordDateField';
 import { Image } from 'expo-image';
 import { processMomentsWithSignedUrls } from '@/utils/videoStorage';
+import { deleteAudioFile, processAudioMomentsWithSignedUrls } from '@/utils/audioStorage';
+import { deletePhotoFile, processPhotoMomentsWithSignedUrls } from '@/utils/photoStorage';
+import { useMomentUploads } from '@/contexts/MomentUploadsContext';
+import { useAddPhotoMoment } from '@/hooks/useAddPhotoMoment';
 import { regenerateMomentThumbnail } from '@/utils/thumbnailRegeneration';
 import * as Haptics from 'expo-haptics';
+import { WORD_CATEGORIES, WordCategory } from '@/data/wordCategories';
+import { PRONUNCIATION_STAGES, PronunciationStage } from '@/data/pronunciationStages';
+import { fetchPronunciationHistory, savePronunciation, PronunciationHistoryEntry } from '@/utils/pronunciationHistory';
+import { getStatusDateUpdate, updateWordFirstDate, WordDateField as WordDateFieldName } from '@/utils/wordDates';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -25,18 +40,31 @@ interface Word {
   is_spoken: boolean;
   is_recognised: boolean;
   is_recorded: boolean;
+  category?: WordCategory;
+  pronunciation_stage?: PronunciationStage | null;
+  pronunciation?: string | null;
+  first_spoken_at?: string | null;
+  first_recognised_at?: string | null;
+  created_at?: string;
 }
 
 interface Moment {
   id: string;
-  video_url: string;
+  media_type?: 'video' | 'audio' | 'photo';
+  video_url: string | null;
+  audio_url?: string | null;
+  photo_url?: string | null;
+  waveform?: number[] | null;
   thumbnail_url?: string;
   created_at: string;
   trim_start?: number;
   trim_end?: number;
   child_id?: string;
+  user_book_id?: string | null;
   signedVideoUrl?: string | null;
   signedThumbnailUrl?: string | null;
+  signedAudioUrl?: string | null;
+  signedPhotoUrl?: string | null;
 }
 
 interface WordDetailBottomSheetProps {
@@ -49,12 +77,23 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
   ({ word, onClose, onRefresh }, ref) => {
     const { refreshStats } = useStats();
     const { fetchProfileStats } = useProfileStats();
+    const { checkMilestones } = useMilestones();
+    const { selectedChild } = useChild();
     const [moments, setMoments] = useState<Moment[]>([]);
     const [loading, setLoading] = useState(false);
     const [isSpoken, setIsSpoken] = useState(false);
     const [isRecognised, setIsRecognised] = useState(false);
+    const [category, setCategory] = useState<WordCategory>('other');
+    const [firstSpokenAt, setFirstSpokenAt] = useState<string | null>(null);
+    const [firstRecognisedAt, setFirstRecognisedAt] = useState<string | null>(null);
+    const [pronunciationStage, setPronunciationStage] = useState<PronunciationStage | null>(null);
+    const [pronunciationText, setPronunciationText] = useState('');
+    const [savedPronunciationText, setSavedPronunciationText] = useState('');
+    const [pronunciationHistory, setPronunciationHistory] = useState<PronunciationHistoryEntry[]>([]);
+    const [isSavingPronunciation, setIsSavingPronunciation] = useState(false);
     const [selectedMoment, setSelectedMoment] = useState<Moment | null>(null);
     const [showVideoPlayer, setShowVideoPlayer] = useState(false);
+    const [viewingPhoto, setViewingPhoto] = useState<Moment | null>(null);
     const [isEditMode, setIsEditMode] = useState(false);
     const [editedWord, setEditedWord] = useState('');
     const [editedEmoji, setEditedEmoji] = useState('');
@@ -62,14 +101,20 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
     
     const { setTargetWord, setIsRecordingFromWordDetail } = useVideoRecording();
     const { triggerCamera } = useCameraTrigger();
-
-    const updateWordStatus = useCallback(async (field: 'is_spoken' | 'is_recognised' | 'is_recorded', value: boolean) => {
+    const { savedMoment, discardUploadsForTarget } = useMomentUploads();
+    const { addPhoto, showUpgradeModal, closeUpgradeModal } = useAddPhotoMoment();
+
+    const updateWordStatus = useCallback(async (
+      field: 'is_spoken' | 'is_recognised' | 'is_recorded',
+      value: boolean,
+      dateUpdate: Partial<Record<WordDateFieldName, string>> = {}
+    ) => {
       if (!word) return;
 
       try {
         const { error } = await supabase
           .from('user_words')
-          .update({ [field]: value, updated_at: new Date().toISOString() })
+          .update({ [field]: value, ...dateUpdate, updated_at: new Date().toISOString() })
           .eq('id', word.id);
 
         if (error) {
@@ -95,7 +140,7 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
         // 🔹 CRITICAL FIX: Include trim_start, trim_end, and child_id in the SELECT query
         const { data, error } = await supabase
           .from('moments')
-          .select('id, video_url, thumbnail_url, created_at, trim_start, trim_end, child_id')
+          .select('id, media_type, video_url, audio_url, photo_url, waveform, thumbnail_url, created_at, trim_start, trim_end, child_id, user_book_id')
           .eq('word_id', word.id)
           .order('created_at', { ascending: false });
 
@@ -109,7 +154,14 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
         // Process moments to generate signed URLs
         if (data && data.length > 0) {
           console.log('[WordDetail] Processing moments with signed URLs...');
-          const processedMoments = await processMomentsWithSignedUrls(data);
+          const [processedVideos, processedAudio, processedPhotos] = await Promise.all([
+            processMomentsWithSignedUrls(data.filter((moment) => !moment.media_type || moment.media_type === 'video')),
+            processAudioMomentsWithSignedUrls(data.filter((moment) => moment.media_type === 'audio')),
+            processPhotoMomentsWithSignedUrls(data.filter((moment) => moment.media_type === 'photo')),
+          ]);
+          const processedMoments: Moment[] = [...processedVideos, ...processedAudio, ...processedPhotos].sort(
+            (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+          );
           console.log('[WordDetail] Processed moments:', processedMoments.length);
           
           // Log trim metadata for debugging
@@ -128,7 +180,8 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
           setMoments([]);
         }
         
-        const hasMoments = data && data.length > 0;
+        // A photo on its own doesn't make a word "recorded"
+        const hasMoments = !!data && data.some((moment) => moment.media_type !== 'photo');
         if (hasMoments && !word.is_recorded) {
           console.log('[WordDetail] Auto-updating word to recorded status');
           await updateWordStatus('is_recorded', true);
@@ -145,31 +198,167 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
       }
     }, [word, updateWordStatus]);
 
+    const fetchHistory = useCallback(async () => {
+      if (!word) return;
+
+      try {
+        console.log('[WordDetail] Fetching pronunciation history for word:', word.id);
+        const history = await fetchPronunciationHistory(word.id);
+        setPronunciationHistory(history);
+      } catch (error) {
+        // The timeline still shows moments without the history
+        console.error('[WordDetail] Error in fetchHistory:', error);
+        setPronunciationHistory([]);
+      }
+    }, [word]);
+
+    // A photo added from this sheet shows up once its upload finishes
+    useEffect(() => {
+      if (word && savedMoment?.wordId === word.id) {
+        fetchMoments();
+      }
+    }, [savedMoment, word, fetchMoments]);
+
     useEffect(() => {
       if (word) {
         setIsSpoken(word.is_spoken);
         setIsRecognised(word.is_recognised);
+        setCategory(word.category || 'other');
+        setFirstSpokenAt(word.first_spoken_at || null);
+        setFirstRecognisedAt(word.first_recognised_at || null);
+        setPronunciationStage(word.pronunciation_stage || null);
+        setPronunciationText(word.pronunciation || '');
+        setSavedPronunciationText(word.pronunciation || '');
         setEditedWord(word.word);
         setEditedEmoji(word.emoji);
         setIsEditMode(false);
         setShowDropdown(false);
         fetchMoments();
+        fetchHistory();
       }
-    }, [word, fetchMoments]);
+    }, [word, fetchMoments, fetchHistory]);
 
     const toggleSpoken = useCallback(async () => {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
       const newValue = !isSpoken;
+      const dateUpdate = getStatusDateUpdate('is_spoken', newValue, { first_spoken_at: firstSpokenAt });
       setIsSpoken(newValue);
-      await updateWordStatus('is_spoken', newValue);
-    }, [isSpoken, updateWordStatus]);
+      if (dateUpdate.first_spoken_at) {
+        setFirstSpokenAt(dateUpdate.first_spoken_at);
+      }
+      await updateWordStatus('is_spoken', newValue, dateUpdate);
+      if (newValue) {
+        checkMilestones();
+      }
+    }, [isSpoken, firstSpokenAt, updateWordStatus, checkMilestones]);
 
     const toggleRecognised = useCallback(async () => {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
       const newValue = !isRecognised;
+      const dateUpdate = getStatusDateUpdate('is_recognised', newValue, { first_recognised_at: firstRecognisedAt });
       setIsRecognised(newValue);
-      await updateWordStatus('is_recognised', newValue);
-    }, [isRecognised, updateWordStatus]);
+      if (dateUpdate.first_recognised_at) {
+        setFirstRecognisedAt(dateUpdate.first_recognised_at);
+      }
+      await updateWordStatus('is_recognised', newValue, dateUpdate);
+      if (newValue) {
+        checkMilestones();
+      }
+    }, [isRecognised, firstRecognisedAt, updateWordStatus, checkMilestones]);
+
+    // Backdate when the child first said/understood the word
+    const handleFirstDateChange = useCallback(async (field: WordDateFieldName, date: Date) => {
+      if (!word) return;
+
+      const setDate = field === 'first_spoken_at' ? setFirstSpokenAt : setFirstRecognisedAt;
+      const previousDate = field === 'first_spoken_at' ? firstSpokenAt : firstRecognisedAt;
+      setDate(date.toISOString());
+
+      try {
+        console.log('[WordDetail] Updating', field, 'for word:', word.id, date.toISOString());
+        await updateWordFirstDate(word.id, field, date);
+        onRefresh();
+        await Promise.all([
+          refreshStats(),
+          fetchProfileStats(),
+        ]);
+        checkMilestones();
+      } catch (error) {
+        console.error('[WordDetail] Error in handleFirstDateChange:', error);
+        setDate(previousDate);
+        Alert.alert('Error', 'Failed to update date');
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
+    }, [word, firstSpokenAt, firstRecognisedAt, onRefresh, refreshStats, fetchProfileStats, checkMilestones]);
+
+    // Manual override of the auto-assigned category
+    const handleCategoryPress = useCallback(async (newCategory: WordCategory) => {
+      if (!word || newCategory === category) return;
+
+      Haptics.selectionAsync();
+      const previousCategory = category;
+      setCategory(newCategory);
+
+      try {
+        console.log('[WordDetail] Updating category:', word.id, newCategory);
+        const { error } = await supabase
+          .from('user_words')
+          .update({ category: newCategory, updated_at: new Date().toISOString() })
+          .eq('id', word.id);
+
+        if (error) {
+          console.error('[WordDetail] Error updating category:', error);
+          throw error;
+        }
+
+        onRefresh();
+        checkMilestones();
+      } catch (error) {
+        console.error('[WordDetail] Error in handleCategoryPress:', error);
+        setCategory(previousCategory);
+        Alert.alert('Error', 'Failed to update category');
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
+    }, [word, category, onRefresh, checkMilestones]);
+
+    const persistPronunciation = useCallback(async (stage: PronunciationStage | null, pronunciation: string): Promise<boolean> => {
+      if (!word) return false;
+
+      setIsSavingPronunciation(true);
+      try {
+        console.log('[WordDetail] Saving pronunciation:', word.id, stage, pronunciation);
+        const entry = await savePronunciation(word.id, stage, pronunciation);
+        setPronunciationHistory((prev) => [entry, ...prev]);
+        setSavedPronunciationText(entry.pronunciation || '');
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        onRefresh();
+        return true;
+      } catch (error) {
+        console.error('[WordDetail] Error in persistPronunciation:', error);
+        Alert.alert('Error', 'Failed to save pronunciation');
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        return false;
+      } finally {
+        setIsSavingPronunciation(false);
+      }
+    }, [word, onRefresh]);
+
+    const handleStagePress = useCallback(async (stage: PronunciationStage) => {
+      if (stage === pronunciationStage || isSavingPronunciation) return;
+
+      Haptics.selectionAsync();
+      const previousStage = pronunciationStage;
+      setPronunciationStage(stage);
+      const saved = await persistPronunciation(stage, pronunciationText);
+      if (!saved) {
+        setPronunciationStage(previousStage);
+      }
+    }, [pronunciationStage, pronunciationText, isSavingPronunciation, persistPronunciation]);
+
+    const handleSavePronunciationText = useCallback(() => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      persistPronunciation(pronunciationStage, pronunciationText);
+    }, [pronunciationStage, pronunciationText, persistPronunciation]);
 
     const handleOpenCamera = () => {
       if (!word) return;
@@ -187,6 +376,26 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
       triggerCamera();
     };
 
+    const handleAddPhoto = () => {
+      if (!word) return;
+      console.log('[WordDetail] Adding photo to word:', word.id);
+      addPhoto({ wordId: word.id, name: word.word });
+    };
+
+    const handleViewPhoto = (moment: Moment) => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      console.log('[WordDetail] Viewing photo:', moment.id);
+      setViewingPhoto(moment);
+    };
+
+    const handleOpenMoment = (moment: Moment) => {
+      if (moment.media_type === 'photo') {
+        handleViewPhoto(moment);
+      } else {
+        handlePlayVideo(moment);
+      }
+    };
+
     const handlePlayVideo = async (moment: Moment) => {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
       console.log('[WordDetail] Playing video:', moment.id);
@@ -198,7 +407,7 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
       
       // 🔹 CRITICAL FIX: Regenerate thumbnail if trim_start exists but no thumbnail
       // This ensures the grid thumbnail matches the video start point
-      if (moment.trim_start && moment.trim_start > 0 && !moment.thumbnail_url && moment.child_id) {
+      if (moment.trim_start && moment.trim_start > 0 && !moment.thumbnail_url && moment.child_id && moment.video_url) {
         console.log('[WordDetail] 🔄 No thumbnail found, regenerating at trim_start:', moment.trim_start);
         
         try {
@@ -234,9 +443,10 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
 
     const handleDeleteMoment = (moment: Moment) => {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      const mediaType = moment.media_type || 'video';
       Alert.alert(
-        'Delete Video',
-        'Are you sure you want to delete this video moment? This action cannot be undone.',
+        `Delete ${mediaType.charAt(0).toUpperCase()}${mediaType.slice(1)}`,
+        `Are you sure you want to delete this ${mediaType} moment? This action cannot be undone.`,
         [
           {
             text: 'Cancel',
@@ -257,60 +467,66 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
       try {
         console.log('[WordDetail] Deleting moment:', moment.id);
         
-        // Extract storage path from video_url (not signed URL)
-        const videoPath = moment.video_url;
+        if (moment.media_type === 'audio') {
+          await deleteAudioFile(moment.audio_url ?? null);
+        } else if (moment.media_type === 'photo') {
+          await deletePhotoFile(moment.photo_url ?? null);
+        } else if (moment.video_url) {
+          // Extract storage path from video_url (not signed URL)
+          const videoPath = moment.video_url;
         
-        // If it's a full URL, extract the path
-        if (videoPath.includes('/video-moments/')) {
-          const urlParts = videoPath.split('/video-moments/');
-          if (urlParts.length > 1) {
-            const filePath = urlParts[1];
+          // If it's a full URL, extract the path
+          if (videoPath.includes('/video-moments/')) {
+            const urlParts = videoPath.split('/video-moments/');
+            if (urlParts.length > 1) {
+              const filePath = urlParts[1];
             
+              const { error: storageError } = await supabase.storage
+                .from('video-moments')
+                .remove([filePath]);
+
+              if (storageError) {
+                console.error('[WordDetail] Error deleting from storage:', storageError);
+              }
+            }
+          } else {
+            // It's already a storage path
             const { error: storageError } = await supabase.storage
               .from('video-moments')
-              .remove([filePath]);
+              .remove([videoPath]);
 
             if (storageError) {
               console.error('[WordDetail] Error deleting from storage:', storageError);
             }
           }
-        } else {
-          // It's already a storage path
-          const { error: storageError } = await supabase.storage
-            .from('video-moments')
-            .remove([videoPath]);
-
-          if (storageError) {
-            console.error('[WordDetail] Error deleting from storage:', storageError);
-          }
-        }
         
-        // Delete thumbnail if exists
-        if (moment.thumbnail_url) {
-          const thumbnailPath = moment.thumbnail_url;
+          // Delete thumbnail if exists
+          if (moment.thumbnail_url) {
+            const thumbnailPath = moment.thumbnail_url;
           
-          if (thumbnailPath.includes('/video-moments/')) {
-            const thumbUrlParts = thumbnailPath.split('/video-moments/');
-            if (thumbUrlParts.length > 1) {
-              const thumbFilePath = thumbUrlParts[1];
+            if (thumbnailPath.includes('/video-moments/')) {
+              const thumbUrlParts = thumbnailPath.split('/video-moments/');
+              if (thumbUrlParts.length > 1) {
+                const thumbFilePath = thumbUrlParts[1];
               
+                const { error: thumbStorageError } = await supabase.storage
+                  .from('video-moments')
+                  .remove([thumbFilePath]);
+
+                if (thumbStorageError) {
+                  console.error('[WordDetail] Error deleting thumbnail from storage:', thumbStorageError);
+                }
+              }
+            } else {
+              // It's already a storage path
               const { error: thumbStorageError } = await supabase.storage
                 .from('video-moments')
-                .remove([thumbFilePath]);
+                .remove([thumbnailPath]);
 
               if (thumbStorageError) {
                 console.error('[WordDetail] Error deleting thumbnail from storage:', thumbStorageError);
               }
             }
-          } else {
-            // It's already a storage path
-            const { error: thumbStorageError } = await supabase.storage
-              .from('video-moments')
-              .remove([thumbnailPath]);
-
-            if (thumbStorageError) {
-              console.error('[WordDetail] Error deleting thumbnail from storage:', thumbStorageError);
-            }
           }
         }
 
@@ -333,10 +549,10 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
         console.log('📊 Silently refreshing profile stats after moment deletion');
         refreshStats();
         
-        Alert.alert('Success', 'Video deleted successfully');
+        Alert.alert('Success', 'Moment deleted successfully');
       } catch (error) {
         console.error('[WordDetail] Error in deleteMoment:', error);
-        Alert.alert('Error', 'Failed to delete video');
+        Alert.alert('Error', 'Failed to delete moment');
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       }
     };
@@ -415,10 +631,13 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
       setShowDropdown(false);
 
-      const momentCount = moments.length;
-      const warningMessage = momentCount > 0
-        ? `This will permanently delete the word "${word.word}" and all ${momentCount} video${momentCount > 1 ? 's' : ''} associated with it. This action cannot be undone.`
-        : `This will permanently delete the word "${word.word}". This action cannot be undone.`;
+      // Moments also linked to a book are kept there
+      const momentCount = moments.filter((moment) => !moment.user_book_id).length;
+      const bookMomentCount = moments.length - momentCount;
+      const warningMessage = (momentCount > 0
+        ? `This will permanently delete the word "${word.word}" and all ${momentCount} moment${momentCount > 1 ? 's' : ''} associated with it. This action cannot be undone.`
+        : `This will permanently delete the word "${word.word}". This action cannot be undone.`)
+        + (bookMomentCount > 0 ? ` ${bookMomentCount} moment${bookMomentCount > 1 ? 's' : ''} also on a book will stay on the book.` : '');
 
       Alert.alert(
         'Delete Word',
@@ -445,10 +664,33 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
       try {
         console.log('[WordDetail] Deleting word:', word.id);
 
+        // Moments also linked to a book stay on the book
+        const { error: unlinkError } = await supabase
+          .from('moments')
+          .update({ word_id: null })
+          .eq('word_id', word.id)
+          .not('user_book_id', 'is', null);
+
+        if (unlinkError) {
+          console.error('[WordDetail] Error unlinking book moments:', unlinkError);
+          throw unlinkError;
+        }
+
         // First, delete all associated videos from storage
         for (const moment of moments) {
+          if (moment.user_book_id) continue;
           console.log('[WordDetail] Deleting moment:', moment.id);
           
+          if (moment.media_type === 'audio') {
+            await deleteAudioFile(moment.audio_url ?? null);
+            continue;
+          }
+          if (moment.media_type === 'photo') {
+            await deletePhotoFile(moment.photo_url ?? null);
+            continue;
+          }
+          if (!moment.video_url) continue;
+
           // Delete video file
           const videoPath = moment.video_url;
           if (videoPath.includes('/video-moments/')) {
@@ -498,6 +740,9 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
           throw wordError;
         }
 
+        // Moments still uploading for the word would otherwise fail against it
+        await discardUploadsForTarget({ wordId: word.id });
+
         console.log('[WordDetail] Word and all associated videos deleted successfully');
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
@@ -698,19 +943,113 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
                         </Text>
                       </TouchableOpacity>
                     </View>
+
+                    {isSpoken && (
+                      <WordDateField
+                        label="First spoken on"
+                        date={firstSpokenAt || word.created_at || null}
+                        minimumDate={selectedChild?.birth_date ? new Date(selectedChild.birth_date) : undefined}
+                        onChange={(date) => handleFirstDateChange('first_spoken_at', date)}
+                      />
+                    )}
+                    {isRecognised && (
+                      <WordDateField
+                        label="First recognised on"
+                        date={firstRecognisedAt || word.created_at || null}
+                        minimumDate={selectedChild?.birth_date ? new Date(selectedChild.birth_date) : undefined}
+                        onChange={(date) => handleFirstDateChange('first_recognised_at', date)}
+                      />
+                    )}
+                  </View>
+
+                  <View style={styles.categorySection}>
+                    <Text style={styles.sectionTitle}>Category</Text>
+                    <ScrollView
+                      horizontal
+                      showsHorizontalScrollIndicator={false}
+                      contentContainerStyle={styles.categoryChips}
+                    >
+                      {WORD_CATEGORIES.map((c) => (
+                        <TouchableOpacity
+                          key={c.id}
+                          style={[styles.categoryChip, category === c.id && styles.categoryChipActive]}
+                          onPress={() => handleCategoryPress(c.id)}
+                        >
+                          <Text style={[styles.categoryChipText, category === c.id && styles.categoryChipTextActive]}>
+                            {c.emoji} {c.label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </ScrollView>
+                  </View>
+
+                  <View style={styles.pronunciationSection}>
+                    <Text style={styles.sectionTitle}>Pronunciation</Text>
+                    <ScrollView
+                      horizontal
+                      showsHorizontalScrollIndicator={false}
+                      contentContainerStyle={styles.categoryChips}
+                    >
+                      {PRONUNCIATION_STAGES.map((stage) => (
+                        <TouchableOpacity
+                          key={stage.id}
+                          style={[styles.categoryChip, pronunciationStage === stage.id && styles.categoryChipActive]}
+                          onPress={() => handleStagePress(stage.id)}
+                        >
+                          <Text style={[styles.categoryChipText, pronunciationStage === stage.id && styles.categoryChipTextActive]}>
+                            {stage.emoji} {stage.label}
+                          </Text>
+                          <Text style={[styles.stageExample, pronunciationStage === stage.id && styles.categoryChipTextActive]}>
+                            {stage.example}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </ScrollView>
+                    <View style={styles.pronunciationInputRow}>
+                      <TextInput
+                        style={styles.pronunciationInput}
+                        value={pronunciationText}
+                        onChangeText={setPronunciationText}
+                        placeholder={`How does it sound? e.g. "nana"`}
+                        placeholderTextColor={colors.textSecondary}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        returnKeyType="done"
+                        onSubmitEditing={handleSavePronunciationText}
+                      />
+                      {pronunciationText.trim() !== savedPronunciationText && (
+                        <TouchableOpacity
+                          style={styles.pronunciationSaveButton}
+                          onPress={handleSavePronunciationText}
+                          disabled={isSavingPronunciation}
+                        >
+                          <Text style={styles.saveButtonText}>Save</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
                   </View>
 
                   <View style={styles.momentsSection}>
                     <View style={styles.momentsHeader}>
                       <Text style={styles.sectionTitle}>Moments ({moments.length})</Text>
-                      <TouchableOpacity style={styles.addMomentButton} onPress={handleOpenCamera}>
-                        <IconSymbol
-                          ios_icon_name="plus"
-                          android_material_icon_name="add"
-                          size={20}
-                          color={colors.backgroundAlt}
-                        />
-                      </TouchableOpacity>
+                      <View style={styles.momentsHeaderActions}>
+                        <TouchableOpacity style={[styles.addMomentButton, styles.addPhotoButton]} onPress={handleAddPhoto}>
+                          <IconSymbol
+                            ios_icon_name="camera.fill"
+                            android_material_icon_name="photo-camera"
+                            size={18}
+                            color={colors.primary}
+                          />
+                        </TouchableOpacity>
+                        <TouchableOpacity style={styles.addMomentButton} onPress={handleOpenCamera}>
+                          <IconSymbol
+                            ios_icon_name="plus"
+                            android_material_icon_name="add"
+                            size={20}
+                            color={colors.backgroundAlt}
+                          />
+                        </TouchableOpacity>
+                      </View>
                     </View>
 
                     <View style={styles.momentsContainer}>
@@ -724,12 +1063,97 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
                           />
                           <Text style={styles.emptyText}>No moments yet</Text>
                           <Text style={styles.emptySubtext}>
-                            Tap the + button to record a video
+                            Tap + to record a video, or the camera to add a photo
                           </Text>
                         </View>
                       ) : (
                         <View style={styles.momentsGrid}>
                           {moments.map((moment, index) => {
+                            if (moment.media_type === 'audio') {
+                              return (
+                                <View key={index} style={[styles.momentCard, { width: columnWidth }]}>
+                                  <View style={[styles.audioMoment, { height: thumbnailHeight }]}>
+                                    <IconSymbol
+                                      ios_icon_name="waveform"
+                                      android_material_icon_name="graphic-eq"
+                                      size={32}
+                                      color={colors.primary}
+                                    />
+                                    <AudioMomentPlayer
+                                      audioUri={moment.signedAudioUrl ?? null}
+                                      waveform={moment.waveform}
+                                      trimStart={moment.trim_start}
+                                      trimEnd={moment.trim_end}
+                                      barCount={16}
+                                      style={styles.audioMomentPlayer}
+                                    />
+                                  </View>
+                                  <View style={styles.momentInfo}>
+                                    <Text style={styles.momentDate}>
+                                      {new Date(moment.created_at).toLocaleDateString()}
+                                    </Text>
+                                    <TouchableOpacity
+                                      style={styles.deleteMomentButton}
+                                      onPress={() => handleDeleteMoment(moment)}
+                                    >
+                                      <IconSymbol
+                                        ios_icon_name="trash"
+                                        android_material_icon_name="delete"
+                                        size={16}
+                                        color={colors.secondary}
+                                      />
+                                    </TouchableOpacity>
+                                  </View>
+                                </View>
+                              );
+                            }
+
+                            if (moment.media_type === 'photo') {
+                              return (
+                                <View key={index} style={[styles.momentCard, { width: columnWidth }]}>
+                                  <TouchableOpacity
+                                    style={[styles.momentThumbnail, { height: thumbnailHeight }]}
+                                    onPress={() => handleViewPhoto(moment)}
+                                    activeOpacity={0.8}
+                                  >
+                                    {moment.signedPhotoUrl ? (
+                                      <Image
+                                        source={{ uri: moment.signedPhotoUrl }}
+                                        style={styles.thumbnailImage}
+                                        contentFit="cover"
+                                        transition={200}
+                                      />
+                                    ) : (
+                                      <View style={styles.thumbnailPlaceholder}>
+                                        <IconSymbol
+                                          ios_icon_name="photo.fill"
+                                          android_material_icon_name="photo"
+                                          size={40}
+                                          color={colors.backgroundAlt}
+                                        />
+                                      </View>
+                                    )}
+                                  </TouchableOpacity>
+                                  <View style={styles.momentInfo}>
+                                    <Text style={styles.momentDate}>
+                                      {new Date(moment.created_at).toLocaleDateString()}
+                                    </Text>
+                                    <TouchableOpacity
+                                      style={styles.deleteMomentButton}
+                                      onPress={() => handleDeleteMoment(moment)}
+                                    >
+                                      <IconSymbol
+                                        ios_icon_name="trash"
+                                        android_material_icon_name="delete"
+                                        size={16}
+                                        color={colors.secondary}
+                                      />
+                                    </TouchableOpacity>
+                                  </View>
+                                </View>
+                              );
+                            }
+
                             // 🔹 CRITICAL: Use signed thumbnail URL if available
                             const thumbnailUrl = moment.signedThumbnailUrl || moment.thumbnail_url;
                             
@@ -789,6 +1213,15 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
                       )}
                     </View>
                   </View>
+
+                  <View style={styles.timelineSection}>
+                    <Text style={styles.sectionTitle}>Timeline</Text>
+                    <PronunciationTimeline
+                      history={pronunciationHistory}
+                      moments={moments}
+                      onMomentPress={handleOpenMoment}
+                    />
+                  </View>
                 </View>
               </BottomSheetScrollView>
             </View>
@@ -799,13 +1232,25 @@ const WordDetailBottomSheet = forwardRef<BottomSheetModal, WordDetailBottomSheet
         {selectedMoment && (
           <FullScreenVideoPlayer
             visible={showVideoPlayer}
-            videoUri={selectedMoment.signedVideoUrl || selectedMoment.video_url}
+            videoUri={selectedMoment.signedVideoUrl || selectedMoment.video_url || ''}
             thumbnailUri={selectedMoment.signedThumbnailUrl}
             onClose={handleCloseVideoPlayer}
             trimStart={selectedMoment.trim_start}
             trimEnd={selectedMoment.trim_end}
           />
         )}
+
+        <FullScreenPhotoViewer
+          visible={!!viewingPhoto}
+          photoUri={viewingPhoto?.signedPhotoUrl ?? null}
+          onClose={() => setViewingPhoto(null)}
+        />
+
+        <UpgradePromptModal
+          visible={showUpgradeModal}
+          onClose={closeUpgradeModal}
+          quotaType="photo"
+        />
       </>
     );
   }
@@ -993,16 +1438,80 @@ const styles = StyleSheet.create({
   statusTextActive: {
     color: colors.backgroundAlt,
   },
+  categorySection: {
+    paddingTop: 20,
+    paddingLeft: 20,
+  },
+  categoryChips: {
+    gap: 8,
+    paddingRight: 20,
+  },
+  categoryChip: {
+    backgroundColor: colors.background,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  categoryChipActive: {
+    backgroundColor: colors.buttonBlue,
+  },
+  categoryChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  categoryChipTextActive: {
+    color: colors.backgroundAlt,
+  },
+  pronunciationSection: {
+    paddingTop: 20,
+    paddingLeft: 20,
+  },
+  stageExample: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  pronunciationInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+    paddingRight: 20,
+  },
+  pronunciationInput: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.primary,
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  pronunciationSaveButton: {
+    backgroundColor: colors.buttonBlue,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 16,
+  },
   momentsSection: {
     paddingHorizontal: 20,
     paddingTop: 20,
   },
+  timelineSection: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
   momentsHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
     marginBottom: 12,
   },
+  momentsHeaderActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   addMomentButton: {
     backgroundColor: colors.buttonBlue,
     width: 36,
@@ -1011,6 +1520,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  addPhotoButton: {
+    backgroundColor: colors.cardPurple,
+  },
   momentsContainer: {
     minHeight: 200,
   },
@@ -1062,6 +1574,17 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     backgroundColor: 'rgba(0, 0, 0, 0.3)',
   },
+  audioMoment: {
+    width: '100%',
+    backgroundColor: colors.cardPurple,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+    padding: 12,
+  },
+  audioMomentPlayer: {
+    width: '100%',
+  },
   momentInfo: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,243 @@
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import UpgradePromptModal from '@/components/UpgradePromptModal';
+import { supabase } from '@/app/integrations/supabase/client';
+import { useChild } from '@/contexts/ChildContext';
+import { useStats } from '@/contexts/StatsContext';
+import { useProfileStats } from '@/contexts/ProfileStatsContext';
+import { useMilestones } from '@/contexts/MilestonesContext';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import { HapticFeedback } from '@/utils/haptics';
+import { getColorForWord } from '@/utils/wordCategories';
+import { getAgeInMonths } from '@/utils/vocabularyBenchmark';
+import {
+  buildWordSuggestions,
+  fetchSuggestionSourceWords,
+  SuggestionSourceWord,
+  WordSuggestion,
+} from '@/utils/wordSuggestions';
+
+export default function WordSuggestionsCard() {
+  const { selectedChild } = useChild();
+  const { stats, refreshStats } = useStats();
+  const { fetchProfileStats } = useProfileStats();
+  const { checkMilestones } = useMilestones();
+  const { remainingWords, refreshUsage } = useSubscription();
+  const [sourceWords, setSourceWords] = useState<SuggestionSourceWord[] | null>(null);
+  const [addingWord, setAddingWord] = useState<string | null>(null);
+  const [showUpgradeModal, setShowUpgradeModal] = useState(false);
+
+  const loadWords = useCallback(async () => {
+    if (!selectedChild) {
+      setSourceWords(null);
+      return;
+    }
+
+    try {
+      console.log('WordSuggestionsCard: Fetching words for child:', selectedChild.id);
+      setSourceWords(await fetchSuggestionSourceWords(selectedChild.id));
+    } catch (error) {
+      console.error('WordSuggestionsCard: Error fetching words:', error);
+      setSourceWords(null);
+    }
+  }, [selectedChild]);
+
+  // Re-rank whenever the word total changes, e.g. after adding words on the Words tab
+  useEffect(() => {
+    loadWords();
+  }, [loadWords, stats.totalWords]);
+
+  const { wordOfTheDay, suggestions } = useMemo(() => {
+    if (!selectedChild || !sourceWords) return { wordOfTheDay: null, suggestions: [] };
+    const ageMonths = selectedChild.birth_date ? getAgeInMonths(selectedChild.birth_date) : null;
+    return buildWordSuggestions(selectedChild.id, sourceWords, ageMonths);
+  }, [selectedChild, sourceWords]);
+
+  const handleAddSuggestion = async (suggestion: WordSuggestion) => {
+    if (!selectedChild || addingWord) return;
+    HapticFeedback.medium();
+
+    if (remainingWords <= 0) {
+      console.log('WordSuggestionsCard: Word quota reached');
+      HapticFeedback.warning();
+      setShowUpgradeModal(true);
+      return;
+    }
+
+    setAddingWord(suggestion.word);
+    try {
+      console.log('WordSuggestionsCard: Adding suggested word:', suggestion.word);
+      const { error } = await supabase
+        .from('user_words')
+        .insert({
+          child_id: selectedChild.id,
+          custom_word: suggestion.word,
+          custom_emoji: suggestion.emoji,
+          color: getColorForWord(suggestion.word),
+          category: suggestion.category,
+        });
+
+      if (error) {
+        console.error('WordSuggestionsCard: Error adding word:', error);
+        throw error;
+      }
+
+      HapticFeedback.success();
+      setSourceWords((prev) => [...(prev || []), { custom_word: suggestion.word, category: suggestion.category }]);
+
+      await refreshUsage();
+      await Promise.all([
+        refreshStats(),
+        fetchProfileStats(),
+      ]);
+      checkMilestones();
+    } catch (error) {
+      console.error('WordSuggestionsCard: Error in handleAddSuggestion:', error);
+      HapticFeedback.error();
+      Alert.alert('Error', 'Failed to add word');
+    } finally {
+      setAddingWord(null);
+    }
+  };
+
+  if (!selectedChild || !wordOfTheDay) return null;
+
+  const renderAddButton = (suggestion: WordSuggestion, light: boolean) => (
+    <TouchableOpacity
+      style={[styles.addButton, light && styles.addButtonLight]}
+      onPress={() => handleAddSuggestion(suggestion)}
+      disabled={!!addingWord}
+    >
+      {addingWord === suggestion.word ? (
+        <ActivityIndicator size="small" color={light ? colors.primary : colors.backgroundAlt} />
+      ) : (
+        <IconSymbol
+          ios_icon_name="plus"
+          android_material_icon_name="add"
+          size={18}
+          color={light ? colors.primary : colors.backgroundAlt}
+        />
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Word to try today</Text>
+      <View style={styles.wordOfTheDayCard}>
+        <Text style={styles.wordOfTheDayEmoji}>{wordOfTheDay.emoji}</Text>
+        <View style={styles.wordOfTheDayText}>
+          <Text style={styles.wordOfTheDayWord}>{wordOfTheDay.word}</Text>
+          <Text style={styles.wordOfTheDayHint}>
+            Say it, point to it and use it a few times today with {selectedChild.name}
+          </Text>
+        </View>
+        {renderAddButton(wordOfTheDay, true)}
+      </View>
+
+      {suggestions.length > 0 && (
+        <>
+          <Text style={styles.subTitle}>Likely next words</Text>
+          <View style={styles.suggestionList}>
+            {suggestions.map((suggestion) => (
+              <View key={suggestion.word} style={styles.suggestionChip}>
+                <Text style={styles.suggestionText}>
+                  {suggestion.emoji} {suggestion.word}
+                </Text>
+                {renderAddButton(suggestion, false)}
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+
+      <UpgradePromptModal
+        visible={showUpgradeModal}
+        onClose={() => setShowUpgradeModal(false)}
+        quotaType="word"
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.primary,
+    marginBottom: 12,
+  },
+  wordOfTheDayCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.cardYellow,
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+    boxShadow: '0px 4px 8px rgba(0, 0, 0, 0.1)',
+    elevation: 3,
+  },
+  wordOfTheDayEmoji: {
+    fontSize: 40,
+  },
+  wordOfTheDayText: {
+    flex: 1,
+  },
+  wordOfTheDayWord: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: colors.primary,
+  },
+  wordOfTheDayHint: {
+    fontSize: 13,
+    color: colors.text,
+    marginTop: 2,
+  },
+  subTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.primary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  suggestionList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  suggestionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 20,
+    paddingLeft: 14,
+    paddingRight: 4,
+    paddingVertical: 4,
+    gap: 8,
+  },
+  suggestionText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  addButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: colors.buttonBlue,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addButtonLight: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.backgroundAlt,
+  },
+});
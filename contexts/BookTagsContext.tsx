@@ -0,0 +1,157 @@
+import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
+import { useChild } from './ChildContext';
+import { DEFAULT_BOOK_TAG_COLOR } from '@/data/bookTags';
+import {
+  fetchBookTags,
+  insertBookTag,
+  isSameTagName,
+  normalizeTagName,
+  removeBookTag,
+  replaceTagOnBooks,
+  updateBookTag,
+  BookTag,
+} from '@/utils/bookTags';
+
+interface BookTagsContextType {
+  // Selected child's registered tags, alphabetically
+  tags: BookTag[];
+  isLoading: boolean;
+  refreshTags: () => Promise<void>;
+  getTag: (name: string) => BookTag;
+  createTag: (name: string, color?: string) => Promise<BookTag>;
+  updateTagColor: (tag: BookTag, color: string) => Promise<void>;
+  renameTag: (tag: BookTag, newName: string) => Promise<void>;
+  mergeTags: (source: BookTag, target: BookTag) => Promise<void>;
+  deleteTag: (tag: BookTag) => Promise<void>;
+}
+
+const BookTagsContext = createContext<BookTagsContextType | undefined>(undefined);
+
+const sortTags = (tags: BookTag[]) => [...tags].sort((a, b) => a.name.localeCompare(b.name));
+
+export function BookTagsProvider({ children }: { children: React.ReactNode }) {
+  const { selectedChild } = useChild();
+  const [tags, setTags] = useState<BookTag[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshTags = useCallback(async () => {
+    if (!selectedChild) {
+      setTags([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      console.log('BookTagsContext: Fetching book tags for child:', selectedChild.id);
+      setTags(await fetchBookTags(selectedChild.id));
+    } catch (error) {
+      console.error('BookTagsContext: Error fetching book tags:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedChild]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    refreshTags();
+  }, [refreshTags]);
+
+  const getTag = useCallback((name: string): BookTag => {
+    return tags.find((tag) => isSameTagName(tag.name, name)) || { id: null, name, color: DEFAULT_BOOK_TAG_COLOR.id };
+  }, [tags]);
+
+  // Errors below are thrown to the caller so sheets can show them
+
+  const createTag = useCallback(async (name: string, color: string = DEFAULT_BOOK_TAG_COLOR.id) => {
+    if (!selectedChild) throw new Error('No child selected');
+
+    const tagName = normalizeTagName(name);
+    if (!tagName) throw new Error('Tag name is empty');
+
+    const existing = tags.find((tag) => isSameTagName(tag.name, tagName));
+    if (existing) return existing;
+
+    console.log('BookTagsContext: Creating tag:', tagName);
+    const created = await insertBookTag(selectedChild.id, tagName, color);
+    setTags((prev) => sortTags([...prev, created]));
+    return created;
+  }, [selectedChild, tags]);
+
+  // Tags without a registry row get one so the colour sticks
+  const updateTagColor = useCallback(async (tag: BookTag, color: string) => {
+    if (!selectedChild) return;
+
+    console.log('BookTagsContext: Changing colour of tag:', tag.name, color);
+    if (tag.id) {
+      await updateBookTag(tag.id, { color });
+      setTags((prev) => prev.map((t) => (t.id === tag.id ? { ...t, color } : t)));
+    } else {
+      const created = await insertBookTag(selectedChild.id, tag.name, color);
+      setTags((prev) => sortTags([...prev, created]));
+    }
+  }, [selectedChild]);
+
+  const renameTag = useCallback(async (tag: BookTag, newName: string) => {
+    if (!selectedChild) return;
+
+    const tagName = normalizeTagName(newName);
+    if (!tagName || tagName === tag.name) return;
+
+    console.log('BookTagsContext: Renaming tag:', tag.name, '->', tagName);
+    if (tag.id) {
+      await updateBookTag(tag.id, { name: tagName });
+    } else {
+      await insertBookTag(selectedChild.id, tagName, tag.color);
+    }
+    await replaceTagOnBooks(selectedChild.id, tag.name, tagName);
+    await refreshTags();
+  }, [selectedChild, refreshTags]);
+
+  const mergeTags = useCallback(async (source: BookTag, target: BookTag) => {
+    if (!selectedChild) return;
+
+    console.log('BookTagsContext: Merging tag:', source.name, 'into', target.name);
+    await replaceTagOnBooks(selectedChild.id, source.name, target.name);
+    if (source.id) {
+      await removeBookTag(source.id);
+    }
+    await refreshTags();
+  }, [selectedChild, refreshTags]);
+
+  const deleteTag = useCallback(async (tag: BookTag) => {
+    if (!selectedChild) return;
+
+    console.log('BookTagsContext: Deleting tag:', tag.name);
+    await replaceTagOnBooks(selectedChild.id, tag.name, null);
+    if (tag.id) {
+      await removeBookTag(tag.id);
+    }
+    await refreshTags();
+  }, [selectedChild, refreshTags]);
+
+  return (
+    <BookTagsContext.Provider
+      value={{
+        tags,
+        isLoading,
+        refreshTags,
+        getTag,
+        createTag,
+        updateTagColor,
+        renameTag,
+        mergeTags,
+        deleteTag,
+      }}
+    >
+      {children}
+    </BookTagsContext.Provider>
+  );
+}
+
+export function useBookTags() {
+  const context = useContext(BookTagsContext);
+  if (context === undefined) {
+    throw new Error('useBookTags must be used within a BookTagsProvider');
+  }
+  return context;
+}
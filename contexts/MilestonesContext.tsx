@@ -0,0 +1,162 @@
+
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import { useChild } from './ChildContext';
+import { milestonesData } from '@/data/milestonesData';
+import type { Milestone } from '@/components/BadgeDetailBottomSheet';
+import { AchievementUnlockModal } from '@/components/AchievementUnlockModal';
+import {
+  evaluateMilestones,
+  fetchMilestoneSourceData,
+  getMilestoneUnlocks,
+  resolveMilestoneAchievedDates,
+  saveMilestoneUnlocks,
+  MilestoneProgress,
+  MilestoneUnlocks,
+} from '@/utils/milestoneEngine';
+
+interface MilestonesContextType {
+  milestones: Milestone[];
+  isLoading: boolean;
+  refreshMilestones: () => Promise<void>;
+  checkMilestones: () => Promise<void>;
+}
+
+const MilestonesContext = createContext<MilestonesContextType | undefined>(undefined);
+
+const MILESTONE_TARGETS = milestonesData.map((m) => ({ id: m.id, target: m.target || 1 }));
+
+const buildMilestones = (progress: MilestoneProgress[], unlocks: MilestoneUnlocks): Milestone[] => {
+  return milestonesData.map((milestone) => {
+    const result = progress.find((p) => p.id === milestone.id);
+    const unlockedAt = unlocks[milestone.id];
+    const target = result?.target || milestone.target || 1;
+    return {
+      ...milestone,
+      achieved: !!unlockedAt,
+      progress: `${result?.current || 0}/${target}`,
+      dateAchieved: unlockedAt ? new Date(unlockedAt).toLocaleDateString() : undefined,
+    };
+  });
+};
+
+export function MilestonesProvider({ children }: { children: React.ReactNode }) {
+  const { selectedChild } = useChild();
+  const [milestones, setMilestones] = useState<Milestone[]>(milestonesData);
+  const [isLoading, setIsLoading] = useState(true);
+  const [unlockQueue, setUnlockQueue] = useState<Milestone[]>([]);
+  const evaluationChainRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Evaluate milestones for the selected child
+  // When announce is true, milestones crossed for the first time are queued for the unlock modal
+  const runEvaluation = useCallback(async (announce: boolean) => {
+    if (!selectedChild) {
+      console.log('MilestonesContext: No child selected, resetting milestones');
+      setMilestones(milestonesData);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      console.log('MilestonesContext: Evaluating milestones for child:', selectedChild.id);
+
+      const [sourceData, unlocks] = await Promise.all([
+        fetchMilestoneSourceData(selectedChild.id, selectedChild.name),
+        getMilestoneUnlocks(selectedChild.id),
+      ]);
+
+      const progress = evaluateMilestones(sourceData, MILESTONE_TARGETS);
+      const now = new Date().toISOString();
+      const newlyUnlocked = progress.filter((p) => p.achieved && !unlocks[p.id]);
+      let unlocksChanged = newlyUnlocked.length > 0;
+
+      newlyUnlocked.forEach((p) => {
+        unlocks[p.id] = now;
+      });
+
+      // Word milestones follow the first-said dates, so backdating a word moves the milestone date too
+      const achievedDates = resolveMilestoneAchievedDates(sourceData, progress);
+      Object.entries(achievedDates).forEach(([id, date]) => {
+        if (unlocks[id] && unlocks[id] !== date) {
+          unlocks[id] = date;
+          unlocksChanged = true;
+        }
+      });
+
+      if (unlocksChanged) {
+        await saveMilestoneUnlocks(selectedChild.id, unlocks);
+      }
+      if (newlyUnlocked.length > 0) {
+        console.log('MilestonesContext: Newly unlocked:', newlyUnlocked.map((p) => p.id));
+      }
+
+      const updated = buildMilestones(progress, unlocks);
+      setMilestones(updated);
+
+      if (announce && newlyUnlocked.length > 0) {
+        const unlockedIds = new Set(newlyUnlocked.map((p) => p.id));
+        setUnlockQueue((prev) => [...prev, ...updated.filter((m) => unlockedIds.has(m.id))]);
+      }
+    } catch (error) {
+      console.error('MilestonesContext: Error evaluating milestones:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedChild]);
+
+  // Evaluations are chained so an announcing check never races a silent one
+  // and each unlock is recorded (and celebrated) exactly once
+  const evaluate = useCallback((announce: boolean) => {
+    evaluationChainRef.current = evaluationChainRef.current.then(() => runEvaluation(announce));
+    return evaluationChainRef.current;
+  }, [runEvaluation]);
+
+  // Silent evaluation - records unlocks without showing the achievement modal
+  // Used on load so existing history doesn't trigger a burst of celebrations
+  const refreshMilestones = useCallback(async () => {
+    await evaluate(false);
+  }, [evaluate]);
+
+  // Evaluation after an add/rate/record action - announces newly crossed thresholds
+  // EXPO GO FIX: Short delay to ensure database has committed changes
+  const checkMilestones = useCallback(async () => {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    await evaluate(true);
+  }, [evaluate]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setUnlockQueue([]);
+    refreshMilestones();
+  }, [refreshMilestones]);
+
+  const handleCloseAchievementModal = useCallback(() => {
+    console.log('MilestonesContext: Closing achievement modal');
+    setUnlockQueue((prev) => prev.slice(1));
+  }, []);
+
+  return (
+    <MilestonesContext.Provider
+      value={{
+        milestones,
+        isLoading,
+        refreshMilestones,
+        checkMilestones,
+      }}
+    >
+      {children}
+      <AchievementUnlockModal
+        visible={unlockQueue.length > 0}
+        milestone={unlockQueue[0] || null}
+        onClose={handleCloseAchievementModal}
+      />
+    </MilestonesContext.Provider>
+  );
+}
+
+export function useMilestones() {
+  const context = useContext(MilestonesContext);
+  if (context === undefined) {
+    throw new Error('useMilestones must be used within a MilestonesProvider');
+  }
+  return context;
+}
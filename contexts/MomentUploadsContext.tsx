@@ -0,0 +1,322 @@
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { AppState } from 'react-native';
+import * as Network from 'expo-network';
+import { useAuth } from './AuthContext';
+import { useMilestones } from './MilestonesContext';
+import { useSubscription } from './SubscriptionContext';
+import { isOnline } from '@/utils/pendingBookLookups';
+import { generateVideoThumbnail } from '@/utils/videoThumbnail';
+import {
+  attachThumbnail,
+  createMomentUpload,
+  deleteQueuedFile,
+  deleteUploadFiles,
+  findRemainingTargets,
+  getRetryDelay,
+  insertQueuedMoment,
+  isMissingTargetError,
+  isUploadDue,
+  loadMomentUploads,
+  queuedFileExists,
+  removeUploadedFiles,
+  saveMomentUploads,
+  trimQueuedVideo,
+  uploadQueuedFile,
+  withQueuedFileUri,
+  MAX_UPLOAD_ATTEMPTS,
+  MomentMediaType,
+  MomentUpload,
+  NewMomentUpload,
+  QueuedFileUpload,
+} from '@/utils/momentUploads';
+
+interface SavedMoment {
+  uploadId: string;
+  wordId: string | null;
+  userBookId: string | null;
+  targetName: string;
+  mediaType: MomentMediaType;
+}
+
+interface MomentUploadsContextType {
+  // Signed-in parent's moments still uploading or waiting to be retried
+  uploads: MomentUpload[];
+  isUploading: boolean;
+  queueMoment: (moment: Omit<NewMomentUpload, 'userId'>) => Promise<void>;
+  retryUpload: (uploadId: string) => void;
+  discardUpload: (uploadId: string) => Promise<void>;
+  // Call after deleting a word or book: its queued moments are dropped, or kept on the other target
+  discardUploadsForTarget: (target: { wordId?: string; userBookId?: string }) => Promise<void>;
+  // The last moment whose upload finished, for the "saved" toast
+  savedMoment: SavedMoment | null;
+}
+
+const MomentUploadsContext = createContext<MomentUploadsContextType | undefined>(undefined);
+
+export function MomentUploadsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const { checkMilestones } = useMilestones();
+  const { refreshUsage } = useSubscription();
+  const [queue, setQueueState] = useState<MomentUpload[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [savedMoment, setSavedMoment] = useState<SavedMoment | null>(null);
+  // Mirrors `queue` synchronously so a running upload sees moments queued or discarded meanwhile
+  const queueRef = useRef<MomentUpload[]>([]);
+  const isUploadingRef = useRef(false);
+
+  const setQueue = useCallback((update: (prev: MomentUpload[]) => MomentUpload[]) => {
+    queueRef.current = update(queueRef.current);
+    setQueueState(queueRef.current);
+    saveMomentUploads(queueRef.current);
+  }, []);
+
+  const updateUpload = useCallback((uploadId: string, changes: Partial<MomentUpload>) => {
+    setQueue((prev) => prev.map((item) => (item.id === uploadId ? { ...item, ...changes } : item)));
+  }, [setQueue]);
+
+  const updateFile = useCallback((uploadId: string, key: 'media' | 'thumbnail', changes: Partial<QueuedFileUpload>) => {
+    setQueue((prev) => prev.map((item) => {
+      const fileUpload = item[key];
+      return item.id === uploadId && fileUpload ? { ...item, [key]: { ...fileUpload, ...changes } } : item;
+    }));
+  }, [setQueue]);
+
+  useEffect(() => {
+    loadMomentUploads().then((loaded) => {
+      console.log('MomentUploadsContext: Loaded', loaded.length, 'queued moments');
+      // Keep anything queued before the saved queue finished loading
+      setQueue((prev) => [...loaded, ...prev]);
+      setIsLoaded(true);
+    });
+  }, [setQueue]);
+
+  const findUpload = useCallback((uploadId: string) => queueRef.current.find((item) => item.id === uploadId), []);
+
+  const dropUpload = useCallback(async (upload: MomentUpload) => {
+    setQueue((prev) => prev.filter((item) => item.id !== upload.id));
+    await deleteUploadFiles(upload);
+    await removeUploadedFiles(upload);
+  }, [setQueue]);
+
+  const runUpload = useCallback(async (upload: MomentUpload) => {
+    console.log('MomentUploadsContext: Uploading moment', upload.id, 'for', upload.targetName);
+    updateUpload(upload.id, { status: 'uploading' });
+
+    try {
+      // Cleared from the device, so retrying can't help
+      if (!upload.media.done && !(await queuedFileExists(upload.media.localUri))) {
+        console.error('MomentUploadsContext: ❌ Queued file is gone for', upload.id);
+        updateUpload(upload.id, { status: 'failed', lastError: 'The file is no longer on this device' });
+        return;
+      }
+
+      // The word or book was deleted since it was queued, here or on another device
+      const targets = await findRemainingTargets(upload);
+      if (!targets) {
+        console.log('MomentUploadsContext: Dropping moment', upload.id, 'whose word and book were deleted');
+        await dropUpload(findUpload(upload.id) || upload);
+        return;
+      }
+      if (targets.wordId !== upload.wordId || targets.userBookId !== upload.userBookId) {
+        updateUpload(upload.id, targets);
+      }
+
+      if (upload.needsThumbnail) {
+        const thumbnailUri = await withQueuedFileUri(upload.media.localUri, (uri) =>
+          generateVideoThumbnail(uri, upload.trimStart)
+        );
+        const thumbnail = thumbnailUri ? await attachThumbnail(upload, thumbnailUri) : null;
+        updateUpload(upload.id, { thumbnail, needsThumbnail: false });
+      }
+
+      if (upload.needsTrim) {
+        const trimmed = await trimQueuedVideo(upload);
+        updateUpload(upload.id, { ...trimmed, needsTrim: false });
+        if (trimmed) {
+          await deleteQueuedFile(upload.media.localUri);
+        }
+      }
+
+      for (const key of ['thumbnail', 'media'] as const) {
+        const fileUpload = findUpload(upload.id)?.[key];
+        if (!fileUpload || fileUpload.done) continue;
+
+        const storagePath = await uploadQueuedFile(fileUpload, (progress) =>
+          updateFile(upload.id, key, progress)
+        );
+        updateFile(upload.id, key, { storagePath, uploadedBytes: fileUpload.totalBytes, done: true });
+      }
+
+      // Discarded while it was uploading
+      const uploaded = findUpload(upload.id);
+      if (!uploaded) return;
+
+      await insertQueuedMoment(uploaded);
+      setQueue((prev) => prev.filter((item) => item.id !== upload.id));
+      await deleteUploadFiles(uploaded);
+
+      console.log('MomentUploadsContext: ✅ Moment saved', upload.id);
+      setSavedMoment({
+        uploadId: upload.id,
+        wordId: upload.wordId,
+        userBookId: upload.userBookId,
+        targetName: upload.targetName,
+        mediaType: upload.mediaType,
+      });
+      checkMilestones();
+      // Photos count towards the plan's quota
+      if (upload.mediaType === 'photo') {
+        refreshUsage();
+      }
+    } catch (error) {
+      // Deleted while the files uploaded: go again straight away, and the target check above sorts it out
+      if (isMissingTargetError(error)) {
+        updateUpload(upload.id, { status: 'pending', nextAttemptAt: Date.now() });
+        return;
+      }
+
+      const attempts = (findUpload(upload.id)?.attempts || 0) + 1;
+      console.error(`MomentUploadsContext: ❌ Upload attempt ${attempts} failed:`, error);
+      updateUpload(upload.id, {
+        status: attempts >= MAX_UPLOAD_ATTEMPTS ? 'failed' : 'pending',
+        attempts,
+        nextAttemptAt: Date.now() + getRetryDelay(attempts),
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, [findUpload, dropUpload, updateUpload, updateFile, setQueue, checkMilestones, refreshUsage]);
+
+  /**
+   * Upload every moment that's due, one at a time
+   * When the connection has just come back, moments waiting out a backoff go now too
+   */
+  const processUploads = useCallback(async (ignoreBackoff: boolean = false) => {
+    if (isUploadingRef.current || !user) return;
+    if (!isOnline(await Network.getNetworkStateAsync())) return;
+
+    const isReady = (item: MomentUpload) =>
+      item.userId === user.id && (ignoreBackoff ? item.status === 'pending' : isUploadDue(item));
+    const startedIds = new Set<string>();
+
+    isUploadingRef.current = true;
+    setIsUploading(true);
+    try {
+      let next = queueRef.current.find(isReady);
+      while (next) {
+        startedIds.add(next.id);
+        await runUpload(next);
+        next = queueRef.current.find((item) => isReady(item) && !startedIds.has(item.id));
+      }
+    } finally {
+      isUploadingRef.current = false;
+      setIsUploading(false);
+    }
+  }, [user, runUpload]);
+
+  const queueMoment = useCallback(async (moment: Omit<NewMomentUpload, 'userId'>) => {
+    if (!user) {
+      throw new Error('Not signed in');
+    }
+
+    const upload = await createMomentUpload({ ...moment, userId: user.id });
+    console.log('MomentUploadsContext: Queued moment', upload.id, 'for', upload.targetName);
+    setQueue((prev) => [...prev, upload]);
+    processUploads();
+  }, [user, setQueue, processUploads]);
+
+  const retryUpload = useCallback((uploadId: string) => {
+    updateUpload(uploadId, { status: 'pending', attempts: 0, nextAttemptAt: Date.now(), lastError: null });
+    processUploads();
+  }, [updateUpload, processUploads]);
+
+  const discardUpload = useCallback(async (uploadId: string) => {
+    const upload = findUpload(uploadId);
+    if (!upload) return;
+
+    // Also removes a video or thumbnail that already made it to storage
+    await dropUpload(upload);
+  }, [findUpload, dropUpload]);
+
+  const discardUploadsForTarget = useCallback(async (target: { wordId?: string; userBookId?: string }) => {
+    const affected = queueRef.current.filter((item) =>
+      (!!target.wordId && item.wordId === target.wordId) ||
+      (!!target.userBookId && item.userBookId === target.userBookId)
+    );
+
+    for (const upload of affected) {
+      const wordId = upload.wordId === target.wordId ? null : upload.wordId;
+      const userBookId = upload.userBookId === target.userBookId ? null : upload.userBookId;
+      if (wordId || userBookId) {
+        updateUpload(upload.id, { wordId, userBookId });
+      } else {
+        await dropUpload(upload);
+      }
+    }
+  }, [updateUpload, dropUpload]);
+
+  // Upload on launch, when the connection comes back and when the app returns to the foreground
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    processUploads();
+
+    const networkSubscription = Network.addNetworkStateListener((state) => {
+      if (isOnline(state)) {
+        processUploads(true);
+      }
+    });
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        processUploads();
+      }
+    });
+
+    return () => {
+      networkSubscription.remove();
+      appStateSubscription.remove();
+    };
+  }, [isLoaded, processUploads]);
+
+  // Wake up for the next retry
+  const nextAttemptAt = useMemo(() => {
+    const waiting = queue.filter((item) => item.status === 'pending').map((item) => item.nextAttemptAt);
+    return waiting.length > 0 ? Math.min(...waiting) : null;
+  }, [queue]);
+
+  useEffect(() => {
+    if (!isLoaded || nextAttemptAt === null || isUploading) return;
+
+    const timeout = setTimeout(() => processUploads(), Math.max(0, nextAttemptAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [isLoaded, nextAttemptAt, isUploading, processUploads]);
+
+  const uploads = useMemo(
+    () => queue.filter((item) => item.userId === user?.id),
+    [queue, user?.id]
+  );
+
+  return (
+    <MomentUploadsContext.Provider
+      value={{
+        uploads,
+        isUploading,
+        queueMoment,
+        retryUpload,
+        discardUpload,
+        discardUploadsForTarget,
+        savedMoment,
+      }}
+    >
+      {children}
+    </MomentUploadsContext.Provider>
+  );
+}
+
+export function useMomentUploads() {
+  const context = useContext(MomentUploadsContext);
+  if (context === undefined) {
+    throw new Error('useMomentUploads must be used within a MomentUploadsProvider');
+  }
+  return context;
+}
@@ -0,0 +1,222 @@
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { AppState } from 'react-native';
+import * as Network from 'expo-network';
+import { useAuth } from './AuthContext';
+import { useChild } from './ChildContext';
+import { useSubscription } from './SubscriptionContext';
+import { searchBookByISBN, BookSearchResult } from '@/utils/googleBooksApi';
+import { addScannedBooksToShelf } from '@/utils/bulkBookScan';
+import {
+  createPendingLookup,
+  isDeviceOnline,
+  isOnline,
+  isSameLookup,
+  loadPendingLookups,
+  notifyPendingBooksAdded,
+  savePendingLookups,
+  MAX_LOOKUP_ATTEMPTS,
+  PendingBookLookup,
+} from '@/utils/pendingBookLookups';
+import { configureReminderHandler, requestReminderPermission } from '@/utils/readingReminders';
+import { SAVED_BOOKS_CHANNEL } from '@/utils/notificationChannels';
+
+interface PendingBookLookupsContextType {
+  // Selected child's books waiting for a lookup
+  pendingLookups: PendingBookLookup[];
+  isRetrying: boolean;
+  // Returns false when the book is already waiting for this child
+  queueLookup: (isbn: string) => Promise<boolean>;
+  retryPendingLookups: () => Promise<void>;
+  // Bumped whenever saved books were added, so shelves can reload
+  booksAddedTrigger: number;
+}
+
+const PendingBookLookupsContext = createContext<PendingBookLookupsContextType | undefined>(undefined);
+
+// Catalogues coming back aren't announced, so try now and then while books are waiting
+const RETRY_INTERVAL = 1000 * 60 * 15; // 15 minutes
+
+export function PendingBookLookupsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const { selectedChild } = useChild();
+  const { refreshUsage } = useSubscription();
+  const [lookups, setLookups] = useState<PendingBookLookup[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [booksAddedTrigger, setBooksAddedTrigger] = useState(0);
+  // Mirrors `lookups` synchronously so a retry sees books queued while it runs
+  const lookupsRef = useRef<PendingBookLookup[]>([]);
+  const isRetryingRef = useRef(false);
+
+  const setQueue = useCallback((update: (prev: PendingBookLookup[]) => PendingBookLookup[]) => {
+    lookupsRef.current = update(lookupsRef.current);
+    setLookups(lookupsRef.current);
+    savePendingLookups(lookupsRef.current);
+  }, []);
+
+  useEffect(() => {
+    configureReminderHandler();
+    loadPendingLookups().then((loaded) => {
+      console.log('PendingBookLookupsContext: Loaded', loaded.length, 'pending lookups');
+      lookupsRef.current = loaded;
+      setLookups(loaded);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  const retryPendingLookups = useCallback(async () => {
+    if (isRetryingRef.current || !user) return;
+
+    const queue = lookupsRef.current.filter((lookup) => lookup.userId === user.id);
+    if (queue.length === 0) return;
+
+    if (!(await isDeviceOnline())) {
+      console.log('PendingBookLookupsContext: Still offline');
+      return;
+    }
+
+    isRetryingRef.current = true;
+    setIsRetrying(true);
+    console.log('PendingBookLookupsContext: Retrying', queue.length, 'pending lookups');
+
+    const addedByChild = new Map<string, { childName: string; titles: string[]; notFound: number }>();
+    const noteResult = (lookup: PendingBookLookup, title: string | null) => {
+      const summary = addedByChild.get(lookup.childId) || { childName: lookup.childName, titles: [], notFound: 0 };
+      if (title) {
+        summary.titles.push(title);
+      } else {
+        summary.notFound++;
+      }
+      addedByChild.set(lookup.childId, summary);
+    };
+
+    try {
+      for (const lookup of queue) {
+        let book: BookSearchResult | null;
+        try {
+          book = await searchBookByISBN(lookup.isbn);
+        } catch (lookupError) {
+          // Offline again or the catalogues still failing: keep the rest for the next retry
+          console.log('PendingBookLookupsContext: Lookup failed, stopping for now:', lookupError);
+          break;
+        }
+
+        if (!book) {
+          console.log('PendingBookLookupsContext: ISBN not found:', lookup.isbn);
+          noteResult(lookup, null);
+          setQueue((prev) => prev.filter((item) => !isSameLookup(item, lookup)));
+          continue;
+        }
+
+        const result = await addScannedBooksToShelf([book], lookup.childId, lookup.userId);
+        if (result.failed > 0 && lookup.attempts + 1 < MAX_LOOKUP_ATTEMPTS) {
+          setQueue((prev) => prev.map((item) =>
+            isSameLookup(item, lookup) ? { ...item, attempts: item.attempts + 1 } : item
+          ));
+          continue;
+        }
+
+        if (result.added > 0) {
+          noteResult(lookup, book.title);
+        }
+        setQueue((prev) => prev.filter((item) => !isSameLookup(item, lookup)));
+      }
+    } catch (error) {
+      console.error('PendingBookLookupsContext: Error retrying pending lookups:', error);
+    } finally {
+      isRetryingRef.current = false;
+      setIsRetrying(false);
+    }
+
+    if (addedByChild.size === 0) return;
+
+    if (Array.from(addedByChild.values()).some((summary) => summary.titles.length > 0)) {
+      setBooksAddedTrigger((prev) => prev + 1);
+      refreshUsage();
+    }
+
+    for (const summary of addedByChild.values()) {
+      try {
+        await notifyPendingBooksAdded(summary.childName, summary.titles, summary.notFound);
+      } catch (error) {
+        console.error('PendingBookLookupsContext: Error sending notification:', error);
+      }
+    }
+  }, [user, setQueue, refreshUsage]);
+
+  const queueLookup = useCallback(async (isbn: string) => {
+    if (!user || !selectedChild) {
+      throw new Error('No child selected');
+    }
+
+    const lookup = createPendingLookup(isbn, selectedChild, user.id);
+    if (lookupsRef.current.some((item) => isSameLookup(item, lookup))) {
+      return false;
+    }
+
+    console.log('PendingBookLookupsContext: Saving ISBN for later:', isbn);
+    setQueue((prev) => [...prev, lookup]);
+    // Asked now, while the parent is here, so the "added" notification can be shown later
+    await requestReminderPermission(SAVED_BOOKS_CHANNEL);
+    return true;
+  }, [user, selectedChild, setQueue]);
+
+  // Retry on launch, when the connection comes back and when the app returns to the foreground
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    retryPendingLookups();
+
+    const networkSubscription = Network.addNetworkStateListener((state) => {
+      if (isOnline(state)) {
+        retryPendingLookups();
+      }
+    });
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        retryPendingLookups();
+      }
+    });
+
+    return () => {
+      networkSubscription.remove();
+      appStateSubscription.remove();
+    };
+  }, [isLoaded, retryPendingLookups]);
+
+  const hasLookups = lookups.length > 0;
+
+  useEffect(() => {
+    if (!hasLookups) return;
+
+    const interval = setInterval(retryPendingLookups, RETRY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasLookups, retryPendingLookups]);
+
+  const pendingLookups = useMemo(
+    () => lookups.filter((lookup) => lookup.childId === selectedChild?.id),
+    [lookups, selectedChild?.id]
+  );
+
+  return (
+    <PendingBookLookupsContext.Provider
+      value={{
+        pendingLookups,
+        isRetrying,
+        queueLookup,
+        retryPendingLookups,
+        booksAddedTrigger,
+      }}
+    >
+      {children}
+    </PendingBookLookupsContext.Provider>
+  );
+}
+
+export function usePendingBookLookups() {
+  const context = useContext(PendingBookLookupsContext);
+  if (context === undefined) {
+    throw new Error('usePendingBookLookups must be used within a PendingBookLookupsProvider');
+  }
+  return context;
+}
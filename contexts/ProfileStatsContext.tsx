@@ -2,12 +2,15 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import { supabase } from '@/app/integrations/supabase/client';
 import { useChild } from './ChildContext';
+import { fetchGrowthSourceData, GrowthSourceData } from '@/utils/growthTimeline';
 
 interface ProfileStatsContextType {
   stats: {
     books: number;
     words: number;
   };
+  // Dated rows behind the growth charts, null until first loaded
+  growthData: GrowthSourceData | null;
   fetchProfileStats: () => Promise<void>;
 }
 
@@ -26,18 +29,20 @@ const getStartOfWeek = (): Date => {
 export const ProfileStatsProvider = ({ children }: { children: React.ReactNode }) => {
   const { selectedChild } = useChild();
   const [stats, setStats] = useState({ books: 0, words: 0 });
+  const [growthData, setGrowthData] = useState<GrowthSourceData | null>(null);
 
   const fetchProfileStats = useCallback(async () => {
     if (!selectedChild) {
       console.log('ProfileStatsContext: No child selected, resetting stats');
       setStats({ books: 0, words: 0 });
+      setGrowthData(null);
       return;
     }
 
     try {
       console.log('ProfileStatsContext: Fetching stats for child:', selectedChild.id);
 
-      const [booksResult, wordsResult] = await Promise.allSettled([
+      const [booksResult, wordsResult, growthResult] = await Promise.allSettled([
         supabase
           .from('user_books')
           .select('*', { count: 'exact', head: true })
@@ -46,6 +51,7 @@ export const ProfileStatsProvider = ({ children }: { children: React.ReactNode }
           .from('user_words')
           .select('*', { count: 'exact', head: true })
           .eq('child_id', selectedChild.id),
+        fetchGrowthSourceData(selectedChild.id),
       ]);
 
       const bookCount = booksResult.status === 'fulfilled' && !booksResult.value.error
@@ -58,6 +64,12 @@ export const ProfileStatsProvider = ({ children }: { children: React.ReactNode }
 
       console.log('ProfileStatsContext: Stats fetched - Books:', bookCount, 'Words:', wordCount);
       setStats({ books: bookCount, words: wordCount });
+
+      if (growthResult.status === 'fulfilled') {
+        setGrowthData(growthResult.value);
+      } else {
+        console.error('ProfileStatsContext: Error fetching growth data:', growthResult.reason);
+      }
     } catch (error) {
       console.error('ProfileStatsContext: Error fetching stats:', error);
     }
@@ -69,7 +81,7 @@ export const ProfileStatsProvider = ({ children }: { children: React.ReactNode }
   }, [fetchProfileStats]);
 
   return (
-    <ProfileStatsContext.Provider value={{ stats, fetchProfileStats }}>
+    <ProfileStatsContext.Provider value={{ stats, growthData, fetchProfileStats }}>
       {children}
     </ProfileStatsContext.Provider>
   );
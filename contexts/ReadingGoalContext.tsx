@@ -0,0 +1,93 @@
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo } from 'react';
+import { useChild } from './ChildContext';
+import { useReadingLog } from './ReadingLogContext';
+import { ReadingGoal } from '@/data/readingGoals';
+import { getReadingGoalStatus, loadReadingGoal, saveReadingGoal, ReadingGoalStatus } from '@/utils/readingGoals';
+import { configureReminderHandler, scheduleReadingReminders } from '@/utils/readingReminders';
+
+interface ReadingGoalContextType {
+  // Selected child's goal, null until one is set
+  goal: ReadingGoal | null;
+  status: ReadingGoalStatus | null;
+  isLoading: boolean;
+  updateReadingGoal: (goal: ReadingGoal | null) => Promise<void>;
+}
+
+const ReadingGoalContext = createContext<ReadingGoalContextType | undefined>(undefined);
+
+export function ReadingGoalProvider({ children }: { children: React.ReactNode }) {
+  const { selectedChild } = useChild();
+  const { sessions } = useReadingLog();
+  const [goal, setGoal] = useState<ReadingGoal | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    configureReminderHandler();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedChild) {
+      setGoal(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    console.log('ReadingGoalContext: Loading reading goal for child:', selectedChild.id);
+    loadReadingGoal(selectedChild.id).then((loaded) => {
+      if (cancelled) return;
+      setGoal(loaded);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedChild]);
+
+  const status = useMemo(
+    () => (goal ? getReadingGoalStatus(sessions, goal) : null),
+    [sessions, goal]
+  );
+
+  // Rebuild reminders whenever the goal changes or today's goal is met
+  const currentMet = status?.currentMet ?? false;
+  useEffect(() => {
+    if (!selectedChild || isLoading) return;
+
+    scheduleReadingReminders(selectedChild.id, selectedChild.name, goal, currentMet).catch((error) => {
+      console.error('ReadingGoalContext: Error scheduling reminders:', error);
+    });
+  }, [selectedChild, goal, currentMet, isLoading]);
+
+  // Errors are thrown to the caller so the goal sheet can show them
+  const updateReadingGoal = useCallback(async (newGoal: ReadingGoal | null) => {
+    if (!selectedChild) return;
+
+    console.log('ReadingGoalContext: Saving reading goal for child:', selectedChild.id, newGoal);
+    await saveReadingGoal(selectedChild.id, newGoal);
+    setGoal(newGoal);
+  }, [selectedChild]);
+
+  return (
+    <ReadingGoalContext.Provider
+      value={{
+        goal,
+        status,
+        isLoading,
+        updateReadingGoal,
+      }}
+    >
+      {children}
+    </ReadingGoalContext.Provider>
+  );
+}
+
+export function useReadingGoal() {
+  const context = useContext(ReadingGoalContext);
+  if (context === undefined) {
+    throw new Error('useReadingGoal must be used within a ReadingGoalProvider');
+  }
+  return context;
+}
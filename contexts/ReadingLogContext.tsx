@@ -0,0 +1,94 @@
+import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
+import { useChild } from './ChildContext';
+import { useStats } from './StatsContext';
+import {
+  fetchReadingSessions,
+  insertReadingSession,
+  removeReadingSession,
+  NewReadingSession,
+  ReadingSession,
+} from '@/utils/readingLog';
+
+interface ReadingLogContextType {
+  // Selected child's read-aloud sessions, newest first
+  sessions: ReadingSession[];
+  isLoading: boolean;
+  refreshReadingLog: () => Promise<void>;
+  logReadingSession: (session: NewReadingSession) => Promise<void>;
+  deleteReadingSession: (sessionId: string) => Promise<void>;
+}
+
+const ReadingLogContext = createContext<ReadingLogContextType | undefined>(undefined);
+
+export function ReadingLogProvider({ children }: { children: React.ReactNode }) {
+  const { selectedChild } = useChild();
+  const { refreshStats } = useStats();
+  const [sessions, setSessions] = useState<ReadingSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshReadingLog = useCallback(async () => {
+    if (!selectedChild) {
+      console.log('ReadingLogContext: No child selected, resetting sessions');
+      setSessions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      console.log('ReadingLogContext: Fetching reading sessions for child:', selectedChild.id);
+      const data = await fetchReadingSessions(selectedChild.id);
+      console.log('ReadingLogContext: Loaded', data.length, 'sessions');
+      setSessions(data);
+    } catch (error) {
+      console.error('ReadingLogContext: Error fetching reading sessions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedChild]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    refreshReadingLog();
+  }, [refreshReadingLog]);
+
+  // Errors are thrown to the caller so the form can show them
+  const logReadingSession = useCallback(async (session: NewReadingSession) => {
+    if (!selectedChild) return;
+
+    console.log('ReadingLogContext: Logging session for user book:', session.user_book_id);
+    const created = await insertReadingSession(selectedChild.id, session);
+    setSessions((prev) =>
+      [created, ...prev].sort((a, b) => new Date(b.read_at).getTime() - new Date(a.read_at).getTime())
+    );
+    refreshStats();
+  }, [selectedChild, refreshStats]);
+
+  const deleteReadingSession = useCallback(async (sessionId: string) => {
+    console.log('ReadingLogContext: Deleting session:', sessionId);
+    await removeReadingSession(sessionId);
+    setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+    refreshStats();
+  }, [refreshStats]);
+
+  return (
+    <ReadingLogContext.Provider
+      value={{
+        sessions,
+        isLoading,
+        refreshReadingLog,
+        logReadingSession,
+        deleteReadingSession,
+      }}
+    >
+      {children}
+    </ReadingLogContext.Provider>
+  );
+}
+
+export function useReadingLog() {
+  const context = useContext(ReadingLogContext);
+  if (context === undefined) {
+    throw new Error('useReadingLog must be used within a ReadingLogProvider');
+  }
+  return context;
+}
@@ -2,6 +2,7 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import { supabase } from '@/app/integrations/supabase/client';
 import { useChild } from './ChildContext';
+import { getWordsFirstSaidSinceFilter } from '@/utils/wordDates';
 
 interface StatsContextType {
   incrementWordCount: () => void;
@@ -17,6 +18,8 @@ interface StatsContextType {
     wordsThisWeek: number;
     booksThisWeek: number;
     momentsThisWeek: number;
+    // Read-aloud sessions logged this week, including re-reads of books already on the shelf
+    readsThisWeek: number;
   };
   isLoading: boolean;
 }
@@ -41,6 +44,7 @@ export function StatsProvider({ children }: { children: React.ReactNode }) {
     wordsThisWeek: 0,
     booksThisWeek: 0,
     momentsThisWeek: 0,
+    readsThisWeek: 0,
   });
   const [isLoading, setIsLoading] = useState(true);
 
@@ -54,6 +58,7 @@ export function StatsProvider({ children }: { children: React.ReactNode }) {
         wordsThisWeek: 0,
         booksThisWeek: 0,
         momentsThisWeek: 0,
+        readsThisWeek: 0,
       });
       if (showLoading) {
         setIsLoading(false);
@@ -75,6 +80,7 @@ export function StatsProvider({ children }: { children: React.ReactNode }) {
         totalBooksResult,
         booksThisWeekResult,
         momentsThisWeekResult,
+        readsThisWeekResult,
       ] = await Promise.allSettled([
         supabase
           .from('user_words')
@@ -84,7 +90,7 @@ export function StatsProvider({ children }: { children: React.ReactNode }) {
           .from('user_words')
           .select('*', { count: 'exact', head: true })
           .eq('child_id', selectedChild.id)
-          .gte('created_at', startOfWeekISO),
+          .or(getWordsFirstSaidSinceFilter(startOfWeekISO)),
         supabase
           .from('user_books')
           .select('*', { count: 'exact', head: true })
@@ -99,6 +105,11 @@ export function StatsProvider({ children }: { children: React.ReactNode }) {
           .select('*', { count: 'exact', head: true })
           .eq('child_id', selectedChild.id)
           .gte('created_at', startOfWeekISO),
+        supabase
+          .from('reading_sessions')
+          .select('*', { count: 'exact', head: true })
+          .eq('child_id', selectedChild.id)
+          .gte('read_at', startOfWeekISO),
       ]);
 
       const totalWordsCount = totalWordsResult.status === 'fulfilled' && !totalWordsResult.value.error
@@ -121,12 +132,17 @@ export function StatsProvider({ children }: { children: React.ReactNode }) {
         ? momentsThisWeekResult.value.count || 0
         : 0;
 
+      const readsThisWeekCount = readsThisWeekResult.status === 'fulfilled' && !readsThisWeekResult.value.error
+        ? readsThisWeekResult.value.count || 0
+        : 0;
+
       console.log('StatsContext: Stats loaded -', {
         totalWords: totalWordsCount,
         wordsThisWeek: wordsThisWeekCount,
         totalBooks: totalBooksCount,
         booksThisWeek: booksThisWeekCount,
         momentsThisWeek: momentsThisWeekCount,
+        readsThisWeek: readsThisWeekCount,
       });
 
       setStats({
@@ -135,6 +151,7 @@ export function StatsProvider({ children }: { children: React.ReactNode }) {
         wordsThisWeek: wordsThisWeekCount,
         booksThisWeek: booksThisWeekCount,
         momentsThisWeek: momentsThisWeekCount,
+        readsThisWeek: readsThisWeekCount,
       });
     } catch (error) {
       console.error('StatsContext: Error fetching stats:', error);
@@ -22,11 +22,13 @@ export const QUOTA_LIMITS = {
     words: 20,
     books: 10,
     children: 1,
+    photos: 30,
   },
   pro: {
     words: Infinity,
     books: Infinity,
     children: 2,
+    photos: Infinity,
   },
 };
 
@@ -41,24 +43,27 @@ interface SubscriptionContextType {
     words: number;
     books: number;
     children: number;
+    photos: number;
   };
 
   // Quota checks
   canAddWord: boolean;
   canAddBook: boolean;
   canAddChild: boolean;
+  canAddPhoto: boolean;
 
   // Remaining quotas
   remainingWords: number;
   remainingBooks: number;
   remainingChildren: number;
+  remainingPhotos: number;
 
   // Actions
   refreshUsage: () => Promise<void>;
   showPaywall: (offeringId?: string) => Promise<void>;
   showPaywallIfNeeded: (offeringId?: string) => Promise<void>;
   showCustomerCenter: () => Promise<void>;
-  checkQuota: (type: 'word' | 'book' | 'child') => boolean;
+  checkQuota: (type: 'word' | 'book' | 'child' | 'photo') => boolean;
   restorePurchases: () => Promise<void>;
   
   // Customer info
@@ -72,13 +77,15 @@ const SubscriptionContext = createContext<SubscriptionContextType>({
   tier: 'free',
   isSubscribed: false,
   isLoading: true,
-  currentUsage: { words: 0, books: 0, children: 0 },
+  currentUsage: { words: 0, books: 0, children: 0, photos: 0 },
   canAddWord: true,
   canAddBook: true,
   canAddChild: true,
+  canAddPhoto: true,
   remainingWords: 0,
   remainingBooks: 0,
   remainingChildren: 0,
+  remainingPhotos: 0,
   refreshUsage: async () => {},
   showPaywall: async () => {},
   showPaywallIfNeeded: async () => {},
@@ -114,6 +121,7 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
     words: 0,
     books: 0,
     children: 0,
+    photos: 0,
   });
   const [offerings, setOfferings] = useState<PurchasesOfferings | null>(null);
   const [customerInfo, setCustomerInfo] = useState<CustomerInfo | null>(null);
@@ -275,7 +283,7 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
   const refreshUsage = useCallback(async () => {
     if (!authUser?.id) {
       console.log('SubscriptionContext: No auth user, skipping usage refresh');
-      setCurrentUsage({ words: 0, books: 0, children: 0 });
+      setCurrentUsage({ words: 0, books: 0, children: 0, photos: 0 });
       return;
     }
 
@@ -299,12 +307,12 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
       // If no children, set usage to 0
       if (childIds.length === 0) {
         console.log('SubscriptionContext: No children found, setting usage to 0');
-        setCurrentUsage({ words: 0, books: 0, children: 0 });
+        setCurrentUsage({ words: 0, books: 0, children: 0, photos: 0 });
         return;
       }
 
-      // Fetch counts for words, books, and children
-      const [wordsResult, booksResult, childrenResult] = await Promise.allSettled([
+      // Fetch counts for words, books, children and photo moments
+      const [wordsResult, booksResult, childrenResult, photosResult] = await Promise.allSettled([
         supabase
           .from('user_words')
           .select('*', { count: 'exact', head: true })
@@ -317,6 +325,11 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
           .from('children')
           .select('*', { count: 'exact', head: true })
           .eq('user_id', authUser.id),
+        supabase
+          .from('moments')
+          .select('*', { count: 'exact', head: true })
+          .in('child_id', childIds)
+          .eq('media_type', 'photo'),
       ]);
 
       const wordsCount = wordsResult.status === 'fulfilled' && !wordsResult.value.error
@@ -331,12 +344,17 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
         ? childrenResult.value.count || 0
         : 0;
 
-      console.log('SubscriptionContext: Usage counts - Words:', wordsCount, 'Books:', booksCount, 'Children:', childrenCount);
+      const photosCount = photosResult.status === 'fulfilled' && !photosResult.value.error
+        ? photosResult.value.count || 0
+        : 0;
+
+      console.log('SubscriptionContext: Usage counts - Words:', wordsCount, 'Books:', booksCount, 'Children:', childrenCount, 'Photos:', photosCount);
 
       setCurrentUsage({
         words: wordsCount,
         books: booksCount,
         children: childrenCount,
+        photos: photosCount,
       });
     } catch (err) {
       console.error('SubscriptionContext: Error refreshing usage:', err);
@@ -357,10 +375,12 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
   const canAddWord = currentUsage.words < limits.words;
   const canAddBook = currentUsage.books < limits.books;
   const canAddChild = currentUsage.children < limits.children;
+  const canAddPhoto = currentUsage.photos < limits.photos;
 
   const remainingWords = Math.max(0, limits.words - currentUsage.words);
   const remainingBooks = Math.max(0, limits.books - currentUsage.books);
   const remainingChildren = Math.max(0, limits.children - currentUsage.children);
+  const remainingPhotos = Math.max(0, limits.photos - currentUsage.photos);
 
   // Show RevenueCat Paywall
   const showPaywall = useCallback(async (offeringId?: string) => {
@@ -668,7 +688,7 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
   }, [isRevenueCatReady, updateSubscriptionStatus]);
 
   // Check quota function
-  const checkQuota = useCallback((type: 'word' | 'book' | 'child'): boolean => {
+  const checkQuota = useCallback((type: 'word' | 'book' | 'child' | 'photo'): boolean => {
     console.log('SubscriptionContext: Checking quota for:', type);
     
     switch (type) {
@@ -678,10 +698,12 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
         return canAddBook;
       case 'child':
         return canAddChild;
+      case 'photo':
+        return canAddPhoto;
       default:
         return false;
     }
-  }, [canAddWord, canAddBook, canAddChild]);
+  }, [canAddWord, canAddBook, canAddChild, canAddPhoto]);
 
   const value: SubscriptionContextType = {
     tier,
@@ -691,9 +713,11 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
     canAddWord,
     canAddBook,
     canAddChild,
+    canAddPhoto,
     remainingWords,
     remainingBooks,
     remainingChildren,
+    remainingPhotos,
     refreshUsage,
     showPaywall,
     showPaywallIfNeeded,
@@ -1,14 +1,22 @@
 
 import React, { createContext, useContext, useState, useCallback } from 'react';
 
+// The book a video is being recorded for from its detail sheet
+export interface RecordingBook {
+  userBookId: string;
+  title: string;
+}
+
 interface VideoRecordingContextType {
   recordedVideoUri: string | null;
   recordedVideoDuration: number | null;
   targetWordId: string | null;
   isRecordingFromWordDetail: boolean;
+  targetBook: RecordingBook | null;
   setRecordedVideo: (uri: string, duration: number) => void;
   setTargetWord: (wordId: string | null) => void;
   setIsRecordingFromWordDetail: (value: boolean) => void;
+  setTargetBook: (book: RecordingBook | null) => void;
   clearRecordedVideo: () => void;
 }
 
@@ -17,9 +25,11 @@ const VideoRecordingContext = createContext<VideoRecordingContextType>({
   recordedVideoDuration: null,
   targetWordId: null,
   isRecordingFromWordDetail: false,
+  targetBook: null,
   setRecordedVideo: () => {},
   setTargetWord: () => {},
   setIsRecordingFromWordDetail: () => {},
+  setTargetBook: () => {},
   clearRecordedVideo: () => {},
 });
 
@@ -36,6 +46,7 @@ export function VideoRecordingProvider({ children }: { children: React.ReactNode
   const [recordedVideoDuration, setRecordedVideoDuration] = useState<number | null>(null);
   const [targetWordId, setTargetWordIdState] = useState<string | null>(null);
   const [isRecordingFromWordDetail, setIsRecordingFromWordDetailState] = useState(false);
+  const [targetBook, setTargetBookState] = useState<RecordingBook | null>(null);
 
   const setRecordedVideo = useCallback((uri: string, duration: number) => {
     console.log('VideoRecordingContext: Setting recorded video:', uri, 'duration:', duration);
@@ -53,12 +64,18 @@ export function VideoRecordingProvider({ children }: { children: React.ReactNode
     setIsRecordingFromWordDetailState(value);
   }, []);
 
+  const setTargetBook = useCallback((book: RecordingBook | null) => {
+    console.log('VideoRecordingContext: Setting target book:', book?.userBookId ?? null);
+    setTargetBookState(book);
+  }, []);
+
   const clearRecordedVideo = useCallback(() => {
     console.log('VideoRecordingContext: Clearing recorded video');
     setRecordedVideoUri(null);
     setRecordedVideoDuration(null);
     setTargetWordIdState(null);
     setIsRecordingFromWordDetailState(false);
+    setTargetBookState(null);
   }, []);
 
   return (
@@ -68,9 +85,11 @@ export function VideoRecordingProvider({ children }: { children: React.ReactNode
         recordedVideoDuration,
         targetWordId,
         isRecordingFromWordDetail,
+        targetBook,
         setRecordedVideo,
         setTargetWord,
         setIsRecordingFromWordDetail,
+        setTargetBook,
         clearRecordedVideo,
       }}
     >
@@ -0,0 +1,36 @@
+/**
+ * Book metadata providers per region
+ * Providers are tried in the listed order; when several know a book, each field
+ * comes from the one with the highest weight that has it
+ */
+
+export type BookProviderId = 'googlebooks' | 'douban' | 'openlibrary' | 'amazon';
+
+// Picked from the ISBN's registration group, see getBookRegion
+export type BookRegion = 'china' | 'english' | 'other';
+
+export interface BookProviderSetting {
+  id: BookProviderId;
+  enabled: boolean;
+  weight: number;
+}
+
+export const BOOK_PROVIDER_SETTINGS: Record<BookRegion, BookProviderSetting[]> = {
+  // Mainland China (978-7): Douban has the Chinese titles and the best covers
+  china: [
+    { id: 'douban', enabled: true, weight: 1 },
+    { id: 'googlebooks', enabled: true, weight: 0.8 },
+    { id: 'openlibrary', enabled: true, weight: 0.5 },
+  ],
+  // English-language (978-0/978-1)
+  english: [
+    { id: 'googlebooks', enabled: true, weight: 1 },
+    { id: 'openlibrary', enabled: true, weight: 0.6 },
+    // Needs the amazon-book-cover edge function before it can be enabled
+    { id: 'amazon', enabled: false, weight: 0.4 },
+  ],
+  other: [
+    { id: 'googlebooks', enabled: true, weight: 1 },
+    { id: 'openlibrary', enabled: true, weight: 0.6 },
+  ],
+};
@@ -0,0 +1,36 @@
+
+import { colors } from '@/styles/commonStyles';
+
+/**
+ * Book tag colours and suggested shelves
+ * Tags are stored by colour id so the palette can change without a migration
+ */
+
+export interface BookTagColor {
+  id: string;
+  background: string;
+  text: string;
+}
+
+export const BOOK_TAG_COLORS: BookTagColor[] = [
+  { id: 'purple', background: colors.cardPurple, text: colors.primary },
+  { id: 'pink', background: colors.cardPink, text: colors.primary },
+  { id: 'yellow', background: colors.cardYellow, text: colors.primary },
+  { id: 'sand', background: colors.tabInactive, text: colors.primary },
+  { id: 'green', background: colors.cardGreen, text: colors.backgroundAlt },
+  { id: 'orange', background: colors.cardOrange, text: colors.backgroundAlt },
+  { id: 'blue', background: colors.buttonBlue, text: colors.backgroundAlt },
+];
+
+export const DEFAULT_BOOK_TAG_COLOR = BOOK_TAG_COLORS[0];
+
+// Offered as one-tap shelves in the tag manager
+export const SUGGESTED_BOOK_SHELVES: { name: string; color: string }[] = [
+  { name: 'Bedtime', color: 'purple' },
+  { name: 'Library loans', color: 'yellow' },
+  { name: 'Bath books', color: 'blue' },
+  { name: 'Favourites', color: 'pink' },
+  { name: 'Gifts', color: 'green' },
+];
+
+export const MAX_BOOK_TAG_LENGTH = 24;
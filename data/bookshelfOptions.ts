@@ -0,0 +1,30 @@
+
+/**
+ * Bookshelf filter and sort options
+ * Choices offered by the Books tab search bar and filter sheet
+ */
+
+export type ShelfSort = 'date_added' | 'title' | 'author' | 'most_read' | 'series';
+export type ShelfRating = 'not_vibing' | 'like_it' | 'love_it';
+export type ShelfSource = 'all' | 'catalogue' | 'custom';
+
+export const SHELF_SORT_OPTIONS: { id: ShelfSort; label: string }[] = [
+  { id: 'date_added', label: 'Recently added' },
+  { id: 'title', label: 'Title' },
+  { id: 'author', label: 'Author' },
+  { id: 'most_read', label: 'Most read' },
+  { id: 'series', label: 'Series together' },
+];
+
+// Same labels as the rating buttons in the book detail sheet
+export const SHELF_RATING_OPTIONS: { id: ShelfRating; label: string; emoji: string }[] = [
+  { id: 'not_vibing', label: "Didn't vibe", emoji: '😕' },
+  { id: 'like_it', label: 'Liked it', emoji: '😊' },
+  { id: 'love_it', label: 'Loved it', emoji: '😍' },
+];
+
+export const SHELF_SOURCE_OPTIONS: { id: ShelfSource; label: string }[] = [
+  { id: 'all', label: 'All books' },
+  { id: 'catalogue', label: 'Catalogue' },
+  { id: 'custom', label: 'Added by me' },
+];
@@ -0,0 +1,200 @@
+
+import type { WordCategory } from '@/data/wordCategories';
+
+/**
+ * Curated first-words checklist
+ * Common early words, loosely following the sections of standard parent-report vocabulary checklists,
+ * so parents can tick off what their child says or understands in one go
+ */
+
+export interface ChecklistWord {
+  word: string;
+  emoji: string;
+}
+
+export interface ChecklistSection {
+  category: WordCategory;
+  // Overrides the category label where the checklist groups words differently
+  title?: string;
+  words: ChecklistWord[];
+}
+
+export const FIRST_WORDS_CHECKLIST: ChecklistSection[] = [
+  {
+    category: 'other',
+    title: 'Sounds & Social',
+    words: [
+      { word: 'hi', emoji: '👋' }, { word: 'bye bye', emoji: '👋' }, { word: 'yes', emoji: '👍' },
+      { word: 'no', emoji: '🙅' }, { word: 'more', emoji: '➕' }, { word: 'all gone', emoji: '🫙' },
+      { word: 'uh oh', emoji: '😯' }, { word: 'please', emoji: '🙏' }, { word: 'thank you', emoji: '🙏' },
+      { word: 'night night', emoji: '🌙' }, { word: 'peekaboo', emoji: '🙈' }, { word: 'shh', emoji: '🤫' },
+      { word: 'wow', emoji: '🤩' }, { word: 'ouch', emoji: '🤕' }, { word: 'yum', emoji: '😋' },
+      { word: 'woof', emoji: '🐶' }, { word: 'meow', emoji: '🐱' }, { word: 'moo', emoji: '🐮' },
+      { word: 'baa', emoji: '🐑' }, { word: 'quack', emoji: '🦆' }, { word: 'oink', emoji: '🐷' },
+      { word: 'neigh', emoji: '🐴' }, { word: 'roar', emoji: '🦁' }, { word: 'choo choo', emoji: '🚂' },
+      { word: 'vroom', emoji: '🚗' }, { word: 'beep beep', emoji: '📢' }, { word: 'mine', emoji: '🙋' },
+      { word: 'up', emoji: '⬆️' }, { word: 'down', emoji: '⬇️' }, { word: 'in', emoji: '📥' },
+      { word: 'out', emoji: '📤' }, { word: 'on', emoji: '🔛' }, { word: 'off', emoji: '📴' },
+      { word: 'big', emoji: '🐘' }, { word: 'little', emoji: '🐭' }, { word: 'hot', emoji: '🔥' },
+      { word: 'cold', emoji: '🧊' }, { word: 'wet', emoji: '💦' }, { word: 'dirty', emoji: '🧽' },
+    ],
+  },
+  {
+    category: 'people',
+    words: [
+      { word: 'mama', emoji: '👩' }, { word: 'dada', emoji: '👨' }, { word: 'baby', emoji: '👶' },
+      { word: 'grandma', emoji: '👵' }, { word: 'grandpa', emoji: '👴' }, { word: 'brother', emoji: '👦' },
+      { word: 'sister', emoji: '👧' }, { word: 'boy', emoji: '👦' }, { word: 'girl', emoji: '👧' },
+      { word: 'friend', emoji: '🧒' }, { word: 'teacher', emoji: '🧑‍🏫' }, { word: 'doctor', emoji: '🧑‍⚕️' },
+      { word: 'me', emoji: '🙋' }, { word: 'you', emoji: '👉' },
+    ],
+  },
+  {
+    category: 'animals',
+    words: [
+      { word: 'dog', emoji: '🐶' }, { word: 'cat', emoji: '🐱' }, { word: 'duck', emoji: '🦆' },
+      { word: 'bird', emoji: '🐦' }, { word: 'fish', emoji: '🐟' }, { word: 'cow', emoji: '🐮' },
+      { word: 'pig', emoji: '🐷' }, { word: 'horse', emoji: '🐴' }, { word: 'sheep', emoji: '🐑' },
+      { word: 'chicken', emoji: '🐔' }, { word: 'bunny', emoji: '🐰' }, { word: 'mouse', emoji: '🐭' },
+      { word: 'bear', emoji: '🐻' }, { word: 'teddy', emoji: '🧸' }, { word: 'lion', emoji: '🦁' },
+      { word: 'tiger', emoji: '🐯' }, { word: 'monkey', emoji: '🐵' }, { word: 'elephant', emoji: '🐘' },
+      { word: 'giraffe', emoji: '🦒' }, { word: 'zebra', emoji: '🦓' }, { word: 'frog', emoji: '🐸' },
+      { word: 'bee', emoji: '🐝' }, { word: 'butterfly', emoji: '🦋' }, { word: 'bug', emoji: '🐛' },
+      { word: 'spider', emoji: '🕷️' }, { word: 'snake', emoji: '🐍' }, { word: 'turtle', emoji: '🐢' },
+      { word: 'owl', emoji: '🦉' }, { word: 'penguin', emoji: '🐧' }, { word: 'dinosaur', emoji: '🦕' },
+    ],
+  },
+  {
+    category: 'food',
+    words: [
+      { word: 'milk', emoji: '🥛' }, { word: 'water', emoji: '💧' }, { word: 'juice', emoji: '🧃' },
+      { word: 'banana', emoji: '🍌' }, { word: 'apple', emoji: '🍎' }, { word: 'orange', emoji: '🍊' },
+      { word: 'grapes', emoji: '🍇' }, { word: 'strawberry', emoji: '🍓' }, { word: 'blueberry', emoji: '🫐' },
+      { word: 'pear', emoji: '🍐' }, { word: 'bread', emoji: '🍞' }, { word: 'toast', emoji: '🍞' },
+      { word: 'cheese', emoji: '🧀' }, { word: 'egg', emoji: '🥚' }, { word: 'yogurt', emoji: '🥣' },
+      { word: 'cereal', emoji: '🥣' }, { word: 'pasta', emoji: '🍝' }, { word: 'rice', emoji: '🍚' },
+      { word: 'carrot', emoji: '🥕' }, { word: 'peas', emoji: '🫛' }, { word: 'potato', emoji: '🥔' },
+      { word: 'cookie', emoji: '🍪' }, { word: 'cracker', emoji: '🍘' }, { word: 'cake', emoji: '🍰' },
+      { word: 'ice cream', emoji: '🍦' }, { word: 'pizza', emoji: '🍕' }, { word: 'snack', emoji: '🥨' },
+      { word: 'spoon', emoji: '🥄' }, { word: 'cup', emoji: '🥤' }, { word: 'bowl', emoji: '🥣' },
+      { word: 'bottle', emoji: '🍼' },
+    ],
+  },
+  {
+    category: 'body_parts',
+    words: [
+      { word: 'nose', emoji: '👃' }, { word: 'eyes', emoji: '👀' }, { word: 'ears', emoji: '👂' },
+      { word: 'mouth', emoji: '👄' }, { word: 'teeth', emoji: '🦷' }, { word: 'tongue', emoji: '👅' },
+      { word: 'hair', emoji: '💇' }, { word: 'head', emoji: '🙆' }, { word: 'hands', emoji: '✋' },
+      { word: 'fingers', emoji: '🖐️' }, { word: 'feet', emoji: '🦶' }, { word: 'toes', emoji: '🦶' },
+      { word: 'tummy', emoji: '🫃' }, { word: 'belly button', emoji: '🔘' }, { word: 'knee', emoji: '🦵' },
+      { word: 'arm', emoji: '💪' }, { word: 'leg', emoji: '🦵' }, { word: 'cheek', emoji: '😊' },
+    ],
+  },
+  {
+    category: 'clothing',
+    words: [
+      { word: 'shoes', emoji: '👟' }, { word: 'socks', emoji: '🧦' }, { word: 'hat', emoji: '🧢' },
+      { word: 'coat', emoji: '🧥' }, { word: 'shirt', emoji: '👕' }, { word: 'pants', emoji: '👖' },
+      { word: 'dress', emoji: '👗' }, { word: 'nappy', emoji: '🧷' }, { word: 'pyjamas', emoji: '🩳' },
+      { word: 'boots', emoji: '🥾' }, { word: 'gloves', emoji: '🧤' }, { word: 'bib', emoji: '🍽️' },
+      { word: 'glasses', emoji: '👓' }, { word: 'button', emoji: '🔘' },
+    ],
+  },
+  {
+    category: 'things',
+    title: 'Toys & Household',
+    words: [
+      { word: 'ball', emoji: '⚽' }, { word: 'book', emoji: '📚' }, { word: 'block', emoji: '🧱' },
+      { word: 'doll', emoji: '🪆' }, { word: 'balloon', emoji: '🎈' }, { word: 'bubbles', emoji: '🫧' },
+      { word: 'toy', emoji: '🧸' }, { word: 'puzzle', emoji: '🧩' }, { word: 'crayon', emoji: '🖍️' },
+      { word: 'drum', emoji: '🥁' }, { word: 'blanket', emoji: '🛌' }, { word: 'dummy', emoji: '🍼' },
+      { word: 'bed', emoji: '🛏️' }, { word: 'chair', emoji: '🪑' }, { word: 'table', emoji: '🪑' },
+      { word: 'door', emoji: '🚪' }, { word: 'window', emoji: '🪟' }, { word: 'light', emoji: '💡' },
+      { word: 'bath', emoji: '🛁' }, { word: 'potty', emoji: '🚽' }, { word: 'towel', emoji: '🧺' },
+      { word: 'brush', emoji: '🪥' }, { word: 'phone', emoji: '📱' }, { word: 'keys', emoji: '🔑' },
+      { word: 'tv', emoji: '📺' }, { word: 'clock', emoji: '🕐' }, { word: 'box', emoji: '📦' },
+      { word: 'bag', emoji: '👜' }, { word: 'pram', emoji: '🛒' }, { word: 'swing', emoji: '🛝' },
+      { word: 'slide', emoji: '🛝' }, { word: 'music', emoji: '🎵' },
+    ],
+  },
+  {
+    category: 'vehicles',
+    words: [
+      { word: 'car', emoji: '🚗' }, { word: 'bus', emoji: '🚌' }, { word: 'train', emoji: '🚂' },
+      { word: 'truck', emoji: '🚚' }, { word: 'plane', emoji: '✈️' }, { word: 'boat', emoji: '⛵' },
+      { word: 'bike', emoji: '🚲' }, { word: 'tractor', emoji: '🚜' }, { word: 'fire truck', emoji: '🚒' },
+      { word: 'digger', emoji: '🏗️' }, { word: 'helicopter', emoji: '🚁' }, { word: 'police car', emoji: '🚓' },
+      { word: 'ambulance', emoji: '🚑' }, { word: 'rocket', emoji: '🚀' },
+    ],
+  },
+  {
+    category: 'actions',
+    words: [
+      { word: 'eat', emoji: '🍽️' }, { word: 'drink', emoji: '🥤' }, { word: 'sleep', emoji: '😴' },
+      { word: 'go', emoji: '🟢' }, { word: 'stop', emoji: '🛑' }, { word: 'walk', emoji: '🚶' },
+      { word: 'run', emoji: '🏃' }, { word: 'jump', emoji: '🦘' }, { word: 'dance', emoji: '💃' },
+      { word: 'sing', emoji: '🎤' }, { word: 'play', emoji: '🧸' }, { word: 'read', emoji: '📖' },
+      { word: 'kiss', emoji: '😘' }, { word: 'hug', emoji: '🤗' }, { word: 'clap', emoji: '👏' },
+      { word: 'wave', emoji: '👋' }, { word: 'push', emoji: '🫸' }, { word: 'open', emoji: '📂' },
+      { word: 'close', emoji: '📁' }, { word: 'wash', emoji: '🧼' }, { word: 'help', emoji: '🆘' },
+      { word: 'look', emoji: '👀' }, { word: 'sit', emoji: '🪑' }, { word: 'throw', emoji: '🤾' },
+      { word: 'tickle', emoji: '🤭' }, { word: 'swim', emoji: '🏊' }, { word: 'blow', emoji: '🌬️' },
+      { word: 'cuddle', emoji: '🫂' }, { word: 'wake up', emoji: '⏰' }, { word: 'come', emoji: '🫴' },
+    ],
+  },
+  {
+    category: 'feelings',
+    words: [
+      { word: 'happy', emoji: '😊' }, { word: 'sad', emoji: '😢' }, { word: 'cry', emoji: '😭' },
+      { word: 'love', emoji: '❤️' }, { word: 'scared', emoji: '😨' }, { word: 'tired', emoji: '🥱' },
+      { word: 'hungry', emoji: '😋' }, { word: 'sick', emoji: '🤒' }, { word: 'silly', emoji: '🤪' },
+      { word: 'funny', emoji: '😂' }, { word: 'sleepy', emoji: '😴' }, { word: 'yucky', emoji: '🤢' },
+    ],
+  },
+  {
+    category: 'colors',
+    words: [
+      { word: 'red', emoji: '🔴' }, { word: 'blue', emoji: '🔵' }, { word: 'yellow', emoji: '🟡' },
+      { word: 'green', emoji: '🟢' }, { word: 'purple', emoji: '🟣' }, { word: 'pink', emoji: '🩷' },
+      { word: 'black', emoji: '⚫' }, { word: 'white', emoji: '⚪' }, { word: 'brown', emoji: '🟤' },
+    ],
+  },
+  {
+    category: 'nature',
+    title: 'Outside',
+    words: [
+      { word: 'tree', emoji: '🌳' }, { word: 'flower', emoji: '🌸' }, { word: 'grass', emoji: '🌱' },
+      { word: 'sun', emoji: '☀️' }, { word: 'moon', emoji: '🌙' }, { word: 'star', emoji: '⭐' },
+      { word: 'sky', emoji: '🌤️' }, { word: 'rain', emoji: '🌧️' }, { word: 'snow', emoji: '❄️' },
+      { word: 'rock', emoji: '🪨' }, { word: 'sand', emoji: '🏖️' }, { word: 'leaf', emoji: '🍃' },
+      { word: 'stick', emoji: '🪵' }, { word: 'puddle', emoji: '💧' }, { word: 'rainbow', emoji: '🌈' },
+      { word: 'wind', emoji: '💨' },
+    ],
+  },
+  {
+    category: 'places',
+    words: [
+      { word: 'home', emoji: '🏠' }, { word: 'park', emoji: '🏞️' }, { word: 'beach', emoji: '🏖️' },
+      { word: 'shop', emoji: '🏪' }, { word: 'school', emoji: '🏫' }, { word: 'zoo', emoji: '🦁' },
+      { word: 'farm', emoji: '🚜' }, { word: 'garden', emoji: '🌻' }, { word: 'playground', emoji: '🛝' },
+      { word: 'outside', emoji: '🌳' }, { word: 'kitchen', emoji: '🍳' }, { word: 'bathroom', emoji: '🛁' },
+    ],
+  },
+  {
+    category: 'numbers',
+    words: [
+      { word: 'one', emoji: '1️⃣' }, { word: 'two', emoji: '2️⃣' }, { word: 'three', emoji: '3️⃣' },
+      { word: 'four', emoji: '4️⃣' }, { word: 'five', emoji: '5️⃣' },
+    ],
+  },
+  {
+    category: 'time',
+    words: [
+      { word: 'now', emoji: '⏱️' }, { word: 'later', emoji: '⏳' }, { word: 'morning', emoji: '🌅' },
+      { word: 'night', emoji: '🌙' }, { word: 'today', emoji: '📅' }, { word: 'bedtime', emoji: '🛏️' },
+      { word: 'bath time', emoji: '🛁' }, { word: 'lunch', emoji: '🥪' }, { word: 'breakfast', emoji: '🥣' },
+      { word: 'dinner', emoji: '🍽️' },
+    ],
+  },
+];
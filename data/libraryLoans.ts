@@ -0,0 +1,17 @@
+/**
+ * Library loan options
+ * Defaults used when marking a book as borrowed from the library
+ */
+
+// 'returned' books leave the active shelf but keep their reading history
+export type BookOwnership = 'owned' | 'borrowed' | 'returned';
+
+// Most public libraries lend picture books for three weeks
+export const DEFAULT_LOAN_DAYS = 21;
+
+// Borrowed books due within this many days show under "Due soon"
+export const DUE_SOON_DAYS = 3;
+
+// Reminders go out this many days before the due date, at REMINDER_HOUR
+export const LOAN_REMINDER_DAYS_BEFORE = [2, 0];
+export const LOAN_REMINDER_HOUR = 9;
@@ -16,6 +16,7 @@ export const milestonesData: Milestone[] = [
     color: MILESTONE_COLORS.YELLOW,
     achieved: false,
     progress: '0/1',
+    target: 1,
     lockedImage: require('@/assets/images/a613b109-6a8f-48b8-a73c-66bb577ff540.png'),
     unlockedImage: require('@/assets/images/2d4fd1e6-bc9e-4f93-bf31-fb77a5b45c9f.png'),
   },
@@ -26,6 +27,7 @@ export const milestonesData: Milestone[] = [
     color: MILESTONE_COLORS.PINK,
     achieved: false,
     progress: '0/50',
+    target: 50,
     lockedImage: require('@/assets/images/204f79ce-3dcb-44d3-a50a-6dfb8ff422b1.png'),
     unlockedImage: require('@/assets/images/4e6a5f1c-7c97-4636-8c4f-87f426402187.png'),
   },
@@ -36,6 +38,7 @@ export const milestonesData: Milestone[] = [
     color: MILESTONE_COLORS.GREEN,
     achieved: false,
     progress: '0/10',
+    target: 10,
     lockedImage: require('@/assets/images/fc792d3c-33a6-443d-b66c-df50747d3722.png'),
     unlockedImage: require('@/assets/images/764ce075-a6da-4fcb-9bd3-e63696b82ac2.png'),
   },
@@ -47,6 +50,7 @@ export const milestonesData: Milestone[] = [
     color: MILESTONE_COLORS.PINK,
     achieved: false,
     progress: '0/30',
+    target: 30,
   },
   {
     id: 'food_fan',
@@ -55,6 +59,7 @@ export const milestonesData: Milestone[] = [
     color: MILESTONE_COLORS.GREEN,
     achieved: false,
     progress: '0/10',
+    target: 10,
   },
   {
     id: 'color_caller',
@@ -63,6 +68,7 @@ export const milestonesData: Milestone[] = [
     color: MILESTONE_COLORS.GREEN,
     achieved: false,
     progress: '0/5',
+    target: 5,
   },
   // Row 3
   {
@@ -72,6 +78,7 @@ export const milestonesData: Milestone[] = [
     color: MILESTONE_COLORS.GREEN,
     achieved: false,
     progress: '0/50',
+    target: 50,
   },
   {
     id: 'author_fan',
@@ -80,6 +87,7 @@ export const milestonesData: Milestone[] = [
     color: MILESTONE_COLORS.PINK,
     achieved: false,
     progress: '0/5',
+    target: 5,
   },
   {
     id: 'progress_tracker',
@@ -88,6 +96,7 @@ export const milestonesData: Milestone[] = [
     color: MILESTONE_COLORS.YELLOW,
     achieved: false,
     progress: '0/3',
+    target: 3,
   },
   // Row 4
   {
@@ -97,6 +106,7 @@ export const milestonesData: Milestone[] = [
     color: MILESTONE_COLORS.PINK,
     achieved: false,
     progress: '0/10',
+    target: 10,
   },
   {
     id: 'body_expert',
@@ -105,6 +115,7 @@ export const milestonesData: Milestone[] = [
     color: MILESTONE_COLORS.GREEN,
     achieved: false,
     progress: '0/10',
+    target: 10,
   },
   {
     id: 'taste_maker',
@@ -113,5 +124,6 @@ export const milestonesData: Milestone[] = [
     color: MILESTONE_COLORS.PINK,
     achieved: false,
     progress: '0/50',
+    target: 50,
   },
 ];
@@ -0,0 +1,26 @@
+
+/**
+ * Pronunciation stages
+ * How close the child's version of a word is to the adult word, from a first sound to saying it clearly
+ */
+
+export type PronunciationStage =
+  | 'first_sound'
+  | 'approximation'
+  | 'nearly_there'
+  | 'clear';
+
+export interface PronunciationStageInfo {
+  id: PronunciationStage;
+  label: string;
+  emoji: string;
+  // Example for "banana", shown as a hint under the stage chips
+  example: string;
+}
+
+export const PRONUNCIATION_STAGES: PronunciationStageInfo[] = [
+  { id: 'first_sound', label: 'First sound', emoji: '🌱', example: '"ba"' },
+  { id: 'approximation', label: 'Approximation', emoji: '🌿', example: '"baba"' },
+  { id: 'nearly_there', label: 'Nearly there', emoji: '🌷', example: '"nana"' },
+  { id: 'clear', label: 'Clear', emoji: '🌻', example: '"banana"' },
+];
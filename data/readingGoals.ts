@@ -0,0 +1,42 @@
+
+/**
+ * Reading goal options
+ * Choices offered when setting a child's reading goal
+ */
+
+export type ReadingGoalMetric = 'books' | 'minutes';
+export type ReadingGoalPeriod = 'daily' | 'weekly';
+
+export interface ReadingGoal {
+  metric: ReadingGoalMetric;
+  period: ReadingGoalPeriod;
+  target: number;
+  // Missed days per week (Monday to Sunday) that don't break a daily streak
+  graceDays: number;
+  reminderEnabled: boolean;
+  reminderHour: number;
+  reminderMinute: number;
+}
+
+export const DEFAULT_READING_GOAL: ReadingGoal = {
+  metric: 'books',
+  period: 'daily',
+  target: 3,
+  graceDays: 1,
+  reminderEnabled: false,
+  reminderHour: 18,
+  reminderMinute: 30,
+};
+
+export const READING_GOAL_TARGETS: Record<ReadingGoalMetric, Record<ReadingGoalPeriod, number[]>> = {
+  books: {
+    daily: [1, 2, 3, 5],
+    weekly: [5, 7, 10, 15, 20],
+  },
+  minutes: {
+    daily: [10, 15, 20, 30],
+    weekly: [60, 90, 120, 150],
+  },
+};
+
+export const GRACE_DAY_OPTIONS = [0, 1, 2];
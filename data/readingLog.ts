@@ -0,0 +1,26 @@
+
+/**
+ * Reading log options
+ * Choices offered when logging a read-aloud session
+ */
+
+export type ReadingEngagement = 'restless' | 'listening' | 'engaged' | 'captivated';
+
+export interface ReadingEngagementInfo {
+  id: ReadingEngagement;
+  label: string;
+  emoji: string;
+}
+
+export const READING_ENGAGEMENT_LEVELS: ReadingEngagementInfo[] = [
+  { id: 'restless', label: 'Restless', emoji: '🙃' },
+  { id: 'listening', label: 'Listening', emoji: '👂' },
+  { id: 'engaged', label: 'Engaged', emoji: '😊' },
+  { id: 'captivated', label: 'Captivated', emoji: '🤩' },
+];
+
+// Approximate session lengths in minutes
+export const READING_DURATION_OPTIONS = [5, 10, 15, 20, 30];
+
+// Offered alongside any readers already used for the child
+export const DEFAULT_READERS = ['Mum', 'Dad', 'Grandparent', 'Sibling', 'Carer'];
@@ -0,0 +1,52 @@
+
+/**
+ * Approximate vocabulary ranges by age
+ * Rounded from published parent-report norms (MacArthur-Bates Communicative Development Inventories).
+ * low ≈ 10th percentile, typical ≈ median, high ≈ 90th percentile.
+ * Words understood are only normed by the Words and Gestures form, which stops at 18 months,
+ * so later bands have no receptive range. Words said stop at 30 months with the Words and
+ * Sentences form; older children are compared with the 30-month band.
+ * These are population ranges, not diagnostic thresholds.
+ */
+
+export interface VocabularyRange {
+  low: number;
+  typical: number;
+  high: number;
+}
+
+export interface VocabularyBenchmarkBand {
+  ageMonths: number;
+  // Words the child says
+  expressive: VocabularyRange;
+  // Words the child understands, up to 18 months
+  receptive?: VocabularyRange;
+}
+
+export const VOCABULARY_BENCHMARKS: VocabularyBenchmarkBand[] = [
+  {
+    ageMonths: 12,
+    expressive: { low: 1, typical: 6, high: 25 },
+    receptive: { low: 20, typical: 70, high: 170 },
+  },
+  {
+    ageMonths: 18,
+    expressive: { low: 10, typical: 50, high: 150 },
+    receptive: { low: 100, typical: 200, high: 300 },
+  },
+  {
+    ageMonths: 24,
+    expressive: { low: 60, typical: 300, high: 550 },
+  },
+  {
+    ageMonths: 30,
+    expressive: { low: 200, typical: 450, high: 650 },
+  },
+];
+
+export const BENCHMARK_SOURCE_NOTE =
+  'Ranges are rounded from published parent-report studies of English-speaking children ' +
+  '(MacArthur-Bates Communicative Development Inventories). Words understood are only measured ' +
+  'up to 18 months and words said up to 30 months, so older children are compared with the last range. ' +
+  'Children learning more than one language often spread their words across languages, so their count ' +
+  'in any one language can look lower.';
@@ -0,0 +1,135 @@
+
+/**
+ * Word category taxonomy
+ * The keyword table below drives both emoji suggestions and automatic category tagging
+ */
+
+export type WordCategory =
+  | 'animals'
+  | 'food'
+  | 'colors'
+  | 'body_parts'
+  | 'vehicles'
+  | 'people'
+  | 'actions'
+  | 'feelings'
+  | 'clothing'
+  | 'nature'
+  | 'weather'
+  | 'places'
+  | 'things'
+  | 'numbers'
+  | 'time'
+  | 'other';
+
+export interface WordCategoryInfo {
+  id: WordCategory;
+  label: string;
+  emoji: string;
+}
+
+export const WORD_CATEGORIES: WordCategoryInfo[] = [
+  { id: 'animals', label: 'Animals', emoji: '🐶' },
+  { id: 'food', label: 'Food', emoji: '🍎' },
+  { id: 'colors', label: 'Colors', emoji: '🎨' },
+  { id: 'body_parts', label: 'Body Parts', emoji: '👃' },
+  { id: 'vehicles', label: 'Vehicles', emoji: '🚗' },
+  { id: 'people', label: 'People', emoji: '👩' },
+  { id: 'actions', label: 'Actions', emoji: '🏃' },
+  { id: 'feelings', label: 'Feelings', emoji: '😊' },
+  { id: 'clothing', label: 'Clothing', emoji: '👕' },
+  { id: 'nature', label: 'Nature', emoji: '🌳' },
+  { id: 'weather', label: 'Weather', emoji: '🌦️' },
+  { id: 'places', label: 'Places', emoji: '🏠' },
+  { id: 'things', label: 'Toys & Things', emoji: '🧸' },
+  { id: 'numbers', label: 'Numbers', emoji: '🔢' },
+  { id: 'time', label: 'Time', emoji: '⏰' },
+  { id: 'other', label: 'Other', emoji: '⭐' },
+];
+
+// Keyword -> emoji, grouped by category
+export const WORD_KEYWORDS: Partial<Record<WordCategory, { [word: string]: string }>> = {
+  animals: {
+    'dog': '🐶', 'cat': '🐱', 'mouse': '🐭', 'hamster': '🐹', 'rabbit': '🐰',
+    'fox': '🦊', 'bear': '🐻', 'panda': '🐼', 'koala': '🐨', 'tiger': '🐯',
+    'lion': '🦁', 'cow': '🐮', 'pig': '🐷', 'frog': '🐸', 'monkey': '🐵',
+    'chicken': '🐔', 'bird': '🐦', 'penguin': '🐧', 'duck': '🦆', 'owl': '🦉',
+    'fish': '🐟', 'whale': '🐋', 'dolphin': '🐬', 'shark': '🦈', 'octopus': '🐙',
+    'butterfly': '🦋', 'bee': '🐝', 'ladybug': '🐞', 'snail': '🐌', 'turtle': '🐢',
+    'elephant': '🐘', 'giraffe': '🦒', 'zebra': '🦓', 'horse': '🐴', 'unicorn': '🦄',
+  },
+  food: {
+    'apple': '🍎', 'banana': '🍌', 'grape': '🍇', 'watermelon': '🍉', 'strawberry': '🍓',
+    'cherry': '🍒', 'peach': '🍑', 'pineapple': '🍍', 'kiwi': '🥝', 'bread': '🍞',
+    'cheese': '🧀', 'meat': '🍖', 'pizza': '🍕', 'burger': '🍔', 'fries': '🍟',
+    'hotdog': '🌭', 'taco': '🌮', 'burrito': '🌯', 'sandwich': '🥪', 'milk': '🥛',
+    'water': '💧', 'juice': '🧃', 'coffee': '☕', 'tea': '🍵', 'cake': '🍰',
+    'cookie': '🍪', 'candy': '🍬', 'chocolate': '🍫', 'ice cream': '🍦', 'egg': '🥚',
+    'carrot': '🥕', 'corn': '🌽', 'potato': '🥔', 'tomato': '🍅',
+  },
+  colors: {
+    'orange': '🟠', 'red': '🔴', 'blue': '🔵', 'green': '🟢', 'yellow': '🟡',
+    'purple': '🟣', 'pink': '🩷', 'brown': '🟤', 'black': '⚫', 'white': '⚪',
+  },
+  body_parts: {
+    'hand': '✋', 'foot': '🦶', 'eye': '👁️', 'ear': '👂', 'nose': '👃',
+    'mouth': '👄', 'teeth': '🦷', 'hair': '💇', 'heart': '❤️', 'brain': '🧠',
+  },
+  vehicles: {
+    'car': '🚗', 'bus': '🚌', 'train': '🚂', 'plane': '✈️', 'boat': '⛵',
+    'bike': '🚲', 'motorcycle': '🏍️', 'truck': '🚚', 'taxi': '🚕', 'ambulance': '🚑',
+    'fire truck': '🚒', 'police': '🚓', 'helicopter': '🚁', 'rocket': '🚀', 'ship': '🚢',
+  },
+  people: {
+    'mom': '👩', 'dad': '👨', 'baby': '👶', 'boy': '👦', 'girl': '👧',
+    'grandma': '👵', 'grandpa': '👴', 'family': '👨‍👩‍👧‍👦', 'brother': '👦', 'sister': '👧',
+  },
+  actions: {
+    'sleep': '😴', 'eat': '🍽️', 'drink': '🥤', 'play': '🎮', 'run': '🏃',
+    'walk': '🚶', 'jump': '🦘', 'dance': '💃', 'sing': '🎤', 'read': '📖',
+  },
+  feelings: {
+    'happy': '😊', 'sad': '😢', 'love': '❤️', 'laugh': '😂', 'cry': '😭',
+  },
+  clothing: {
+    'shirt': '👕', 'pants': '👖', 'dress': '👗', 'shoe': '👞', 'hat': '🎩',
+    'sock': '🧦', 'glove': '🧤', 'coat': '🧥', 'scarf': '🧣', 'glasses': '👓',
+  },
+  nature: {
+    'tree': '🌳', 'flower': '🌸', 'rose': '🌹', 'sunflower': '🌻', 'tulip': '🌷',
+    'sun': '☀️', 'moon': '🌙', 'star': '⭐', 'cloud': '☁️', 'rain': '🌧️',
+    'snow': '❄️', 'fire': '🔥', 'wind': '💨', 'rainbow': '🌈', 'mountain': '⛰️',
+    'ocean': '🌊', 'leaf': '🍃', 'plant': '🌱',
+  },
+  weather: {
+    'sunny': '☀️', 'cloudy': '☁️', 'rainy': '🌧️', 'snowy': '❄️', 'windy': '💨',
+    'storm': '⛈️', 'thunder': '⚡', 'hot': '🔥', 'cold': '🧊', 'warm': '🌡️',
+  },
+  places: {
+    'beach': '🏖️', 'home': '🏠', 'house': '🏠', 'school': '🏫', 'hospital': '🏥',
+    'store': '🏪', 'park': '🏞️', 'playground': '🛝', 'castle': '🏰', 'church': '⛪',
+  },
+  things: {
+    'ball': '⚽', 'book': '📚', 'pen': '✏️', 'pencil': '✏️', 'crayon': '🖍️',
+    'phone': '📱', 'computer': '💻', 'tv': '📺', 'camera': '📷', 'watch': '⌚',
+    'clock': '🕐', 'key': '🔑', 'door': '🚪', 'window': '🪟', 'chair': '🪑',
+    'table': '🪑', 'bed': '🛏️', 'lamp': '💡', 'gift': '🎁', 'balloon': '🎈',
+    'toy': '🧸', 'puzzle': '🧩', 'game': '🎮', 'music': '🎵', 'guitar': '🎸',
+    'drum': '🥁', 'trumpet': '🎺', 'violin': '🎻', 'piano': '🎹', 'microphone': '🎤',
+  },
+  numbers: {
+    'one': '1️⃣', 'two': '2️⃣', 'three': '3️⃣', 'four': '4️⃣', 'five': '5️⃣',
+    'six': '6️⃣', 'seven': '7️⃣', 'eight': '8️⃣', 'nine': '9️⃣', 'ten': '🔟',
+  },
+  time: {
+    'morning': '🌅', 'day': '☀️', 'night': '🌙', 'evening': '🌆', 'today': '📅',
+    'tomorrow': '📆', 'yesterday': '📅', 'time': '⏰', 'hour': '🕐', 'minute': '⏱️',
+  },
+};
+
+// Keywords that belong to more than one category. The table above holds the main one, which
+// picks the emoji, the stored tag and the Words tab filter; these also count for category
+// milestones, e.g. "orange" is a colour first but still counts towards Food Fan
+export const EXTRA_WORD_CATEGORIES: { [word: string]: WordCategory[] } = {
+  'orange': ['food'],
+};
@@ -0,0 +1,147 @@
+import { useState, useCallback } from 'react';
+import { Alert, Platform } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { useChild } from '@/contexts/ChildContext';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import { useMomentUploads } from '@/contexts/MomentUploadsContext';
+import { HapticFeedback } from '@/utils/haptics';
+
+export interface PhotoMomentTarget {
+  wordId?: string | null;
+  userBookId?: string | null;
+  // The word, or the book's title
+  name: string;
+}
+
+type PhotoSource = 'camera' | 'library';
+
+const PICKER_OPTIONS: ImagePicker.ImagePickerOptions = {
+  mediaTypes: ['images'],
+  allowsEditing: false,
+  // Below 1 the picker re-encodes to JPEG, which is what the bucket stores
+  quality: 0.8,
+};
+
+/**
+ * When a photo picked from the library was taken, so the moment keeps its real date
+ */
+async function getPhotoCreationDate(asset: ImagePicker.ImagePickerAsset): Promise<string | null> {
+  if (!asset.assetId) return null;
+
+  try {
+    const MediaLibrary = await import('expo-media-library');
+    const assetInfo = await MediaLibrary.getAssetInfoAsync(asset.assetId);
+    return assetInfo.creationTime ? new Date(assetInfo.creationTime).toISOString() : null;
+  } catch (error) {
+    console.warn('useAddPhotoMoment: Could not fetch photo creation date:', error);
+    return null;
+  }
+}
+
+export function useAddPhotoMoment() {
+  const { selectedChild } = useChild();
+  const { remainingPhotos } = useSubscription();
+  const { uploads, queueMoment } = useMomentUploads();
+  const [showUpgradeModal, setShowUpgradeModal] = useState(false);
+
+  // Photos still uploading haven't been counted by the subscription yet
+  const queuedPhotoCount = uploads.filter((upload) => upload.mediaType === 'photo').length;
+
+  const pickPhoto = useCallback(async (source: PhotoSource): Promise<ImagePicker.ImagePickerAsset | null> => {
+    const { status } = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+    if (status !== 'granted') {
+      Alert.alert(
+        'Permission Required',
+        source === 'camera'
+          ? 'Please grant camera access to take a photo.'
+          : 'Please grant photo library access to add a photo.'
+      );
+      return null;
+    }
+
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(PICKER_OPTIONS)
+      : await ImagePicker.launchImageLibraryAsync(PICKER_OPTIONS);
+
+    if (result.canceled || !result.assets || result.assets.length === 0) {
+      return null;
+    }
+    return result.assets[0];
+  }, []);
+
+  const savePhoto = useCallback(async (target: PhotoMomentTarget, source: PhotoSource) => {
+    if (!selectedChild) return;
+
+    try {
+      const asset = await pickPhoto(source);
+      if (!asset) return;
+
+      console.log('useAddPhotoMoment: Queuing photo for', target.name);
+      await queueMoment({
+        childId: selectedChild.id,
+        wordId: target.wordId ?? null,
+        userBookId: target.userBookId ?? null,
+        targetName: target.name,
+        mediaType: 'photo',
+        mediaUri: asset.uri,
+        thumbnailUri: null,
+        trimStart: 0,
+        trimEnd: 0,
+        originalCreatedAt: source === 'library' ? await getPhotoCreationDate(asset) : new Date().toISOString(),
+      });
+      HapticFeedback.success();
+    } catch (error) {
+      console.error('useAddPhotoMoment: Error adding photo:', error);
+      HapticFeedback.error();
+      Alert.alert('Error', 'Failed to add photo. Please try again.');
+    }
+  }, [selectedChild, pickPhoto, queueMoment]);
+
+  /**
+   * Ask for a photo from the camera or the library and queue it as a moment of the word or book
+   */
+  const addPhoto = useCallback((target: PhotoMomentTarget) => {
+    HapticFeedback.medium();
+
+    if (!selectedChild) {
+      Alert.alert('No Child Selected', 'Please add a child before adding photos.');
+      return;
+    }
+
+    if (remainingPhotos - queuedPhotoCount <= 0) {
+      console.log('useAddPhotoMoment: Photo quota reached');
+      HapticFeedback.warning();
+      setShowUpgradeModal(true);
+      return;
+    }
+
+    // There's no camera to launch on web
+    if (Platform.OS === 'web') {
+      savePhoto(target, 'library');
+      return;
+    }
+
+    Alert.alert(
+      'Add Photo',
+      `Add a photo to "${target.name}"`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Take Photo', onPress: () => savePhoto(target, 'camera') },
+        { text: 'Choose from Library', onPress: () => savePhoto(target, 'library') },
+      ]
+    );
+  }, [selectedChild, remainingPhotos, queuedPhotoCount, savePhoto]);
+
+  const closeUpgradeModal = useCallback(() => {
+    setShowUpgradeModal(false);
+  }, []);
+
+  return {
+    addPhoto,
+    showUpgradeModal,
+    closeUpgradeModal,
+  };
+}
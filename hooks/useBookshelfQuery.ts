@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useChild } from '@/contexts/ChildContext';
+import { useReadingLog } from '@/contexts/ReadingLogContext';
+import { useBookTags } from '@/contexts/BookTagsContext';
+import { isSameTagName, mergeUsedTags } from '@/utils/bookTags';
+import {
+  applyShelfQuery,
+  countActiveFilters,
+  countShelfTags,
+  DEFAULT_SHELF_FILTERS,
+  getShelfTags,
+  loadShelfFilters,
+  saveShelfFilters,
+  ShelfBook,
+  ShelfFilters,
+} from '@/utils/bookshelfQuery';
+
+export function useBookshelfQuery<T extends ShelfBook>(books: T[]) {
+  const { selectedChild } = useChild();
+  const { sessions } = useReadingLog();
+  const { tags: registeredTags } = useBookTags();
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<ShelfFilters>(DEFAULT_SHELF_FILTERS);
+
+  useEffect(() => {
+    setSearch('');
+    if (!selectedChild) {
+      setFilters(DEFAULT_SHELF_FILTERS);
+      return;
+    }
+
+    let cancelled = false;
+    console.log('useBookshelfQuery: Loading shelf filters for child:', selectedChild.id);
+    loadShelfFilters(selectedChild.id).then((loaded) => {
+      if (!cancelled) setFilters(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedChild]);
+
+  const updateFilters = useCallback((newFilters: ShelfFilters) => {
+    setFilters(newFilters);
+    if (selectedChild) {
+      saveShelfFilters(selectedChild.id, newFilters);
+    }
+  }, [selectedChild]);
+
+  const resetFilters = useCallback(() => {
+    updateFilters({ ...DEFAULT_SHELF_FILTERS, sort: filters.sort });
+  }, [updateFilters, filters.sort]);
+
+  const availableTags = useMemo(() => getShelfTags(books), [books]);
+  const tagCounts = useMemo(() => countShelfTags(books), [books]);
+
+  // Every tag shelf, including registered tags no book carries yet
+  const shelfTags = useMemo(
+    () => mergeUsedTags(registeredTags, availableTags),
+    [registeredTags, availableTags]
+  );
+
+  const readCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    sessions.forEach((session) => {
+      counts.set(session.user_book_id, (counts.get(session.user_book_id) || 0) + 1);
+    });
+    return counts;
+  }, [sessions]);
+
+  // Tags deleted since they were picked no longer filter the shelf
+  const effectiveFilters = useMemo(
+    () => ({ ...filters, tags: filters.tags.filter((tag) => shelfTags.some((t) => isSameTagName(t.name, tag))) }),
+    [filters, shelfTags]
+  );
+
+  const visibleBooks = useMemo(
+    () => applyShelfQuery(books, search, effectiveFilters, readCounts),
+    [books, search, effectiveFilters, readCounts]
+  );
+
+  return {
+    search,
+    setSearch,
+    filters,
+    updateFilters,
+    resetFilters,
+    availableTags,
+    shelfTags,
+    tagCounts,
+    visibleBooks,
+    activeFilterCount: countActiveFilters(effectiveFilters),
+  };
+}
@@ -0,0 +1,109 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { searchBookByISBN } from '@/utils/googleBooksApi';
+import { usePendingBookLookups } from '@/contexts/PendingBookLookupsContext';
+import { isLookupPending, toIsbn13, BulkScanItem } from '@/utils/bulkBookScan';
+
+export type EnqueueResult = 'queued' | 'duplicate';
+
+/**
+ * Queue of scanned ISBNs, looked up one at a time so a stack of books doesn't
+ * burst the lookup APIs; scanning can carry on while lookups run.
+ * Lookups that fail are saved for later like single scans (see PendingBookLookupsContext)
+ */
+export function useBulkIsbnQueue() {
+  const { queueLookup } = usePendingBookLookups();
+  const [items, setItems] = useState<BulkScanItem[]>([]);
+  // Mirrors `items` synchronously so scans in quick succession see each other
+  const itemsRef = useRef<BulkScanItem[]>([]);
+
+  const setQueue = useCallback((update: (prev: BulkScanItem[]) => BulkScanItem[]) => {
+    itemsRef.current = update(itemsRef.current);
+    setItems(itemsRef.current);
+  }, []);
+
+  const updateItem = useCallback((key: string, changes: Partial<BulkScanItem>) => {
+    setQueue((prev) => prev.map((item) => (item.key === key ? { ...item, ...changes } : item)));
+  }, [setQueue]);
+
+  // Start the next lookup once the previous one has finished
+  useEffect(() => {
+    if (items.some((item) => item.status === 'searching')) return;
+    const next = items.find((item) => item.status === 'queued');
+    if (!next) return;
+
+    console.log('useBulkIsbnQueue: Looking up ISBN:', next.isbn);
+    updateItem(next.key, { status: 'searching' });
+
+    searchBookByISBN(next.isbn)
+      .then((book) => {
+        updateItem(next.key, book
+          ? { status: 'found', book, included: true }
+          : { status: 'not_found', book: null, included: false });
+      })
+      .catch(async (error) => {
+        console.error('useBulkIsbnQueue: Error looking up ISBN, saving it for later:', next.isbn, error);
+        try {
+          await queueLookup(next.isbn);
+          updateItem(next.key, { status: 'saved', book: null, included: false });
+        } catch (queueError) {
+          console.error('useBulkIsbnQueue: Error saving ISBN for later:', next.isbn, queueError);
+          updateItem(next.key, { status: 'error', book: null, included: false });
+        }
+      });
+  }, [items, updateItem, queueLookup]);
+
+  const enqueue = useCallback((isbn: string): EnqueueResult => {
+    const key = toIsbn13(isbn);
+    if (itemsRef.current.some((item) => item.key === key)) {
+      return 'duplicate';
+    }
+
+    setQueue((prev) => [...prev, { key, isbn, status: 'queued', book: null, included: false }]);
+    return 'queued';
+  }, [setQueue]);
+
+  // A corrected ISBN is looked up again in place
+  const changeIsbn = useCallback((key: string, isbn: string): EnqueueResult => {
+    const newKey = toIsbn13(isbn);
+    if (newKey !== key && itemsRef.current.some((item) => item.key === newKey)) {
+      return 'duplicate';
+    }
+
+    updateItem(key, { key: newKey, isbn, status: 'queued', book: null, included: false });
+    return 'queued';
+  }, [updateItem]);
+
+  const toggleIncluded = useCallback((key: string) => {
+    setQueue((prev) => prev.map((item) =>
+      item.key === key && item.status === 'found' ? { ...item, included: !item.included } : item
+    ));
+  }, [setQueue]);
+
+  const removeItem = useCallback((key: string) => {
+    setQueue((prev) => prev.filter((item) => item.key !== key));
+  }, [setQueue]);
+
+  const reset = useCallback(() => {
+    setQueue(() => []);
+  }, [setQueue]);
+
+  const progress = useMemo(() => {
+    const pending = items.filter(isLookupPending).length;
+    return {
+      total: items.length,
+      resolved: items.length - pending,
+      found: items.filter((item) => item.status === 'found').length,
+      isResolving: pending > 0,
+    };
+  }, [items]);
+
+  return {
+    items,
+    progress,
+    enqueue,
+    changeIsbn,
+    toggleIncluded,
+    removeItem,
+    reset,
+  };
+}
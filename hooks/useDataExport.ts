@@ -0,0 +1,108 @@
+import { useState, useCallback } from 'react';
+import { Alert, Platform } from 'react-native';
+import { useChild } from '@/contexts/ChildContext';
+import { HapticFeedback } from '@/utils/haptics';
+import { createDataExport, shareDataExport, ExportChild } from '@/utils/dataExport';
+
+// react-native-web's Alert.alert does nothing, so messages on web use the browser's dialog
+const showMessage = (title: string, message: string) => {
+  if (Platform.OS === 'web') {
+    window.alert(`${title}\n\n${message}`);
+  } else {
+    Alert.alert(title, message);
+  }
+};
+
+export function useDataExport() {
+  const { children, selectedChild } = useChild();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const runExport = useCallback(
+    async (exportChildren: ExportChild[], includeVideos: boolean) => {
+      console.log('useDataExport: Starting export for', exportChildren.length, 'child(ren)');
+      setIsExporting(true);
+
+      try {
+        const result = await createDataExport(exportChildren, { includeVideos });
+        HapticFeedback.success();
+
+        if (result.failedFileCount > 0) {
+          showMessage(
+            'Some Files Skipped',
+            `${result.failedFileCount} video(s), photo(s) or audio clip(s) could not be downloaded and were left out of the export.`
+          );
+        }
+
+        const shared = await shareDataExport(result.fileUri, result.fileName);
+        if (!shared) {
+          Alert.alert('Export Ready', 'Sharing is not available on this device.');
+        }
+      } catch (error) {
+        console.error('useDataExport: Export failed:', error);
+        HapticFeedback.error();
+        showMessage('Error', 'Failed to export data. Please try again.');
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    []
+  );
+
+  const askIncludeVideos = useCallback(
+    (exportChildren: ExportChild[]) => {
+      Alert.alert(
+        'Include Videos?',
+        'Videos of moments can make the export much larger and slower to create. Photos and audio clips are always included.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Without Videos', onPress: () => runExport(exportChildren, false) },
+          { text: 'Include Videos', onPress: () => runExport(exportChildren, true) },
+        ]
+      );
+    },
+    [runExport]
+  );
+
+  const startExport = useCallback(() => {
+    HapticFeedback.medium();
+
+    if (isExporting) {
+      console.log('useDataExport: Export already in progress');
+      return;
+    }
+
+    if (!selectedChild) {
+      showMessage('No Child Selected', 'Please add a child before exporting data.');
+      return;
+    }
+
+    // No choice of buttons on web: the selected child is exported without videos,
+    // which would all have to be held in the browser's memory
+    if (Platform.OS === 'web') {
+      if (window.confirm(`Export ${selectedChild.name}'s words, books, photos and audio clips? Videos aren't included on web.`)) {
+        runExport([selectedChild], false);
+      }
+      return;
+    }
+
+    if (children.length <= 1) {
+      askIncludeVideos([selectedChild]);
+      return;
+    }
+
+    Alert.alert(
+      'Export Data',
+      'Export words, books and moments as a JSON archive with CSV files.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: `${selectedChild.name} Only`, onPress: () => askIncludeVideos([selectedChild]) },
+        { text: 'All Children', onPress: () => askIncludeVideos(children) },
+      ]
+    );
+  }, [isExporting, selectedChild, children, askIncludeVideos, runExport]);
+
+  return {
+    startExport,
+    isExporting,
+  };
+}
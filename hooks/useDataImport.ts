@@ -0,0 +1,128 @@
+import { useState, useCallback } from 'react';
+import { Alert } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { useAuth } from '@/contexts/AuthContext';
+import { useChild } from '@/contexts/ChildContext';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import { useStats } from '@/contexts/StatsContext';
+import { useMilestones } from '@/contexts/MilestonesContext';
+import { HapticFeedback } from '@/utils/haptics';
+import { ExportChildData } from '@/utils/dataExport';
+import { loadExportArchive, importChildData, formatImportSummary, LoadedArchive } from '@/utils/dataImport';
+
+export function useDataImport() {
+  const { user } = useAuth();
+  const { selectedChild } = useChild();
+  const { remainingWords, remainingBooks, remainingPhotos, refreshUsage } = useSubscription();
+  const { refreshStats } = useStats();
+  const { refreshMilestones } = useMilestones();
+  const [isImporting, setIsImporting] = useState(false);
+
+  const runImport = useCallback(
+    async (loaded: LoadedArchive, childData: ExportChildData) => {
+      if (!user || !selectedChild) return;
+
+      console.log('useDataImport: Importing', childData.child.name, 'into', selectedChild.name);
+      setIsImporting(true);
+
+      try {
+        const summary = await importChildData(
+          childData,
+          loaded.zip,
+          { childId: selectedChild.id, userId: user.id },
+          { words: remainingWords, books: remainingBooks, photos: remainingPhotos }
+        );
+
+        // Imported history is not celebrated, milestones are recorded silently
+        await Promise.all([refreshUsage(), refreshStats(), refreshMilestones()]);
+
+        HapticFeedback.success();
+        Alert.alert('Import Complete', formatImportSummary(summary));
+      } catch (error) {
+        console.error('useDataImport: Import failed:', error);
+        HapticFeedback.error();
+        Alert.alert('Error', 'Failed to import data. Please try again.');
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [user, selectedChild, remainingWords, remainingBooks, remainingPhotos, refreshUsage, refreshStats, refreshMilestones]
+  );
+
+  const confirmImport = useCallback(
+    (loaded: LoadedArchive) => {
+      if (!selectedChild) return;
+
+      const archivedChildren = loaded.archive.children;
+
+      if (archivedChildren.length === 1) {
+        const childData = archivedChildren[0];
+        Alert.alert(
+          'Import Data',
+          `Import ${childData.child.name}'s words, books and moments into ${selectedChild.name}? Words and books ${selectedChild.name} already has will be skipped.`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Import', onPress: () => runImport(loaded, childData) },
+          ]
+        );
+        return;
+      }
+
+      Alert.alert(
+        'Import Data',
+        `This export contains ${archivedChildren.length} children. Whose history should be imported into ${selectedChild.name}?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          ...archivedChildren.map((childData) => ({
+            text: childData.child.name,
+            onPress: () => runImport(loaded, childData),
+          })),
+        ]
+      );
+    },
+    [selectedChild, runImport]
+  );
+
+  const startImport = useCallback(async () => {
+    HapticFeedback.medium();
+
+    if (isImporting) {
+      console.log('useDataImport: Import already in progress');
+      return;
+    }
+
+    if (!user || !selectedChild) {
+      Alert.alert('No Child Selected', 'Please add a child to import their history into.');
+      return;
+    }
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/zip', 'application/json', 'application/octet-stream'],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets?.[0]) {
+        console.log('useDataImport: Picker cancelled');
+        return;
+      }
+
+      const asset = result.assets[0];
+      setIsImporting(true);
+      const loaded = await loadExportArchive(asset.uri, asset.name);
+      setIsImporting(false);
+
+      confirmImport(loaded);
+    } catch (error) {
+      console.error('useDataImport: Failed to read archive:', error);
+      setIsImporting(false);
+      HapticFeedback.error();
+      Alert.alert('Invalid Export', error instanceof Error ? error.message : 'This file could not be read.');
+    }
+  }, [isImporting, user, selectedChild, confirmImport]);
+
+  return {
+    startImport,
+    isImporting,
+  };
+}
@@ -3,7 +3,7 @@ import { useState, useCallback } from 'react';
 import { useSubscription } from '@/contexts/SubscriptionContext';
 import { HapticFeedback } from '@/utils/haptics';
 
-export type QuotaType = 'word' | 'book' | 'child';
+export type QuotaType = 'word' | 'book' | 'child' | 'photo';
 
 export function useQuotaCheck() {
   const { checkQuota } = useSubscription();
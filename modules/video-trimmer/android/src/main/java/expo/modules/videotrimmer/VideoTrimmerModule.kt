@@ -0,0 +1,84 @@
+package expo.modules.videotrimmer
+
+import android.net.Uri
+import androidx.media3.common.MediaItem
+import androidx.media3.common.MimeTypes
+import androidx.media3.transformer.Composition
+import androidx.media3.transformer.ExportException
+import androidx.media3.transformer.ExportResult
+import androidx.media3.transformer.Transformer
+import expo.modules.kotlin.Promise
+import expo.modules.kotlin.exception.CodedException
+import expo.modules.kotlin.exception.Exceptions
+import expo.modules.kotlin.functions.Queues
+import expo.modules.kotlin.modules.Module
+import expo.modules.kotlin.modules.ModuleDefinition
+import java.io.File
+
+internal class VideoNotFoundException(path: String) :
+  CodedException("Video file does not exist: $path")
+
+internal class InvalidTrimRangeException(startTime: Double, endTime: Double) :
+  CodedException("Invalid time range: $startTime - $endTime")
+
+internal class TrimExportException(cause: Throwable) :
+  CodedException("Failed to export trimmed video: ${cause.localizedMessage}", cause)
+
+/**
+ * Trims videos with Media3 Transformer, the Android counterpart of the AVFoundation module on iOS
+ * The clip is cut at the exact frame and re-encoded as H.264/AAC MP4, keeping its rotation
+ */
+class VideoTrimmerModule : Module() {
+  private val context
+    get() = appContext.reactContext ?: throw Exceptions.ReactContextLost()
+
+  override fun definition() = ModuleDefinition {
+    Name("VideoTrimmer")
+
+    // Transformer has to be built and started on a thread with a Looper, so this runs on the main one
+    AsyncFunction("trim") { path: String, startTime: Double, endTime: Double, promise: Promise ->
+      val input = File(path)
+      if (!input.exists()) {
+        promise.reject(VideoNotFoundException(path))
+        return@AsyncFunction
+      }
+      if (startTime < 0 || endTime <= startTime) {
+        promise.reject(InvalidTrimRangeException(startTime, endTime))
+        return@AsyncFunction
+      }
+
+      val output = File(context.cacheDir, "trimmed_${System.currentTimeMillis()}.mp4")
+
+      val mediaItem = MediaItem.Builder()
+        .setUri(Uri.fromFile(input))
+        .setClippingConfiguration(
+          MediaItem.ClippingConfiguration.Builder()
+            .setStartPositionMs((startTime * 1000).toLong())
+            .setEndPositionMs((endTime * 1000).toLong())
+            .build()
+        )
+        .build()
+
+      val transformer = Transformer.Builder(context)
+        .setVideoMimeType(MimeTypes.VIDEO_H264)
+        .setAudioMimeType(MimeTypes.AUDIO_AAC)
+        .addListener(object : Transformer.Listener {
+          override fun onCompleted(composition: Composition, exportResult: ExportResult) {
+            promise.resolve(output.absolutePath)
+          }
+
+          override fun onError(
+            composition: Composition,
+            exportResult: ExportResult,
+            exportException: ExportException
+          ) {
+            output.delete()
+            promise.reject(TrimExportException(exportException))
+          }
+        })
+        .build()
+
+      transformer.start(mediaItem, output.absolutePath)
+    }.runOnQueue(Queues.MAIN)
+  }
+}
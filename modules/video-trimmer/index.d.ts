@@ -2,7 +2,8 @@
 /**
  * VideoTrimmer Native Module
  * 
- * Provides native iOS video trimming functionality using AVFoundation.
+ * Provides video trimming with AVFoundation on iOS, Media3 Transformer on Android
+ * and ffmpeg.wasm on web.
  */
 
 /**
@@ -13,6 +14,7 @@
  * @param endTime - End time in seconds (must be ≤ startTime + 5)
  * @returns Promise that resolves with the path to the trimmed video file
  * 
+ * @throws {Error} If the app was built without the native module
  * @throws {Error} If the video file doesn't exist
  * @throws {Error} If the time range is invalid
  * @throws {Error} If the duration exceeds 5 seconds
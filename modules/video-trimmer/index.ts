@@ -1,17 +1,16 @@
 
-import { NativeModulesProxy, EventEmitter, Subscription } from 'expo-modules-core';
-
-// Import the native module. On web, it will be resolved to VideoTrimmer.web.ts
-// and on native platforms to VideoTrimmerModule.swift
+// Import the native module. On web, it will be resolved to VideoTrimmerModule.web.ts
+// and on native platforms to VideoTrimmerModule.swift (iOS) or VideoTrimmerModule.kt (Android)
 import VideoTrimmerModule from './src/VideoTrimmerModule';
 
 /**
  * Trims a video to a specified time range and exports it as a new MP4 file.
  * 
- * @param path - Local file path to the video (without file:// prefix)
+ * @param path - Local file path to the video (without file:// prefix), or its URL on web
  * @param startTime - Start time in seconds
  * @param endTime - End time in seconds
- * @returns Promise that resolves with the path to the trimmed video file
+ * @returns Promise that resolves with the path to the trimmed video file (an object URL on web)
+ * @throws {Error} If the app was built without the native module
  * 
  * @example
  * ```typescript
@@ -48,6 +47,10 @@ export async function trim(
     throw new Error('Trim duration must be 5 seconds or less');
   }
   
+  if (!VideoTrimmerModule) {
+    throw new Error('VideoTrimmer native module is not available in this build');
+  }
+  
   // Remove file:// prefix if present
   const cleanPath = path.replace(/^file:\/\//, '');
   
@@ -1,6 +1,9 @@
 
-import { requireNativeModule } from 'expo-modules-core';
+import { requireOptionalNativeModule } from 'expo-modules-core';
 
 // It loads the native module object from the JSI or falls back to
 // the bridge module (from NativeModulesProxy) if the remote debugger is on.
-export default requireNativeModule('VideoTrimmer');
+// Null when the app was built without it (e.g. Expo Go), so importing this never throws
+export default requireOptionalNativeModule<{
+  trim(path: string, startTime: number, endTime: number): Promise<string>;
+}>('VideoTrimmer');
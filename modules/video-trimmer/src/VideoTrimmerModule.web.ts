@@ -0,0 +1,74 @@
+import { FFmpeg } from '@ffmpeg/ffmpeg';
+import { fetchFile, toBlobURL } from '@ffmpeg/util';
+
+/**
+ * Web implementation of VideoTrimmer
+ *
+ * Browsers have no AVFoundation or MediaCodec to call, so the clip is cut with ffmpeg compiled
+ * to WebAssembly (ffmpeg.wasm). It runs in a web worker and encodes as fast as it can rather
+ * than in real time, so it keeps going in a background tab, and it reads any format the
+ * browser can hand it. The ffmpeg core (about 30MB) is downloaded on the first trim, from the
+ * app's own origin: scripts/copy-ffmpeg-core.js copies it from @ffmpeg/core into public/ffmpeg.
+ * Resolves with an object URL for the trimmed video.
+ */
+
+// @ffmpeg/core is pinned in package.json to a version matching @ffmpeg/ffmpeg
+const CORE_BASE_URL = '/ffmpeg';
+
+let ffmpegPromise: Promise<FFmpeg> | null = null;
+
+function loadFFmpeg(): Promise<FFmpeg> {
+  if (!ffmpegPromise) {
+    ffmpegPromise = (async () => {
+      const ffmpeg = new FFmpeg();
+      // Blob URLs let ffmpeg's worker, bundled under another path, load the core
+      await ffmpeg.load({
+        coreURL: await toBlobURL(`${CORE_BASE_URL}/ffmpeg-core.js`, 'text/javascript'),
+        wasmURL: await toBlobURL(`${CORE_BASE_URL}/ffmpeg-core.wasm`, 'application/wasm'),
+      });
+      return ffmpeg;
+    })();
+    // Try the download again on the next trim
+    ffmpegPromise.catch(() => {
+      ffmpegPromise = null;
+    });
+  }
+  return ffmpegPromise;
+}
+
+async function trim(path: string, startTime: number, endTime: number): Promise<string> {
+  const ffmpeg = await loadFFmpeg();
+  const timestamp = Date.now();
+  const inputName = `input_${timestamp}`;
+  const outputName = `trimmed_${timestamp}.mp4`;
+
+  await ffmpeg.writeFile(inputName, await fetchFile(path));
+  try {
+    // Re-encoded so the clip starts on the exact frame rather than the nearest keyframe
+    const exitCode = await ffmpeg.exec([
+      '-ss', String(startTime),
+      '-i', inputName,
+      '-t', String(endTime - startTime),
+      '-c:v', 'libx264',
+      '-preset', 'ultrafast',
+      '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac',
+      '-movflags', '+faststart',
+      outputName,
+    ]);
+    if (exitCode !== 0) {
+      throw new Error(`Failed to export trimmed video: ffmpeg exited with ${exitCode}`);
+    }
+
+    // Binary unless an encoding is asked for
+    const data = (await ffmpeg.readFile(outputName)) as Uint8Array<ArrayBuffer>;
+    return URL.createObjectURL(new Blob([data], { type: 'video/mp4' }));
+  } finally {
+    await ffmpeg.deleteFile(inputName).catch(() => {});
+    await ffmpeg.deleteFile(outputName).catch(() => {});
+  }
+}
+
+export default {
+  trim,
+};
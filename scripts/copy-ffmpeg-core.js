@@ -0,0 +1,18 @@
+/**
+ * Copy the ffmpeg.wasm core from node_modules into public/ffmpeg
+ * The web video trimmer loads it from the app's own origin, so the version is the one
+ * locked in package.json rather than whatever a CDN serves. Run before starting or
+ * exporting the web app.
+ */
+const fs = require('fs');
+const path = require('path');
+
+const targetDir = path.join(__dirname, '..', 'public', 'ffmpeg');
+// The UMD build, which the trimmer's worker loads with importScripts
+const sources = [require.resolve('@ffmpeg/core'), require.resolve('@ffmpeg/core/wasm')];
+
+fs.mkdirSync(targetDir, { recursive: true });
+for (const source of sources) {
+  fs.copyFileSync(source, path.join(targetDir, path.basename(source)));
+}
+console.log(`Copied the ffmpeg core to ${path.relative(process.cwd(), targetDir)}`);
@@ -0,0 +1,90 @@
+import {
+  doubanProvider,
+  googleBooksProvider,
+  openLibraryProvider,
+  parseDoubanBook,
+  parseGoogleBooksVolumes,
+  parseOpenLibraryEdition,
+} from '@/utils/bookMetadataProviders';
+import type { BookFetcher } from '@/utils/bookProviders';
+import googleBooksVolumes from './fixtures/googleBooks-volumes.json';
+import googleBooksEmpty from './fixtures/googleBooks-empty.json';
+import doubanBook from './fixtures/douban-book.json';
+import openLibraryEdition from './fixtures/openLibrary-edition.json';
+
+// bookSeries imports the Supabase client, which the parsers never use
+jest.mock('@/app/integrations/supabase/client', () => ({ supabase: {} }));
+
+const respondWith = (status: number, body?: unknown): BookFetcher =>
+  async () => ({ ok: status >= 200 && status < 300, status, json: async () => body }) as Response;
+
+describe('Google Books', () => {
+  it('parses the first volume', () => {
+    const book = parseGoogleBooksVolumes(googleBooksVolumes);
+
+    expect(book).toMatchObject({
+      id: 'f9ztMAEACAAJ',
+      title: 'The Very Hungry Caterpillar',
+      authors: 'Eric Carle',
+      publishedDate: '1994-03-23',
+      pageCount: 26,
+    });
+    expect(book?.description).toContain('classic picture book');
+    expect(book?.volumeInfo?.imageLinks?.thumbnail).toContain('id=f9ztMAEACAAJ');
+  });
+
+  it('treats an empty result as not found', () => {
+    expect(parseGoogleBooksVolumes(googleBooksEmpty)).toBeNull();
+  });
+
+  it('asks for the ISBN and parses the response', async () => {
+    const fetcher = jest.fn(respondWith(200, googleBooksVolumes));
+
+    const book = await googleBooksProvider.lookupByISBN('9780399226908', fetcher);
+
+    expect(fetcher).toHaveBeenCalledWith(expect.stringContaining('q=isbn:9780399226908'));
+    expect(book?.title).toBe('The Very Hungry Caterpillar');
+  });
+
+  it('throws on an error status so the lookup counts as failed', async () => {
+    await expect(googleBooksProvider.lookupByISBN('9780399226908', respondWith(429))).rejects.toThrow('429');
+  });
+});
+
+describe('Douban', () => {
+  it('parses the book with its subtitle, series and largest cover', () => {
+    expect(parseDoubanBook(doubanBook)).toEqual({
+      id: 'douban-1985413',
+      title: '猜猜我有多爱你: 经典绘本',
+      authors: '[英] 山姆·麦克布雷尼',
+      description: '小兔子要去睡觉了，它紧紧地抓住大兔子的长耳朵，要大兔子好好地听它说。',
+      publishedDate: '2013-1',
+      pageCount: 32,
+      series: { name: '信谊世界精选图画书', number: 12 },
+      coverUrl: 'https://img1.doubanio.com/view/subject/l/public/s2916181.jpg',
+    });
+  });
+
+  it('treats a refused request as not found', async () => {
+    await expect(doubanProvider.lookupByISBN('9787533257171', respondWith(403))).resolves.toBeNull();
+  });
+});
+
+describe('OpenLibrary', () => {
+  it('parses the edition, leaving out authors it only references', () => {
+    expect(parseOpenLibraryEdition(openLibraryEdition, '9781338136463')).toEqual({
+      id: 'openlibrary-9781338136463',
+      title: 'Pig the Winner',
+      authors: undefined,
+      description: 'Pig the pug loves to win, no matter what the cost.',
+      publishedDate: '2017',
+      pageCount: 32,
+      series: { name: 'Pig the Pug', number: 3 },
+    });
+  });
+
+  it('treats 404 as not found and other errors as failures', async () => {
+    await expect(openLibraryProvider.lookupByISBN('9781338136463', respondWith(404))).resolves.toBeNull();
+    await expect(openLibraryProvider.lookupByISBN('9781338136463', respondWith(500))).rejects.toThrow('500');
+  });
+});
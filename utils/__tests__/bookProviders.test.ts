@@ -0,0 +1,135 @@
+import {
+  getBookRegion,
+  lookupBookWithProviders,
+  mergeProviderResults,
+  registerBookProvider,
+  BookFetcher,
+} from '@/utils/bookProviders';
+import { BUILT_IN_BOOK_PROVIDERS, parseDoubanBook, parseGoogleBooksVolumes } from '@/utils/bookMetadataProviders';
+import googleBooksVolumes from './fixtures/googleBooks-volumes.json';
+import googleBooksPartial from './fixtures/googleBooks-volumes-partial.json';
+import googleBooksEmpty from './fixtures/googleBooks-empty.json';
+import doubanBook from './fixtures/douban-book.json';
+import openLibraryEdition from './fixtures/openLibrary-edition.json';
+
+jest.mock('@/app/integrations/supabase/client', () => ({ supabase: {} }));
+
+type Route = { status: number; body?: unknown };
+
+// Answers each provider's request from a fixture, by the catalogue's host
+const fetcherFor = (routes: Record<string, Route>) =>
+  jest.fn<ReturnType<BookFetcher>, Parameters<BookFetcher>>(async (url) => {
+    const host = Object.keys(routes).find((name) => url.includes(name));
+    const { status, body } = host ? routes[host] : { status: 404, body: undefined };
+    return { ok: status >= 200 && status < 300, status, json: async () => body } as Response;
+  });
+
+const requestedHosts = (fetcher: ReturnType<typeof fetcherFor>) =>
+  fetcher.mock.calls.map(([url]) => new URL(url).host);
+
+beforeAll(() => {
+  BUILT_IN_BOOK_PROVIDERS.forEach(registerBookProvider);
+});
+
+describe('getBookRegion', () => {
+  it('picks the region from the ISBN prefix', () => {
+    expect(getBookRegion('978-7-5332-5717-1')).toBe('china');
+    expect(getBookRegion('9780399226908')).toBe('english');
+    expect(getBookRegion('9783551551672')).toBe('other');
+  });
+});
+
+describe('mergeProviderResults', () => {
+  it('takes each field from the highest-weighted provider that has it', () => {
+    const google = parseGoogleBooksVolumes(googleBooksPartial)!;
+    const douban = parseDoubanBook(doubanBook)!;
+
+    const merged = mergeProviderResults([
+      { setting: { id: 'googlebooks', enabled: true, weight: 0.8 }, data: google },
+      { setting: { id: 'douban', enabled: true, weight: 1 }, data: douban },
+    ]);
+
+    expect(merged?.title).toBe(douban.title);
+    expect(merged?.pageCount).toBe(32);
+    expect(merged?.provenance).toMatchObject({
+      id: 'douban',
+      title: 'douban',
+      authors: 'douban',
+      pageCount: 'douban',
+      coverUrl: 'douban',
+      volumeInfo: 'googlebooks',
+    });
+  });
+
+  it('fills gaps from lower-weighted providers and keeps the title source id', () => {
+    const google = parseGoogleBooksVolumes(googleBooksPartial)!;
+
+    const merged = mergeProviderResults([
+      { setting: { id: 'googlebooks', enabled: true, weight: 1 }, data: google },
+      {
+        setting: { id: 'openlibrary', enabled: true, weight: 0.6 },
+        data: { id: 'openlibrary-9781338136463', pageCount: 32, description: 'Pig the pug loves to win.' },
+      },
+    ]);
+
+    expect(merged).toMatchObject({
+      id: 'qcHSzQEACAAJ',
+      title: 'Pig the Winner',
+      authors: 'Aaron Blabey',
+      pageCount: 32,
+      description: 'Pig the pug loves to win.',
+    });
+    expect(merged?.provenance).toMatchObject({ title: 'googlebooks', pageCount: 'openlibrary', description: 'openlibrary' });
+  });
+
+  it('returns null without a title', () => {
+    expect(mergeProviderResults([
+      { setting: { id: 'amazon', enabled: true, weight: 0.4 }, data: { id: 'amazon-1', coverUrl: 'https://example.com/cover.jpg' } },
+    ])).toBeNull();
+  });
+});
+
+describe('lookupBookWithProviders', () => {
+  it('stops after the first provider once the details are complete', async () => {
+    const fetcher = fetcherFor({ 'googleapis.com': { status: 200, body: googleBooksVolumes } });
+
+    const book = await lookupBookWithProviders('9780399226908', fetcher);
+
+    expect(book?.title).toBe('The Very Hungry Caterpillar');
+    expect(requestedHosts(fetcher)).toEqual(['www.googleapis.com']);
+  });
+
+  it('asks the next provider for missing details', async () => {
+    const fetcher = fetcherFor({
+      'googleapis.com': { status: 200, body: googleBooksPartial },
+      'openlibrary.org': { status: 200, body: openLibraryEdition },
+    });
+
+    const book = await lookupBookWithProviders('9781338136463', fetcher);
+
+    expect(requestedHosts(fetcher)).toEqual(['www.googleapis.com', 'openlibrary.org']);
+    expect(book).toMatchObject({ title: 'Pig the Winner', authors: 'Aaron Blabey', pageCount: 32 });
+    expect(book?.provenance).toMatchObject({ authors: 'googlebooks', pageCount: 'openlibrary', series: 'openlibrary' });
+  });
+
+  it('asks Douban first for Chinese ISBNs', async () => {
+    const fetcher = fetcherFor({ 'douban.com': { status: 200, body: doubanBook } });
+
+    const book = await lookupBookWithProviders('9787533257171', fetcher);
+
+    expect(requestedHosts(fetcher)[0]).toBe('api.douban.com');
+    expect(book?.provenance.title).toBe('douban');
+  });
+
+  it('resolves null when every provider answered and none knows the ISBN', async () => {
+    const fetcher = fetcherFor({ 'googleapis.com': { status: 200, body: googleBooksEmpty } });
+
+    await expect(lookupBookWithProviders('9780000000002', fetcher)).resolves.toBeNull();
+  });
+
+  it('throws when nothing was found and a provider failed', async () => {
+    const fetcher = fetcherFor({ 'googleapis.com': { status: 503 } });
+
+    await expect(lookupBookWithProviders('9780000000002', fetcher)).rejects.toThrow('503');
+  });
+});
@@ -0,0 +1,52 @@
+import { replaceTagOnBooks } from '@/utils/bookTags';
+
+const mockShelf = [
+  { id: 'book-1', tags: ['Bedtime', 'animals'] },
+  { id: 'book-2', tags: ['bedtime'] },
+  { id: 'book-3', tags: ['funny'] },
+  { id: 'book-4', tags: null },
+];
+const mockUpdates: { id: string; tags: string[] }[] = [];
+
+// Just enough of the query builder for the shelf select and the tag updates
+jest.mock('@/app/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          not: async () => ({ data: mockShelf.filter((book) => book.tags), error: null }),
+        }),
+      }),
+      update: ({ tags }: { tags: string[] }) => ({
+        eq: async (_column: string, id: string) => {
+          mockUpdates.push({ id, tags });
+          return { error: null };
+        },
+      }),
+    }),
+  },
+}));
+
+beforeEach(() => {
+  mockUpdates.length = 0;
+});
+
+describe('replaceTagOnBooks', () => {
+  it('matches the tag in any case, like the rest of the tag code', async () => {
+    await expect(replaceTagOnBooks('child-1', 'BEDTIME', 'Sleepy')).resolves.toBe(2);
+
+    expect(mockUpdates).toEqual([
+      { id: 'book-1', tags: ['animals', 'Sleepy'] },
+      { id: 'book-2', tags: ['Sleepy'] },
+    ]);
+  });
+
+  it('removes the tag when there is nothing to replace it with', async () => {
+    await replaceTagOnBooks('child-1', 'bedtime', null);
+
+    expect(mockUpdates).toEqual([
+      { id: 'book-1', tags: ['animals'] },
+      { id: 'book-2', tags: [] },
+    ]);
+  });
+});
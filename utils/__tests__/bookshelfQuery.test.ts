@@ -0,0 +1,46 @@
+import { applyShelfQuery, countShelfTags, DEFAULT_SHELF_FILTERS, getShelfTags, getTagCount, ShelfBook } from '@/utils/bookshelfQuery';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({ getItem: jest.fn(), setItem: jest.fn() }));
+jest.mock('@/app/integrations/supabase/client', () => ({ supabase: {} }));
+
+const makeBook = (id: string, tags: string[] | null): ShelfBook => ({
+  id,
+  rating: null,
+  tags,
+  would_recommend: false,
+  is_custom_for_user: false,
+  created_at: `2026-01-0${id.slice(-1)}T00:00:00Z`,
+  book: { title: `Book ${id}`, authors: null },
+});
+
+const shelf = [
+  makeBook('book-1', ['Bedtime', 'animals']),
+  makeBook('book-2', ['bedtime']),
+  makeBook('book-3', ['funny', 'BEDTIME', 'Bedtime']),
+  makeBook('book-4', null),
+];
+
+describe('countShelfTags', () => {
+  it('counts a tag whatever its case, once per book', () => {
+    const counts = countShelfTags(shelf);
+
+    expect(getTagCount(counts, 'Bedtime')).toBe(3);
+    expect(getTagCount(counts, 'bedtime')).toBe(3);
+    expect(getTagCount(counts, 'Animals')).toBe(1);
+    expect(getTagCount(counts, 'dinosaurs')).toBe(0);
+  });
+});
+
+describe('getShelfTags', () => {
+  it('lists tags differing only in case once', () => {
+    expect(getShelfTags(shelf)).toEqual(['animals', 'Bedtime', 'funny']);
+  });
+});
+
+describe('applyShelfQuery', () => {
+  it('filters by a tag whatever its case', () => {
+    const visible = applyShelfQuery(shelf, '', { ...DEFAULT_SHELF_FILTERS, tags: ['Bedtime'] }, new Map());
+
+    expect(visible.map((book) => book.id)).toEqual(['book-3', 'book-2', 'book-1']);
+  });
+});
@@ -0,0 +1,95 @@
+import { Platform } from 'react-native';
+import JSZip from 'jszip';
+import { createDataExport, getBookIsbn, shareDataExport, toCsv } from '@/utils/dataExport';
+
+const mockTables: Record<string, object[]> = {
+  user_words: [{ id: 'word-1', custom_word: 'dog', custom_emoji: '🐶', is_spoken: true, created_at: '2026-01-01T00:00:00Z' }],
+  user_books: [],
+  moments: [
+    { id: 'moment-1', media_type: 'photo', word_id: 'word-1', photo_url: 'https://storage.test/photo-moments/child-1/dog.jpg' },
+    { id: 'moment-2', media_type: 'video', word_id: 'word-1', video_url: 'https://storage.test/video-moments/child-1/dog.mp4' },
+  ],
+};
+
+// Just enough of the query builder for the export's selects
+jest.mock('@/app/integrations/supabase/client', () => ({
+  supabase: {
+    from: (table: string) => ({
+      select: () => ({
+        eq: () => ({
+          order: async () => ({ data: mockTables[table], error: null }),
+        }),
+      }),
+    }),
+  },
+}));
+jest.mock('@/utils/photoStorage', () => ({
+  PHOTO_BUCKET: 'photo-moments',
+  getSignedPhotoUrl: async (url: string) => `${url}?signed`,
+}));
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(toCsv(['word', 'tags'], [['say "hi", wave', ['animals', 'sounds']], ['two\nlines', null]])).toBe(
+      'word,tags\n"say ""hi"", wave",animals; sounds\n"two\nlines",'
+    );
+  });
+
+  it('keeps text that looks like a formula from running in a spreadsheet', () => {
+    expect(toCsv(['word'], [['=HYPERLINK("https://example.com")'], ['+1'], ['-'], ['@SUM(A1)'], [-2]])).toBe(
+      'word\n"\'=HYPERLINK(""https://example.com"")"\n\'+1\n\'-\n\'@SUM(A1)\n-2'
+    );
+  });
+});
+
+describe('getBookIsbn', () => {
+  it('uses the stored ISBN, then one the library id was made from', () => {
+    expect(getBookIsbn({ isbn: '978-0-399-22690-8', google_books_id: 'f9ztMAEACAAJ' })).toBe('9780399226908');
+    expect(getBookIsbn({ google_books_id: 'custom_isbn_043942089x' })).toBe('043942089X');
+    expect(getBookIsbn({ isbn: null, google_books_id: 'openlibrary-9781338136463' })).toBe('9781338136463');
+    expect(getBookIsbn({ isbn: null, google_books_id: 'openlibrary-OL45804W' })).toBeNull();
+    expect(getBookIsbn({ google_books_id: 'custom_1700000000000_abc12' })).toBeNull();
+  });
+});
+
+describe('createDataExport on web', () => {
+  const photo = new Uint8Array([0xff, 0xd8, 0xff, 0xe0]);
+
+  beforeEach(() => {
+    jest.replaceProperty(Platform, 'OS', 'web');
+    global.fetch = jest.fn(async () => new Response(photo)) as jest.Mock;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('builds the zip in memory and downloads it through a link', async () => {
+    let blob: Blob | null = null;
+    URL.createObjectURL = jest.fn((created: Blob) => {
+      blob = created;
+      return 'blob:export';
+    });
+    URL.revokeObjectURL = jest.fn();
+    const link = { href: '', download: '', click: jest.fn() };
+    global.document = { createElement: () => link } as unknown as Document;
+
+    const result = await createDataExport([{ id: 'child-1', name: 'Maya', birth_date: '2024-06-01' }], { includeVideos: false });
+    jest.useFakeTimers();
+    const shared = await shareDataExport(result.fileUri, result.fileName);
+    jest.runAllTimers();
+    jest.useRealTimers();
+
+    expect(result).toMatchObject({ fileUri: 'blob:export', wordCount: 1, photoCount: 1, videoCount: 0, failedFileCount: 0 });
+    expect(shared).toBe(true);
+    expect(link).toMatchObject({ href: 'blob:export', download: result.fileName });
+    expect(link.click).toHaveBeenCalled();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:export');
+
+    const archive = await JSZip.loadAsync(await blob!.arrayBuffer());
+    const photoEntry = Object.keys(archive.files).find((path) => path.endsWith('dog.jpg'));
+    expect(photoEntry).toBeDefined();
+    expect(Array.from(await archive.file(photoEntry!)!.async('uint8array'))).toEqual(Array.from(photo));
+    expect(JSON.parse(await archive.file('archive.json')!.async('string')).children[0].words[0].word).toBe('dog');
+  });
+});
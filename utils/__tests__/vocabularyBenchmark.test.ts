@@ -0,0 +1,40 @@
+import { evaluateVocabularyBenchmark, getBenchmarkForAge } from '@/utils/vocabularyBenchmark';
+
+const now = new Date(2026, 5, 15);
+
+describe('getBenchmarkForAge', () => {
+  it('interpolates words understood up to 18 months and has no range after', () => {
+    expect(getBenchmarkForAge(15).receptive).toEqual({ low: 60, typical: 135, high: 235 });
+    expect(getBenchmarkForAge(18).receptive).toEqual({ low: 100, typical: 200, high: 300 });
+    expect(getBenchmarkForAge(20).receptive).toBeNull();
+    expect(getBenchmarkForAge(24).expressive).toEqual({ low: 60, typical: 300, high: 550 });
+  });
+
+});
+
+describe('evaluateVocabularyBenchmark', () => {
+  it('compares words understood only while there is a range for them', () => {
+    const toddler = evaluateVocabularyBenchmark('2024-12-15', { spoken: 40, recognised: 150 }, now);
+    const twoYearOld = evaluateVocabularyBenchmark('2024-06-15', { spoken: 320, recognised: 600 }, now);
+
+    expect(toddler.receptive?.position).toBe('lower_typical');
+    expect(twoYearOld.receptive).toBeNull();
+    expect(twoYearOld.expressive.position).toBe('upper_typical');
+  });
+
+  it("doesn't call a count held back by the word limit below the range", () => {
+    const capped = evaluateVocabularyBenchmark('2024-06-15', { spoken: 20, recognised: 20, atWordLimit: true }, now);
+    const uncapped = evaluateVocabularyBenchmark('2024-06-15', { spoken: 20, recognised: 20 }, now);
+
+    expect(capped.expressive.position).toBe('capped');
+    expect(capped.expressive.message).toContain('word limit');
+    expect(uncapped.expressive.position).toBe('below');
+  });
+
+  it('stops at the 30-month band', () => {
+    const threeYearOld = evaluateVocabularyBenchmark('2023-06-15', { spoken: 500, recognised: 0 }, now);
+
+    expect(threeYearOld.benchmarkAgeMonths).toBe(30);
+    expect(threeYearOld.expressive.range).toEqual({ low: 200, typical: 450, high: 650 });
+  });
+});
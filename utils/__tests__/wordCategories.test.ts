@@ -0,0 +1,19 @@
+import { getCategoryForWord, getWordCategories } from '@/utils/wordCategories';
+
+describe('getWordCategories', () => {
+  it('counts "orange" as a colour first and as food too', () => {
+    expect(getCategoryForWord('orange')).toBe('colors');
+    expect(getWordCategories(null, 'Orange')).toEqual(['colors', 'food']);
+    expect(getWordCategories('colors', 'orange')).toEqual(['colors', 'food']);
+  });
+
+  it('keeps to the category the parent picked', () => {
+    expect(getWordCategories('food', 'orange')).toEqual(['food']);
+    expect(getWordCategories('things', 'orange')).toEqual(['things']);
+  });
+
+  it('gives other words their one category', () => {
+    expect(getWordCategories(null, 'big dogs')).toEqual(['animals']);
+    expect(getWordCategories(null, 'zoomzoom')).toEqual(['other']);
+  });
+});
@@ -0,0 +1,100 @@
+import type { File } from 'expo-file-system';
+import JSZip from 'jszip';
+import { openZipReader } from '@/utils/zipReader';
+import { createZipWriter } from '@/utils/zipWriter';
+
+// An in-memory stand-in for expo-file-system's File and its handle
+class MemoryFile {
+  bytes: Uint8Array = new Uint8Array(0);
+
+  constructor(readonly uri: string, contents?: Uint8Array) {
+    if (contents) this.bytes = contents;
+  }
+
+  get size() {
+    return this.bytes.length;
+  }
+
+  create() {
+    this.bytes = new Uint8Array(0);
+  }
+
+  open() {
+    let offset = 0;
+    return {
+      get offset() {
+        return offset;
+      },
+      set offset(value: number) {
+        offset = value;
+      },
+      readBytes: (length: number) => {
+        const chunk = this.bytes.slice(offset, offset + length);
+        offset += chunk.length;
+        return chunk;
+      },
+      writeBytes: (chunk: Uint8Array) => {
+        const grown = new Uint8Array(Math.max(this.bytes.length, offset + chunk.length));
+        grown.set(this.bytes);
+        grown.set(chunk, offset);
+        this.bytes = grown;
+        offset += chunk.length;
+      },
+      close() {},
+    };
+  }
+}
+
+const asFile = (file: MemoryFile) => file as unknown as File;
+
+// Larger than a chunk so reading and the CRC span several reads
+const video = new Uint8Array(2.5 * 1024 * 1024).map((_, i) => (i * 31) % 251);
+const archiveJson = '{"words":["mamá","🐶"]}';
+
+describe('openZipReader', () => {
+  it('reads back a zip from the streaming writer', async () => {
+    const zipFile = new MemoryFile('file:///cache/export.zip');
+    const writer = createZipWriter(asFile(zipFile));
+    await writer.addFile('videos/maya/first-steps.mp4', asFile(new MemoryFile('file:///cache/video.mp4', video)));
+    writer.addText('archive.json', archiveJson);
+    writer.finish();
+
+    const reader = openZipReader(asFile(zipFile));
+    const extracted = new MemoryFile('file:///cache/import.mp4');
+    await reader.extractTo('videos/maya/first-steps.mp4', asFile(extracted));
+
+    expect(Array.from(reader.entries.keys()).sort()).toEqual(['archive.json', 'videos/maya/first-steps.mp4']);
+    expect(await reader.readText('archive.json')).toBe(archiveJson);
+    expect(Buffer.from(extracted.bytes).equals(Buffer.from(video))).toBe(true);
+  });
+
+  it('inflates deflated entries and skips past a comment', async () => {
+    const zip = new JSZip();
+    zip.file('archive.json', archiveJson);
+    zip.file('videos/maya/first-steps.mp4', video);
+    const bytes = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE', comment: 'Made in a browser' });
+
+    const reader = openZipReader(asFile(new MemoryFile('file:///cache/export.zip', bytes)));
+    const extracted = new MemoryFile('file:///cache/import.mp4');
+    await reader.extractTo('videos/maya/first-steps.mp4', asFile(extracted));
+
+    expect(reader.entries.get('videos/maya/first-steps.mp4')!.method).toBe(8);
+    expect(await reader.readText('archive.json')).toBe(archiveJson);
+    expect(Buffer.from(extracted.bytes).equals(Buffer.from(video))).toBe(true);
+  });
+
+  it('rejects files that are not zips and entries that are corrupted', async () => {
+    const zip = new JSZip();
+    zip.file('archive.json', archiveJson, { compression: 'STORE' });
+    const bytes = await zip.generateAsync({ type: 'uint8array' });
+    const reader = openZipReader(asFile(new MemoryFile('file:///cache/export.zip', bytes)));
+    // Flip a byte of the stored JSON
+    bytes[30 + 'archive.json'.length] ^= 0xff;
+
+    expect(() => openZipReader(asFile(new MemoryFile('file:///cache/archive.json', new TextEncoder().encode(archiveJson))))).toThrow(
+      'not a zip'
+    );
+    await expect(reader.readText('archive.json')).rejects.toThrow('corrupted');
+    await expect(reader.readText('missing.json')).rejects.toThrow('missing');
+  });
+});
@@ -0,0 +1,82 @@
+import type { File } from 'expo-file-system';
+import JSZip from 'jszip';
+import { createZipWriter, updateCrc32 } from '@/utils/zipWriter';
+
+// An in-memory stand-in for expo-file-system's File and its handle
+class MemoryFile {
+  bytes: Uint8Array = new Uint8Array(0);
+
+  constructor(readonly uri: string, contents?: Uint8Array) {
+    if (contents) this.bytes = contents;
+  }
+
+  get size() {
+    return this.bytes.length;
+  }
+
+  create() {
+    this.bytes = new Uint8Array(0);
+  }
+
+  open() {
+    let offset = 0;
+    return {
+      get offset() {
+        return offset;
+      },
+      set offset(value: number) {
+        offset = value;
+      },
+      readBytes: (length: number) => {
+        const chunk = this.bytes.slice(offset, offset + length);
+        offset += chunk.length;
+        return chunk;
+      },
+      writeBytes: (chunk: Uint8Array) => {
+        const grown = new Uint8Array(Math.max(this.bytes.length, offset + chunk.length));
+        grown.set(this.bytes);
+        grown.set(chunk, offset);
+        this.bytes = grown;
+        offset += chunk.length;
+      },
+      close() {},
+    };
+  }
+}
+
+const asFile = (file: MemoryFile) => file as unknown as File;
+
+describe('updateCrc32', () => {
+  it('matches the standard check value and can be continued', () => {
+    const bytes = new TextEncoder().encode('123456789');
+
+    expect(updateCrc32(0, bytes)).toBe(0xcbf43926);
+    expect(updateCrc32(updateCrc32(0, bytes.slice(0, 4)), bytes.slice(4))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZipWriter', () => {
+  it('writes a zip other tools can read back', async () => {
+    // Larger than a chunk so the copy and its CRC span several reads
+    const video = new Uint8Array(2.5 * 1024 * 1024).map((_, i) => (i * 31) % 251);
+    const target = new MemoryFile('file:///cache/export.zip');
+    const zip = createZipWriter(asFile(target));
+
+    await zip.addFile('videos/maya/first-steps.mp4', asFile(new MemoryFile('file:///cache/video.mp4', video)));
+    zip.addText('archive.json', '{"words":["mamá","🐶"]}');
+    zip.finish();
+
+    const archive = await JSZip.loadAsync(target.bytes, { checkCRC32: true });
+    expect(Object.keys(archive.files).sort()).toEqual(['archive.json', 'videos/maya/first-steps.mp4']);
+    expect(await archive.file('archive.json')!.async('string')).toBe('{"words":["mamá","🐶"]}');
+    const copied = await archive.file('videos/maya/first-steps.mp4')!.async('uint8array');
+    expect(Buffer.from(copied).equals(Buffer.from(video))).toBe(true);
+  });
+
+  it('refuses a file that would take the zip past 4GB', async () => {
+    const zip = createZipWriter(asFile(new MemoryFile('file:///cache/export.zip')));
+    const huge = { uri: 'file:///cache/huge.mp4', size: 5 * 1024 ** 3 } as File;
+
+    await expect(zip.addFile('videos/huge.mp4', huge)).rejects.toThrow('too large');
+  });
+});
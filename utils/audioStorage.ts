@@ -0,0 +1,85 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import { extractStoragePath } from '@/utils/videoStorage';
+
+// Audio moments live in their own private bucket, next to `video-moments`
+export const AUDIO_BUCKET = 'audio-moments';
+
+/**
+ * Generate a signed URL for a private audio file
+ * @param audioUrl - The full storage URL or path to the audio clip
+ * @param expiresIn - Expiration time in seconds (default: 1 hour)
+ * @returns Signed URL or null if generation fails
+ */
+export async function getSignedAudioUrl(
+  audioUrl: string | null,
+  expiresIn: number = 3600
+): Promise<string | null> {
+  try {
+    if (!audioUrl) {
+      console.log('[AudioStorage] No audio URL provided');
+      return null;
+    }
+
+    const path = extractStoragePath(audioUrl, AUDIO_BUCKET);
+    if (!path) {
+      console.error('[AudioStorage] Failed to extract storage path from:', audioUrl);
+      return null;
+    }
+
+    const { data, error } = await supabase.storage
+      .from(AUDIO_BUCKET)
+      .createSignedUrl(path, expiresIn);
+
+    if (error) {
+      console.error('[AudioStorage] Error generating signed URL:', error);
+      return null;
+    }
+
+    if (!data?.signedUrl) {
+      console.error('[AudioStorage] No signed URL returned');
+      return null;
+    }
+
+    console.log('[AudioStorage] ✓ Generated signed URL for:', path);
+    return data.signedUrl;
+  } catch (error) {
+    console.error('[AudioStorage] Exception generating signed URL:', error);
+    return null;
+  }
+}
+
+/**
+ * Remove an audio moment's clip from storage
+ * A failure is logged rather than thrown so the moment itself can still be deleted
+ */
+export async function deleteAudioFile(audioUrl: string | null): Promise<void> {
+  if (!audioUrl) return;
+
+  const path = extractStoragePath(audioUrl, AUDIO_BUCKET);
+  if (!path) return;
+
+  const { error } = await supabase.storage.from(AUDIO_BUCKET).remove([path]);
+  if (error) {
+    console.error('[AudioStorage] Error deleting audio from storage:', error);
+  }
+}
+
+/**
+ * Process audio moments to include a signed URL for their clip
+ * @param moments - Array of moment objects with audio_url
+ * @param expiresIn - Expiration time in seconds (default: 1 hour)
+ * @returns Moments with signed URLs
+ */
+export async function processAudioMomentsWithSignedUrls<T extends { audio_url?: string | null }>(
+  moments: T[],
+  expiresIn: number = 3600
+): Promise<(T & { signedAudioUrl: string | null })[]> {
+  console.log('[AudioStorage] Processing', moments.length, 'audio moments with signed URLs');
+
+  return Promise.all(
+    moments.map(async (moment) => ({
+      ...moment,
+      signedAudioUrl: await getSignedAudioUrl(moment.audio_url ?? null, expiresIn),
+    }))
+  );
+}
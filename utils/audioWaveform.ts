@@ -0,0 +1,50 @@
+/**
+ * Audio moment waveforms
+ * While recording, the microphone level is sampled every WAVEFORM_INTERVAL_MS and kept as
+ * levels between 0 and 1. The whole recording's levels are saved with the moment, like the
+ * file itself, and the trim range picks the part to draw
+ */
+
+export const WAVEFORM_INTERVAL_MS = 100;
+
+// Anything quieter than this is drawn as silence
+const SILENCE_DB = -60;
+
+// Shortest bar, so silent parts still show a line
+const MIN_LEVEL = 0.05;
+
+/**
+ * Convert a recording's metering reading (dBFS, 0 is loudest) to a level between 0 and 1
+ */
+export const meteringToLevel = (metering: number | undefined): number => {
+  if (metering === undefined || !Number.isFinite(metering)) return 0;
+  const level = (metering - SILENCE_DB) / -SILENCE_DB;
+  return Math.round(Math.max(0, Math.min(1, level)) * 100) / 100;
+};
+
+/**
+ * The levels within a trim range, grouped into `barCount` bars by their loudest sample
+ * A moment saved without a waveform gets flat bars
+ */
+export const getWaveformBars = (
+  waveform: number[] | null | undefined,
+  barCount: number,
+  trimStart: number = 0,
+  trimEnd?: number
+): number[] => {
+  const samplesPerSecond = 1000 / WAVEFORM_INTERVAL_MS;
+  const levels = (waveform || []).slice(
+    Math.floor(trimStart * samplesPerSecond),
+    trimEnd !== undefined ? Math.ceil(trimEnd * samplesPerSecond) : undefined
+  );
+
+  if (levels.length === 0) {
+    return new Array(barCount).fill(MIN_LEVEL);
+  }
+
+  return Array.from({ length: barCount }, (_, bar) => {
+    const from = Math.floor((bar * levels.length) / barCount);
+    const to = Math.max(from + 1, Math.floor(((bar + 1) * levels.length) / barCount));
+    return Math.max(MIN_LEVEL, ...levels.slice(from, to));
+  });
+};
@@ -0,0 +1,302 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { BookSearchResult } from '@/utils/googleBooksApi';
+
+/**
+ * Persistent cache of book lookups
+ * Results are kept on the device by ISBN and Google Books ID so a book scanned
+ * again, even in a later session, doesn't fan out to every provider. "Not found"
+ * is cached too, for a shorter time, since catalogues pick up new books.
+ * Each book is stored once under its own AsyncStorage key; a small index maps
+ * the lookup keys to it, so no single value grows past what a row can hold
+ */
+
+const INDEX_KEY = '@book_metadata_cache';
+const RECORD_KEY_PREFIX = '@book_metadata_cache:';
+const CACHE_VERSION = 2;
+
+const FOUND_TTL = 1000 * 60 * 60 * 24 * 30; // 30 days
+const NOT_FOUND_TTL = 1000 * 60 * 60 * 24; // 24 hours
+// Bounds the index
+const MAX_ENTRIES = 1000;
+// Bounds the stored books, in serialized characters
+const MAX_RECORD_SIZE = 2 * 1024 * 1024;
+// Writes are batched so a bulk scan doesn't rewrite the cache after every book
+const SAVE_DELAY = 1000;
+
+export type BookCacheKeyType = 'isbn' | 'googleBooksId';
+
+interface BookCacheEntry {
+  // Stored book the key points to; null caches "not found"
+  recordId: string | null;
+  cachedAt: number;
+  expiresAt: number;
+  lastUsedAt: number;
+}
+
+interface BookCacheCounters {
+  hits: number;
+  notFoundHits: number;
+  misses: number;
+  evictions: number;
+  since: number;
+}
+
+interface StoredBookCache {
+  version: number;
+  entries: Record<string, BookCacheEntry>;
+  // Serialized size of each stored book
+  recordSizes: Record<string, number>;
+  counters: BookCacheCounters;
+}
+
+export interface BookCacheStats extends BookCacheCounters {
+  entries: number;
+  foundEntries: number;
+  notFoundEntries: number;
+  // Share of lookups answered by the cache, 0 to 1
+  hitRate: number;
+  sizeBytes: number;
+}
+
+const emptyCounters = (): BookCacheCounters => ({
+  hits: 0,
+  notFoundHits: 0,
+  misses: 0,
+  evictions: 0,
+  since: Date.now(),
+});
+
+const emptyCache = (): StoredBookCache => ({
+  version: CACHE_VERSION,
+  entries: {},
+  recordSizes: {},
+  counters: emptyCounters(),
+});
+
+let cache: StoredBookCache | null = null;
+let loadPromise: Promise<StoredBookCache> | null = null;
+let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+// Books written or removed since the last save; null removes
+const pendingRecords = new Map<string, string | null>();
+
+const toCacheKey = (type: BookCacheKeyType, id: string) => {
+  return type === 'isbn' ? `isbn:${id.replace(/[-\s]/g, '').toUpperCase()}` : `gbid:${id}`;
+};
+
+async function loadCache(): Promise<StoredBookCache> {
+  if (cache) return cache;
+
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(INDEX_KEY);
+        const parsed: StoredBookCache | null = stored ? JSON.parse(stored) : null;
+        // An older layout is dropped rather than migrated; it only costs fresh lookups
+        cache = parsed && parsed.version === CACHE_VERSION ? parsed : emptyCache();
+        console.log('📦 Loaded book metadata cache:', Object.keys(cache.entries).length, 'entries');
+      } catch (error) {
+        console.error('Error loading book metadata cache:', error);
+        cache = emptyCache();
+      }
+      return cache;
+    })();
+  }
+
+  return loadPromise;
+}
+
+function scheduleSave() {
+  if (saveTimeout) return;
+
+  saveTimeout = setTimeout(async () => {
+    saveTimeout = null;
+    if (!cache) return;
+
+    const writes = Array.from(pendingRecords.entries());
+    pendingRecords.clear();
+    const toSet = writes.filter((write): write is [string, string] => write[1] !== null);
+    const toRemove = writes.filter(([, value]) => value === null).map(([recordId]) => recordId);
+
+    try {
+      if (toSet.length > 0) {
+        await AsyncStorage.multiSet(toSet.map(([recordId, value]) => [RECORD_KEY_PREFIX + recordId, value]));
+      }
+      if (toRemove.length > 0) {
+        await AsyncStorage.multiRemove(toRemove.map((recordId) => RECORD_KEY_PREFIX + recordId));
+      }
+      await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(cache));
+    } catch (error) {
+      console.error('Error saving book metadata cache:', error);
+    }
+  }, SAVE_DELAY);
+}
+
+function removeRecord(stored: StoredBookCache, recordId: string) {
+  delete stored.recordSizes[recordId];
+  pendingRecords.set(recordId, null);
+}
+
+async function loadRecord(recordId: string): Promise<BookSearchResult | null> {
+  try {
+    const value = pendingRecords.has(recordId)
+      ? pendingRecords.get(recordId)
+      : await AsyncStorage.getItem(RECORD_KEY_PREFIX + recordId);
+    return value ? JSON.parse(value) : null;
+  } catch (error) {
+    console.error('Error loading cached book:', recordId, error);
+    return null;
+  }
+}
+
+/**
+ * Drop expired entries, then the least recently used ones beyond the entry limit,
+ * then the least recently used books (with every key pointing to them) beyond the size limit
+ */
+function pruneCache(stored: StoredBookCache, now: number) {
+  for (const [key, entry] of Object.entries(stored.entries)) {
+    if (entry.expiresAt <= now) {
+      delete stored.entries[key];
+    }
+  }
+
+  const keys = Object.keys(stored.entries);
+  if (keys.length > MAX_ENTRIES) {
+    const oldestFirst = keys.sort((a, b) => stored.entries[a].lastUsedAt - stored.entries[b].lastUsedAt);
+    for (const key of oldestFirst.slice(0, keys.length - MAX_ENTRIES)) {
+      delete stored.entries[key];
+      stored.counters.evictions++;
+    }
+  }
+
+  const recordLastUsedAt = new Map<string, number>();
+  for (const entry of Object.values(stored.entries)) {
+    if (!entry.recordId) continue;
+    recordLastUsedAt.set(entry.recordId, Math.max(recordLastUsedAt.get(entry.recordId) ?? 0, entry.lastUsedAt));
+  }
+
+  // Books no key points to any more
+  for (const recordId of Object.keys(stored.recordSizes)) {
+    if (!recordLastUsedAt.has(recordId)) removeRecord(stored, recordId);
+  }
+
+  let totalSize = Object.values(stored.recordSizes).reduce((sum, size) => sum + size, 0);
+  if (totalSize <= MAX_RECORD_SIZE) return;
+
+  const oldestRecordsFirst = Array.from(recordLastUsedAt.keys())
+    .sort((a, b) => (recordLastUsedAt.get(a) ?? 0) - (recordLastUsedAt.get(b) ?? 0));
+  for (const recordId of oldestRecordsFirst) {
+    if (totalSize <= MAX_RECORD_SIZE) break;
+
+    totalSize -= stored.recordSizes[recordId] ?? 0;
+    removeRecord(stored, recordId);
+    for (const [key, entry] of Object.entries(stored.entries)) {
+      if (entry.recordId === recordId) {
+        delete stored.entries[key];
+        stored.counters.evictions++;
+      }
+    }
+  }
+}
+
+/**
+ * A cached lookup, or undefined when the lookup has to run
+ * null means the book was recently looked up and not found
+ */
+export async function getCachedBookLookup(
+  type: BookCacheKeyType,
+  id: string
+): Promise<BookSearchResult | null | undefined> {
+  const stored = await loadCache();
+  const key = toCacheKey(type, id);
+  const entry = stored.entries[key];
+  const now = Date.now();
+
+  if (!entry || entry.expiresAt <= now) {
+    if (entry) delete stored.entries[key];
+    stored.counters.misses++;
+    scheduleSave();
+    return undefined;
+  }
+
+  const result = entry.recordId ? await loadRecord(entry.recordId) : null;
+  // The book itself couldn't be read back, so look it up again
+  if (entry.recordId && !result) {
+    delete stored.entries[key];
+    stored.counters.misses++;
+    scheduleSave();
+    return undefined;
+  }
+
+  entry.lastUsedAt = now;
+  if (result) {
+    stored.counters.hits++;
+  } else {
+    stored.counters.notFoundHits++;
+  }
+  scheduleSave();
+
+  console.log('📦 Book metadata cache hit:', key, result ? result.title : '(not found)');
+  return result;
+}
+
+export async function cacheBookLookup(
+  type: BookCacheKeyType,
+  id: string,
+  result: BookSearchResult | null
+): Promise<void> {
+  const stored = await loadCache();
+  const now = Date.now();
+  const key = toCacheKey(type, id);
+
+  // A book found by ISBN and by Google Books ID is stored once, under its Google Books ID
+  let recordId: string | null = null;
+  if (result) {
+    recordId = result.googleBooksId ? toCacheKey('googleBooksId', result.googleBooksId) : key;
+    const serialized = JSON.stringify(result);
+    stored.recordSizes[recordId] = serialized.length;
+    pendingRecords.set(recordId, serialized);
+  }
+
+  stored.entries[key] = {
+    recordId,
+    cachedAt: now,
+    expiresAt: now + (result ? FOUND_TTL : NOT_FOUND_TTL),
+    lastUsedAt: now,
+  };
+  pruneCache(stored, now);
+  scheduleSave();
+}
+
+export async function getBookMetadataCacheStats(): Promise<BookCacheStats> {
+  const stored = await loadCache();
+  pruneCache(stored, Date.now());
+
+  const entries = Object.values(stored.entries);
+  const foundEntries = entries.filter((entry) => entry.recordId).length;
+  const recordsSize = Object.values(stored.recordSizes).reduce((sum, size) => sum + size, 0);
+  const { hits, notFoundHits, misses } = stored.counters;
+  const lookups = hits + notFoundHits + misses;
+
+  return {
+    ...stored.counters,
+    entries: entries.length,
+    foundEntries,
+    notFoundEntries: entries.length - foundEntries,
+    hitRate: lookups > 0 ? (hits + notFoundHits) / lookups : 0,
+    sizeBytes: JSON.stringify(stored).length + recordsSize,
+  };
+}
+
+export async function clearBookMetadataCache(): Promise<void> {
+  if (saveTimeout) {
+    clearTimeout(saveTimeout);
+    saveTimeout = null;
+  }
+
+  pendingRecords.clear();
+  cache = emptyCache();
+  loadPromise = Promise.resolve(cache);
+  const recordKeys = (await AsyncStorage.getAllKeys()).filter((key) => key.startsWith(RECORD_KEY_PREFIX));
+  await AsyncStorage.multiRemove([INDEX_KEY, ...recordKeys]);
+  console.log('🗑️ Cleared book metadata cache');
+}
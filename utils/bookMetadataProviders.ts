@@ -0,0 +1,131 @@
+import type { DoubanBook, GoogleBook, OpenLibraryBookDetails } from '@/utils/googleBooksApi';
+import type { BookFetcher, BookMetadataProvider, ProviderBookData } from '@/utils/bookProviders';
+import { parseSeriesLabel } from '@/utils/bookSeries';
+
+/**
+ * Built-in book metadata providers
+ * Parsing is kept apart from fetching so recorded API responses can be checked
+ * against the parsers directly
+ */
+
+export function parseGoogleBooksVolumes(data: { totalItems?: number; items?: GoogleBook[] }): ProviderBookData | null {
+  const item = data.items?.[0];
+  if (!item) return null;
+
+  return {
+    id: item.id,
+    title: item.volumeInfo.title,
+    authors: item.volumeInfo.authors?.join(', '),
+    description: item.volumeInfo.description,
+    publishedDate: item.volumeInfo.publishedDate,
+    pageCount: item.volumeInfo.pageCount,
+    volumeInfo: item.volumeInfo,
+  };
+}
+
+export function parseDoubanBook(data: DoubanBook): ProviderBookData | null {
+  if (!data || !data.title) return null;
+
+  return {
+    id: `douban-${data.id}`,
+    title: data.title + (data.subtitle ? `: ${data.subtitle}` : ''),
+    authors: data.author?.join(', '),
+    description: data.summary,
+    publishedDate: data.pubdate,
+    pageCount: data.pages ? parseInt(data.pages, 10) : undefined,
+    series: parseSeriesLabel(data.series?.title),
+    // Largest first; Douban covers are preferred for Chinese books
+    coverUrl: data.images?.large || data.images?.medium || data.images?.small,
+  };
+}
+
+export function parseOpenLibraryEdition(data: OpenLibraryBookDetails, isbn: string): ProviderBookData | null {
+  if (!data || !data.title) return null;
+
+  const description = typeof data.description === 'string'
+    ? data.description
+    : data.description?.value;
+  const authorNames = data.authors?.map((author) => author.name).filter((name): name is string => !!name);
+
+  return {
+    id: `openlibrary-${isbn}`,
+    title: data.title,
+    authors: authorNames?.length ? authorNames.join(', ') : undefined,
+    description,
+    publishedDate: data.publish_date,
+    pageCount: data.number_of_pages,
+    series: parseSeriesLabel(data.series?.[0]),
+  };
+}
+
+export const googleBooksProvider: BookMetadataProvider = {
+  id: 'googlebooks',
+  name: 'Google Books',
+  lookupByISBN: async (isbn: string, fetcher: BookFetcher) => {
+    const response = await fetcher(`https://www.googleapis.com/books/v1/volumes?q=isbn:${isbn}&projection=full`);
+    // Unknown ISBNs come back as an empty list, so any error status is a failed lookup
+    if (!response.ok) {
+      throw new Error(`Google Books API error: ${response.status}`);
+    }
+    return parseGoogleBooksVolumes(await response.json());
+  },
+};
+
+export const doubanProvider: BookMetadataProvider = {
+  id: 'douban',
+  name: 'Douban',
+  lookupByISBN: async (isbn: string, fetcher: BookFetcher) => {
+    const response = await fetcher(`https://api.douban.com/v2/book/isbn/${isbn}`);
+    // The public Douban API often refuses requests; Google Books is asked next either way
+    if (!response.ok) {
+      console.log('❌ Douban API error:', response.status);
+      return null;
+    }
+    return parseDoubanBook(await response.json());
+  },
+};
+
+export const openLibraryProvider: BookMetadataProvider = {
+  id: 'openlibrary',
+  name: 'OpenLibrary',
+  lookupByISBN: async (isbn: string, fetcher: BookFetcher) => {
+    const response = await fetcher(`https://openlibrary.org/isbn/${isbn}.json`);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`OpenLibrary API error: ${response.status}`);
+    }
+    return parseOpenLibraryEdition(await response.json(), isbn);
+  },
+};
+
+/**
+ * Cover only, through the amazon-book-cover edge function
+ */
+export const amazonProvider: BookMetadataProvider = {
+  id: 'amazon',
+  name: 'Amazon',
+  lookupByISBN: async (isbn: string, fetcher: BookFetcher) => {
+    const response = await fetcher(`${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/amazon-book-cover`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify({ isbn }),
+    });
+    if (!response.ok) {
+      console.log('Amazon PA API request failed:', response.status);
+      return null;
+    }
+
+    const data = await response.json();
+    return data.coverUrl ? { id: `amazon-${isbn}`, coverUrl: data.coverUrl } : null;
+  },
+};
+
+export const BUILT_IN_BOOK_PROVIDERS: BookMetadataProvider[] = [
+  googleBooksProvider,
+  doubanProvider,
+  openLibraryProvider,
+  amazonProvider,
+];
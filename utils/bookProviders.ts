@@ -0,0 +1,177 @@
+import type { GoogleBook } from '@/utils/googleBooksApi';
+import type { BookSeries } from '@/utils/bookSeries';
+import {
+  BOOK_PROVIDER_SETTINGS,
+  BookProviderId,
+  BookProviderSetting,
+  BookRegion,
+} from '@/data/bookProviders';
+
+/**
+ * Book metadata provider registry
+ * Each provider looks a book up by ISBN through the fetcher it's given, so it can
+ * be run against recorded responses without the network. The registry picks the
+ * providers for an ISBN's region and merges what they return field by field
+ */
+
+export type BookFetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+// What one provider knows about a book; fields it doesn't have are left out
+export interface ProviderBookData {
+  // The provider's id for the book, kept as the book's googleBooksId
+  id: string;
+  title?: string;
+  authors?: string;
+  description?: string;
+  publishedDate?: string;
+  pageCount?: number;
+  series?: BookSeries | null;
+  // A cover to try before the cover search, e.g. Douban's own
+  coverUrl?: string;
+  // The Google Books volume, whose cover is the last fallback
+  volumeInfo?: GoogleBook['volumeInfo'];
+}
+
+export interface BookMetadataProvider {
+  id: BookProviderId;
+  name: string;
+  // Resolves null when the provider doesn't know the ISBN; network failures are thrown
+  lookupByISBN: (isbn: string, fetcher: BookFetcher) => Promise<ProviderBookData | null>;
+}
+
+export type MergedBookField = 'id' | 'title' | 'authors' | 'description' | 'publishedDate' | 'pageCount' | 'series' | 'coverUrl' | 'volumeInfo';
+
+export type BookProvenance = Partial<Record<MergedBookField, BookProviderId>>;
+
+export interface MergedBookData extends ProviderBookData {
+  title: string;
+  provenance: BookProvenance;
+}
+
+interface ProviderResult {
+  setting: BookProviderSetting;
+  data: ProviderBookData;
+}
+
+const MERGED_FIELDS: MergedBookField[] = ['title', 'authors', 'description', 'publishedDate', 'pageCount', 'series', 'coverUrl', 'volumeInfo'];
+// Once these are known no further providers are asked
+const COMPLETE_FIELDS: MergedBookField[] = ['title', 'authors', 'description', 'publishedDate', 'pageCount'];
+
+const providers = new Map<BookProviderId, BookMetadataProvider>();
+let providerSettings: Record<BookRegion, BookProviderSetting[]> = BOOK_PROVIDER_SETTINGS;
+
+export function registerBookProvider(provider: BookMetadataProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getBookProvider(id: BookProviderId): BookMetadataProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * Replace a region's providers, order and weights, e.g. to try a new provider
+ */
+export function setBookProviderSettings(region: BookRegion, settings: BookProviderSetting[]) {
+  providerSettings = { ...providerSettings, [region]: settings };
+}
+
+export function getBookProviderSettings(region: BookRegion): BookProviderSetting[] {
+  return providerSettings[region];
+}
+
+export function getBookRegion(isbn: string): BookRegion {
+  const cleanISBN = isbn.replace(/[-\s]/g, '');
+
+  if (cleanISBN.startsWith('9787')) {
+    console.log('🇨🇳 Detected Mainland China ISBN (978-7)');
+    return 'china';
+  }
+
+  if (cleanISBN.startsWith('9780') || cleanISBN.startsWith('9781')) {
+    console.log('🇬🇧 Detected English-language ISBN (978-0/978-1)');
+    return 'english';
+  }
+
+  console.log('🌍 Detected other ISBN prefix');
+  return 'other';
+}
+
+const hasValue = (value: unknown) => {
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (typeof value === 'number') return value > 0;
+  return value !== undefined && value !== null;
+};
+
+/**
+ * Take each field from the highest-weighted provider that has it
+ * The book's id comes from the provider its title came from
+ */
+export function mergeProviderResults(results: ProviderResult[]): MergedBookData | null {
+  const byWeight = [...results].sort((a, b) => b.setting.weight - a.setting.weight);
+  const merged: Partial<MergedBookData> = {};
+  const provenance: BookProvenance = {};
+
+  for (const field of MERGED_FIELDS) {
+    const source = byWeight.find((result) => hasValue(result.data[field]));
+    if (!source) continue;
+
+    Object.assign(merged, { [field]: source.data[field] });
+    provenance[field] = source.setting.id;
+  }
+
+  if (!merged.title || !provenance.title) return null;
+
+  const titleSource = byWeight.find((result) => result.setting.id === provenance.title);
+  return {
+    ...merged,
+    id: titleSource?.data.id || '',
+    title: merged.title,
+    provenance: { ...provenance, id: provenance.title },
+  };
+}
+
+/**
+ * Ask the region's enabled providers in order until the book's details are complete
+ * Throws when no provider found the book and at least one failed, so a lookup
+ * that failed isn't mistaken for a book that doesn't exist
+ */
+export async function lookupBookWithProviders(
+  isbn: string,
+  fetcher: BookFetcher,
+  region: BookRegion = getBookRegion(isbn)
+): Promise<MergedBookData | null> {
+  const results: ProviderResult[] = [];
+  let firstError: unknown = null;
+
+  for (const setting of providerSettings[region]) {
+    const provider = providers.get(setting.id);
+    if (!setting.enabled || !provider) continue;
+
+    try {
+      console.log(`📚 Asking ${provider.name} for ISBN:`, isbn);
+      const data = await provider.lookupByISBN(isbn, fetcher);
+      if (!data) {
+        console.log(`⚠️ ${provider.name} doesn't know this ISBN`);
+        continue;
+      }
+
+      console.log(`✅ ${provider.name} found:`, data.title || '(cover only)');
+      results.push({ setting, data });
+    } catch (error) {
+      console.error(`❌ ${provider.name} lookup failed:`, error);
+      firstError = firstError || error;
+      continue;
+    }
+
+    const merged = mergeProviderResults(results);
+    if (merged && COMPLETE_FIELDS.every((field) => hasValue(merged[field]))) {
+      return merged;
+    }
+  }
+
+  const merged = mergeProviderResults(results);
+  if (!merged && firstError) {
+    throw firstError;
+  }
+  return merged;
+}
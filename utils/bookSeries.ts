@@ -0,0 +1,161 @@
+import { supabase } from '@/app/integrations/supabase/client';
+
+/**
+ * Book series ("Pig the Pug", "Elephant & Piggie")
+ * A book's series is the one its parent set on `user_books`, else the one found in
+ * the catalogue metadata on `books_library`, else one read from the title.
+ * An empty `user_books.series_name` means the parent said it isn't part of a series
+ */
+
+export interface BookSeries {
+  name: string;
+  // Position in the series, when known
+  number: number | null;
+}
+
+interface SeriesColumns {
+  series_name?: string | null;
+  series_number?: number | null;
+}
+
+// The fields of a saved book needed to place it in a series
+export interface SeriesShelfBook extends SeriesColumns {
+  id: string;
+  book: SeriesColumns & {
+    title: string;
+    authors?: string | null;
+  };
+}
+
+export const MAX_SERIES_NAME_LENGTH = 60;
+
+// Words that describe the edition or format rather than a series,
+// e.g. "(Board Book)" or ": A Lift-the-Flap Book"
+const EDITION_WORDS = /\b(board|hardcover|paperback|picture|edition|reissue|illustrated|unabridged|boxed set|lift-the-flap|touch-and-feel|pop-up|sticker|activity|colou?ring|sound|novelty|classic|padded|bath|cloth)\b/i;
+
+export const normalizeSeriesName = (name: string): string => {
+  return name.trim().replace(/\s+/g, ' ').slice(0, MAX_SERIES_NAME_LENGTH);
+};
+
+// "Elephant & Piggie" and "Elephant and Piggie" are the same series
+const toSeriesKey = (name: string) => normalizeSeriesName(name).toLowerCase().replace(/\s*&\s*/g, ' and ');
+
+export const isSameSeriesName = (a: string, b: string): boolean => {
+  return toSeriesKey(a) === toSeriesKey(b);
+};
+
+const toSeries = (name: string, number?: string | number | null): BookSeries | null => {
+  const seriesName = normalizeSeriesName(name);
+  if (!seriesName || EDITION_WORDS.test(seriesName)) return null;
+
+  const position = typeof number === 'string' ? parseInt(number, 10) : number;
+  return { name: seriesName, number: position && position > 0 ? position : null };
+};
+
+/**
+ * Catalogue series labels such as "Pig the Pug ; 3" or "An Elephant & Piggie book"
+ */
+export function parseSeriesLabel(label: string | null | undefined): BookSeries | null {
+  if (!label) return null;
+
+  const numbered = label.match(/^(.+?)\s*[;,#]\s*(?:#|no\.?\s*|book\s+|vol\.?\s*)?(\d+)\s*$/i);
+  if (numbered) return toSeries(numbered[1], numbered[2]);
+
+  const wrapped = label.match(/^an?\s+(.+?)\s+(?:book|story|adventure)$/i);
+  return toSeries(wrapped ? wrapped[1] : label);
+}
+
+/**
+ * Series named in a title, as catalogues often write them:
+ * "Pig the Winner (Pig the Pug)", "Dog Man (Dog Man #1)",
+ * "We Are in a Book! (An Elephant and Piggie Book)", "Dog Man #3: A Tale of Two Kitties"
+ */
+export function detectSeriesFromTitle(title: string | null | undefined): BookSeries | null {
+  if (!title) return null;
+
+  const parenthesised = title.match(/\(([^()]+)\)\s*$/);
+  if (parenthesised) {
+    const inner = parenthesised[1];
+    const numbered = inner.match(/^(.+?),?\s*(?:#|book\s+|vol\.?\s*|volume\s+)(\d+)$/i);
+    if (numbered) return toSeries(numbered[1], numbered[2]);
+    return parseSeriesLabel(inner);
+  }
+
+  const subtitled = title.match(/[:\-–]\s*an?\s+(.+?)\s+(?:book|story|adventure)$/i);
+  if (subtitled) return toSeries(subtitled[1]);
+
+  const leading = title.match(/^(.+?)\s+#(\d+)\s*[:\-–]/);
+  if (leading) return toSeries(leading[1], leading[2]);
+
+  return null;
+}
+
+export function getBookSeries(userBook: SeriesShelfBook): BookSeries | null {
+  if (userBook.series_name !== null && userBook.series_name !== undefined) {
+    return userBook.series_name ? toSeries(userBook.series_name, userBook.series_number) : null;
+  }
+  if (userBook.book.series_name) {
+    return toSeries(userBook.book.series_name, userBook.book.series_number);
+  }
+  return detectSeriesFromTitle(userBook.book.title);
+}
+
+/**
+ * The shelf's books in a series, by position and then title
+ */
+export function getSeriesBooks<T extends SeriesShelfBook>(books: T[], seriesName: string): T[] {
+  return books
+    .map((userBook) => ({ userBook, series: getBookSeries(userBook) }))
+    .filter(({ series }) => series && isSameSeriesName(series.name, seriesName))
+    .sort((a, b) =>
+      (a.series?.number ?? Number.MAX_SAFE_INTEGER) - (b.series?.number ?? Number.MAX_SAFE_INTEGER) ||
+      a.userBook.book.title.localeCompare(b.userBook.book.title)
+    )
+    .map(({ userBook }) => userBook);
+}
+
+/**
+ * How many books the series has: the parent's count if set, else the most the shelf shows
+ */
+export function getSeriesLength(seriesBooks: SeriesShelfBook[], storedTotal: number | null): number {
+  const highestNumber = Math.max(0, ...seriesBooks.map((userBook) => getBookSeries(userBook)?.number || 0));
+  return Math.max(storedTotal || 0, highestNumber, seriesBooks.length);
+}
+
+/**
+ * Set a saved book's series; null marks it as not part of a series
+ */
+export async function saveUserBookSeries(userBookId: string, series: BookSeries | null): Promise<void> {
+  const { error } = await supabase
+    .from('user_books')
+    .update({
+      series_name: series ? normalizeSeriesName(series.name) : '',
+      series_number: series?.number ?? null,
+    })
+    .eq('id', userBookId);
+
+  if (error) throw error;
+}
+
+export async function fetchSeriesTotal(childId: string, seriesName: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('book_series')
+    .select('total_books')
+    .eq('child_id', childId)
+    .eq('name', normalizeSeriesName(seriesName))
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.total_books ?? null;
+}
+
+export async function saveSeriesTotal(childId: string, seriesName: string, totalBooks: number | null): Promise<void> {
+  const { error } = await supabase
+    .from('book_series')
+    .upsert(
+      { child_id: childId, name: normalizeSeriesName(seriesName), total_books: totalBooks },
+      { onConflict: 'child_id,name' }
+    );
+
+  if (error) throw error;
+}
@@ -0,0 +1,151 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import { BOOK_TAG_COLORS, BookTagColor, DEFAULT_BOOK_TAG_COLOR, MAX_BOOK_TAG_LENGTH } from '@/data/bookTags';
+
+/**
+ * Book tags
+ * `user_books.tags` holds tag names; `book_tags` keeps each child's tags with their colour
+ * Tags written before the registry existed have no row (id null) and use the default colour
+ */
+
+export interface BookTag {
+  id: string | null;
+  name: string;
+  color: string;
+}
+
+// The fields of a saved book needed to change its tags
+export interface TaggableBook {
+  id: string;
+  tags: string[] | null;
+}
+
+export const normalizeTagName = (name: string): string => {
+  return name.trim().replace(/\s+/g, ' ').slice(0, MAX_BOOK_TAG_LENGTH);
+};
+
+// Tag names match whatever their case, so "bedtime" is on the "Bedtime" shelf
+export const getTagKey = (name: string): string => {
+  return name.toLowerCase();
+};
+
+export const isSameTagName = (a: string, b: string): boolean => {
+  return getTagKey(a) === getTagKey(b);
+};
+
+export const getBookTagColor = (colorId: string | null | undefined): BookTagColor => {
+  return BOOK_TAG_COLORS.find((c) => c.id === colorId) || DEFAULT_BOOK_TAG_COLOR;
+};
+
+/**
+ * Registered tags plus any tag names used on books without a registry row
+ */
+export function mergeUsedTags(registered: BookTag[], usedNames: string[]): BookTag[] {
+  const merged = [...registered];
+  usedNames.forEach((name) => {
+    if (!merged.some((tag) => isSameTagName(tag.name, name))) {
+      merged.push({ id: null, name, color: DEFAULT_BOOK_TAG_COLOR.id });
+    }
+  });
+  return merged.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Add tag names to a list, skipping any already there in another case
+ */
+export function addTagNames(tags: string[] | null, names: string[]): string[] {
+  const result = [...(tags || [])];
+  names.forEach((name) => {
+    if (!result.some((tag) => isSameTagName(tag, name))) {
+      result.push(name);
+    }
+  });
+  return result;
+}
+
+export async function fetchBookTags(childId: string): Promise<BookTag[]> {
+  const { data, error } = await supabase
+    .from('book_tags')
+    .select('id, name, color')
+    .eq('child_id', childId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as BookTag[];
+}
+
+export async function insertBookTag(childId: string, name: string, color: string): Promise<BookTag> {
+  const { data, error } = await supabase
+    .from('book_tags')
+    .insert({ child_id: childId, name, color })
+    .select('id, name, color')
+    .single();
+
+  if (error) throw error;
+  return data as BookTag;
+}
+
+export async function updateBookTag(tagId: string, changes: Partial<Pick<BookTag, 'name' | 'color'>>): Promise<void> {
+  const { error } = await supabase
+    .from('book_tags')
+    .update(changes)
+    .eq('id', tagId);
+
+  if (error) throw error;
+}
+
+export async function removeBookTag(tagId: string): Promise<void> {
+  const { error } = await supabase
+    .from('book_tags')
+    .delete()
+    .eq('id', tagId);
+
+  if (error) throw error;
+}
+
+export async function setUserBookTags(userBookId: string, tags: string[]): Promise<void> {
+  const { error } = await supabase
+    .from('user_books')
+    .update({ tags, updated_at: new Date().toISOString() })
+    .eq('id', userBookId);
+
+  if (error) throw error;
+}
+
+/**
+ * Add a tag to several books at once, keeping their other tags
+ */
+export async function addTagToUserBooks(books: TaggableBook[], tagName: string): Promise<void> {
+  const updates = books
+    .filter((book) => !(book.tags || []).some((tag) => isSameTagName(tag, tagName)))
+    .map((book) => setUserBookTags(book.id, addTagNames(book.tags, [tagName])));
+
+  await Promise.all(updates);
+}
+
+/**
+ * Swap one tag name for another (or remove it when `to` is null) on every book of the child
+ * Used when renaming, merging and deleting tags. Names match case-insensitively like
+ * everywhere else, which Postgres' array `contains` can't do, so the books are filtered here
+ */
+export async function replaceTagOnBooks(childId: string, from: string, to: string | null): Promise<number> {
+  const { data, error } = await supabase
+    .from('user_books')
+    .select('id, tags')
+    .eq('child_id', childId)
+    .not('tags', 'is', null);
+
+  if (error) throw error;
+
+  const books = ((data || []) as TaggableBook[]).filter((book) =>
+    (book.tags || []).some((tag) => isSameTagName(tag, from))
+  );
+  await Promise.all(
+    books.map((book) => {
+      const remaining = (book.tags || []).filter((tag) => !isSameTagName(tag, from));
+      return setUserBookTags(book.id, to ? addTagNames(remaining, [to]) : remaining);
+    })
+  );
+
+  console.log('bookTags: Replaced tag', from, 'with', to, 'on', books.length, 'books');
+  return books.length;
+}
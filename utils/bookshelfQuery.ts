@@ -0,0 +1,162 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ShelfRating, ShelfSort, ShelfSource } from '@/data/bookshelfOptions';
+import { getBookSeries, SeriesShelfBook } from '@/utils/bookSeries';
+import { getTagKey } from '@/utils/bookTags';
+
+/**
+ * Bookshelf search, filters and sorting for the Books tab
+ * Filters and sort are kept on the device per child; the search text is not
+ */
+
+const QUERY_KEY_PREFIX = '@bookshelf_query_';
+
+export interface ShelfFilters {
+  ratings: ShelfRating[];
+  recommendedOnly: boolean;
+  source: ShelfSource;
+  tags: string[];
+  sort: ShelfSort;
+}
+
+// The fields of a saved book the shelf query looks at
+export interface ShelfBook extends SeriesShelfBook {
+  id: string;
+  rating: string | null;
+  tags: string[] | null;
+  would_recommend: boolean;
+  is_custom_for_user: boolean;
+  created_at: string;
+  book: {
+    title: string;
+    authors: string | null;
+  };
+}
+
+export const DEFAULT_SHELF_FILTERS: ShelfFilters = {
+  ratings: [],
+  recommendedOnly: false,
+  source: 'all',
+  tags: [],
+  sort: 'date_added',
+};
+
+export async function loadShelfFilters(childId: string): Promise<ShelfFilters> {
+  try {
+    const stored = await AsyncStorage.getItem(`${QUERY_KEY_PREFIX}${childId}`);
+    return stored ? { ...DEFAULT_SHELF_FILTERS, ...JSON.parse(stored) } : DEFAULT_SHELF_FILTERS;
+  } catch (error) {
+    console.error('bookshelfQuery: Error loading filters:', error);
+    return DEFAULT_SHELF_FILTERS;
+  }
+}
+
+export async function saveShelfFilters(childId: string, filters: ShelfFilters): Promise<void> {
+  try {
+    await AsyncStorage.setItem(`${QUERY_KEY_PREFIX}${childId}`, JSON.stringify(filters));
+  } catch (error) {
+    console.error('bookshelfQuery: Error saving filters:', error);
+  }
+}
+
+/**
+ * Number of filters narrowing the shelf; the sort order isn't counted
+ */
+export function countActiveFilters(filters: ShelfFilters): number {
+  return (
+    (filters.ratings.length > 0 ? 1 : 0) +
+    (filters.recommendedOnly ? 1 : 0) +
+    (filters.source !== 'all' ? 1 : 0) +
+    (filters.tags.length > 0 ? 1 : 0)
+  );
+}
+
+/**
+ * Every tag used on the shelf, alphabetically; tags differing only in case are listed once
+ */
+export function getShelfTags(books: ShelfBook[]): string[] {
+  const tags = new Map<string, string>();
+  books.forEach((book) => (book.tags || []).forEach((tag) => {
+    if (!tags.has(getTagKey(tag))) tags.set(getTagKey(tag), tag);
+  }));
+  return Array.from(tags.values()).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Books per tag, keyed by `getTagKey`; read with `getTagCount`
+ */
+export function countShelfTags(books: ShelfBook[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  books.forEach((book) => {
+    new Set((book.tags || []).map(getTagKey)).forEach((key) => counts.set(key, (counts.get(key) || 0) + 1));
+  });
+  return counts;
+}
+
+export function getTagCount(counts: Map<string, number>, tagName: string): number {
+  return counts.get(getTagKey(tagName)) || 0;
+}
+
+const compareText = (a: string | null, b: string | null): number => {
+  // Books without the field go last
+  if (!a) return b ? 1 : 0;
+  if (!b) return -1;
+  return a.localeCompare(b, undefined, { sensitivity: 'base' });
+};
+
+/**
+ * Books of a series side by side in series order; books outside a series follow by title
+ */
+const compareSeries = (a: ShelfBook, b: ShelfBook): number => {
+  const seriesA = getBookSeries(a);
+  const seriesB = getBookSeries(b);
+  return (
+    compareText(seriesA?.name.toLowerCase() || null, seriesB?.name.toLowerCase() || null) ||
+    (seriesA?.number ?? Number.MAX_SAFE_INTEGER) - (seriesB?.number ?? Number.MAX_SAFE_INTEGER) ||
+    compareText(a.book.title, b.book.title)
+  );
+};
+
+/**
+ * Books matching the search and filters, in the chosen order
+ * `readCounts` maps user book ids to logged reading sessions for the most-read sort
+ */
+export function applyShelfQuery<T extends ShelfBook>(
+  books: T[],
+  search: string,
+  filters: ShelfFilters,
+  readCounts: Map<string, number>
+): T[] {
+  const term = search.trim().toLowerCase();
+  const tagKeys = new Set(filters.tags.map(getTagKey));
+
+  const filtered = books.filter((userBook) => {
+    if (term) {
+      const title = userBook.book.title?.toLowerCase() || '';
+      const authors = userBook.book.authors?.toLowerCase() || '';
+      if (!title.includes(term) && !authors.includes(term)) return false;
+    }
+    if (filters.ratings.length > 0 && !filters.ratings.includes(userBook.rating as ShelfRating)) return false;
+    if (filters.recommendedOnly && !userBook.would_recommend) return false;
+    if (filters.source === 'custom' && !userBook.is_custom_for_user) return false;
+    if (filters.source === 'catalogue' && userBook.is_custom_for_user) return false;
+    // A book matches if it has any of the selected tags
+    if (filters.tags.length > 0 && !(userBook.tags || []).some((tag) => tagKeys.has(getTagKey(tag)))) return false;
+    return true;
+  });
+
+  return filtered.sort((a, b) => {
+    switch (filters.sort) {
+      case 'title':
+        return compareText(a.book.title, b.book.title);
+      case 'author':
+        return compareText(a.book.authors, b.book.authors) || compareText(a.book.title, b.book.title);
+      case 'most_read':
+        return (readCounts.get(b.id) || 0) - (readCounts.get(a.id) || 0) || compareText(a.book.title, b.book.title);
+      case 'series':
+        return compareSeries(a, b);
+      case 'date_added':
+      default:
+        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+    }
+  });
+}
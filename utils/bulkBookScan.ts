@@ -0,0 +1,147 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import { BookSearchResult } from '@/utils/googleBooksApi';
+
+/**
+ * Bulk ISBN scanning
+ * Scanned ISBNs queue up, are looked up one at a time in the background and
+ * are reviewed before the found books are added to the child's shelf together
+ */
+
+// `saved`: the lookup failed and the ISBN was saved for later (utils/pendingBookLookups.ts)
+export type BulkScanStatus = 'queued' | 'searching' | 'found' | 'not_found' | 'saved' | 'error';
+
+export interface BulkScanItem {
+  // ISBN-13 form of the ISBN, so a book scanned as ISBN-10 and ISBN-13 only queues once
+  key: string;
+  isbn: string;
+  status: BulkScanStatus;
+  book: BookSearchResult | null;
+  // Whether the book will be added when the review is confirmed
+  included: boolean;
+}
+
+export interface BulkAddResult {
+  added: number;
+  alreadyOnShelf: number;
+  failed: number;
+}
+
+export const normalizeIsbn = (raw: string): string => raw.replace(/[-\s]/g, '').toUpperCase();
+
+export const isValidIsbn = (isbn: string): boolean => {
+  if (isbn.length === 13) return /^97[89]\d{10}$/.test(isbn);
+  return /^\d{9}[\dX]$/.test(isbn);
+};
+
+/**
+ * ISBN-10s are converted with the 978 prefix and a new check digit
+ */
+export const toIsbn13 = (isbn: string): string => {
+  if (isbn.length !== 10) return isbn;
+
+  const body = `978${isbn.slice(0, 9)}`;
+  const sum = body
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return `${body}${(10 - (sum % 10)) % 10}`;
+};
+
+export const isLookupPending = (item: BulkScanItem): boolean => {
+  return item.status === 'queued' || item.status === 'searching';
+};
+
+/**
+ * Find the shared library entry for a looked-up book, creating it if needed
+ */
+async function findOrCreateLibraryBook(book: BookSearchResult): Promise<string> {
+  const { data: existingBook, error: fetchError } = await supabase
+    .from('books_library')
+    .select('id')
+    .eq('google_books_id', book.googleBooksId)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+  if (existingBook) return existingBook.id;
+
+  const { data: newBook, error: insertError } = await supabase
+    .from('books_library')
+    .insert({
+      google_books_id: book.googleBooksId,
+      title: book.title,
+      authors: book.authors,
+      cover_url: book.coverUrl,
+      thumbnail_url: book.thumbnailUrl,
+      description: book.description,
+      published_date: book.publishedDate,
+      page_count: book.pageCount,
+      isbn: book.isbn ?? null,
+      series_name: book.series?.name ?? null,
+      series_number: book.series?.number ?? null,
+      source: 'google_books',
+    })
+    .select('id')
+    .single();
+
+  if (insertError) throw insertError;
+  return newBook.id;
+}
+
+/**
+ * Add reviewed books to a child's shelf, skipping any already there
+ * Quota is checked by the caller for the whole batch before this runs
+ */
+export async function addScannedBooksToShelf(
+  books: BookSearchResult[],
+  childId: string,
+  userId: string
+): Promise<BulkAddResult> {
+  const result: BulkAddResult = { added: 0, alreadyOnShelf: 0, failed: 0 };
+
+  for (const book of books) {
+    try {
+      const bookId = await findOrCreateLibraryBook(book);
+
+      const { data: existingUserBook, error: existingError } = await supabase
+        .from('user_books')
+        .select('id')
+        .eq('child_id', childId)
+        .eq('book_id', bookId)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (existingUserBook) {
+        result.alreadyOnShelf++;
+        continue;
+      }
+
+      const { error: relationError } = await supabase
+        .from('user_books')
+        .insert({
+          child_id: childId,
+          book_id: bookId,
+          user_id: userId,
+          is_custom_for_user: false,
+        });
+
+      if (relationError) throw relationError;
+      result.added++;
+    } catch (error) {
+      console.error('bulkBookScan: Error adding book:', book.title, error);
+      result.failed++;
+    }
+  }
+
+  console.log('bulkBookScan: Added', result.added, 'books,', result.alreadyOnShelf, 'already on shelf,', result.failed, 'failed');
+  return result;
+}
+
+export function formatBulkAddResult(result: BulkAddResult): string {
+  const parts = [`${result.added} ${result.added === 1 ? 'book' : 'books'} added to your library`];
+  if (result.alreadyOnShelf > 0) {
+    parts.push(`${result.alreadyOnShelf} already there`);
+  }
+  if (result.failed > 0) {
+    parts.push(`${result.failed} couldn't be added`);
+  }
+  return parts.join(', ');
+}
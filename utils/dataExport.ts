@@ -0,0 +1,549 @@
+
+import { Platform } from 'react-native';
+import * as Sharing from 'expo-sharing';
+import JSZip from 'jszip';
+import { supabase } from '@/app/integrations/supabase/client';
+import { getSignedVideoUrl, extractStoragePath } from '@/utils/videoStorage';
+import { AUDIO_BUCKET, getSignedAudioUrl } from '@/utils/audioStorage';
+import { PHOTO_BUCKET, getSignedPhotoUrl } from '@/utils/photoStorage';
+import { createZipWriter } from '@/utils/zipWriter';
+
+/**
+ * Data export
+ * Gathers a child's words, books and moments into a zip archive containing
+ * archive.json (machine readable, used by the import flow), a CSV per table,
+ * the photos and audio clips of moments and optionally their videos.
+ * On iOS and Android the zip is streamed to the cache directory a file at a time;
+ * on web it's built in the browser and downloaded
+ */
+
+export const EXPORT_FORMAT = 'tinydreamers-export';
+export const EXPORT_VERSION = 1;
+
+export interface ExportChild {
+  id: string;
+  name: string;
+  birth_date: string;
+}
+
+export interface ExportWord {
+  id: string;
+  word: string;
+  emoji: string | null;
+  color: string | null;
+  category: string | null;
+  is_spoken: boolean;
+  is_recognised: boolean;
+  is_recorded: boolean;
+  // Missing from archives exported before first-said dates existed
+  first_spoken_at?: string | null;
+  first_recognised_at?: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface ExportBook {
+  id: string;
+  title: string;
+  authors: string | null;
+  google_books_id: string | null;
+  // Missing from archives exported before ISBNs were kept
+  isbn?: string | null;
+  published_date: string | null;
+  page_count: number | null;
+  cover_url: string | null;
+  thumbnail_url: string | null;
+  description: string | null;
+  source: string | null;
+  rating: string | null;
+  would_recommend: boolean | null;
+  tags: string[] | null;
+  is_custom_for_user: boolean | null;
+  created_at: string;
+}
+
+export type ExportMediaType = 'video' | 'audio' | 'photo';
+
+export interface ExportMoment {
+  id: string;
+  // Missing from archives exported before audio and photo moments existed, which only had videos
+  media_type?: ExportMediaType;
+  word_id: string | null;
+  word: string | null;
+  user_book_id?: string | null;
+  book?: string | null;
+  video_url: string | null;
+  audio_url?: string | null;
+  photo_url?: string | null;
+  waveform?: number[] | null;
+  duration: number | null;
+  trim_start: number | null;
+  trim_end: number | null;
+  created_at: string;
+  // Path of the video inside the zip, when videos were included and downloaded
+  video_file: string | null;
+  // Paths of the audio clip or photo inside the zip, when downloaded
+  audio_file?: string | null;
+  photo_file?: string | null;
+}
+
+export interface ExportChildData {
+  child: {
+    name: string;
+    birth_date: string;
+  };
+  words: ExportWord[];
+  books: ExportBook[];
+  moments: ExportMoment[];
+}
+
+export interface ExportArchive {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  includes_videos: boolean;
+  children: ExportChildData[];
+}
+
+export interface ExportOptions {
+  includeVideos: boolean;
+}
+
+export interface ExportResult {
+  // A file in the cache directory, or an object URL on web
+  fileUri: string;
+  fileName: string;
+  childCount: number;
+  wordCount: number;
+  bookCount: number;
+  momentCount: number;
+  videoCount: number;
+  audioCount: number;
+  photoCount: number;
+  // Videos, audio clips and photos that couldn't be downloaded
+  failedFileCount: number;
+}
+
+export const ARCHIVE_JSON_PATH = 'archive.json';
+export const ARCHIVE_VIDEOS_DIR = 'videos';
+export const ARCHIVE_AUDIO_DIR = 'audio';
+export const ARCHIVE_PHOTOS_DIR = 'photos';
+
+// Library ids that were made from an ISBN: custom books and OpenLibrary editions
+const ISBN_BOOK_ID_PATTERN = /^(?:custom_isbn_|openlibrary-)([0-9]{9}[0-9X]|[0-9]{13})$/i;
+
+/**
+ * A book's ISBN without dashes or spaces
+ * Library books added before ISBNs were kept only have one when their id was made from it
+ */
+export function getBookIsbn(book: Pick<ExportBook, 'isbn' | 'google_books_id'>): string | null {
+  if (book.isbn) {
+    return book.isbn.replace(/[-\s]/g, '').toUpperCase();
+  }
+  const match = book.google_books_id?.match(ISBN_BOOK_ID_PATTERN);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Fetch everything the archive needs for one child
+ */
+async function fetchChildData(child: ExportChild): Promise<ExportChildData> {
+  const [wordsResult, booksResult, momentsResult] = await Promise.all([
+    supabase
+      .from('user_words')
+      .select('id, custom_word, custom_emoji, color, category, is_spoken, is_recognised, is_recorded, first_spoken_at, first_recognised_at, created_at, updated_at')
+      .eq('child_id', child.id)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('user_books')
+      .select(`
+        id,
+        rating,
+        would_recommend,
+        tags,
+        is_custom_for_user,
+        created_at,
+        book:books_library (
+          google_books_id,
+          isbn,
+          title,
+          authors,
+          cover_url,
+          thumbnail_url,
+          description,
+          published_date,
+          page_count,
+          source
+        )
+      `)
+      .eq('child_id', child.id)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('moments')
+      .select('id, media_type, word_id, user_book_id, video_url, audio_url, photo_url, waveform, duration, trim_start, trim_end, created_at')
+      .eq('child_id', child.id)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  if (wordsResult.error) throw wordsResult.error;
+  if (booksResult.error) throw booksResult.error;
+  if (momentsResult.error) throw momentsResult.error;
+
+  const words: ExportWord[] = ((wordsResult.data || []) as any[]).map((uw) => ({
+    id: uw.id,
+    word: uw.custom_word || '',
+    emoji: uw.custom_emoji || null,
+    color: uw.color || null,
+    category: uw.category || null,
+    is_spoken: !!uw.is_spoken,
+    is_recognised: !!uw.is_recognised,
+    is_recorded: !!uw.is_recorded,
+    first_spoken_at: uw.first_spoken_at || null,
+    first_recognised_at: uw.first_recognised_at || null,
+    created_at: uw.created_at,
+    updated_at: uw.updated_at || null,
+  }));
+
+  const books: ExportBook[] = ((booksResult.data || []) as any[]).map((ub) => ({
+    id: ub.id,
+    title: ub.book?.title || 'Unknown Title',
+    authors: ub.book?.authors || null,
+    google_books_id: ub.book?.google_books_id || null,
+    isbn: getBookIsbn({ isbn: ub.book?.isbn, google_books_id: ub.book?.google_books_id }),
+    published_date: ub.book?.published_date || null,
+    page_count: ub.book?.page_count ?? null,
+    cover_url: ub.book?.cover_url || null,
+    thumbnail_url: ub.book?.thumbnail_url || null,
+    description: ub.book?.description || null,
+    source: ub.book?.source || null,
+    rating: ub.rating || null,
+    would_recommend: ub.would_recommend ?? null,
+    tags: ub.tags || null,
+    is_custom_for_user: ub.is_custom_for_user ?? null,
+    created_at: ub.created_at,
+  }));
+
+  const wordNames = new Map(words.map((w) => [w.id, w.word]));
+  const bookTitles = new Map(books.map((b) => [b.id, b.title]));
+  const moments: ExportMoment[] = ((momentsResult.data || []) as any[]).map((m) => ({
+    id: m.id,
+    media_type: m.media_type || 'video',
+    word_id: m.word_id || null,
+    word: (m.word_id && wordNames.get(m.word_id)) || null,
+    user_book_id: m.user_book_id || null,
+    book: (m.user_book_id && bookTitles.get(m.user_book_id)) || null,
+    video_url: m.video_url || null,
+    audio_url: m.audio_url || null,
+    photo_url: m.photo_url || null,
+    waveform: m.waveform || null,
+    duration: m.duration ?? null,
+    trim_start: m.trim_start ?? null,
+    trim_end: m.trim_end ?? null,
+    created_at: m.created_at,
+    video_file: null,
+    audio_file: null,
+    photo_file: null,
+  }));
+
+  return {
+    child: {
+      name: child.name,
+      birth_date: child.birth_date,
+    },
+    words,
+    books,
+    moments,
+  };
+}
+
+const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = Array.isArray(value) ? value.join('; ') : String(value);
+  // Spreadsheets run text starting with these as a formula, so a word or tag can't inject one
+  if (typeof value !== 'number' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  if (/[",\n\r]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Build a CSV document from a header row and value rows
+ */
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\n');
+}
+
+function buildCsvFiles(children: ExportChildData[]): Record<string, string> {
+  const wordRows: unknown[][] = [];
+  const bookRows: unknown[][] = [];
+  const momentRows: unknown[][] = [];
+
+  children.forEach(({ child, words, books, moments }) => {
+    words.forEach((w) => {
+      wordRows.push([child.name, w.word, w.emoji, w.category, w.is_spoken, w.is_recognised, w.is_recorded, w.first_spoken_at, w.first_recognised_at, w.created_at]);
+    });
+    books.forEach((b) => {
+      bookRows.push([child.name, b.title, b.authors, b.rating, b.would_recommend, b.tags, b.published_date, b.isbn, b.google_books_id, b.created_at]);
+    });
+    moments.forEach((m) => {
+      momentRows.push([
+        child.name,
+        m.media_type || 'video',
+        m.word,
+        m.book,
+        m.duration,
+        m.trim_start,
+        m.trim_end,
+        m.video_file || m.audio_file || m.photo_file,
+        m.created_at,
+      ]);
+    });
+  });
+
+  return {
+    'csv/words.csv': toCsv(
+      ['child', 'word', 'emoji', 'category', 'spoken', 'recognised', 'recorded', 'first_spoken_at', 'first_recognised_at', 'added_at'],
+      wordRows
+    ),
+    'csv/books.csv': toCsv(
+      ['child', 'title', 'authors', 'rating', 'would_recommend', 'tags', 'published_date', 'isbn', 'google_books_id', 'added_at'],
+      bookRows
+    ),
+    'csv/moments.csv': toCsv(
+      ['child', 'type', 'word', 'book', 'duration', 'trim_start', 'trim_end', 'file', 'recorded_at'],
+      momentRows
+    ),
+  };
+}
+
+const toFileSafeName = (value: string): string => {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'child';
+};
+
+interface MomentFile {
+  url: string;
+  bucket: string;
+  dir: string;
+  extension: string;
+  getSignedUrl: (url: string) => Promise<string | null>;
+  key: 'video_file' | 'audio_file' | 'photo_file';
+}
+
+/**
+ * The file to download for a moment: its video, audio clip or photo
+ */
+const getMomentFile = (moment: ExportMoment): MomentFile | null => {
+  switch (moment.media_type || 'video') {
+    case 'audio':
+      return moment.audio_url
+        ? { url: moment.audio_url, bucket: AUDIO_BUCKET, dir: ARCHIVE_AUDIO_DIR, extension: 'm4a', getSignedUrl: getSignedAudioUrl, key: 'audio_file' }
+        : null;
+    case 'photo':
+      return moment.photo_url
+        ? { url: moment.photo_url, bucket: PHOTO_BUCKET, dir: ARCHIVE_PHOTOS_DIR, extension: 'jpg', getSignedUrl: getSignedPhotoUrl, key: 'photo_file' }
+        : null;
+    default:
+      return moment.video_url
+        ? { url: moment.video_url, bucket: 'video-moments', dir: ARCHIVE_VIDEOS_DIR, extension: 'mp4', getSignedUrl: getSignedVideoUrl, key: 'video_file' }
+        : null;
+  }
+};
+
+/**
+ * Where the archive's entries are written as they're gathered
+ */
+interface ArchiveWriter {
+  addText: (path: string, text: string) => void;
+  // Rejects when the file can't be downloaded, leaving the archive as it was
+  addDownload: (path: string, url: string) => Promise<void>;
+  // Resolves with the finished archive's URI
+  finish: () => Promise<string>;
+  abort: () => void;
+}
+
+/**
+ * Stream the zip to the cache directory, downloading each file to a temporary file first
+ */
+async function createDeviceArchiveWriter(fileName: string): Promise<ArchiveWriter> {
+  const { File, Paths } = await import('expo-file-system');
+  const target = new File(Paths.cache, fileName);
+  const zip = createZipWriter(target);
+
+  return {
+    addText: zip.addText,
+    async addDownload(path, url) {
+      const tempFile = new File(Paths.cache, `export_${path.split('/').pop()}`);
+      try {
+        // Rejects on an error status
+        await File.downloadFileAsync(url, tempFile, { idempotent: true });
+        await zip.addFile(path, tempFile);
+      } finally {
+        if (tempFile.exists) tempFile.delete();
+      }
+    },
+    async finish() {
+      zip.finish();
+      return target.uri;
+    },
+    abort() {
+      zip.abort();
+      if (target.exists) target.delete();
+    },
+  };
+}
+
+/**
+ * Browsers have no file system to stream to, so the zip is built in memory and handed
+ * to the page as an object URL to download
+ */
+function createBrowserArchiveWriter(): ArchiveWriter {
+  const zip = new JSZip();
+
+  return {
+    addText(path, text) {
+      zip.file(path, text);
+    },
+    async addDownload(path, url) {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Download failed with status ${response.status}`);
+      }
+      // Stored as is: the media is already compressed
+      zip.file(path, await response.blob(), { compression: 'STORE' });
+    },
+    async finish() {
+      const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+      return URL.createObjectURL(blob);
+    },
+    abort() {},
+  };
+}
+
+/**
+ * Download each moment's photo or audio clip, and its video when videos are included, into the archive
+ * A file that cannot be downloaded is skipped and counted as failed, the rest of the export continues
+ */
+async function addMomentFilesToArchive(
+  writer: ArchiveWriter,
+  children: ExportChildData[],
+  includeVideos: boolean
+): Promise<{ videoCount: number; audioCount: number; photoCount: number; failedFileCount: number }> {
+  const counts = { videoCount: 0, audioCount: 0, photoCount: 0, failedFileCount: 0 };
+
+  for (const childData of children) {
+    const childDir = toFileSafeName(childData.child.name);
+
+    for (const moment of childData.moments) {
+      const file = getMomentFile(moment);
+      if (!file || (file.key === 'video_file' && !includeVideos)) continue;
+
+      try {
+        const signedUrl = await file.getSignedUrl(file.url);
+        if (!signedUrl) {
+          throw new Error('Could not create signed URL');
+        }
+
+        const storagePath = extractStoragePath(file.url, file.bucket) || `${moment.id}.${file.extension}`;
+        const fileName = storagePath.split('/').pop() || `${moment.id}.${file.extension}`;
+        const zipPath = `${file.dir}/${childDir}/${fileName}`;
+
+        await writer.addDownload(zipPath, signedUrl);
+        moment[file.key] = zipPath;
+        if (file.key === 'video_file') counts.videoCount++;
+        else if (file.key === 'audio_file') counts.audioCount++;
+        else counts.photoCount++;
+      } catch (error) {
+        console.error('[DataExport] Failed to include file for moment:', moment.id, error);
+        counts.failedFileCount++;
+      }
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Build the export zip for the given children: in the cache directory on iOS and Android,
+ * in memory on web
+ * @returns Location of the zip plus counts for the summary
+ */
+export async function createDataExport(children: ExportChild[], options: ExportOptions): Promise<ExportResult> {
+  console.log('[DataExport] Exporting', children.length, 'child(ren), include videos:', options.includeVideos);
+
+  const childData: ExportChildData[] = [];
+  for (const child of children) {
+    childData.push(await fetchChildData(child));
+  }
+
+  const exportedAt = new Date().toISOString();
+  const scope = children.length === 1 ? toFileSafeName(children[0].name) : 'all-children';
+  const fileName = `tinydreamers-${scope}-${exportedAt.split('T')[0]}.zip`;
+
+  const writer = Platform.OS === 'web' ? createBrowserArchiveWriter() : await createDeviceArchiveWriter(fileName);
+  let fileUri: string;
+  let fileCounts: Awaited<ReturnType<typeof addMomentFilesToArchive>>;
+  try {
+    fileCounts = await addMomentFilesToArchive(writer, childData, options.includeVideos);
+
+    const archive: ExportArchive = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exported_at: exportedAt,
+      includes_videos: options.includeVideos,
+      children: childData,
+    };
+
+    writer.addText(ARCHIVE_JSON_PATH, JSON.stringify(archive, null, 2));
+    Object.entries(buildCsvFiles(childData)).forEach(([path, contents]) => {
+      writer.addText(path, contents);
+    });
+
+    fileUri = await writer.finish();
+  } catch (error) {
+    writer.abort();
+    throw error;
+  }
+
+  console.log('[DataExport] ✓ Export written to:', fileUri);
+
+  return {
+    fileUri,
+    fileName,
+    childCount: childData.length,
+    wordCount: childData.reduce((sum, c) => sum + c.words.length, 0),
+    bookCount: childData.reduce((sum, c) => sum + c.books.length, 0),
+    momentCount: childData.reduce((sum, c) => sum + c.moments.length, 0),
+    ...fileCounts,
+  };
+}
+
+/**
+ * Open the share sheet for an export zip, or download it on web
+ * @returns false when sharing isn't available on this device
+ */
+export async function shareDataExport(fileUri: string, fileName: string): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    const link = document.createElement('a');
+    link.href = fileUri;
+    link.download = fileName;
+    link.click();
+    // Give the browser a moment to start the download before the URL stops working
+    setTimeout(() => URL.revokeObjectURL(fileUri), 60 * 1000);
+    return true;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    console.log('[DataExport] Sharing is not available on this device');
+    return false;
+  }
+
+  await Sharing.shareAsync(fileUri, {
+    mimeType: 'application/zip',
+    dialogTitle: 'Export Data',
+    UTI: 'public.zip-archive',
+  });
+  return true;
+}
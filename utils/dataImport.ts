@@ -0,0 +1,587 @@
+
+import type { File } from 'expo-file-system';
+import { supabase } from '@/app/integrations/supabase/client';
+import { generateVideoThumbnail, uploadThumbnailToSupabase, uploadVideoToSupabase } from '@/utils/videoThumbnail';
+import { AUDIO_BUCKET } from '@/utils/audioStorage';
+import { PHOTO_BUCKET } from '@/utils/photoStorage';
+import { getEmojiForWord, resolveWordCategory } from '@/utils/wordCategories';
+import { openZipReader, ZipReader } from '@/utils/zipReader';
+import {
+  ARCHIVE_JSON_PATH,
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  ExportArchive,
+  ExportBook,
+  ExportChildData,
+  ExportMoment,
+  ExportWord,
+  getBookIsbn,
+} from '@/utils/dataExport';
+
+/**
+ * Data import
+ * Restores a child's history from an archive produced by utils/dataExport.ts
+ * Words are de-duplicated case-insensitively, books are linked back to books_library
+ * by Google Books ID or ISBN and moment videos, audio clips and photos are re-uploaded.
+ * The zip is read from the device with utils/zipReader.ts, extracting one file at a time,
+ * so exports with videos can be imported without holding them in memory. Not offered on web
+ */
+
+export interface LoadedArchive {
+  archive: ExportArchive;
+  // null when a bare archive.json was picked instead of the zip
+  zip: ZipReader | null;
+}
+
+export interface ImportCounts {
+  created: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface ImportSummary {
+  words: ImportCounts;
+  books: ImportCounts;
+  moments: ImportCounts;
+  notes: string[];
+}
+
+// Remaining plan quota - anything beyond it is skipped rather than created
+export interface ImportLimits {
+  words: number;
+  books: number;
+  photos: number;
+}
+
+export interface ImportTarget {
+  childId: string;
+  userId: string;
+}
+
+const emptyCounts = (): ImportCounts => ({ created: 0, skipped: 0, failed: 0 });
+
+const normalizeWord = (value: string): string => value.toLowerCase().trim();
+
+const isObject = (value: unknown): value is Record<string, any> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Check that parsed JSON is one of our export archives
+ * Throws an Error with a user-facing message when it isn't
+ */
+export function validateExportArchive(raw: unknown): ExportArchive {
+  if (!isObject(raw) || raw.format !== EXPORT_FORMAT) {
+    throw new Error('This file is not a TinyDreamers export.');
+  }
+
+  if (typeof raw.version !== 'number' || raw.version > EXPORT_VERSION) {
+    throw new Error('This export was made by a newer version of the app. Please update and try again.');
+  }
+
+  if (!Array.isArray(raw.children) || raw.children.length === 0) {
+    throw new Error('This export does not contain any children.');
+  }
+
+  raw.children.forEach((entry: unknown, index: number) => {
+    if (
+      !isObject(entry) ||
+      !isObject(entry.child) ||
+      typeof entry.child.name !== 'string' ||
+      !Array.isArray(entry.words) ||
+      !Array.isArray(entry.books) ||
+      !Array.isArray(entry.moments)
+    ) {
+      throw new Error(`Child ${index + 1} in this export is incomplete or corrupted.`);
+    }
+  });
+
+  return raw as ExportArchive;
+}
+
+/**
+ * Read a picked export file
+ * Accepts the zip produced by the export, or its archive.json on its own (no moment files)
+ */
+export async function loadExportArchive(fileUri: string, fileName: string): Promise<LoadedArchive> {
+  console.log('[DataImport] Loading archive:', fileName);
+  const { File } = await import('expo-file-system');
+  const file = new File(fileUri);
+
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch (error) {
+      console.error('[DataImport] Failed to parse JSON file:', error);
+      throw new Error('This file could not be read. Please choose a TinyDreamers export.');
+    }
+    return { archive: validateExportArchive(parsed), zip: null };
+  }
+
+  let zip: ZipReader;
+  try {
+    zip = openZipReader(file);
+  } catch (error) {
+    console.error('[DataImport] Failed to open zip:', error);
+    throw new Error('This file could not be opened. Please choose a TinyDreamers export (.zip).');
+  }
+
+  if (!zip.entries.has(ARCHIVE_JSON_PATH)) {
+    throw new Error('This file is not a TinyDreamers export.');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await zip.readText(ARCHIVE_JSON_PATH));
+  } catch (error) {
+    console.error('[DataImport] Failed to parse archive.json:', error);
+    throw new Error('This export is corrupted and could not be read.');
+  }
+
+  return { archive: validateExportArchive(parsed), zip };
+}
+
+/**
+ * Import words, returning a map of archived word id -> word id in this account
+ * Words the child already has are skipped but still mapped so their moments can be restored
+ */
+async function importWords(
+  words: ExportWord[],
+  target: ImportTarget,
+  limits: ImportLimits,
+  summary: ImportSummary
+): Promise<Map<string, string>> {
+  const idMap = new Map<string, string>();
+
+  const { data: existing, error } = await supabase
+    .from('user_words')
+    .select('id, custom_word')
+    .eq('child_id', target.childId);
+
+  if (error) throw error;
+
+  const existingByWord = new Map<string, string>();
+  ((existing || []) as any[]).forEach((uw) => {
+    existingByWord.set(normalizeWord(uw.custom_word || ''), uw.id);
+  });
+
+  let remaining = limits.words;
+  let overLimit = 0;
+
+  for (const word of words) {
+    const text = typeof word?.word === 'string' ? word.word.trim() : '';
+    if (!text) {
+      summary.words.failed++;
+      continue;
+    }
+
+    const existingId = existingByWord.get(normalizeWord(text));
+    if (existingId) {
+      idMap.set(word.id, existingId);
+      summary.words.skipped++;
+      continue;
+    }
+
+    if (remaining <= 0) {
+      overLimit++;
+      summary.words.skipped++;
+      continue;
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from('user_words')
+      .insert({
+        child_id: target.childId,
+        custom_word: text,
+        custom_emoji: word.emoji || getEmojiForWord(text),
+        color: word.color,
+        category: resolveWordCategory(word.category, text),
+        is_spoken: !!word.is_spoken,
+        is_recognised: !!word.is_recognised,
+        is_recorded: !!word.is_recorded,
+        first_spoken_at: word.first_spoken_at || null,
+        first_recognised_at: word.first_recognised_at || null,
+        created_at: word.created_at,
+      })
+      .select('id')
+      .single();
+
+    if (insertError || !created) {
+      console.error('[DataImport] Failed to import word:', text, insertError);
+      summary.words.failed++;
+      continue;
+    }
+
+    idMap.set(word.id, created.id);
+    existingByWord.set(normalizeWord(text), created.id);
+    remaining--;
+    summary.words.created++;
+  }
+
+  if (overLimit > 0) {
+    summary.notes.push(`${overLimit} word(s) skipped because your plan's word limit was reached.`);
+  }
+
+  return idMap;
+}
+
+/**
+ * Find the books_library row for an archived book, by Google Books ID and then by ISBN,
+ * since the same book may have come from another catalogue in this account
+ */
+async function findLibraryBook(book: ExportBook): Promise<string | null> {
+  if (book.google_books_id) {
+    const { data: found, error } = await supabase
+      .from('books_library')
+      .select('id')
+      .eq('google_books_id', book.google_books_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (found) return found.id;
+  }
+
+  const isbn = getBookIsbn(book);
+  if (isbn) {
+    const { data: found, error } = await supabase
+      .from('books_library')
+      .select('id')
+      .eq('isbn', isbn)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (found) return found.id;
+  }
+
+  return null;
+}
+
+/**
+ * Add an archived book to books_library
+ */
+async function createLibraryBook(book: ExportBook): Promise<string> {
+  const { data: created, error: insertError } = await supabase
+    .from('books_library')
+    .insert({
+      google_books_id: book.google_books_id,
+      isbn: getBookIsbn(book),
+      title: book.title,
+      authors: book.authors,
+      cover_url: book.cover_url,
+      thumbnail_url: book.thumbnail_url,
+      description: book.description,
+      published_date: book.published_date,
+      page_count: book.page_count,
+      source: book.source || 'google_books',
+    })
+    .select('id')
+    .single();
+
+  if (insertError || !created) throw insertError || new Error('Book was not created');
+  return created.id;
+}
+
+/**
+ * Import books, returning a map of archived user book id -> user book id in this account
+ * Books already on the child's shelf are skipped but still mapped so their moments can be restored
+ */
+async function importBooks(
+  books: ExportBook[],
+  target: ImportTarget,
+  limits: ImportLimits,
+  summary: ImportSummary
+): Promise<Map<string, string>> {
+  const idMap = new Map<string, string>();
+
+  const { data: existing, error } = await supabase
+    .from('user_books')
+    .select('id, book_id')
+    .eq('child_id', target.childId);
+
+  if (error) throw error;
+
+  const shelfBookIds = new Map<string, string>(((existing || []) as any[]).map((ub) => [ub.book_id, ub.id]));
+  let remaining = limits.books;
+  let overLimit = 0;
+
+  for (const book of books) {
+    if (!book || typeof book.title !== 'string' || !book.title.trim()) {
+      summary.books.failed++;
+      continue;
+    }
+
+    try {
+      const libraryBookId = await findLibraryBook(book);
+
+      const shelfId = libraryBookId && shelfBookIds.get(libraryBookId);
+      if (shelfId) {
+        idMap.set(book.id, shelfId);
+        summary.books.skipped++;
+        continue;
+      }
+
+      // Checked before the library entry is created, so skipped books leave nothing behind
+      if (remaining <= 0) {
+        overLimit++;
+        summary.books.skipped++;
+        continue;
+      }
+
+      const bookId = libraryBookId || (await createLibraryBook(book));
+
+      const { data: created, error: insertError } = await supabase
+        .from('user_books')
+        .insert({
+          child_id: target.childId,
+          book_id: bookId,
+          user_id: target.userId,
+          rating: book.rating,
+          would_recommend: book.would_recommend,
+          tags: book.tags,
+          is_custom_for_user: !!book.is_custom_for_user,
+          created_at: book.created_at,
+        })
+        .select('id')
+        .single();
+
+      if (insertError || !created) throw insertError || new Error('Book was not added');
+
+      idMap.set(book.id, created.id);
+      shelfBookIds.set(bookId, created.id);
+      remaining--;
+      summary.books.created++;
+    } catch (bookError) {
+      console.error('[DataImport] Failed to import book:', book.title, bookError);
+      summary.books.failed++;
+    }
+  }
+
+  if (overLimit > 0) {
+    summary.notes.push(`${overLimit} book(s) skipped because your plan's book limit was reached.`);
+  }
+
+  return idMap;
+}
+
+/**
+ * Extract a file from the zip to the cache directory, hand it to `upload` and delete it after
+ */
+async function withArchivedFile<T>(
+  zip: ZipReader,
+  zipPath: string | null | undefined,
+  tempName: string,
+  upload: (file: File) => Promise<T>
+): Promise<T> {
+  if (!zipPath || !zip.entries.has(zipPath)) {
+    throw new Error(`File missing from archive: ${zipPath}`);
+  }
+
+  const { File, Paths } = await import('expo-file-system');
+  const tempFile = new File(Paths.cache, tempName);
+  try {
+    await zip.extractTo(zipPath, tempFile);
+    return await upload(tempFile);
+  } finally {
+    if (tempFile.exists) tempFile.delete();
+  }
+}
+
+/**
+ * Re-upload a moment video from the zip and return its new storage path and thumbnail path
+ */
+async function uploadArchivedVideo(
+  zip: ZipReader,
+  moment: ExportMoment,
+  childId: string
+): Promise<{ videoPath: string; thumbnailPath: string | null }> {
+  return withArchivedFile(zip, moment.video_file, `import_${moment.id}.mp4`, async (videoFile) => {
+    let thumbnailPath: string | null = null;
+    const thumbnailUri = await generateVideoThumbnail(videoFile.uri, moment.trim_start || 0);
+    if (thumbnailUri) {
+      thumbnailPath = await uploadThumbnailToSupabase(thumbnailUri, childId, supabase);
+    }
+
+    const videoPath = await uploadVideoToSupabase(videoFile.uri, childId, supabase);
+    if (!videoPath) {
+      throw new Error('Failed to upload video');
+    }
+
+    return { videoPath, thumbnailPath };
+  });
+}
+
+/**
+ * Re-upload a moment's audio clip or photo from the zip and return its new storage path
+ */
+async function uploadArchivedFile(
+  zip: ZipReader,
+  zipPath: string | null | undefined,
+  bucket: string,
+  storagePath: string,
+  contentType: string
+): Promise<string> {
+  return withArchivedFile(zip, zipPath, `import_${storagePath.split('/').pop()}`, async (file) => {
+    const { error } = await supabase.storage
+      .from(bucket)
+      .upload(storagePath, await file.bytes(), { contentType, upsert: false });
+
+    if (error) throw error;
+    return storagePath;
+  });
+}
+
+async function importMoments(
+  moments: ExportMoment[],
+  wordIdMap: Map<string, string>,
+  wordIdByName: Map<string, string>,
+  bookIdMap: Map<string, string>,
+  zip: ZipReader | null,
+  target: ImportTarget,
+  limits: ImportLimits,
+  summary: ImportSummary
+): Promise<void> {
+  const { data: existing, error } = await supabase
+    .from('moments')
+    .select('word_id, user_book_id, created_at')
+    .eq('child_id', target.childId);
+
+  if (error) throw error;
+
+  // A moment recorded on the same word (or book) at the same instant has already been restored
+  const toKey = (wordId: string | null | undefined, userBookId: string | null | undefined, createdAt: string) =>
+    `${wordId || userBookId}|${new Date(createdAt).getTime()}`;
+  const existingKeys = new Set(((existing || []) as any[]).map((m) => toKey(m.word_id, m.user_book_id, m.created_at)));
+  let withoutFile = 0;
+  let remainingPhotos = limits.photos;
+  let photosOverLimit = 0;
+
+  for (const moment of moments) {
+    const mediaType = moment.media_type || 'video';
+    const wordId = (moment.word_id && wordIdMap.get(moment.word_id)) ||
+      (moment.word ? wordIdByName.get(normalizeWord(moment.word)) : undefined) ||
+      null;
+    const userBookId = (moment.user_book_id && bookIdMap.get(moment.user_book_id)) || null;
+
+    if (!wordId && !userBookId) {
+      console.warn('[DataImport] No word or book found for moment:', moment.id);
+      summary.moments.failed++;
+      continue;
+    }
+
+    if (existingKeys.has(toKey(wordId, userBookId, moment.created_at))) {
+      summary.moments.skipped++;
+      continue;
+    }
+
+    const zipPath = mediaType === 'audio' ? moment.audio_file : mediaType === 'photo' ? moment.photo_file : moment.video_file;
+    if (!zip || !zipPath) {
+      withoutFile++;
+      summary.moments.skipped++;
+      continue;
+    }
+
+    if (mediaType === 'photo' && remainingPhotos <= 0) {
+      photosOverLimit++;
+      summary.moments.skipped++;
+      continue;
+    }
+
+    try {
+      const timestamp = Date.now();
+      let mediaColumns: Record<string, unknown>;
+
+      if (mediaType === 'audio') {
+        const audioPath = await uploadArchivedFile(zip, zipPath, AUDIO_BUCKET, `${target.childId}/${timestamp}.m4a`, 'audio/mp4');
+        mediaColumns = { audio_url: audioPath, waveform: moment.waveform ?? null };
+      } else if (mediaType === 'photo') {
+        const photoPath = await uploadArchivedFile(zip, zipPath, PHOTO_BUCKET, `${target.childId}/${timestamp}_photo.jpg`, 'image/jpeg');
+        mediaColumns = { photo_url: photoPath };
+      } else {
+        const { videoPath, thumbnailPath } = await uploadArchivedVideo(zip, moment, target.childId);
+        mediaColumns = { video_url: videoPath, thumbnail_url: thumbnailPath };
+      }
+
+      const { error: insertError } = await supabase
+        .from('moments')
+        .insert({
+          word_id: wordId,
+          user_book_id: userBookId,
+          child_id: target.childId,
+          media_type: mediaType,
+          ...mediaColumns,
+          duration: moment.duration,
+          trim_start: moment.trim_start,
+          trim_end: moment.trim_end,
+          created_at: moment.created_at,
+        });
+
+      if (insertError) throw insertError;
+
+      if (mediaType === 'photo') remainingPhotos--;
+      summary.moments.created++;
+    } catch (momentError) {
+      console.error('[DataImport] Failed to import moment:', moment.id, momentError);
+      summary.moments.failed++;
+    }
+  }
+
+  if (withoutFile > 0) {
+    summary.notes.push(`${withoutFile} moment(s) skipped because their files were not included in the export.`);
+  }
+  if (photosOverLimit > 0) {
+    summary.notes.push(`${photosOverLimit} photo(s) skipped because your plan's photo limit was reached.`);
+  }
+}
+
+/**
+ * Import one archived child's history into an existing child
+ * Individual rows that fail are counted and the import carries on
+ */
+export async function importChildData(
+  data: ExportChildData,
+  zip: ZipReader | null,
+  target: ImportTarget,
+  limits: ImportLimits
+): Promise<ImportSummary> {
+  console.log('[DataImport] Importing', data.child.name, 'into child:', target.childId);
+
+  const summary: ImportSummary = {
+    words: emptyCounts(),
+    books: emptyCounts(),
+    moments: emptyCounts(),
+    notes: [],
+  };
+
+  const wordIdMap = await importWords(data.words, target, limits, summary);
+
+  const wordIdByName = new Map<string, string>();
+  data.words.forEach((w) => {
+    const mapped = wordIdMap.get(w.id);
+    if (mapped && typeof w.word === 'string') {
+      wordIdByName.set(normalizeWord(w.word), mapped);
+    }
+  });
+
+  const bookIdMap = await importBooks(data.books, target, limits, summary);
+  await importMoments(data.moments, wordIdMap, wordIdByName, bookIdMap, zip, target, limits, summary);
+
+  console.log('[DataImport] ✓ Import complete:', JSON.stringify(summary));
+  return summary;
+}
+
+/**
+ * Human readable summary for the result alert
+ */
+export function formatImportSummary(summary: ImportSummary): string {
+  const line = (label: string, counts: ImportCounts) =>
+    `${label}: ${counts.created} added, ${counts.skipped} skipped, ${counts.failed} failed`;
+
+  return [
+    line('Words', summary.words),
+    line('Books', summary.books),
+    line('Moments', summary.moments),
+    ...summary.notes,
+  ].join('\n');
+}
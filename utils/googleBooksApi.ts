@@ -1,6 +1,10 @@
 
 import { supabase } from '@/app/integrations/supabase/client';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { cacheBookLookup, getCachedBookLookup } from '@/utils/bookMetadataCache';
+import { lookupBookWithProviders, registerBookProvider, BookProvenance } from '@/utils/bookProviders';
+import { BUILT_IN_BOOK_PROVIDERS } from '@/utils/bookMetadataProviders';
+import { detectSeriesFromTitle, BookSeries } from '@/utils/bookSeries';
 
 export interface GoogleBook {
   id: string;
@@ -37,11 +41,13 @@ export interface OpenLibraryBook {
 
 export interface OpenLibraryBookDetails {
   title: string;
-  authors?: { name: string }[];
+  // Edition records list authors as `{ key }` references, without names
+  authors?: { name?: string; key?: string }[];
   description?: string | { value: string };
   publish_date?: string;
   number_of_pages?: number;
   covers?: number[];
+  series?: string[];
   isbn_13?: string[];
   isbn_10?: string[];
 }
@@ -63,15 +69,10 @@ export interface DoubanBook {
   };
   isbn13?: string;
   isbn10?: string;
-}
-
-export interface WorldCatBook {
-  title?: string;
-  creator?: string;
-  date?: string;
-  extent?: string;
-  summary?: string[];
-  oclcNumber?: string;
+  series?: {
+    id: string;
+    title: string;
+  };
 }
 
 export interface BookSearchResult {
@@ -83,7 +84,12 @@ export interface BookSearchResult {
   description: string;
   publishedDate: string;
   pageCount: number;
-  source?: 'google' | 'openlibrary' | 'googlecustomsearch' | 'douban' | 'worldcat';
+  // ISBN-13 or ISBN-10, when the catalogue lists one
+  isbn?: string;
+  source?: 'google' | 'openlibrary' | 'googlecustomsearch' | 'douban';
+  // Which provider each detail came from, for ISBN lookups
+  provenance?: BookProvenance;
+  series?: BookSeries | null;
 }
 
 interface GoogleCustomSearchResult {
@@ -134,6 +140,15 @@ async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T
   return Promise.race([promise, createTimeout(timeoutMs)]);
 }
 
+/**
+ * The fetcher book metadata providers use
+ */
+function fetchWithTimeout(url: string, init?: RequestInit): Promise<Response> {
+  return withTimeout(fetch(url, init), API_TIMEOUT);
+}
+
+BUILT_IN_BOOK_PROVIDERS.forEach(registerBookProvider);
+
 /**
  * Loads quota exceeded state from AsyncStorage
  */
@@ -766,186 +781,6 @@ function extractISBN(volumeInfo: GoogleBook['volumeInfo']): string | undefined {
   return undefined;
 }
 
-/**
- * Determines the ISBN prefix to route to the appropriate API
- * @param isbn - The ISBN to check
- * @returns The ISBN prefix type
- */
-function getISBNPrefix(isbn: string): 'china' | 'english' | 'other' {
-  const cleanISBN = isbn.replace(/[-\s]/g, '');
-  
-  // Check for Mainland China ISBN (978-7)
-  if (cleanISBN.startsWith('9787')) {
-    console.log('🇨🇳 Detected Mainland China ISBN (978-7)');
-    return 'china';
-  }
-  
-  // Check for English-language ISBN (978-0 or 978-1)
-  if (cleanISBN.startsWith('9780') || cleanISBN.startsWith('9781')) {
-    console.log('🇬🇧 Detected English-language ISBN (978-0/978-1)');
-    return 'english';
-  }
-  
-  console.log('🌍 Detected other ISBN prefix');
-  return 'other';
-}
-
-/**
- * Searches Douban API for a book by ISBN
- * Used for Mainland China books (978-7)
- * 
- * @param isbn - The ISBN to search for
- * @returns Promise<BookSearchResult | null> - Book data or null
- */
-async function searchDoubanAPI(isbn: string): Promise<BookSearchResult | null> {
-  try {
-    const cleanISBN = isbn.replace(/[-\s]/g, '');
-    console.log('🇨🇳 Searching Douban API for ISBN:', cleanISBN);
-    
-    // Douban API endpoint
-    const response = await withTimeout(
-      fetch(`https://api.douban.com/v2/book/isbn/${cleanISBN}`),
-      API_TIMEOUT
-    );
-
-    if (!response.ok) {
-      console.log('❌ Douban API error:', response.status);
-      return null;
-    }
-
-    const data: DoubanBook = await response.json();
-
-    if (!data || !data.title) {
-      console.log('❌ No book data from Douban API');
-      return null;
-    }
-
-    console.log('✅ Found book on Douban API:', data.title);
-
-    const title = data.title + (data.subtitle ? `: ${data.subtitle}` : '');
-    const authors = data.author?.join(', ') || 'Unknown Author';
-    const googleBooksId = `douban-${data.id}`;
-    
-    // Get the best Douban cover image (prioritize large, then medium, then small)
-    const doubanCoverUrl = data.images?.large || data.images?.medium || data.images?.small || '';
-    
-    console.log('🇨🇳 Douban cover URL:', doubanCoverUrl);
-    
-    // Get cover image using our existing flow, but pass Douban cover for prioritization
-    const { coverUrl, thumbnailUrl, source } = await getBestCoverUrl(
-      cleanISBN,
-      title,
-      authors,
-      undefined,
-      googleBooksId,
-      doubanCoverUrl // Pass Douban cover to prioritize it
-    );
-
-    return {
-      googleBooksId,
-      title,
-      authors,
-      coverUrl,
-      thumbnailUrl,
-      description: data.summary || '',
-      publishedDate: data.pubdate || '',
-      pageCount: data.pages ? parseInt(data.pages, 10) : 0,
-      source: source as 'google' | 'openlibrary' | 'googlecustomsearch' | 'douban' | 'worldcat',
-    };
-  } catch (error) {
-    if (error instanceof Error && error.message === 'Request timeout') {
-      console.error('❌ Douban API timed out');
-    } else {
-      console.error('❌ Error searching Douban API:', error);
-    }
-    return null;
-  }
-}
-
-/**
- * Searches WorldCat API for a book by ISBN
- * Used for English-language books (978-0/978-1)
- * 
- * Note: WorldCat API requires authentication. This is a placeholder implementation.
- * You'll need to set up WorldCat API credentials and implement proper authentication.
- * 
- * @param isbn - The ISBN to search for
- * @returns Promise<BookSearchResult | null> - Book data or null
- */
-async function searchWorldCatAPI(isbn: string): Promise<BookSearchResult | null> {
-  try {
-    const cleanISBN = isbn.replace(/[-\s]/g, '');
-    console.log('🌍 Searching WorldCat API for ISBN:', cleanISBN);
-    
-    // WorldCat Search API endpoint (requires API key)
-    // Note: This is a simplified example. WorldCat API requires proper authentication.
-    // You'll need to implement OAuth or API key authentication based on your WorldCat subscription.
-    
-    // For now, we'll return null and let it fall back to other APIs
-    // TODO: Implement WorldCat API authentication and search
-    console.log('⚠️ WorldCat API not yet implemented - falling back to other APIs');
-    return null;
-
-    /* Example implementation when WorldCat API is set up:
-    
-    const response = await withTimeout(
-      fetch(`https://www.worldcat.org/webservices/catalog/content/isbn/${cleanISBN}?wskey=YOUR_API_KEY`, {
-        headers: {
-          'Accept': 'application/json',
-        },
-      }),
-      API_TIMEOUT
-    );
-
-    if (!response.ok) {
-      console.log('❌ WorldCat API error:', response.status);
-      return null;
-    }
-
-    const data: WorldCatBook = await response.json();
-
-    if (!data || !data.title) {
-      console.log('❌ No book data from WorldCat API');
-      return null;
-    }
-
-    console.log('✅ Found book on WorldCat API:', data.title);
-
-    const title = data.title;
-    const authors = data.creator || 'Unknown Author';
-    const googleBooksId = `worldcat-${data.oclcNumber}`;
-    
-    // Get cover image using our existing flow (WorldCat doesn't provide good covers)
-    const { coverUrl, thumbnailUrl } = await getBestCoverUrl(
-      cleanISBN,
-      title,
-      authors,
-      undefined,
-      googleBooksId
-    );
-
-    return {
-      googleBooksId,
-      title,
-      authors,
-      coverUrl,
-      thumbnailUrl,
-      description: data.summary?.join(' ') || '',
-      publishedDate: data.date || '',
-      pageCount: data.extent ? parseInt(data.extent, 10) : 0,
-      source: 'worldcat',
-    };
-    */
-  } catch (error) {
-    if (error instanceof Error && error.message === 'Request timeout') {
-      console.error('❌ WorldCat API timed out');
-    } else {
-      console.error('❌ Error searching WorldCat API:', error);
-    }
-    return null;
-  }
-}
-
 /**
  * Searches OpenLibrary API for books
  */
@@ -989,6 +824,7 @@ async function searchOpenLibrary(query: string, limit: number = 5): Promise<Book
           description: '',
           publishedDate: doc.first_publish_year?.toString() || '',
           pageCount: doc.number_of_pages_median || 0,
+          isbn,
           source: 'openlibrary' as const,
         };
       })
@@ -1005,65 +841,6 @@ async function searchOpenLibrary(query: string, limit: number = 5): Promise<Book
   }
 }
 
-/**
- * Searches OpenLibrary API for a book by ISBN
- */
-async function searchOpenLibraryByISBN(isbn: string): Promise<BookSearchResult | null> {
-  try {
-    const cleanISBN = isbn.replace(/[-\s]/g, '');
-    console.log('Searching OpenLibrary for ISBN:', cleanISBN);
-    
-    const response = await withTimeout(
-      fetch(`https://openlibrary.org/isbn/${cleanISBN}.json`),
-      API_TIMEOUT
-    );
-
-    if (!response.ok) {
-      console.log('OpenLibrary ISBN not found:', response.status);
-      return null;
-    }
-
-    const data: OpenLibraryBookDetails = await response.json();
-
-    // Get the work details for more information
-    let description = '';
-    let authors = 'Unknown Author';
-    
-    if (data.authors && data.authors.length > 0) {
-      authors = data.authors.map(a => a.name).join(', ');
-    }
-
-    if (typeof data.description === 'string') {
-      description = data.description;
-    } else if (data.description && typeof data.description === 'object' && 'value' in data.description) {
-      description = data.description.value;
-    }
-
-    const title = data.title || 'Unknown Title';
-    const googleBooksId = `openlibrary-${cleanISBN}`;
-    const { coverUrl, thumbnailUrl, source } = await getBestCoverUrl(cleanISBN, title, authors, undefined, googleBooksId);
-
-    return {
-      googleBooksId,
-      title,
-      authors,
-      coverUrl,
-      thumbnailUrl,
-      description,
-      publishedDate: data.publish_date || '',
-      pageCount: data.number_of_pages || 0,
-      source: source as 'google' | 'openlibrary' | 'googlecustomsearch',
-    };
-  } catch (error) {
-    if (error instanceof Error && error.message === 'Request timeout') {
-      console.error('OpenLibrary ISBN search timed out');
-    } else {
-      console.error('Error searching OpenLibrary by ISBN:', error);
-    }
-    return null;
-  }
-}
-
 /**
  * Searches for books by text query - OPTIMIZED FOR DROPDOWN SPEED
  * Uses Google Books API first, falls back to OpenLibrary if no results
@@ -1172,6 +949,11 @@ export async function searchGoogleBooks(query: string, limit: number = 5): Promi
  * @returns Promise<BookSearchResult | null> - Detailed book info with high-quality cover
  */
 export async function getBookDetails(googleBooksId: string): Promise<BookSearchResult | null> {
+  const cached = await getCachedBookLookup('googleBooksId', googleBooksId);
+  if (cached !== undefined) {
+    return cached;
+  }
+
   try {
     console.log('📚 Fetching detailed book info for:', googleBooksId);
     
@@ -1191,6 +973,9 @@ export async function getBookDetails(googleBooksId: string): Promise<BookSearchR
 
     if (!response.ok) {
       console.error('Google Books API error:', response.status);
+      if (response.status === 404) {
+        await cacheBookLookup('googleBooksId', googleBooksId, null);
+      }
       return null;
     }
 
@@ -1217,7 +1002,7 @@ export async function getBookDetails(googleBooksId: string): Promise<BookSearchR
       source,
     });
 
-    return {
+    const details: BookSearchResult = {
       googleBooksId: item.id,
       title,
       authors,
@@ -1226,8 +1011,12 @@ export async function getBookDetails(googleBooksId: string): Promise<BookSearchR
       description: item.volumeInfo.description || '',
       publishedDate: item.volumeInfo.publishedDate || '',
       pageCount: item.volumeInfo.pageCount || 0,
+      isbn,
       source: source as 'google' | 'openlibrary' | 'googlecustomsearch',
+      series: detectSeriesFromTitle(title),
     };
+    await cacheBookLookup('googleBooksId', googleBooksId, details);
+    return details;
   } catch (error) {
     if (error instanceof Error && error.message === 'Request timeout') {
       console.error('Book details fetch timed out');
@@ -1239,229 +1028,100 @@ export async function getBookDetails(googleBooksId: string): Promise<BookSearchR
 }
 
 /**
- * Searches for a book by ISBN with intelligent routing based on ISBN prefix
- * 
- * ROUTING LOGIC:
- * - Mainland China (978-7): Douban API (with prioritized cover) -> Google Books API -> OpenLibrary API -> Google Custom Search
- * - English (978-0/978-1): Google Books API -> WorldCat API -> OpenLibrary API -> Google Custom Search
- * - Other ISBNs: Google Books API -> OpenLibrary API -> Google Custom Search
- * 
- * COVER IMAGE FLOW (updated for Chinese ISBNs):
- * For Chinese ISBNs (978-7):
- * 1. Douban API provides book metadata AND cover image
- * 2. getBestCoverUrl() receives the Douban cover and PRIORITIZES it
- * 3. If Douban cover is high-res, use it immediately
- * 4. Otherwise, fall back to Google Custom Search, OpenLibrary, Google Books
- * 
- * For other ISBNs:
- * 1. Checks cache
- * 2. Checks database
- * 3. Tries Google Custom Search (if quota not exceeded)
- * 4. Falls back to OpenLibrary
- * 5. Falls back to Google Books
- * 
+ * Searches the book metadata providers for an ISBN, then finds the best cover
+ *
+ * PROVIDERS:
+ * The providers, their order and their weights depend on the ISBN's region and
+ * are set in data/bookProviders.ts (see utils/bookProviders.ts):
+ * - Mainland China (978-7): Douban -> Google Books -> OpenLibrary
+ * - English (978-0/978-1): Google Books -> OpenLibrary
+ * - Other ISBNs: Google Books -> OpenLibrary
+ * Later providers are only asked while details are missing, and each field comes
+ * from the highest-weighted provider that has it
+ *
+ * COVER IMAGE FLOW:
+ * A provider's own cover (Douban's) is PRIORITIZED when it is high-res. Otherwise
+ * getBestCoverUrl() checks the database, Google Custom Search (if quota not
+ * exceeded), OpenLibrary and finally the Google Books cover
+ *
  * @param isbn - The ISBN to search for
  * @returns Promise<BookSearchResult | null> - Book data with cover URLs or null
  */
-export async function searchBookByISBN(isbn: string): Promise<BookSearchResult | null> {
-  if (!isbn || isbn.trim().length === 0) {
-    return null;
-  }
-
+async function lookupBookByISBN(isbn: string): Promise<BookSearchResult | null> {
   try {
     // Clean up ISBN (remove dashes, spaces)
     const cleanISBN = isbn.replace(/[-\s]/g, '');
     
     console.log('🔍 Searching for ISBN:', cleanISBN);
-    
-    // Determine ISBN prefix to route to appropriate API
-    const isbnPrefix = getISBNPrefix(cleanISBN);
-    
-    let result: BookSearchResult | null = null;
-    
-    // MAINLAND CHINA ISBN (978-7)
-    if (isbnPrefix === 'china') {
-      console.log('📚 Route: Douban (prioritized cover) -> Google Books -> OpenLibrary -> Google Custom Search');
-      
-      // Try Douban API first - it will provide book data AND prioritized cover
-      result = await searchDoubanAPI(cleanISBN);
-      if (result) {
-        console.log('✅ Book found on Douban API with prioritized cover');
-        return result;
-      }
-      console.log('⚠️ Douban API failed, trying Google Books API');
-      
-      // Fall back to Google Books API
-      const response = await withTimeout(
-        fetch(`https://www.googleapis.com/books/v1/volumes?q=isbn:${cleanISBN}&projection=full`),
-        API_TIMEOUT
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.items && data.items.length > 0) {
-          const item: GoogleBook = data.items[0];
-          const itemISBN = extractISBN(item.volumeInfo) || cleanISBN;
-          const title = item.volumeInfo.title || 'Unknown Title';
-          const authors = item.volumeInfo.authors?.join(', ') || 'Unknown Author';
-          
-          console.log('✅ Found book on Google Books:', title);
-          
-          const { coverUrl, thumbnailUrl, source } = await getBestCoverUrl(
-            itemISBN,
-            title,
-            authors,
-            item.volumeInfo,
-            item.id
-          );
-
-          return {
-            googleBooksId: item.id,
-            title,
-            authors,
-            coverUrl,
-            thumbnailUrl,
-            description: item.volumeInfo.description || '',
-            publishedDate: item.volumeInfo.publishedDate || '',
-            pageCount: item.volumeInfo.pageCount || 0,
-            source: source as 'google' | 'openlibrary' | 'googlecustomsearch',
-          };
-        }
-      }
-      console.log('⚠️ Google Books API failed, trying OpenLibrary API');
-      
-      // Fall back to OpenLibrary
-      result = await searchOpenLibraryByISBN(cleanISBN);
-      if (result) {
-        console.log('✅ Book found on OpenLibrary');
-        return result;
-      }
-      
-      console.log('❌ No book found for Mainland China ISBN');
-      return null;
-    }
-    
-    // ENGLISH-LANGUAGE ISBN (978-0/978-1)
-    if (isbnPrefix === 'english') {
-      console.log('📚 Route: Google Books -> WorldCat -> OpenLibrary -> Google Custom Search');
-      
-      // Try Google Books API first
-      const response = await withTimeout(
-        fetch(`https://www.googleapis.com/books/v1/volumes?q=isbn:${cleanISBN}&projection=full`),
-        API_TIMEOUT
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.items && data.items.length > 0) {
-          const item: GoogleBook = data.items[0];
-          const itemISBN = extractISBN(item.volumeInfo) || cleanISBN;
-          const title = item.volumeInfo.title || 'Unknown Title';
-          const authors = item.volumeInfo.authors?.join(', ') || 'Unknown Author';
-          
-          console.log('✅ Found book on Google Books:', title);
-          
-          const { coverUrl, thumbnailUrl, source } = await getBestCoverUrl(
-            itemISBN,
-            title,
-            authors,
-            item.volumeInfo,
-            item.id
-          );
-
-          return {
-            googleBooksId: item.id,
-            title,
-            authors,
-            coverUrl,
-            thumbnailUrl,
-            description: item.volumeInfo.description || '',
-            publishedDate: item.volumeInfo.publishedDate || '',
-            pageCount: item.volumeInfo.pageCount || 0,
-            source: source as 'google' | 'openlibrary' | 'googlecustomsearch',
-          };
-        }
-      }
-      console.log('⚠️ Google Books API failed, trying WorldCat API');
-      
-      // Try WorldCat API
-      result = await searchWorldCatAPI(cleanISBN);
-      if (result) {
-        console.log('✅ Book found on WorldCat API');
-        return result;
-      }
-      console.log('⚠️ WorldCat API failed, trying OpenLibrary API');
-      
-      // Fall back to OpenLibrary
-      result = await searchOpenLibraryByISBN(cleanISBN);
-      if (result) {
-        console.log('✅ Book found on OpenLibrary');
-        return result;
-      }
-      
-      console.log('❌ No book found for English-language ISBN');
+
+    const book = await lookupBookWithProviders(cleanISBN, fetchWithTimeout);
+    if (!book) {
+      console.log('❌ No book found for ISBN');
       return null;
     }
-    
-    // OTHER ISBNs
-    console.log('📚 Route: Google Books -> OpenLibrary -> Google Custom Search');
-    
-    // Try Google Books API first
-    const response = await withTimeout(
-      fetch(`https://www.googleapis.com/books/v1/volumes?q=isbn:${cleanISBN}&projection=full`),
-      API_TIMEOUT
-    );
 
-    if (response.ok) {
-      const data = await response.json();
-      if (data.items && data.items.length > 0) {
-        const item: GoogleBook = data.items[0];
-        const itemISBN = extractISBN(item.volumeInfo) || cleanISBN;
-        const title = item.volumeInfo.title || 'Unknown Title';
-        const authors = item.volumeInfo.authors?.join(', ') || 'Unknown Author';
-        
-        console.log('✅ Found book on Google Books:', title);
-        
-        const { coverUrl, thumbnailUrl, source } = await getBestCoverUrl(
-          itemISBN,
-          title,
-          authors,
-          item.volumeInfo,
-          item.id
-        );
+    const authors = book.authors || 'Unknown Author';
+    console.log('✅ Found book:', book.title, book.provenance);
 
-        return {
-          googleBooksId: item.id,
-          title,
-          authors,
-          coverUrl,
-          thumbnailUrl,
-          description: item.volumeInfo.description || '',
-          publishedDate: item.volumeInfo.publishedDate || '',
-          pageCount: item.volumeInfo.pageCount || 0,
-          source: source as 'google' | 'openlibrary' | 'googlecustomsearch',
-        };
-      }
-    }
-    console.log('⚠️ Google Books API failed, trying OpenLibrary API');
-    
-    // Fall back to OpenLibrary
-    result = await searchOpenLibraryByISBN(cleanISBN);
-    if (result) {
-      console.log('✅ Book found on OpenLibrary');
-      return result;
-    }
-    
-    console.log('❌ No book found for ISBN');
-    return null;
+    const { coverUrl, thumbnailUrl, source } = await getBestCoverUrl(
+      cleanISBN,
+      book.title,
+      authors,
+      book.volumeInfo,
+      book.id,
+      book.coverUrl
+    );
+
+    return {
+      googleBooksId: book.id,
+      title: book.title,
+      authors,
+      coverUrl,
+      thumbnailUrl,
+      description: book.description || '',
+      publishedDate: book.publishedDate || '',
+      pageCount: book.pageCount || 0,
+      isbn: cleanISBN,
+      source: source as 'google' | 'openlibrary' | 'googlecustomsearch' | 'douban',
+      provenance: book.provenance,
+      // Catalogues rarely list series, but titles often name them
+      series: book.series || detectSeriesFromTitle(book.title),
+    };
   } catch (error) {
     if (error instanceof Error && error.message === 'Request timeout') {
       console.error('ISBN search timed out');
     } else {
       console.error('Error searching book by ISBN:', error);
     }
+    // Rethrown so a lookup that failed isn't cached as "not found"
+    throw error;
+  }
+}
+
+/**
+ * Searches for a book by ISBN, answering from the book metadata cache when it can
+ * Both found and not-found results are cached; failed lookups (offline, timeouts) are not
+ *
+ * @param isbn - The ISBN to search for
+ * @returns Promise<BookSearchResult | null> - Book data with cover URLs, or null when no catalogue lists the ISBN
+ * @throws When the lookup failed, so callers can tell it from a book that isn't listed
+ */
+export async function searchBookByISBN(isbn: string): Promise<BookSearchResult | null> {
+  if (!isbn || isbn.trim().length === 0) {
     return null;
   }
+
+  const cached = await getCachedBookLookup('isbn', isbn);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const result = await lookupBookByISBN(isbn);
+  await cacheBookLookup('isbn', isbn, result);
+  if (result) {
+    await cacheBookLookup('googleBooksId', result.googleBooksId, result);
+  }
+  return result;
 }
 
 /**
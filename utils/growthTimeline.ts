@@ -0,0 +1,165 @@
+
+import { supabase } from '@/app/integrations/supabase/client';
+import { getFirstRecognisedDate, getFirstSpokenDate, WordDateRow } from '@/utils/wordDates';
+
+/**
+ * Growth timeline
+ * Buckets a child's words, books and moments by age (weeks or months since birth)
+ * so the Profile tab can chart vocabulary growth over time
+ */
+
+export type GrowthInterval = 'week' | 'month';
+
+export type GrowthWordRow = WordDateRow;
+
+export interface GrowthEventRow {
+  created_at: string;
+}
+
+export interface GrowthSourceData {
+  words: GrowthWordRow[];
+  books: GrowthEventRow[];
+  moments: GrowthEventRow[];
+}
+
+export interface GrowthPoint {
+  // Child's age at the start of the bucket, in months
+  ageMonths: number;
+  // Cumulative totals at the end of the bucket
+  spoken: number;
+  recognised: number;
+  // Added during the bucket
+  books: number;
+  moments: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const AVERAGE_DAYS_PER_MONTH = 30.4375;
+
+/**
+ * Parse a YYYY-MM-DD birth date as local midnight
+ */
+const parseBirthDate = (birthDate: string): Date | null => {
+  const [year, month, day] = birthDate.split('T')[0].split('-').map(Number);
+  if (!year || !month || !day) return null;
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Whole months between two dates (calendar months, like an age in months)
+ */
+const monthsBetween = (from: Date, to: Date): number => {
+  const months = (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+  return to.getDate() < from.getDate() ? months - 1 : months;
+};
+
+const getBucketIndex = (start: Date, date: Date, interval: GrowthInterval): number => {
+  const index = interval === 'month'
+    ? monthsBetween(start, date)
+    : Math.floor((date.getTime() - start.getTime()) / WEEK_MS);
+  // Anything dated before birth (e.g. a wrong birth date) is counted in the first bucket
+  return Math.max(0, index);
+};
+
+/**
+ * Build one point per week/month of the child's life, from birth until now
+ * Falls back to the earliest recorded item when the birth date is missing or invalid
+ */
+export function buildGrowthTimeline(
+  birthDate: string | null | undefined,
+  data: GrowthSourceData,
+  interval: GrowthInterval,
+  now: Date = new Date()
+): GrowthPoint[] {
+  const wordDates = data.words.flatMap((w) => [getFirstSpokenDate(w), getFirstRecognisedDate(w)]);
+  const eventTimes = [...wordDates, ...data.books.map((b) => b.created_at), ...data.moments.map((m) => m.created_at)]
+    .filter((date): date is string => !!date)
+    .map((date) => new Date(date).getTime())
+    .filter((time) => !isNaN(time));
+
+  const parsedBirth = birthDate ? parseBirthDate(birthDate) : null;
+  const start = parsedBirth && parsedBirth.getTime() <= now.getTime()
+    ? parsedBirth
+    : eventTimes.length > 0 ? new Date(Math.min(...eventTimes)) : null;
+
+  if (!start) return [];
+
+  const bucketCount = getBucketIndex(start, now, interval) + 1;
+  const spoken = new Array(bucketCount).fill(0);
+  const recognised = new Array(bucketCount).fill(0);
+  const books = new Array(bucketCount).fill(0);
+  const moments = new Array(bucketCount).fill(0);
+
+  const addTo = (buckets: number[], isoDate: string | null) => {
+    if (!isoDate) return;
+    const date = new Date(isoDate);
+    if (isNaN(date.getTime())) return;
+    buckets[Math.min(getBucketIndex(start, date, interval), bucketCount - 1)]++;
+  };
+
+  data.words.forEach((w) => {
+    addTo(spoken, getFirstSpokenDate(w));
+    addTo(recognised, getFirstRecognisedDate(w));
+  });
+  data.books.forEach((b) => addTo(books, b.created_at));
+  data.moments.forEach((m) => addTo(moments, m.created_at));
+
+  let spokenTotal = 0;
+  let recognisedTotal = 0;
+
+  return spoken.map((_, index) => {
+    spokenTotal += spoken[index];
+    recognisedTotal += recognised[index];
+    return {
+      ageMonths: interval === 'month' ? index : (index * 7) / AVERAGE_DAYS_PER_MONTH,
+      spoken: spokenTotal,
+      recognised: recognisedTotal,
+      books: books[index],
+      moments: moments[index],
+    };
+  });
+}
+
+/**
+ * Short age label for chart axes, e.g. "9m", "1y", "2y 6m"
+ */
+export function formatAgeLabel(ageMonths: number): string {
+  const totalMonths = Math.round(ageMonths);
+  const years = Math.floor(totalMonths / 12);
+  const months = totalMonths % 12;
+
+  if (years === 0) return `${months}m`;
+  if (months === 0) return `${years}y`;
+  return `${years}y ${months}m`;
+}
+
+/**
+ * Fetch the dated rows the timeline needs for a child
+ */
+export async function fetchGrowthSourceData(childId: string): Promise<GrowthSourceData> {
+  const [wordsResult, booksResult, momentsResult] = await Promise.all([
+    supabase
+      .from('user_words')
+      .select('created_at, is_spoken, is_recognised, first_spoken_at, first_recognised_at')
+      .eq('child_id', childId),
+    supabase
+      .from('user_books')
+      .select('created_at')
+      .eq('child_id', childId),
+    supabase
+      .from('moments')
+      .select('created_at')
+      .eq('child_id', childId),
+  ]);
+
+  if (wordsResult.error) throw wordsResult.error;
+  if (booksResult.error) throw booksResult.error;
+  if (momentsResult.error) throw momentsResult.error;
+
+  return {
+    words: (wordsResult.data || []) as GrowthWordRow[],
+    books: (booksResult.data || []) as GrowthEventRow[],
+    moments: (momentsResult.data || []) as GrowthEventRow[],
+  };
+}
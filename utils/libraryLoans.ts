@@ -0,0 +1,129 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '@/app/integrations/supabase/client';
+import { BookOwnership, DUE_SOON_DAYS } from '@/data/libraryLoans';
+import { getDayKey } from '@/utils/readingLog';
+
+/**
+ * Library loans
+ * Loan details live on `user_books`; dates are local calendar days (YYYY-MM-DD)
+ */
+
+export interface LibraryLoan {
+  ownership: BookOwnership | null;
+  library_name: string | null;
+  checked_out_on: string | null;
+  due_on: string | null;
+  returned_on: string | null;
+}
+
+const LAST_LIBRARY_KEY = '@last_library_name';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isBorrowed = (loan: Partial<LibraryLoan>): boolean => loan.ownership === 'borrowed';
+
+export const isReturned = (loan: Partial<LibraryLoan>): boolean => loan.ownership === 'returned';
+
+/**
+ * Midnight of a YYYY-MM-DD day in the device's time zone
+ */
+export const parseDayKey = (dayKey: string): Date => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+};
+
+/**
+ * Whole days from today until the due date; negative once overdue
+ */
+export const getDaysUntilDue = (dueOn: string, now: Date = new Date()): number => {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((parseDayKey(dueOn).getTime() - today.getTime()) / DAY_MS);
+};
+
+export function formatDueLabel(dueOn: string, now: Date = new Date()): string {
+  const days = getDaysUntilDue(dueOn, now);
+  if (days === 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  if (days > 1) return `Due in ${days} days`;
+  return days === -1 ? '1 day overdue' : `${-days} days overdue`;
+}
+
+export const formatLoanDate = (dayKey: string): string => {
+  return parseDayKey(dayKey).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+/**
+ * Borrowed books that are overdue or due within DUE_SOON_DAYS, soonest first
+ */
+export function getDueSoonBooks<T extends Partial<LibraryLoan>>(books: T[], now: Date = new Date()): T[] {
+  return books
+    .filter((book) => isBorrowed(book) && book.due_on && getDaysUntilDue(book.due_on, now) <= DUE_SOON_DAYS)
+    .sort((a, b) => (a.due_on as string).localeCompare(b.due_on as string));
+}
+
+export async function loadLastLibraryName(): Promise<string> {
+  try {
+    return (await AsyncStorage.getItem(LAST_LIBRARY_KEY)) || '';
+  } catch (error) {
+    console.error('libraryLoans: Error loading last library name:', error);
+    return '';
+  }
+}
+
+export async function saveBookLoan(
+  userBookId: string,
+  loan: { library_name: string | null; checked_out_on: string; due_on: string }
+): Promise<LibraryLoan> {
+  const changes: LibraryLoan = { ownership: 'borrowed', ...loan, returned_on: null };
+  const { error } = await supabase
+    .from('user_books')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', userBookId);
+
+  if (error) throw error;
+
+  if (loan.library_name) {
+    AsyncStorage.setItem(LAST_LIBRARY_KEY, loan.library_name).catch((storageError) => {
+      console.error('libraryLoans: Error saving last library name:', storageError);
+    });
+  }
+  return changes;
+}
+
+/**
+ * Take the book off the active shelf; its reading sessions stay
+ */
+export async function markBookReturned(userBookId: string, loan: LibraryLoan): Promise<LibraryLoan> {
+  const changes: LibraryLoan = { ...loan, ownership: 'returned', returned_on: getDayKey(new Date()) };
+  const { error } = await supabase
+    .from('user_books')
+    .update({ ownership: changes.ownership, returned_on: changes.returned_on, updated_at: new Date().toISOString() })
+    .eq('id', userBookId);
+
+  if (error) throw error;
+  return changes;
+}
+
+/**
+ * Undo a loan marked by mistake, so the book counts as owned again
+ */
+export async function clearBookLoan(userBookId: string): Promise<LibraryLoan> {
+  const changes: LibraryLoan = {
+    ownership: 'owned',
+    library_name: null,
+    checked_out_on: null,
+    due_on: null,
+    returned_on: null,
+  };
+  const { error } = await supabase
+    .from('user_books')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', userBookId);
+
+  if (error) throw error;
+  return changes;
+}
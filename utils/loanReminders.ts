@@ -0,0 +1,85 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { LOAN_REMINDER_DAYS_BEFORE, LOAN_REMINDER_HOUR } from '@/data/libraryLoans';
+import { addDays, isBorrowed, parseDayKey, LibraryLoan } from '@/utils/libraryLoans';
+import { ensureNotificationChannel, LOAN_REMINDER_CHANNEL } from '@/utils/notificationChannels';
+
+/**
+ * Local reminders before a library book is due
+ * Scheduled per borrowed book and rebuilt when the loan changes or the shelf is loaded
+ */
+
+interface LoanReminderBook extends Partial<LibraryLoan> {
+  id: string;
+  book: { title: string };
+}
+
+const getReminderId = (userBookId: string, daysBefore: number) => `loan-reminder-${userBookId}-${daysBefore}`;
+
+export async function cancelLoanReminders(userBookId: string): Promise<void> {
+  if (Platform.OS === 'web') return;
+
+  await Promise.all(
+    LOAN_REMINDER_DAYS_BEFORE.map((daysBefore) =>
+      Notifications.cancelScheduledNotificationAsync(getReminderId(userBookId, daysBefore))
+    )
+  );
+}
+
+/**
+ * Replace a book's reminders, skipping any time that has passed
+ * Books that aren't borrowed only have their reminders cancelled
+ */
+export async function scheduleLoanReminders(
+  userBook: LoanReminderBook,
+  childName: string,
+  now: Date = new Date()
+): Promise<void> {
+  if (Platform.OS === 'web') return;
+
+  await cancelLoanReminders(userBook.id);
+  if (!isBorrowed(userBook) || !userBook.due_on) return;
+
+  const { granted } = await Notifications.getPermissionsAsync();
+  if (!granted) {
+    console.log('loanReminders: Notification permission not granted, skipping reminders');
+    return;
+  }
+
+  await ensureNotificationChannel(LOAN_REMINDER_CHANNEL);
+  const dueDate = parseDayKey(userBook.due_on);
+  const library = userBook.library_name || 'the library';
+
+  for (const daysBefore of LOAN_REMINDER_DAYS_BEFORE) {
+    const remindDay = addDays(dueDate, -daysBefore);
+    const remindAt = new Date(remindDay.getFullYear(), remindDay.getMonth(), remindDay.getDate(), LOAN_REMINDER_HOUR);
+    if (remindAt <= now) continue;
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: getReminderId(userBook.id, daysBefore),
+      content: {
+        title: daysBefore === 0 ? '📚 Library book due today' : '📚 Library book due soon',
+        body: daysBefore === 0
+          ? `${childName}'s "${userBook.book.title}" is due back at ${library} today.`
+          : `${childName}'s "${userBook.book.title}" is due back at ${library} in ${daysBefore} days.`,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: remindAt,
+        channelId: LOAN_REMINDER_CHANNEL.id,
+      },
+    });
+  }
+}
+
+/**
+ * Bring reminders in line with a loaded shelf, e.g. after a loan changed on another device
+ */
+export async function syncLoanReminders(books: LoanReminderBook[], childName: string): Promise<void> {
+  if (Platform.OS === 'web') return;
+
+  const loanBooks = books.filter((book) => book.ownership === 'borrowed' || book.ownership === 'returned');
+  for (const book of loanBooks) {
+    await scheduleLoanReminders(book, childName);
+  }
+}
@@ -0,0 +1,242 @@
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '@/app/integrations/supabase/client';
+import { getWordCategories } from '@/utils/wordCategories';
+import { getFirstRecognisedDate, getFirstSpokenDate, WordDateRow } from '@/utils/wordDates';
+import type { WordCategory } from '@/data/wordCategories';
+
+/**
+ * Milestone evaluation engine
+ * Computes milestone progress from a child's real user_words, user_books and moments rows
+ * and persists the date each milestone was first unlocked (per child, on device)
+ */
+
+export interface MilestoneWordRow extends WordDateRow {
+  id: string;
+  custom_word: string;
+  category: string | null;
+}
+
+export interface MilestoneBookRow {
+  id: string;
+  rating: string | null;
+  book: {
+    authors: string | null;
+  } | null;
+}
+
+export interface MilestoneMomentRow {
+  id: string;
+  word_id: string | null;
+}
+
+export interface MilestoneSourceData {
+  childName: string;
+  words: MilestoneWordRow[];
+  books: MilestoneBookRow[];
+  moments: MilestoneMomentRow[];
+}
+
+export interface MilestoneProgress {
+  id: string;
+  current: number;
+  target: number;
+  achieved: boolean;
+}
+
+// Map of milestone id -> ISO date the milestone was first unlocked
+export type MilestoneUnlocks = Record<string, string>;
+
+const UNLOCKS_KEY_PREFIX = '@milestone_unlocks_';
+
+const normalize = (value: string | null | undefined): string => (value || '').toLowerCase().trim();
+
+const countSpokenInCategory = (words: MilestoneWordRow[], category: WordCategory): number => {
+  return words.filter((w) => w.is_spoken && getWordCategories(w.category, w.custom_word).includes(category)).length;
+};
+
+const countRating = (books: MilestoneBookRow[], rating: string): number => {
+  return books.filter((b) => b.rating === rating).length;
+};
+
+/**
+ * Highest number of books on the shelf by a single author
+ * authors is stored as a comma separated string, so each listed author is counted
+ */
+const getMaxBooksBySameAuthor = (books: MilestoneBookRow[]): number => {
+  const counts = new Map<string, number>();
+  books.forEach((b) => {
+    const authors = (b.book?.authors || '')
+      .split(',')
+      .map(normalize)
+      .filter((a) => a.length > 0 && a !== 'unknown author');
+    new Set(authors).forEach((author) => {
+      counts.set(author, (counts.get(author) || 0) + 1);
+    });
+  });
+  return counts.size > 0 ? Math.max(...counts.values()) : 0;
+};
+
+/**
+ * Highest number of moments recorded for a single word
+ */
+const getMaxMomentsForSameWord = (moments: MilestoneMomentRow[]): number => {
+  const counts = new Map<string, number>();
+  moments.forEach((m) => {
+    if (m.word_id) {
+      counts.set(m.word_id, (counts.get(m.word_id) || 0) + 1);
+    }
+  });
+  return counts.size > 0 ? Math.max(...counts.values()) : 0;
+};
+
+/**
+ * Whether a moment has been captured for a word matching the child's own name
+ * Matches either the full name or the first name
+ */
+const hasNameMoment = (data: MilestoneSourceData): number => {
+  const fullName = normalize(data.childName);
+  if (!fullName) return 0;
+  const firstName = fullName.split(/\s+/)[0];
+
+  const nameWordIds = new Set(
+    data.words
+      .filter((w) => {
+        const word = normalize(w.custom_word);
+        return word === fullName || word === firstName;
+      })
+      .map((w) => w.id)
+  );
+
+  return data.moments.some((m) => m.word_id && nameWordIds.has(m.word_id)) ? 1 : 0;
+};
+
+// Evaluators return the child's current count for each milestone
+const MILESTONE_EVALUATORS: Record<string, (data: MilestoneSourceData) => number> = {
+  name_fame: hasNameMoment,
+  super_fan: (data) => countRating(data.books, 'love_it'),
+  animal_friend: (data) => countSpokenInCategory(data.words, 'animals'),
+  story_lover: (data) => countRating(data.books, 'love_it'),
+  food_fan: (data) => countSpokenInCategory(data.words, 'food'),
+  color_caller: (data) => countSpokenInCategory(data.words, 'colors'),
+  recognition_star: (data) => data.words.filter((w) => w.is_recognised).length,
+  author_fan: (data) => getMaxBooksBySameAuthor(data.books),
+  progress_tracker: (data) => getMaxMomentsForSameWord(data.moments),
+  critic: (data) => countRating(data.books, 'not_vibing'),
+  body_expert: (data) => countSpokenInCategory(data.words, 'body_parts'),
+  taste_maker: (data) => data.books.filter((b) => !!b.rating).length,
+};
+
+const spokenDatesInCategory = (words: MilestoneWordRow[], category: WordCategory): (string | null)[] => {
+  return words
+    .filter((w) => getWordCategories(w.category, w.custom_word).includes(category))
+    .map(getFirstSpokenDate);
+};
+
+// Word milestones are dated by when the child first said/understood the words, not when they were added
+// Each resolver returns the dates of the qualifying words
+const MILESTONE_DATE_RESOLVERS: Record<string, (data: MilestoneSourceData) => (string | null)[]> = {
+  animal_friend: (data) => spokenDatesInCategory(data.words, 'animals'),
+  food_fan: (data) => spokenDatesInCategory(data.words, 'food'),
+  color_caller: (data) => spokenDatesInCategory(data.words, 'colors'),
+  body_expert: (data) => spokenDatesInCategory(data.words, 'body_parts'),
+  recognition_star: (data) => data.words.map(getFirstRecognisedDate),
+};
+
+/**
+ * Date each achieved word milestone was reached: the date of the word that took the count to the target
+ * Milestones without a resolver aren't included and keep the date they were unlocked in the app
+ */
+export function resolveMilestoneAchievedDates(
+  data: MilestoneSourceData,
+  progress: MilestoneProgress[]
+): MilestoneUnlocks {
+  const dates: MilestoneUnlocks = {};
+  progress.forEach(({ id, target, achieved }) => {
+    const resolver = MILESTONE_DATE_RESOLVERS[id];
+    if (!achieved || !resolver) return;
+
+    const sorted = resolver(data)
+      .filter((date): date is string => !!date)
+      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+    if (sorted.length >= target) {
+      dates[id] = sorted[target - 1];
+    }
+  });
+  return dates;
+}
+
+/**
+ * Evaluate every milestone against the child's data
+ * Milestones without an evaluator are reported as not achieved
+ */
+export function evaluateMilestones(
+  data: MilestoneSourceData,
+  targets: { id: string; target: number }[]
+): MilestoneProgress[] {
+  return targets.map(({ id, target }) => {
+    const evaluator = MILESTONE_EVALUATORS[id];
+    const current = evaluator ? evaluator(data) : 0;
+    return {
+      id,
+      current: Math.min(current, target),
+      target,
+      achieved: !!evaluator && current >= target,
+    };
+  });
+}
+
+/**
+ * Fetch the rows the evaluators need for a child
+ */
+export async function fetchMilestoneSourceData(childId: string, childName: string): Promise<MilestoneSourceData> {
+  const [wordsResult, booksResult, momentsResult] = await Promise.all([
+    supabase
+      .from('user_words')
+      .select('id, custom_word, is_spoken, is_recognised, category, created_at, first_spoken_at, first_recognised_at')
+      .eq('child_id', childId),
+    supabase
+      .from('user_books')
+      .select('id, rating, book:books_library (authors)')
+      .eq('child_id', childId),
+    supabase
+      .from('moments')
+      .select('id, word_id')
+      .eq('child_id', childId),
+  ]);
+
+  if (wordsResult.error) throw wordsResult.error;
+  if (booksResult.error) throw booksResult.error;
+  if (momentsResult.error) throw momentsResult.error;
+
+  return {
+    childName,
+    words: (wordsResult.data || []) as MilestoneWordRow[],
+    books: (booksResult.data || []) as unknown as MilestoneBookRow[],
+    moments: (momentsResult.data || []) as MilestoneMomentRow[],
+  };
+}
+
+/**
+ * Load the unlock dates stored for a child
+ */
+export async function getMilestoneUnlocks(childId: string): Promise<MilestoneUnlocks> {
+  try {
+    const stored = await AsyncStorage.getItem(`${UNLOCKS_KEY_PREFIX}${childId}`);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading milestone unlocks:', error);
+    return {};
+  }
+}
+
+/**
+ * Persist the unlock dates for a child
+ */
+export async function saveMilestoneUnlocks(childId: string, unlocks: MilestoneUnlocks): Promise<void> {
+  try {
+    await AsyncStorage.setItem(`${UNLOCKS_KEY_PREFIX}${childId}`, JSON.stringify(unlocks));
+  } catch (error) {
+    console.error('Error saving milestone unlocks:', error);
+  }
+}
@@ -0,0 +1,506 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { supabase, SUPABASE_PUBLISHABLE_KEY, SUPABASE_URL } from '@/app/integrations/supabase/client';
+import { AUDIO_BUCKET } from '@/utils/audioStorage';
+import { PHOTO_BUCKET } from '@/utils/photoStorage';
+import { deleteWebUploadFile, getWebUploadFile, isWebUploadUri, putWebUploadFile } from '@/utils/webUploadStore';
+import VideoTrimmer from '@/modules/video-trimmer';
+
+/**
+ * Moment upload queue
+ * A confirmed moment's files are copied out of the cache, queued on the device and
+ * uploaded while the app is open, without the parent waiting on them, through Supabase's
+ * resumable (TUS) endpoint. Nothing runs once the system suspends the app, but an upload
+ * cut off by that or by the network carries on from the last chunk on the next launch.
+ * The `moments` row is only inserted once every file is uploaded
+ */
+
+const UPLOADS_KEY = '@moment_uploads';
+const UPLOADS_DIRECTORY = 'moment-uploads';
+const VIDEO_BUCKET = 'video-moments';
+
+// Supabase's resumable uploads take 6MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+// After this many failed tries in a row a moment waits for the parent to retry it
+export const MAX_UPLOAD_ATTEMPTS = 6;
+const RETRY_BASE_DELAY = 1000 * 30; // 30 seconds
+const RETRY_MAX_DELAY = 1000 * 60 * 30; // 30 minutes
+
+export type MomentUploadStatus = 'pending' | 'uploading' | 'failed';
+
+export type MomentMediaType = 'video' | 'audio' | 'photo';
+
+export const MEDIA_TYPE_LABELS: Record<MomentMediaType, string> = {
+  video: 'Video',
+  audio: 'Audio',
+  photo: 'Photo',
+};
+
+// File kept and uploaded for each kind of moment
+const MEDIA_FILES: Record<MomentMediaType, { bucket: string; extension: string; suffix: string; contentType: string }> = {
+  video: { bucket: VIDEO_BUCKET, extension: 'mp4', suffix: '', contentType: 'video/mp4' },
+  audio: { bucket: AUDIO_BUCKET, extension: 'm4a', suffix: '', contentType: 'audio/mp4' },
+  photo: { bucket: PHOTO_BUCKET, extension: 'jpg', suffix: '_photo', contentType: 'image/jpeg' },
+};
+
+export interface QueuedFileUpload {
+  // Copy kept in the app's documents (IndexedDB on web) until the moment is saved
+  localUri: string;
+  bucket: string;
+  storagePath: string;
+  contentType: string;
+  // Where the resumable upload continues; null until it's started
+  uploadUrl: string | null;
+  uploadedBytes: number;
+  totalBytes: number;
+  done: boolean;
+}
+
+export interface MomentUpload {
+  id: string;
+  userId: string;
+  childId: string;
+  // A moment belongs to a word, a book (user_books) or both
+  wordId: string | null;
+  userBookId: string | null;
+  // The word, or the book's title, for the queue and the "saved" toast
+  targetName: string;
+  mediaType: MomentMediaType;
+  // The video, the audio clip or the photo
+  media: QueuedFileUpload;
+  thumbnail: QueuedFileUpload | null;
+  // Whether to make a thumbnail from the video before uploading, when none was given
+  needsThumbnail: boolean;
+  // Whether to cut the video down to trimStart–trimEnd before uploading it
+  needsTrim: boolean;
+  // Audio moments' microphone levels, see utils/audioWaveform.ts
+  waveform: number[] | null;
+  trimStart: number;
+  trimEnd: number;
+  originalCreatedAt: string | null;
+  status: MomentUploadStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  queuedAt: string;
+}
+
+export interface NewMomentUpload {
+  userId: string;
+  childId: string;
+  wordId: string | null;
+  userBookId?: string | null;
+  targetName: string;
+  mediaType: MomentMediaType;
+  mediaUri: string;
+  thumbnailUri: string | null;
+  waveform?: number[] | null;
+  trimStart: number;
+  trimEnd: number;
+  originalCreatedAt?: string | null;
+}
+
+export async function loadMomentUploads(): Promise<MomentUpload[]> {
+  try {
+    const stored = await AsyncStorage.getItem(UPLOADS_KEY);
+    const uploads: MomentUpload[] = stored ? JSON.parse(stored) : [];
+    // An upload that was running when the app closed picks up where it stopped
+    return uploads.map((upload) =>
+      upload.status === 'uploading' ? { ...upload, status: 'pending' } : upload
+    );
+  } catch (error) {
+    console.error('momentUploads: Error loading queue:', error);
+    return [];
+  }
+}
+
+export async function saveMomentUploads(uploads: MomentUpload[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(UPLOADS_KEY, JSON.stringify(uploads));
+  } catch (error) {
+    console.error('momentUploads: Error saving queue:', error);
+  }
+}
+
+/**
+ * Copy a file into the queue's folder so the system can't clear it from the cache
+ * On web the bytes go into IndexedDB, since blob URLs don't survive a reload
+ */
+export async function keepUploadFile(uri: string, fileName: string): Promise<{ uri: string; size: number }> {
+  if (Platform.OS === 'web') {
+    const blob = await (await fetch(uri)).blob();
+    return { uri: await putWebUploadFile(fileName, blob), size: blob.size };
+  }
+
+  const { Directory, File, Paths } = await import('expo-file-system');
+  const directory = new Directory(Paths.document, UPLOADS_DIRECTORY);
+  directory.create({ idempotent: true });
+
+  const source = new File(uri);
+  if (!source.exists) {
+    throw new Error(`File to upload does not exist: ${uri}`);
+  }
+
+  const destination = new File(directory, fileName);
+  if (destination.exists) {
+    destination.delete();
+  }
+  source.copy(destination);
+  return { uri: destination.uri, size: destination.size };
+}
+
+export async function deleteQueuedFile(localUri: string): Promise<void> {
+  try {
+    if (Platform.OS === 'web') {
+      if (isWebUploadUri(localUri)) {
+        await deleteWebUploadFile(localUri);
+      } else if (localUri.startsWith('blob:')) {
+        URL.revokeObjectURL(localUri);
+      }
+      return;
+    }
+
+    const { File } = await import('expo-file-system');
+    const file = new File(localUri);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.warn('momentUploads: Could not delete queued file:', localUri, error);
+  }
+}
+
+/**
+ * Whether a queued file is still on the device
+ * It can be gone when the system or the browser cleared the app's data
+ */
+export async function queuedFileExists(localUri: string): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    return isWebUploadUri(localUri) && !!(await getWebUploadFile(localUri));
+  }
+
+  const { File } = await import('expo-file-system');
+  return new File(localUri).exists;
+}
+
+/**
+ * Run `task` with a URI media APIs can open; on web that's an object URL revoked afterwards
+ */
+export async function withQueuedFileUri<T>(localUri: string, task: (uri: string) => Promise<T>): Promise<T> {
+  if (Platform.OS !== 'web') {
+    return task(localUri);
+  }
+
+  const blob = await getWebUploadFile(localUri);
+  if (!blob) {
+    throw new Error(`Queued file is missing: ${localUri}`);
+  }
+  const objectUrl = URL.createObjectURL(blob);
+  try {
+    return await task(objectUrl);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
+export async function deleteUploadFiles(upload: MomentUpload): Promise<void> {
+  for (const fileUpload of [upload.media, upload.thumbnail]) {
+    if (fileUpload) await deleteQueuedFile(fileUpload.localUri);
+  }
+}
+
+const toFileUpload = (
+  file: { uri: string; size: number },
+  bucket: string,
+  storagePath: string,
+  contentType: string
+): QueuedFileUpload => ({
+  localUri: file.uri,
+  bucket,
+  storagePath,
+  contentType,
+  uploadUrl: null,
+  uploadedBytes: 0,
+  totalBytes: file.size,
+  done: false,
+});
+
+export async function createMomentUpload(moment: NewMomentUpload): Promise<MomentUpload> {
+  const timestamp = Date.now();
+  const id = `${timestamp}-${Math.random().toString(36).slice(2, 8)}`;
+
+  const mediaFile = MEDIA_FILES[moment.mediaType];
+  const media = await keepUploadFile(moment.mediaUri, `${id}.${mediaFile.extension}`);
+  const thumbnail = moment.thumbnailUri
+    ? await keepUploadFile(moment.thumbnailUri, `${id}_thumb.jpg`)
+    : null;
+
+  return {
+    id,
+    userId: moment.userId,
+    childId: moment.childId,
+    wordId: moment.wordId,
+    userBookId: moment.userBookId ?? null,
+    targetName: moment.targetName,
+    mediaType: moment.mediaType,
+    media: toFileUpload(
+      media,
+      mediaFile.bucket,
+      `${moment.childId}/${timestamp}${mediaFile.suffix}.${mediaFile.extension}`,
+      mediaFile.contentType
+    ),
+    thumbnail: thumbnail
+      ? toFileUpload(thumbnail, VIDEO_BUCKET, `${moment.childId}/${timestamp}_thumb.jpg`, 'image/jpeg')
+      : null,
+    // Audio moments have no picture and a photo is its own
+    needsThumbnail: moment.mediaType === 'video' && !thumbnail,
+    needsTrim: moment.mediaType === 'video',
+    waveform: moment.waveform ?? null,
+    trimStart: moment.trimStart,
+    trimEnd: moment.trimEnd,
+    originalCreatedAt: moment.originalCreatedAt ?? null,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: timestamp,
+    lastError: null,
+    queuedAt: new Date(timestamp).toISOString(),
+  };
+}
+
+/**
+ * A thumbnail made while the moment was queued, kept alongside the video
+ */
+export async function attachThumbnail(upload: MomentUpload, thumbnailUri: string): Promise<QueuedFileUpload> {
+  const thumbnail = await keepUploadFile(thumbnailUri, `${upload.id}_thumb.jpg`);
+  return toFileUpload(thumbnail, VIDEO_BUCKET, upload.media.storagePath.replace(/\.mp4$/, '_thumb.jpg'), 'image/jpeg');
+}
+
+/**
+ * Cut a queued video down to its trimmed part, so only that is stored
+ * The trimmed copy is kept under a new name; the caller deletes the full video once
+ * the upload points at the copy. Resolves with null when the video can't be trimmed
+ * here, it's then stored whole and `trim_start`/`trim_end` limit playback
+ */
+export async function trimQueuedVideo(
+  upload: MomentUpload
+): Promise<Pick<MomentUpload, 'media' | 'trimStart' | 'trimEnd'> | null> {
+  try {
+    const trimmedPath = await withQueuedFileUri(upload.media.localUri, (uri) =>
+      VideoTrimmer.trim(uri, upload.trimStart, upload.trimEnd)
+    );
+    // Native modules return a plain path, web an object URL
+    const trimmedUri = trimmedPath.includes(':') ? trimmedPath : `file://${trimmedPath}`;
+    const trimmed = await keepUploadFile(trimmedUri, `${upload.id}_trimmed.mp4`);
+    await deleteQueuedFile(trimmedUri);
+
+    return {
+      media: toFileUpload(trimmed, upload.media.bucket, upload.media.storagePath, upload.media.contentType),
+      trimStart: 0,
+      trimEnd: upload.trimEnd - upload.trimStart,
+    };
+  } catch (error) {
+    console.warn('momentUploads: Could not trim video, storing it whole:', error);
+    return null;
+  }
+}
+
+/**
+ * Exponential backoff: 30 seconds, 1 minute, 2 minutes… up to 30 minutes
+ */
+export const getRetryDelay = (attempts: number): number => {
+  return Math.min(RETRY_BASE_DELAY * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY);
+};
+
+export const isUploadDue = (upload: MomentUpload, now: number = Date.now()): boolean => {
+  return upload.status === 'pending' && upload.nextAttemptAt <= now;
+};
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(value)}`)
+    .join(',');
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not signed in');
+  }
+  return {
+    'Authorization': `Bearer ${session.access_token}`,
+    'apikey': SUPABASE_PUBLISHABLE_KEY,
+    'Tus-Resumable': '1.0.0',
+  };
+}
+
+async function startResumableUpload(fileUpload: QueuedFileUpload, headers: Record<string, string>): Promise<string> {
+  const response = await fetch(`${SUPABASE_URL}/storage/v1/upload/resumable`, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'Upload-Length': String(fileUpload.totalBytes),
+      'Upload-Metadata': encodeMetadata({
+        bucketName: fileUpload.bucket,
+        objectName: fileUpload.storagePath,
+        contentType: fileUpload.contentType,
+        cacheControl: '3600',
+      }),
+      // A restarted upload replaces whatever part of the file made it before
+      'x-upsert': 'true',
+    },
+  });
+
+  const location = response.headers.get('Location');
+  if (!response.ok || !location) {
+    throw new Error(`Could not start upload: ${response.status}`);
+  }
+  return location;
+}
+
+/**
+ * How much of an upload the server has; null when the upload has expired
+ */
+async function fetchUploadOffset(uploadUrl: string, headers: Record<string, string>): Promise<number | null> {
+  const response = await fetch(uploadUrl, { method: 'HEAD', headers });
+  if (response.status === 404 || response.status === 410) return null;
+  if (!response.ok) {
+    throw new Error(`Could not resume upload: ${response.status}`);
+  }
+  return Number(response.headers.get('Upload-Offset') || 0);
+}
+
+/**
+ * Upload a queued file in chunks, resuming from where the server left off
+ * `onProgress` is called after each chunk so the position survives the app closing.
+ * Resolves with the file's storage path
+ */
+export async function uploadQueuedFile(
+  fileUpload: QueuedFileUpload,
+  onProgress: (progress: Pick<QueuedFileUpload, 'uploadUrl' | 'uploadedBytes'>) => void
+): Promise<string> {
+  // Web has no file handles to read chunks from, so the file goes up in one request
+  if (Platform.OS === 'web') {
+    const blob = await getWebUploadFile(fileUpload.localUri);
+    if (!blob) {
+      throw new Error(`Queued file is missing: ${fileUpload.localUri}`);
+    }
+    const { error } = await supabase.storage
+      .from(fileUpload.bucket)
+      .upload(fileUpload.storagePath, blob, { contentType: fileUpload.contentType, upsert: true });
+    if (error) throw error;
+    return fileUpload.storagePath;
+  }
+
+  const { File } = await import('expo-file-system');
+  const file = new File(fileUpload.localUri);
+  if (!file.exists) {
+    throw new Error(`Queued file is missing: ${fileUpload.localUri}`);
+  }
+
+  const headers = await getAuthHeaders();
+  const resumeOffset = fileUpload.uploadUrl ? await fetchUploadOffset(fileUpload.uploadUrl, headers) : null;
+  let uploadUrl: string;
+  let offset: number;
+
+  if (fileUpload.uploadUrl && resumeOffset !== null) {
+    uploadUrl = fileUpload.uploadUrl;
+    offset = resumeOffset;
+  } else {
+    uploadUrl = await startResumableUpload(fileUpload, headers);
+    offset = 0;
+    onProgress({ uploadUrl, uploadedBytes: 0 });
+  }
+
+  const handle = file.open();
+  try {
+    while (offset < fileUpload.totalBytes) {
+      handle.offset = offset;
+      const chunk = handle.readBytes(Math.min(CHUNK_SIZE, fileUpload.totalBytes - offset));
+
+      const response = await fetch(uploadUrl, {
+        method: 'PATCH',
+        headers: {
+          ...headers,
+          'Upload-Offset': String(offset),
+          'Content-Type': 'application/offset+octet-stream',
+        },
+        body: chunk,
+      });
+      if (!response.ok) {
+        throw new Error(`Chunk upload failed: ${response.status}`);
+      }
+
+      offset = Number(response.headers.get('Upload-Offset') || offset + chunk.byteLength);
+      onProgress({ uploadUrl, uploadedBytes: offset });
+    }
+  } finally {
+    handle.close();
+  }
+  return fileUpload.storagePath;
+}
+
+/**
+ * Which of a queued moment's word and book still exist
+ * Either may have been deleted since the moment was queued, on another device or with the child.
+ * Resolves with null when neither is left
+ */
+export async function findRemainingTargets(
+  upload: MomentUpload
+): Promise<Pick<MomentUpload, 'wordId' | 'userBookId'> | null> {
+  const [word, book] = await Promise.all([
+    upload.wordId ? supabase.from('user_words').select('id').eq('id', upload.wordId).maybeSingle() : null,
+    upload.userBookId ? supabase.from('user_books').select('id').eq('id', upload.userBookId).maybeSingle() : null,
+  ]);
+  if (word?.error) throw word.error;
+  if (book?.error) throw book.error;
+
+  const wordId = word?.data ? upload.wordId : null;
+  const userBookId = book?.data ? upload.userBookId : null;
+  return wordId || userBookId ? { wordId, userBookId } : null;
+}
+
+// Postgres' foreign key violation: the word or book was deleted while the files uploaded
+export const isMissingTargetError = (error: unknown): boolean => {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === '23503';
+};
+
+/**
+ * Remove the files a dropped moment already uploaded, so they don't stay in storage without a moment
+ */
+export async function removeUploadedFiles(upload: MomentUpload): Promise<void> {
+  for (const fileUpload of [upload.media, upload.thumbnail]) {
+    if (!fileUpload?.done) continue;
+    const { error } = await supabase.storage.from(fileUpload.bucket).remove([fileUpload.storagePath]);
+    if (error) {
+      console.error('momentUploads: Error removing uploaded file:', fileUpload.storagePath, error);
+    }
+  }
+}
+
+export async function insertQueuedMoment(upload: MomentUpload): Promise<void> {
+  const mediaPath = upload.media.storagePath;
+  const { error } = await supabase
+    .from('moments')
+    .insert({
+      word_id: upload.wordId,
+      user_book_id: upload.userBookId,
+      child_id: upload.childId,
+      media_type: upload.mediaType,
+      video_url: upload.mediaType === 'video' ? mediaPath : null,
+      audio_url: upload.mediaType === 'audio' ? mediaPath : null,
+      photo_url: upload.mediaType === 'photo' ? mediaPath : null,
+      waveform: upload.waveform,
+      thumbnail_url: upload.thumbnail?.storagePath ?? null,
+      duration: upload.trimEnd - upload.trimStart,
+      trim_start: upload.trimStart,
+      trim_end: upload.trimEnd,
+      ...(upload.originalCreatedAt ? { original_created_at: upload.originalCreatedAt } : {}),
+    });
+
+  if (error) throw error;
+}
+
+export const getUploadProgress = (upload: MomentUpload): number => {
+  const files = [upload.media, upload.thumbnail].filter((file): file is QueuedFileUpload => !!file);
+  const total = files.reduce((sum, file) => sum + file.totalBytes, 0);
+  if (total === 0) return 0;
+  return files.reduce((sum, file) => sum + (file.done ? file.totalBytes : file.uploadedBytes), 0) / total;
+};
@@ -0,0 +1,44 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+
+/**
+ * Android notification channels
+ * Each kind of notification has its own channel, so a parent can turn one off in the
+ * system settings and keep the others. The module that schedules a kind of notification
+ * creates its channel first; iOS and web have no channels
+ */
+
+export interface NotificationChannel {
+  id: string;
+  name: string;
+}
+
+export const READING_REMINDER_CHANNEL: NotificationChannel = {
+  id: 'reading-reminders',
+  name: 'Reading reminders',
+};
+
+export const LOAN_REMINDER_CHANNEL: NotificationChannel = {
+  id: 'library-loan-reminders',
+  name: 'Library book reminders',
+};
+
+export const SAVED_BOOKS_CHANNEL: NotificationChannel = {
+  id: 'saved-books',
+  name: 'Saved books added',
+};
+
+const createdChannelIds = new Set<string>();
+
+/**
+ * Create the channel once per launch; creating an existing channel keeps the parent's settings
+ */
+export async function ensureNotificationChannel(channel: NotificationChannel): Promise<void> {
+  if (Platform.OS !== 'android' || createdChannelIds.has(channel.id)) return;
+
+  await Notifications.setNotificationChannelAsync(channel.id, {
+    name: channel.name,
+    importance: Notifications.AndroidImportance.DEFAULT,
+  });
+  createdChannelIds.add(channel.id);
+}
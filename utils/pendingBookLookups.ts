@@ -0,0 +1,135 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Network from 'expo-network';
+import * as Notifications from 'expo-notifications';
+import { toIsbn13 } from '@/utils/bulkBookScan';
+import { ensureNotificationChannel, SAVED_BOOKS_CHANNEL } from '@/utils/notificationChannels';
+
+/**
+ * ISBN lookups saved for later
+ * A scan whose lookup failed, because the device is offline or the catalogues
+ * didn't answer, is kept on the device and retried once lookups work again
+ */
+
+const PENDING_LOOKUPS_KEY = '@pending_book_lookups';
+
+// A book that keeps failing to save is dropped after this many tries
+export const MAX_LOOKUP_ATTEMPTS = 5;
+
+export type LookupBlocker = 'offline' | 'failed';
+
+export interface PendingBookLookup {
+  // ISBN-13 form, so the same book scanned twice only queues once per child
+  key: string;
+  isbn: string;
+  childId: string;
+  childName: string;
+  userId: string;
+  queuedAt: string;
+  attempts: number;
+}
+
+export const createPendingLookup = (
+  isbn: string,
+  child: { id: string; name: string },
+  userId: string
+): PendingBookLookup => ({
+  key: toIsbn13(isbn),
+  isbn,
+  childId: child.id,
+  childName: child.name,
+  userId,
+  queuedAt: new Date().toISOString(),
+  attempts: 0,
+});
+
+export const isSameLookup = (a: PendingBookLookup, b: PendingBookLookup): boolean => {
+  return a.key === b.key && a.childId === b.childId;
+};
+
+export async function loadPendingLookups(): Promise<PendingBookLookup[]> {
+  try {
+    const stored = await AsyncStorage.getItem(PENDING_LOOKUPS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('pendingBookLookups: Error loading pending lookups:', error);
+    return [];
+  }
+}
+
+export async function savePendingLookups(lookups: PendingBookLookup[]): Promise<void> {
+  try {
+    if (lookups.length === 0) {
+      await AsyncStorage.removeItem(PENDING_LOOKUPS_KEY);
+    } else {
+      await AsyncStorage.setItem(PENDING_LOOKUPS_KEY, JSON.stringify(lookups));
+    }
+  } catch (error) {
+    console.error('pendingBookLookups: Error saving pending lookups:', error);
+  }
+}
+
+export const isOnline = (state: Network.NetworkState): boolean => {
+  // isInternetReachable is unknown for a moment after connecting, so only a definite false counts
+  return state.isConnected === true && state.isInternetReachable !== false;
+};
+
+export async function isDeviceOnline(): Promise<boolean> {
+  try {
+    return isOnline(await Network.getNetworkStateAsync());
+  } catch (error) {
+    console.error('pendingBookLookups: Error reading network state:', error);
+    return true;
+  }
+}
+
+/**
+ * Why a lookup failed: the device is offline, or the catalogues didn't answer
+ * (a timeout, rate limiting or a server error)
+ */
+export async function getLookupBlocker(): Promise<LookupBlocker> {
+  return (await isDeviceOnline()) ? 'failed' : 'offline';
+}
+
+export function formatQueuedMessage(blocker: LookupBlocker): string {
+  return blocker === 'offline'
+    ? "You're offline. We saved this book and will add it when you're back online."
+    : "Book lookups aren't working right now. We saved this book and will add it once they're back.";
+}
+
+/**
+ * Tell the parent which saved books made it onto the shelf
+ * Shown as a local notification so it also reaches them when the app is in the background
+ */
+export async function notifyPendingBooksAdded(
+  childName: string,
+  titles: string[],
+  notFoundCount: number
+): Promise<void> {
+  if (Platform.OS === 'web' || (titles.length === 0 && notFoundCount === 0)) return;
+
+  const { granted } = await Notifications.getPermissionsAsync();
+  if (!granted) {
+    console.log('pendingBookLookups: Notification permission not granted, skipping notification');
+    return;
+  }
+
+  const parts: string[] = [];
+  if (titles.length === 1) {
+    parts.push(`"${titles[0]}" was added to ${childName}'s shelf.`);
+  } else if (titles.length > 1) {
+    parts.push(`${titles.length} saved books were added to ${childName}'s shelf.`);
+  }
+  if (notFoundCount > 0) {
+    parts.push(`${notFoundCount} ${notFoundCount === 1 ? 'book was' : 'books were'} not found. Try searching by name.`);
+  }
+
+  await ensureNotificationChannel(SAVED_BOOKS_CHANNEL);
+  await Notifications.scheduleNotificationAsync({
+    content: {
+      title: titles.length > 0 ? '📚 Saved books added' : '📚 Saved books not found',
+      body: parts.join(' '),
+    },
+    trigger: Platform.OS === 'android' ? { channelId: SAVED_BOOKS_CHANNEL.id } : null,
+  });
+}
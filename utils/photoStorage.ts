@@ -0,0 +1,85 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import { extractStoragePath } from '@/utils/videoStorage';
+
+// Photos are kept next to the videos and thumbnails, the bucket already allows JPEG and PNG
+export const PHOTO_BUCKET = 'video-moments';
+
+/**
+ * Generate a signed URL for a private photo
+ * @param photoUrl - The full storage URL or path to the photo
+ * @param expiresIn - Expiration time in seconds (default: 1 hour)
+ * @returns Signed URL or null if generation fails
+ */
+export async function getSignedPhotoUrl(
+  photoUrl: string | null,
+  expiresIn: number = 3600
+): Promise<string | null> {
+  try {
+    if (!photoUrl) {
+      console.log('[PhotoStorage] No photo URL provided');
+      return null;
+    }
+
+    const path = extractStoragePath(photoUrl, PHOTO_BUCKET);
+    if (!path) {
+      console.error('[PhotoStorage] Failed to extract storage path from:', photoUrl);
+      return null;
+    }
+
+    const { data, error } = await supabase.storage
+      .from(PHOTO_BUCKET)
+      .createSignedUrl(path, expiresIn);
+
+    if (error) {
+      console.error('[PhotoStorage] Error generating signed URL:', error);
+      return null;
+    }
+
+    if (!data?.signedUrl) {
+      console.error('[PhotoStorage] No signed URL returned');
+      return null;
+    }
+
+    console.log('[PhotoStorage] ✓ Generated signed URL for:', path);
+    return data.signedUrl;
+  } catch (error) {
+    console.error('[PhotoStorage] Exception generating signed URL:', error);
+    return null;
+  }
+}
+
+/**
+ * Remove a photo moment's image from storage
+ * A failure is logged rather than thrown so the moment itself can still be deleted
+ */
+export async function deletePhotoFile(photoUrl: string | null): Promise<void> {
+  if (!photoUrl) return;
+
+  const path = extractStoragePath(photoUrl, PHOTO_BUCKET);
+  if (!path) return;
+
+  const { error } = await supabase.storage.from(PHOTO_BUCKET).remove([path]);
+  if (error) {
+    console.error('[PhotoStorage] Error deleting photo from storage:', error);
+  }
+}
+
+/**
+ * Process photo moments to include a signed URL for their image
+ * @param moments - Array of moment objects with photo_url
+ * @param expiresIn - Expiration time in seconds (default: 1 hour)
+ * @returns Moments with signed URLs
+ */
+export async function processPhotoMomentsWithSignedUrls<T extends { photo_url?: string | null }>(
+  moments: T[],
+  expiresIn: number = 3600
+): Promise<(T & { signedPhotoUrl: string | null })[]> {
+  console.log('[PhotoStorage] Processing', moments.length, 'photo moments with signed URLs');
+
+  return Promise.all(
+    moments.map(async (moment) => ({
+      ...moment,
+      signedPhotoUrl: await getSignedPhotoUrl(moment.photo_url ?? null, expiresIn),
+    }))
+  );
+}
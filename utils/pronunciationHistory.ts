@@ -0,0 +1,108 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import { PRONUNCIATION_STAGES, PronunciationStage, PronunciationStageInfo } from '@/data/pronunciationStages';
+
+/**
+ * Pronunciation history
+ * The current stage and pronunciation live on `user_words`; every change is also appended to
+ * `word_pronunciation_history` so the word detail sheet can show how the word evolved
+ */
+
+export interface PronunciationHistoryEntry {
+  id: string;
+  stage: PronunciationStage | null;
+  pronunciation: string | null;
+  recorded_at: string;
+}
+
+// Minimal moment shape needed to place a moment on the timeline
+export interface TimelineMoment {
+  id: string;
+  created_at: string;
+}
+
+export type WordTimelineItem<M extends TimelineMoment> =
+  | { type: 'stage'; date: string; entry: PronunciationHistoryEntry }
+  | { type: 'moment'; date: string; moment: M };
+
+export const isPronunciationStage = (value: string | null | undefined): value is PronunciationStage => {
+  return !!value && PRONUNCIATION_STAGES.some((s) => s.id === value);
+};
+
+export const getPronunciationStageInfo = (stage: PronunciationStage): PronunciationStageInfo => {
+  return PRONUNCIATION_STAGES.find((s) => s.id === stage) || PRONUNCIATION_STAGES[0];
+};
+
+export const fetchPronunciationHistory = async (wordId: string): Promise<PronunciationHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('word_pronunciation_history')
+    .select('id, stage, pronunciation, recorded_at')
+    .eq('user_word_id', wordId)
+    .order('recorded_at', { ascending: false });
+
+  if (error) {
+    console.error('[PronunciationHistory] Error fetching history:', error);
+    throw error;
+  }
+
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    stage: isPronunciationStage(row.stage) ? row.stage : null,
+    pronunciation: row.pronunciation || null,
+    recorded_at: row.recorded_at,
+  }));
+};
+
+/**
+ * Save the current stage/pronunciation on the word and append a dated history entry
+ */
+export const savePronunciation = async (
+  wordId: string,
+  stage: PronunciationStage | null,
+  pronunciation: string | null
+): Promise<PronunciationHistoryEntry> => {
+  const now = new Date().toISOString();
+  const trimmed = pronunciation?.trim() || null;
+
+  const { error: updateError } = await supabase
+    .from('user_words')
+    .update({ pronunciation_stage: stage, pronunciation: trimmed, updated_at: now })
+    .eq('id', wordId);
+
+  if (updateError) {
+    console.error('[PronunciationHistory] Error updating word:', updateError);
+    throw updateError;
+  }
+
+  const { data, error: insertError } = await supabase
+    .from('word_pronunciation_history')
+    .insert({ user_word_id: wordId, stage, pronunciation: trimmed, recorded_at: now })
+    .select('id, stage, pronunciation, recorded_at')
+    .single();
+
+  if (insertError) {
+    console.error('[PronunciationHistory] Error inserting history entry:', insertError);
+    throw insertError;
+  }
+
+  return {
+    id: data.id,
+    stage: isPronunciationStage(data.stage) ? data.stage : null,
+    pronunciation: data.pronunciation || null,
+    recorded_at: data.recorded_at,
+  };
+};
+
+/**
+ * Stage changes and moments for one word, newest first
+ */
+export const buildWordTimeline = <M extends TimelineMoment>(
+  history: PronunciationHistoryEntry[],
+  moments: M[]
+): WordTimelineItem<M>[] => {
+  const items: WordTimelineItem<M>[] = [
+    ...history.map((entry) => ({ type: 'stage' as const, date: entry.recorded_at, entry })),
+    ...moments.map((moment) => ({ type: 'moment' as const, date: moment.created_at, moment })),
+  ];
+
+  return items.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+};
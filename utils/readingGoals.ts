@@ -0,0 +1,126 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ReadingGoal, ReadingGoalPeriod, DEFAULT_READING_GOAL } from '@/data/readingGoals';
+import { getDayKey, ReadingSession } from '@/utils/readingLog';
+
+/**
+ * Reading goals and streaks
+ * Goals are kept on the device per child, next to milestone unlocks
+ */
+
+const GOAL_KEY_PREFIX = '@reading_goal_';
+
+export interface ReadingGoalStatus {
+  // Books read or minutes spent in the current day or week
+  progress: number;
+  target: number;
+  currentMet: boolean;
+  // Consecutive days or weeks meeting the goal, counting the current one once met
+  streak: number;
+  // Grace days still available this week (daily goals only)
+  graceDaysLeft: number;
+}
+
+export async function loadReadingGoal(childId: string): Promise<ReadingGoal | null> {
+  try {
+    const stored = await AsyncStorage.getItem(`${GOAL_KEY_PREFIX}${childId}`);
+    return stored ? { ...DEFAULT_READING_GOAL, ...JSON.parse(stored) } : null;
+  } catch (error) {
+    console.error('readingGoals: Error loading goal:', error);
+    return null;
+  }
+}
+
+export async function saveReadingGoal(childId: string, goal: ReadingGoal | null): Promise<void> {
+  if (goal) {
+    await AsyncStorage.setItem(`${GOAL_KEY_PREFIX}${childId}`, JSON.stringify(goal));
+  } else {
+    await AsyncStorage.removeItem(`${GOAL_KEY_PREFIX}${childId}`);
+  }
+}
+
+/**
+ * Start of the local day, or of the week (Monday) for weekly goals
+ */
+export const getPeriodStart = (date: Date, period: ReadingGoalPeriod): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (period === 'weekly') {
+    const dayOfWeek = start.getDay();
+    start.setDate(start.getDate() + (dayOfWeek === 0 ? -6 : 1 - dayOfWeek));
+  }
+  return start;
+};
+
+const getPreviousPeriodStart = (periodStart: Date, period: ReadingGoalPeriod): Date => {
+  const days = period === 'weekly' ? 7 : 1;
+  return new Date(periodStart.getFullYear(), periodStart.getMonth(), periodStart.getDate() - days);
+};
+
+const getPeriodTotals = (sessions: ReadingSession[], goal: ReadingGoal): Map<string, number> => {
+  const totals = new Map<string, number>();
+  sessions.forEach((session) => {
+    const key = getDayKey(getPeriodStart(new Date(session.read_at), goal.period));
+    const amount = goal.metric === 'minutes' ? session.duration_minutes || 0 : 1;
+    totals.set(key, (totals.get(key) || 0) + amount);
+  });
+  return totals;
+};
+
+/**
+ * Progress towards the current goal and the streak leading up to it
+ * The current day or week never breaks the streak while it is still in progress
+ */
+export function getReadingGoalStatus(
+  sessions: ReadingSession[],
+  goal: ReadingGoal,
+  now: Date = new Date()
+): ReadingGoalStatus {
+  const totals = getPeriodTotals(sessions, goal);
+  const currentStart = getPeriodStart(now, goal.period);
+  const progress = totals.get(getDayKey(currentStart)) || 0;
+  const currentMet = progress >= goal.target;
+
+  const earliestRead = sessions.reduce<Date | null>((earliest, session) => {
+    const readAt = new Date(session.read_at);
+    return !earliest || readAt < earliest ? readAt : earliest;
+  }, null);
+  const earliestStart = earliestRead ? getPeriodStart(earliestRead, goal.period) : null;
+
+  const graceUsedByWeek = new Map<string, number>();
+  let streak = currentMet ? 1 : 0;
+  let cursor = getPreviousPeriodStart(currentStart, goal.period);
+
+  while (earliestStart && cursor >= earliestStart) {
+    if ((totals.get(getDayKey(cursor)) || 0) >= goal.target) {
+      streak++;
+    } else {
+      const weekKey = getDayKey(getPeriodStart(cursor, 'weekly'));
+      const used = graceUsedByWeek.get(weekKey) || 0;
+      if (goal.period !== 'daily' || used >= goal.graceDays) break;
+      graceUsedByWeek.set(weekKey, used + 1);
+    }
+    cursor = getPreviousPeriodStart(cursor, goal.period);
+  }
+
+  // Misses just before a broken streak don't spend this week's grace days
+  const thisWeekKey = getDayKey(getPeriodStart(now, 'weekly'));
+  const graceUsedThisWeek = streak > 0 ? graceUsedByWeek.get(thisWeekKey) || 0 : 0;
+  return {
+    progress,
+    target: goal.target,
+    currentMet,
+    streak,
+    graceDaysLeft: goal.period === 'daily'
+      ? Math.max(0, goal.graceDays - graceUsedThisWeek)
+      : 0,
+  };
+}
+
+/**
+ * Short goal description, e.g. "3 books a day" or "90 minutes a week"
+ */
+export function formatReadingGoal(goal: ReadingGoal): string {
+  const unit = goal.metric === 'books'
+    ? goal.target === 1 ? 'book' : 'books'
+    : goal.target === 1 ? 'minute' : 'minutes';
+  return `${goal.target} ${unit} a ${goal.period === 'daily' ? 'day' : 'week'}`;
+}
@@ -0,0 +1,196 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import { DEFAULT_READERS, READING_ENGAGEMENT_LEVELS, ReadingEngagement } from '@/data/readingLog';
+
+/**
+ * Reading log
+ * One `reading_sessions` row per read-aloud session of a book on a child's shelf
+ */
+
+export interface ReadingSession {
+  id: string;
+  user_book_id: string;
+  book_title: string;
+  read_at: string;
+  reader: string | null;
+  duration_minutes: number | null;
+  engagement: ReadingEngagement | null;
+  note: string | null;
+}
+
+export interface NewReadingSession {
+  user_book_id: string;
+  read_at: string;
+  reader: string | null;
+  duration_minutes: number | null;
+  engagement: ReadingEngagement | null;
+  note: string | null;
+}
+
+export interface MostReadBook {
+  user_book_id: string;
+  book_title: string;
+  count: number;
+}
+
+const SESSION_SELECT = `
+  id,
+  user_book_id,
+  read_at,
+  reader,
+  duration_minutes,
+  engagement,
+  note,
+  user_book:user_books (
+    book:books_library (
+      title
+    )
+  )
+`;
+
+const isReadingEngagement = (value: string | null | undefined): value is ReadingEngagement => {
+  return !!value && READING_ENGAGEMENT_LEVELS.some((e) => e.id === value);
+};
+
+const toReadingSession = (row: any): ReadingSession => ({
+  id: row.id,
+  user_book_id: row.user_book_id,
+  book_title: row.user_book?.book?.title || 'Unknown book',
+  read_at: row.read_at,
+  reader: row.reader || null,
+  duration_minutes: row.duration_minutes ?? null,
+  engagement: isReadingEngagement(row.engagement) ? row.engagement : null,
+  note: row.note || null,
+});
+
+/**
+ * Local calendar day key (YYYY-MM-DD) so sessions group by the day they happened for the family
+ */
+export const getDayKey = (date: Date): string => {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export async function fetchReadingSessions(childId: string): Promise<ReadingSession[]> {
+  const { data, error } = await supabase
+    .from('reading_sessions')
+    .select(SESSION_SELECT)
+    .eq('child_id', childId)
+    .order('read_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toReadingSession);
+}
+
+export async function insertReadingSession(childId: string, session: NewReadingSession): Promise<ReadingSession> {
+  const { data, error } = await supabase
+    .from('reading_sessions')
+    .insert({
+      child_id: childId,
+      user_book_id: session.user_book_id,
+      read_at: session.read_at,
+      reader: session.reader?.trim() || null,
+      duration_minutes: session.duration_minutes,
+      engagement: session.engagement,
+      note: session.note?.trim() || null,
+    })
+    .select(SESSION_SELECT)
+    .single();
+
+  if (error) throw error;
+  return toReadingSession(data);
+}
+
+export async function removeReadingSession(sessionId: string): Promise<void> {
+  const { error } = await supabase
+    .from('reading_sessions')
+    .delete()
+    .eq('id', sessionId);
+
+  if (error) throw error;
+}
+
+/**
+ * Who read, for how long and how engaged the child was, e.g. "Dad · 10 min · 😊 Engaged"
+ */
+export function formatReadingSessionDetails(session: ReadingSession): string {
+  const engagement = READING_ENGAGEMENT_LEVELS.find((e) => e.id === session.engagement);
+  return [
+    session.reader,
+    session.duration_minutes ? `${session.duration_minutes} min` : null,
+    engagement ? `${engagement.emoji} ${engagement.label}` : null,
+  ].filter(Boolean).join(' · ');
+}
+
+/**
+ * Sessions grouped by local day, for the reading calendar
+ */
+export function groupSessionsByDay(sessions: ReadingSession[]): Map<string, ReadingSession[]> {
+  const byDay = new Map<string, ReadingSession[]>();
+  sessions.forEach((session) => {
+    const key = getDayKey(new Date(session.read_at));
+    byDay.set(key, [...(byDay.get(key) || []), session]);
+  });
+  return byDay;
+}
+
+/**
+ * Books read most often since a date, most-read first
+ */
+export function getMostReadBooks(sessions: ReadingSession[], since: Date, limit = 3): MostReadBook[] {
+  const counts = new Map<string, MostReadBook>();
+  sessions.forEach((session) => {
+    if (new Date(session.read_at).getTime() < since.getTime()) return;
+    const existing = counts.get(session.user_book_id);
+    counts.set(session.user_book_id, {
+      user_book_id: session.user_book_id,
+      book_title: session.book_title,
+      count: (existing?.count || 0) + 1,
+    });
+  });
+
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.book_title.localeCompare(b.book_title))
+    .slice(0, limit);
+}
+
+/**
+ * Reader names to offer: the defaults plus anyone who has read to the child before
+ */
+export function getReaderOptions(sessions: ReadingSession[]): string[] {
+  const readers = [...DEFAULT_READERS];
+  sessions.forEach((session) => {
+    if (session.reader && !readers.some((r) => r.toLowerCase() === session.reader!.toLowerCase())) {
+      readers.push(session.reader);
+    }
+  });
+  return readers;
+}
+
+export const getStartOfMonth = (now: Date = new Date()): Date => {
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+};
+
+/**
+ * Month grid for the reading calendar, weeks starting Monday like the weekly stats
+ * Days outside the month are null
+ */
+export function getCalendarWeeks(month: Date): (Date | null)[][] {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const leadingBlanks = (first.getDay() + 6) % 7;
+
+  const cells: (Date | null)[] = Array(leadingBlanks).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    cells.push(new Date(month.getFullYear(), month.getMonth(), day));
+  }
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+
+  const weeks: (Date | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+  return weeks;
+}
@@ -0,0 +1,116 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { ReadingGoal } from '@/data/readingGoals';
+import { getPeriodStart } from '@/utils/readingGoals';
+import { ensureNotificationChannel, NotificationChannel, READING_REMINDER_CHANNEL } from '@/utils/notificationChannels';
+
+/**
+ * Local reading goal reminders
+ * A week of one-off reminders is scheduled per child and rebuilt whenever the
+ * goal or the child's reading log changes, so a met goal cancels the day's reminder
+ */
+
+const REMINDER_DAYS_AHEAD = 7;
+
+let isHandlerConfigured = false;
+
+const getReminderId = (childId: string, dayOffset: number) => `reading-reminder-${childId}-${dayOffset}`;
+
+export function configureReminderHandler() {
+  if (isHandlerConfigured || Platform.OS === 'web') return;
+  isHandlerConfigured = true;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+/**
+ * Ask for notification permission, returning whether reminders can be shown
+ * `channel` is the Android channel the caller's notifications go to
+ */
+export async function requestReminderPermission(
+  channel: NotificationChannel = READING_REMINDER_CHANNEL
+): Promise<boolean> {
+  if (Platform.OS === 'web') return false;
+
+  try {
+    // Android only shows the permission prompt once a channel exists
+    await ensureNotificationChannel(channel);
+
+    const existing = await Notifications.getPermissionsAsync();
+    if (existing.granted) return true;
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  } catch (error) {
+    console.error('readingReminders: Error requesting permission:', error);
+    return false;
+  }
+}
+
+export async function cancelReadingReminders(childId: string): Promise<void> {
+  if (Platform.OS === 'web') return;
+
+  await Promise.all(
+    Array.from({ length: REMINDER_DAYS_AHEAD }, (_, dayOffset) =>
+      Notifications.cancelScheduledNotificationAsync(getReminderId(childId, dayOffset))
+    )
+  );
+}
+
+/**
+ * Schedule reminders at the goal's time for the coming week, skipping any time
+ * that has passed and any day whose day or week goal is already met
+ */
+export async function scheduleReadingReminders(
+  childId: string,
+  childName: string,
+  goal: ReadingGoal | null,
+  currentMet: boolean,
+  now: Date = new Date()
+): Promise<void> {
+  if (Platform.OS === 'web') return;
+
+  await cancelReadingReminders(childId);
+  if (!goal?.reminderEnabled) return;
+
+  const { granted } = await Notifications.getPermissionsAsync();
+  if (!granted) {
+    console.log('readingReminders: Notification permission not granted, skipping reminders');
+    return;
+  }
+
+  const currentStart = getPeriodStart(now, goal.period).getTime();
+  const goalLabel = goal.period === 'daily' ? "today's" : "this week's";
+
+  for (let dayOffset = 0; dayOffset < REMINDER_DAYS_AHEAD; dayOffset++) {
+    const remindAt = new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate() + dayOffset,
+      goal.reminderHour,
+      goal.reminderMinute
+    );
+    if (remindAt <= now) continue;
+    if (currentMet && getPeriodStart(remindAt, goal.period).getTime() === currentStart) continue;
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: getReminderId(childId, dayOffset),
+      content: {
+        title: '📚 Story time?',
+        body: `${childName} hasn't reached ${goalLabel} reading goal yet.`,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: remindAt,
+        channelId: READING_REMINDER_CHANNEL.id,
+      },
+    });
+  }
+}
@@ -119,7 +119,7 @@ export async function getSignedThumbnailUrl(
  * @param bucketName - Name of the storage bucket
  * @returns Storage path or null if extraction fails
  */
-function extractStoragePath(url: string, bucketName: string): string | null {
+export function extractStoragePath(url: string, bucketName: string): string | null {
   try {
     if (!url) {
       console.error('[VideoStorage] Empty URL provided');
@@ -171,6 +171,22 @@ function extractStoragePath(url: string, bucketName: string): string | null {
   }
 }
 
+/**
+ * Remove a video moment's video and thumbnail from storage
+ * A failure is logged rather than thrown so the moment itself can still be deleted
+ */
+export async function deleteVideoFiles(videoUrl: string | null, thumbnailUrl?: string | null): Promise<void> {
+  const paths = [videoUrl, thumbnailUrl]
+    .map((url) => (url ? extractStoragePath(url, 'video-moments') : null))
+    .filter((path): path is string => !!path);
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from('video-moments').remove(paths);
+  if (error) {
+    console.error('[VideoStorage] Error deleting video files from storage:', error);
+  }
+}
+
 /**
  * Process moments data to include signed URLs
  * @param moments - Array of moment objects with video_url and thumbnail_url
@@ -0,0 +1,128 @@
+
+import { VOCABULARY_BENCHMARKS, VocabularyRange } from '@/data/vocabularyBenchmarks';
+
+/**
+ * Vocabulary benchmark
+ * Compares a child's spoken (expressive) and recognised (receptive) word counts
+ * with the age-band ranges in data/vocabularyBenchmarks.ts
+ */
+
+// 'capped': under the range, but only as far as the plan's word limit let words be added
+export type BenchmarkPosition = 'below' | 'lower_typical' | 'upper_typical' | 'above' | 'capped';
+
+export interface BenchmarkComparison {
+  count: number;
+  range: VocabularyRange;
+  position: BenchmarkPosition;
+  message: string;
+}
+
+export interface VocabularyBenchmarkResult {
+  ageMonths: number;
+  // Age the ranges were taken from (clamped to the youngest/oldest band)
+  benchmarkAgeMonths: number;
+  // Under the youngest band - ranges aren't meaningful yet
+  tooYoung: boolean;
+  expressive: BenchmarkComparison;
+  // null past 18 months, when there's no published range for words understood
+  receptive: BenchmarkComparison | null;
+}
+
+const FIRST_BAND = VOCABULARY_BENCHMARKS[0];
+const LAST_BAND = VOCABULARY_BENCHMARKS[VOCABULARY_BENCHMARKS.length - 1];
+
+/**
+ * Child's age in completed months from a YYYY-MM-DD birth date
+ */
+export function getAgeInMonths(birthDate: string, now: Date = new Date()): number {
+  const [year, month, day] = birthDate.split('T')[0].split('-').map(Number);
+  if (!year || !month || !day) return 0;
+
+  const months = (now.getFullYear() - year) * 12 + (now.getMonth() - (month - 1));
+  return Math.max(0, now.getDate() < day ? months - 1 : months);
+}
+
+const interpolate = (a: number, b: number, t: number): number => Math.round(a + (b - a) * t);
+
+const interpolateRange = (a: VocabularyRange, b: VocabularyRange, t: number): VocabularyRange => ({
+  low: interpolate(a.low, b.low, t),
+  typical: interpolate(a.typical, b.typical, t),
+  high: interpolate(a.high, b.high, t),
+});
+
+/**
+ * Ranges for an exact age, interpolated between the surrounding bands
+ */
+export function getBenchmarkForAge(ageMonths: number): { expressive: VocabularyRange; receptive: VocabularyRange | null } {
+  const age = Math.min(Math.max(ageMonths, FIRST_BAND.ageMonths), LAST_BAND.ageMonths);
+  const upperIndex = VOCABULARY_BENCHMARKS.findIndex((band) => band.ageMonths >= age);
+  const upper = VOCABULARY_BENCHMARKS[upperIndex];
+
+  if (upperIndex <= 0 || upper.ageMonths === age) {
+    return { expressive: upper.expressive, receptive: upper.receptive ?? null };
+  }
+
+  const lower = VOCABULARY_BENCHMARKS[upperIndex - 1];
+  const t = (age - lower.ageMonths) / (upper.ageMonths - lower.ageMonths);
+  return {
+    expressive: interpolateRange(lower.expressive, upper.expressive, t),
+    receptive: lower.receptive && upper.receptive ? interpolateRange(lower.receptive, upper.receptive, t) : null,
+  };
+}
+
+const getPosition = (count: number, range: VocabularyRange, atWordLimit: boolean): BenchmarkPosition => {
+  if (count < range.low) return atWordLimit ? 'capped' : 'below';
+  if (count < range.typical) return 'lower_typical';
+  if (count <= range.high) return 'upper_typical';
+  return 'above';
+};
+
+// Wording is deliberately gentle - the app only knows about words parents have logged
+const POSITION_MESSAGES: Record<'expressive' | 'receptive', Record<BenchmarkPosition, string>> = {
+  expressive: {
+    below: 'Fewer spoken words logged than many children this age. Every child finds their voice at their own pace - lots of chatting and reading together really helps.',
+    lower_typical: 'Right within the typical range of spoken words for this age.',
+    upper_typical: 'Within the typical range, towards the upper end for spoken words.',
+    above: 'More spoken words than most children this age - what a chatterbox!',
+    capped: 'The word limit of your plan has been reached, so this only shows the words you could add - not how many are really spoken.',
+  },
+  receptive: {
+    below: 'Fewer understood words logged than many children this age. Children often understand far more than we notice, so keep adding the words you spot.',
+    lower_typical: 'Right within the typical range of understood words for this age.',
+    upper_typical: 'Within the typical range, towards the upper end for understood words.',
+    above: 'Understands more words than most children this age - wonderful!',
+    capped: 'The word limit of your plan has been reached, so this only shows the words you could add - not how many are really understood.',
+  },
+};
+
+/**
+ * Compare the child's counts with the ranges for their age
+ * `atWordLimit` is set when the plan's word limit is reached, so low counts aren't shown as below the range
+ */
+export function evaluateVocabularyBenchmark(
+  birthDate: string,
+  counts: { spoken: number; recognised: number; atWordLimit?: boolean },
+  now: Date = new Date()
+): VocabularyBenchmarkResult {
+  const ageMonths = getAgeInMonths(birthDate, now);
+  const benchmarkAgeMonths = Math.min(Math.max(ageMonths, FIRST_BAND.ageMonths), LAST_BAND.ageMonths);
+  const ranges = getBenchmarkForAge(benchmarkAgeMonths);
+
+  const compare = (range: VocabularyRange, type: 'expressive' | 'receptive', count: number): BenchmarkComparison => {
+    const position = getPosition(count, range, !!counts.atWordLimit);
+    return {
+      count,
+      range,
+      position,
+      message: POSITION_MESSAGES[type][position],
+    };
+  };
+
+  return {
+    ageMonths,
+    benchmarkAgeMonths,
+    tooYoung: ageMonths < FIRST_BAND.ageMonths,
+    expressive: compare(ranges.expressive, 'expressive', counts.spoken),
+    receptive: ranges.receptive ? compare(ranges.receptive, 'receptive', counts.recognised) : null,
+  };
+}
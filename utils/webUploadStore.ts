@@ -0,0 +1,58 @@
+/**
+ * The moment upload queue's files on web
+ * Blob and object URLs stop working when the page reloads, so a queued moment's bytes
+ * are kept in IndexedDB until it's saved, as the app's documents hold them on iOS and Android.
+ * Stored files are referred to as `idb:<file name>`
+ */
+
+const DATABASE_NAME = 'moment-uploads';
+const STORE_NAME = 'files';
+const URI_PREFIX = 'idb:';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const isWebUploadUri = (uri: string): boolean => uri.startsWith(URI_PREFIX);
+
+export async function putWebUploadFile(fileName: string, blob: Blob): Promise<string> {
+  await runRequest('readwrite', (store) => store.put(blob, fileName));
+  return `${URI_PREFIX}${fileName}`;
+}
+
+/**
+ * Resolves with null when the file isn't stored, e.g. the browser cleared the site's data
+ */
+export async function getWebUploadFile(uri: string): Promise<Blob | null> {
+  const blob = await runRequest<Blob | undefined>('readonly', (store) => store.get(uri.slice(URI_PREFIX.length)));
+  return blob ?? null;
+}
+
+export async function deleteWebUploadFile(uri: string): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(uri.slice(URI_PREFIX.length)));
+}
@@ -0,0 +1,121 @@
+
+import { colors } from '@/styles/commonStyles';
+import { EXTRA_WORD_CATEGORIES, WORD_CATEGORIES, WORD_KEYWORDS, WordCategory, WordCategoryInfo } from '@/data/wordCategories';
+
+interface KeywordEntry {
+  emoji: string;
+  category: WordCategory;
+}
+
+// Flattened keyword index built once from the category table
+const KEYWORD_INDEX = new Map<string, KeywordEntry>();
+(Object.keys(WORD_KEYWORDS) as WordCategory[]).forEach((category) => {
+  Object.entries(WORD_KEYWORDS[category] || {}).forEach(([word, emoji]) => {
+    KEYWORD_INDEX.set(word, { emoji, category });
+  });
+});
+
+const DEFAULT_EMOJIS: { [key: string]: string } = {
+  'a': '🍎', 'b': '🎈', 'c': '🐱', 'd': '🐶', 'e': '🥚',
+  'f': '🌸', 'g': '🎁', 'h': '🏠', 'i': '🍦', 'j': '🧃',
+  'k': '🔑', 'l': '💡', 'm': '🎵', 'n': '🌙', 'o': '🍊',
+  'p': '🎨', 'q': '👑', 'r': '🌈', 's': '⭐', 't': '🌳',
+  'u': '☂️', 'v': '🎻', 'w': '🌊', 'x': '❌', 'y': '🟡',
+  'z': '🦓',
+};
+
+/**
+ * Pick an emoji for a word
+ * Exact keyword match first, then partial match, then a default per first letter
+ */
+export const getEmojiForWord = (word: string): string => {
+  const lowerWord = word.toLowerCase().trim();
+
+  const exact = KEYWORD_INDEX.get(lowerWord);
+  if (exact) {
+    return exact.emoji;
+  }
+
+  for (const [key, entry] of KEYWORD_INDEX) {
+    if (lowerWord.includes(key) || key.includes(lowerWord)) {
+      return entry.emoji;
+    }
+  }
+
+  return DEFAULT_EMOJIS[lowerWord.charAt(0)] || '⭐';
+};
+
+const WORD_COLOR_OPTIONS = [
+  colors.cardPink,
+  colors.cardPurple,
+  colors.cardYellow,
+  colors.cardOrange,
+];
+
+/**
+ * Card color for a word, picked from its first letter
+ */
+export const getColorForWord = (word: string): string => {
+  const letterIndex = word.trim().toUpperCase().charCodeAt(0) - 65;
+  const count = WORD_COLOR_OPTIONS.length;
+  // Digits and symbols sit below 'A', so wrap negative indexes too
+  return WORD_COLOR_OPTIONS[((letterIndex % count) + count) % count] || WORD_COLOR_OPTIONS[0];
+};
+
+/**
+ * Infer the category of a word from the keyword table
+ * Matches the whole word, then each individual token (e.g. "big dog"), allowing simple plurals
+ */
+export const getCategoryForWord = (word: string): WordCategory => {
+  const lowerWord = word.toLowerCase().trim();
+  if (!lowerWord) return 'other';
+
+  const exact = KEYWORD_INDEX.get(lowerWord);
+  if (exact) {
+    return exact.category;
+  }
+
+  const tokens = lowerWord.split(/[\s-]+/).filter(Boolean);
+  for (const token of tokens) {
+    const candidates = [token];
+    if (token.endsWith('es')) candidates.push(token.slice(0, -2));
+    if (token.endsWith('s')) candidates.push(token.slice(0, -1));
+
+    for (const candidate of candidates) {
+      const entry = KEYWORD_INDEX.get(candidate);
+      if (entry) {
+        return entry.category;
+      }
+    }
+  }
+
+  return 'other';
+};
+
+export const isWordCategory = (value: string | null | undefined): value is WordCategory => {
+  return !!value && WORD_CATEGORIES.some((c) => c.id === value);
+};
+
+/**
+ * Category stored on the word, falling back to inference for words saved before tagging existed
+ */
+export const resolveWordCategory = (storedCategory: string | null | undefined, word: string): WordCategory => {
+  return isWordCategory(storedCategory) ? storedCategory : getCategoryForWord(word);
+};
+
+/**
+ * Every category a word counts for: its own, plus a keyword's extra ones (see EXTRA_WORD_CATEGORIES)
+ * The extras are left out once the parent has moved the word to another category
+ */
+export const getWordCategories = (storedCategory: string | null | undefined, word: string): WordCategory[] => {
+  const category = resolveWordCategory(storedCategory, word);
+  const lowerWord = word.toLowerCase().trim();
+  if (KEYWORD_INDEX.get(lowerWord)?.category !== category) {
+    return [category];
+  }
+  return [category, ...(EXTRA_WORD_CATEGORIES[lowerWord] || []).filter((extra) => extra !== category)];
+};
+
+export const getCategoryInfo = (category: WordCategory): WordCategoryInfo => {
+  return WORD_CATEGORIES.find((c) => c.id === category) || WORD_CATEGORIES[WORD_CATEGORIES.length - 1];
+};
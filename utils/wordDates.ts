@@ -0,0 +1,78 @@
+import { supabase } from '@/app/integrations/supabase/client';
+
+/**
+ * First-said dates
+ * `created_at` is when the parent typed the word; `first_recognised_at` / `first_spoken_at` are when the
+ * child actually understood / said it, and can be backdated. Stats, charts and milestones use these dates.
+ */
+
+export type WordDateField = 'first_spoken_at' | 'first_recognised_at';
+
+export interface WordDateRow {
+  created_at: string;
+  is_spoken: boolean;
+  is_recognised: boolean;
+  first_spoken_at?: string | null;
+  first_recognised_at?: string | null;
+}
+
+/**
+ * When the child first said the word, falling back to when it was added for rows saved before the dates existed
+ */
+export const getFirstSpokenDate = (row: WordDateRow): string | null => {
+  if (!row.is_spoken) return null;
+  return row.first_spoken_at || row.created_at;
+};
+
+/**
+ * When the child first understood the word, with the same fallback
+ */
+export const getFirstRecognisedDate = (row: WordDateRow): string | null => {
+  if (!row.is_recognised) return null;
+  return row.first_recognised_at || row.created_at;
+};
+
+/**
+ * PostgREST `or` filter for words the child started saying or understanding since a date
+ * Words without either status are still counted from when they were added
+ */
+export const getWordsFirstSaidSinceFilter = (sinceISO: string): string => {
+  return [
+    `and(is_spoken.eq.true,first_spoken_at.gte.${sinceISO})`,
+    `and(is_recognised.eq.true,first_recognised_at.gte.${sinceISO})`,
+    `and(first_spoken_at.is.null,first_recognised_at.is.null,created_at.gte.${sinceISO})`,
+  ].join(',');
+};
+
+/**
+ * Date fields to set alongside a status change
+ * Turning a status on stamps today's date unless a date was already recorded; turning it off keeps the
+ * date so a status toggled off by mistake doesn't lose a backdated date
+ */
+export const getStatusDateUpdate = (
+  field: 'is_spoken' | 'is_recognised',
+  value: boolean,
+  row: Pick<WordDateRow, 'first_spoken_at' | 'first_recognised_at'>
+): Partial<Record<WordDateField, string>> => {
+  if (!value) return {};
+  const dateField: WordDateField = field === 'is_spoken' ? 'first_spoken_at' : 'first_recognised_at';
+  return row[dateField] ? {} : { [dateField]: new Date().toISOString() };
+};
+
+/**
+ * Backdate (or correct) one of a word's first-said dates
+ */
+export const updateWordFirstDate = async (wordId: string, field: WordDateField, date: Date): Promise<string> => {
+  const iso = date.toISOString();
+  const { error } = await supabase
+    .from('user_words')
+    .update({ [field]: iso, updated_at: new Date().toISOString() })
+    .eq('id', wordId);
+
+  if (error) {
+    console.error('[WordDates] Error updating', field, error);
+    throw error;
+  }
+
+  return iso;
+};
@@ -0,0 +1,131 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import { FIRST_WORDS_CHECKLIST, ChecklistWord } from '@/data/firstWordsChecklist';
+import type { WordCategory } from '@/data/wordCategories';
+import { resolveWordCategory } from '@/utils/wordCategories';
+
+/**
+ * Word suggestions
+ * Ranks first-words checklist entries the child doesn't have yet by how common they are, how well they
+ * fit the child's age and how thinly the child's words cover their category, and picks a daily word to try
+ */
+
+export interface SuggestionSourceWord {
+  custom_word: string;
+  category: string | null;
+}
+
+export interface WordSuggestion extends ChecklistWord {
+  category: WordCategory;
+  score: number;
+}
+
+export interface WordSuggestions {
+  wordOfTheDay: WordSuggestion | null;
+  suggestions: WordSuggestion[];
+}
+
+// Rough age (months) words in each category usually start to appear
+const CATEGORY_TYPICAL_AGE: Partial<Record<WordCategory, number>> = {
+  other: 12,
+  people: 12,
+  animals: 14,
+  food: 14,
+  body_parts: 16,
+  things: 16,
+  clothing: 18,
+  vehicles: 18,
+  actions: 20,
+  nature: 22,
+  places: 22,
+  feelings: 26,
+  colors: 28,
+  numbers: 30,
+  time: 32,
+};
+
+const DEFAULT_TYPICAL_AGE = 24;
+const SUGGESTION_COUNT = 8;
+// The word of the day rotates through this many of the best-ranked words
+const WORD_OF_THE_DAY_POOL = 5;
+
+const normalize = (value: string): string => value.toLowerCase().trim();
+
+/**
+ * 1 when the category is usually reached by this age, fading out over the following 8 months
+ */
+const getAgeFit = (category: WordCategory, ageMonths: number | null): number => {
+  if (ageMonths === null) return 1;
+  const typicalAge = CATEGORY_TYPICAL_AGE[category] ?? DEFAULT_TYPICAL_AGE;
+  return Math.max(0, Math.min(1, 1 - (typicalAge - ageMonths) / 8));
+};
+
+/**
+ * Small stable hash so the word of the day is the same all day for a child
+ */
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const getLocalDateKey = (date: Date): string => {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+};
+
+export function buildWordSuggestions(
+  childId: string,
+  existingWords: SuggestionSourceWord[],
+  ageMonths: number | null,
+  now: Date = new Date()
+): WordSuggestions {
+  const existing = new Set(existingWords.map((w) => normalize(w.custom_word || '')));
+  const categoryCounts = new Map<WordCategory, number>();
+  existingWords.forEach((w) => {
+    const category = resolveWordCategory(w.category, w.custom_word || '');
+    categoryCounts.set(category, (categoryCounts.get(category) || 0) + 1);
+  });
+  const maxCategoryCount = Math.max(1, ...categoryCounts.values());
+
+  const ranked: WordSuggestion[] = [];
+  FIRST_WORDS_CHECKLIST.forEach((section) => {
+    // Categories the child has few words in are favoured, to broaden their vocabulary
+    const coverageGap = 1 - (categoryCounts.get(section.category) || 0) / maxCategoryCount;
+    const ageFit = getAgeFit(section.category, ageMonths);
+
+    section.words.forEach((item, index) => {
+      if (existing.has(normalize(item.word))) return;
+      // Checklist sections list the most common words first
+      const commonness = 1 - index / section.words.length;
+      ranked.push({
+        ...item,
+        category: section.category,
+        score: 0.45 * commonness + 0.3 * coverageGap + 0.25 * ageFit,
+      });
+    });
+  });
+
+  ranked.sort((a, b) => b.score - a.score);
+  if (ranked.length === 0) {
+    return { wordOfTheDay: null, suggestions: [] };
+  }
+
+  const pool = ranked.slice(0, WORD_OF_THE_DAY_POOL);
+  const wordOfTheDay = pool[hashString(`${childId}-${getLocalDateKey(now)}`) % pool.length];
+
+  return {
+    wordOfTheDay,
+    suggestions: ranked.filter((s) => s !== wordOfTheDay).slice(0, SUGGESTION_COUNT),
+  };
+}
+
+export async function fetchSuggestionSourceWords(childId: string): Promise<SuggestionSourceWord[]> {
+  const { data, error } = await supabase
+    .from('user_words')
+    .select('custom_word, category')
+    .eq('child_id', childId);
+
+  if (error) throw error;
+  return (data || []) as SuggestionSourceWord[];
+}
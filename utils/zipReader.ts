@@ -0,0 +1,215 @@
+import type { File } from 'expo-file-system';
+import { Inflate } from 'pako';
+import { updateCrc32 } from '@/utils/zipWriter';
+
+/**
+ * Streaming zip reader
+ * Reads a zip on the device through a file handle: only the directory at the end of the
+ * zip is read up front, and entries are extracted to files in chunks, so a large export
+ * with videos never has to be held in memory. Reads stored and deflated entries, as
+ * written by utils/zipWriter.ts, the browser export or a zip tool. No zip64 extension
+ */
+
+const CHUNK_SIZE = 1024 * 1024;
+const NOT_A_ZIP_MESSAGE = 'This file is not a zip archive';
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+// The end record may be followed by a comment of up to 65,535 bytes
+const MAX_COMMENT_LENGTH = 0xffff;
+// Values zip64 archives put in the plain fields
+const ZIP64_MARKER = 0xffffffff;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+export interface ZipReaderEntry {
+  path: string;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  headerOffset: number;
+}
+
+export interface ZipReader {
+  // Entries by path; folders are left out
+  entries: Map<string, ZipReaderEntry>;
+  /**
+   * Read a small entry, such as archive.json, into a string
+   */
+  readText: (path: string) => Promise<string>;
+  /**
+   * Extract an entry to `target`, replacing any file already there
+   * Resolves once it's written and its CRC checked; the UI gets a turn between chunks
+   */
+  extractTo: (path: string, target: File) => Promise<void>;
+}
+
+const readUint16 = (bytes: Uint8Array, offset: number): number => bytes[offset] | (bytes[offset + 1] << 8);
+
+const readUint32 = (bytes: Uint8Array, offset: number): number => {
+  return (readUint16(bytes, offset) | (readUint16(bytes, offset + 2) << 16)) >>> 0;
+};
+
+/**
+ * Read the directory of the zip in `source`
+ * @throws Error when the file isn't a zip, uses zip64 or is cut short
+ */
+export function openZipReader(source: File): ZipReader {
+  const decoder = new TextDecoder();
+  const fileSize = source.size;
+  const entries = new Map<string, ZipReaderEntry>();
+
+  const readAt = (offset: number, length: number): Uint8Array => {
+    const handle = source.open();
+    try {
+      handle.offset = offset;
+      const bytes = handle.readBytes(length);
+      if (bytes.length < length) {
+        throw new Error(`Zip ended early: ${source.uri}`);
+      }
+      return bytes;
+    } finally {
+      handle.close();
+    }
+  };
+
+  // The end record is the last thing in the zip, before its comment
+  const tailLength = Math.min(fileSize, END_OF_CENTRAL_DIRECTORY_SIZE + MAX_COMMENT_LENGTH);
+  if (tailLength < END_OF_CENTRAL_DIRECTORY_SIZE) {
+    throw new Error(NOT_A_ZIP_MESSAGE);
+  }
+  const tail = readAt(fileSize - tailLength, tailLength);
+  let endOffset = -1;
+  for (let i = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+    if (readUint32(tail, i) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error(NOT_A_ZIP_MESSAGE);
+  }
+
+  const entryCount = readUint16(tail, endOffset + 10);
+  const directorySize = readUint32(tail, endOffset + 12);
+  const directoryOffset = readUint32(tail, endOffset + 16);
+  if (directorySize === ZIP64_MARKER || directoryOffset === ZIP64_MARKER) {
+    throw new Error('Zip files over 4GB are not supported');
+  }
+
+  const directory = readAt(directoryOffset, directorySize);
+  let position = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (readUint32(directory, position) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error(NOT_A_ZIP_MESSAGE);
+    }
+    const nameLength = readUint16(directory, position + 28);
+    const extraLength = readUint16(directory, position + 30);
+    const commentLength = readUint16(directory, position + 32);
+    const path = decoder.decode(directory.subarray(position + 46, position + 46 + nameLength));
+
+    if (!path.endsWith('/')) {
+      entries.set(path, {
+        path,
+        method: readUint16(directory, position + 10),
+        crc: readUint32(directory, position + 16),
+        compressedSize: readUint32(directory, position + 20),
+        size: readUint32(directory, position + 24),
+        headerOffset: readUint32(directory, position + 42),
+      });
+    }
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const getEntry = (path: string): ZipReaderEntry => {
+    const entry = entries.get(path);
+    if (!entry) {
+      throw new Error(`File missing from zip: ${path}`);
+    }
+    if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATED) {
+      throw new Error(`Unsupported compression for ${path}`);
+    }
+    return entry;
+  };
+
+  /**
+   * Pass an entry's contents to `onData` a chunk at a time, checking its CRC at the end
+   */
+  const readEntry = async (entry: ZipReaderEntry, onData: (chunk: Uint8Array) => void) => {
+    // The local header's name and extra field can differ in length from the directory's
+    const header = readAt(entry.headerOffset, 30);
+    if (readUint32(header, 0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(NOT_A_ZIP_MESSAGE);
+    }
+    const dataOffset = entry.headerOffset + 30 + readUint16(header, 26) + readUint16(header, 28);
+
+    let crc = 0;
+    const output = (chunk: Uint8Array) => {
+      crc = updateCrc32(crc, chunk);
+      onData(chunk);
+    };
+
+    let inflate: Inflate | null = null;
+    if (entry.method === METHOD_DEFLATED) {
+      inflate = new Inflate({ raw: true });
+      inflate.onData = (chunk) => output(chunk as Uint8Array);
+    }
+
+    const handle = source.open();
+    try {
+      handle.offset = dataOffset;
+      let read = 0;
+      while (read < entry.compressedSize) {
+        const chunk = handle.readBytes(Math.min(CHUNK_SIZE, entry.compressedSize - read));
+        if (chunk.length === 0) {
+          throw new Error(`Zip ended early: ${source.uri}`);
+        }
+        read += chunk.length;
+        if (inflate) {
+          inflate.push(chunk, read === entry.compressedSize);
+          if (inflate.err) {
+            throw new Error(`Could not decompress ${entry.path}: ${inflate.msg}`);
+          }
+        } else {
+          output(chunk);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    } finally {
+      handle.close();
+    }
+
+    if (crc !== entry.crc) {
+      throw new Error(`${entry.path} is corrupted`);
+    }
+  };
+
+  return {
+    entries,
+
+    async readText(path) {
+      const entry = getEntry(path);
+      const contents = new Uint8Array(entry.size);
+      let length = 0;
+      await readEntry(entry, (chunk) => {
+        contents.set(chunk, length);
+        length += chunk.length;
+      });
+      return decoder.decode(contents.subarray(0, length));
+    },
+
+    async extractTo(path, target) {
+      const entry = getEntry(path);
+      target.create({ overwrite: true });
+      const handle = target.open();
+      try {
+        await readEntry(entry, (chunk) => handle.writeBytes(chunk));
+      } finally {
+        handle.close();
+      }
+    },
+  };
+}
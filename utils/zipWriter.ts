@@ -0,0 +1,251 @@
+import type { File } from 'expo-file-system';
+
+/**
+ * Streaming zip writer
+ * Writes a zip straight to a file on the device, copying each entry in chunks so a
+ * large video never has to be held in memory. Entries are stored rather than compressed:
+ * videos, audio clips and photos are already compressed, and storing keeps the copy fast.
+ * Plain zip without the zip64 extension, so archives and entries are limited to 4GB
+ */
+
+const CHUNK_SIZE = 1024 * 1024;
+const MAX_ZIP_OFFSET = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+const TOO_LARGE_MESSAGE = 'The export is too large for a zip file (4GB or 65,535 files)';
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20;
+// Entry names are UTF-8
+const UTF8_FLAG = 0x0800;
+// Offset of the CRC and sizes within a local header
+const LOCAL_HEADER_CRC_OFFSET = 14;
+
+export interface ZipWriter {
+  addText: (path: string, text: string) => void;
+  /**
+   * Copy a file on the device into the zip
+   * Resolves once it's written; the UI gets a turn between chunks
+   */
+  addFile: (path: string, source: File) => Promise<void>;
+  /**
+   * Write the zip's directory and close the file
+   */
+  finish: () => void;
+  /**
+   * Close the file without finishing it, e.g. when the export failed
+   */
+  abort: () => void;
+}
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * Continue a CRC-32 over more bytes; start with 0
+ */
+export function updateCrc32(crc: number, bytes: Uint8Array): number {
+  const table = getCrcTable();
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    c = table[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, which zip entries are stamped with
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+class ByteWriter {
+  readonly bytes: Uint8Array;
+  private view: DataView;
+  private position = 0;
+
+  constructor(length: number) {
+    this.bytes = new Uint8Array(length);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  uint16(value: number): this {
+    this.view.setUint16(this.position, value, true);
+    this.position += 2;
+    return this;
+  }
+
+  uint32(value: number): this {
+    this.view.setUint32(this.position, value, true);
+    this.position += 4;
+    return this;
+  }
+
+  raw(value: Uint8Array): this {
+    this.bytes.set(value, this.position);
+    this.position += value.length;
+    return this;
+  }
+}
+
+/**
+ * Start a zip in `target`, replacing any file already there
+ * @throws Error when an entry or the whole zip goes past the 4GB limit
+ */
+export function createZipWriter(target: File, modifiedAt: Date = new Date()): ZipWriter {
+  target.create({ overwrite: true });
+  const handle = target.open();
+  const encoder = new TextEncoder();
+  const stamp = toDosDateTime(modifiedAt);
+  const entries: ZipEntry[] = [];
+  let position = 0;
+  let closed = false;
+
+  const write = (bytes: Uint8Array) => {
+    handle.writeBytes(bytes);
+    position += bytes.length;
+  };
+
+  const checkLimits = (name: Uint8Array, size: number) => {
+    if (entries.length >= MAX_ZIP_ENTRIES || position + 30 + name.length + size > MAX_ZIP_OFFSET) {
+      throw new Error(TOO_LARGE_MESSAGE);
+    }
+  };
+
+  const localHeader = (entry: ZipEntry): Uint8Array => {
+    return new ByteWriter(30 + entry.name.length)
+      .uint32(LOCAL_HEADER_SIGNATURE)
+      .uint16(ZIP_VERSION)
+      .uint16(UTF8_FLAG)
+      .uint16(0) // Stored
+      .uint16(stamp.time)
+      .uint16(stamp.date)
+      .uint32(entry.crc)
+      .uint32(entry.size)
+      .uint32(entry.size)
+      .uint16(entry.name.length)
+      .uint16(0) // Extra field length
+      .raw(entry.name).bytes;
+  };
+
+  const centralHeader = (entry: ZipEntry): Uint8Array => {
+    return new ByteWriter(46 + entry.name.length)
+      .uint32(CENTRAL_HEADER_SIGNATURE)
+      .uint16(ZIP_VERSION)
+      .uint16(ZIP_VERSION)
+      .uint16(UTF8_FLAG)
+      .uint16(0) // Stored
+      .uint16(stamp.time)
+      .uint16(stamp.date)
+      .uint32(entry.crc)
+      .uint32(entry.size)
+      .uint32(entry.size)
+      .uint16(entry.name.length)
+      .uint16(0) // Extra field length
+      .uint16(0) // Comment length
+      .uint16(0) // Disk number
+      .uint16(0) // Internal attributes
+      .uint32(0) // External attributes
+      .uint32(entry.offset)
+      .raw(entry.name).bytes;
+  };
+
+  const close = () => {
+    if (!closed) {
+      closed = true;
+      handle.close();
+    }
+  };
+
+  return {
+    addText(path, text) {
+      const name = encoder.encode(path);
+      const data = encoder.encode(text);
+      checkLimits(name, data.length);
+      const entry: ZipEntry = { name, crc: updateCrc32(0, data), size: data.length, offset: position };
+      write(localHeader(entry));
+      write(data);
+      entries.push(entry);
+    },
+
+    async addFile(path, source) {
+      const name = encoder.encode(path);
+      const size = source.size;
+      checkLimits(name, size);
+      const entry: ZipEntry = { name, crc: 0, size, offset: position };
+      // The CRC is only known once the file's been read, so the header is written again after
+      write(localHeader(entry));
+
+      const sourceHandle = source.open();
+      try {
+        let copied = 0;
+        while (copied < size) {
+          const chunk = sourceHandle.readBytes(Math.min(CHUNK_SIZE, size - copied));
+          if (chunk.length === 0) {
+            throw new Error(`File ended early: ${source.uri}`);
+          }
+          entry.crc = updateCrc32(entry.crc, chunk);
+          write(chunk);
+          copied += chunk.length;
+          await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+      } finally {
+        sourceHandle.close();
+      }
+
+      handle.offset = entry.offset + LOCAL_HEADER_CRC_OFFSET;
+      handle.writeBytes(new ByteWriter(12).uint32(entry.crc).uint32(size).uint32(size).bytes);
+      handle.offset = position;
+      entries.push(entry);
+    },
+
+    finish() {
+      const directory = entries.map(centralHeader);
+      const directoryOffset = position;
+      const directorySize = directory.reduce((sum, header) => sum + header.length, 0);
+      if (directoryOffset + directorySize > MAX_ZIP_OFFSET) {
+        throw new Error(TOO_LARGE_MESSAGE);
+      }
+      directory.forEach(write);
+      write(
+        new ByteWriter(22)
+          .uint32(END_OF_CENTRAL_DIRECTORY_SIGNATURE)
+          .uint16(0) // This disk
+          .uint16(0) // Disk with the directory
+          .uint16(entries.length)
+          .uint16(entries.length)
+          .uint32(directorySize)
+          .uint32(directoryOffset)
+          .uint16(0).bytes
+      );
+      close();
+    },
+
+    abort() {
+      close();
+    },
+  };
+}
@@ -3,6 +3,8 @@ module.exports = {
 	globPatterns: [
 		'**/*.{js,css,html,png,jpg,jpeg,svg,ico,json}'
 	],
+	// The ffmpeg core is only fetched when a video is trimmed on web
+	globIgnores: ['ffmpeg/**'],
 	swDest: 'dist/sw.js',
 	skipWaiting: true,
 	clientsClaim: true,